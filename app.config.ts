@@ -30,6 +30,15 @@ export default ({ config }: ConfigContext): ExpoConfig => {
                 ITSAppUsesNonExemptEncryption: false,
                 NSCameraUsageDescription: 'Divvit needs camera access to take group photos after splitting a bill.',
                 NSPhotoLibraryUsageDescription: 'Divvit needs photo library access to save group photos.',
+                // "Open in Divvit" for PDF receipts and receipt screenshots from other apps
+                CFBundleDocumentTypes: [
+                    {
+                        CFBundleTypeName: 'Receipt',
+                        LSHandlerRank: 'Alternate',
+                        LSItemContentTypes: ['com.adobe.pdf', 'public.jpeg', 'public.png', 'public.heic'],
+                    },
+                ],
+                LSSupportsOpeningDocumentsInPlace: false,
                 LSApplicationQueriesSchemes: [
                     'venmo',
                     'cashme',
@@ -55,6 +64,14 @@ export default ({ config }: ConfigContext): ExpoConfig => {
                 backgroundColor: '#ffffff',
             },
             edgeToEdgeEnabled: true,
+            // "Open with Divvit" for PDF receipts and receipt screenshots from other apps
+            intentFilters: [
+                {
+                    action: 'VIEW',
+                    category: ['DEFAULT'],
+                    data: [{ mimeType: 'application/pdf' }, { mimeType: 'image/*' }],
+                },
+            ],
             predictiveBackGestureEnabled: false,
         },
         web: {
@@ -85,6 +102,16 @@ export default ({ config }: ConfigContext): ExpoConfig => {
                 },
             ],
             '@react-native-community/datetimepicker',
+            [
+                // "Share → Divvit" on Android: a SEND intent filter for PDF receipts and images,
+                // handed to the capture screen by ShareIntentHandler (app/_layout.tsx). iOS uses
+                // CFBundleDocumentTypes above instead of a share extension.
+                'expo-share-intent',
+                {
+                    androidIntentFilters: ['application/pdf', 'image/*'],
+                    disableIOS: true,
+                },
+            ],
         ],
         experiments: {
             typedRoutes: false,
@@ -15,14 +15,21 @@ import * as Haptics from 'expo-haptics';
 import { Utensils, Share2, CheckCircle } from 'lucide-react-native';
 import { useAuth } from '../../context/AuthContext';
 import TabHeader from '@/components/TabHeader';
+import ReceiptImageViewer from '@/components/ReceiptImageViewer';
 import { getUserPoints } from '@/services/rewardsService';
 import { supabase } from '../../lib/supabase';
+import { finalizedBillShares } from '../../utils/billShares';
+import { describeTipSettings, readTipSettings } from '../../utils/tipSettings';
+import { formatLineAmount } from '../../utils/receiptItems';
+import { currencyDecimals, formatMoney, readBillCurrency } from '../../utils/currency';
+import { formatTransactionDate, readReceiptDetails } from '../../utils/receiptDetails';
+import { BillLineKind, ItemSplit, TipSettings } from '../../types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 // --- Types ---
 type User = { id: string; name: string; color: string; initials: string; };
-type BillItem = { id: string; name: string; price: number; };
+type BillItem = { id: string; name: string; price: number; quantity?: number; kind?: BillLineKind; };
 type BillParticipantRow = {
     id: string;
     user_id: string | null;
@@ -30,6 +37,7 @@ type BillParticipantRow = {
     is_guest: boolean;
     color: string;
     initials: string;
+    tip_percentage?: number | null;
 };
 type PaymentRequestRow = {
     bill_id: string;
@@ -47,16 +55,24 @@ type Bill = {
         items: BillItem[];
         tax: number;
         tip: number;
+        tipSettings?: TipSettings | null;
         scannedTip?: number;
         subtotal: number;
         users: User[];
         assignments: Record<string, string[]>;
+        itemSplits?: Record<string, ItemSplit>;
         userTotals: Record<string, number>;
         paidStatus: string[];
         closedAt: string;
     };
     group_photo_url?: string;
     created_at: string;
+    currency?: string | null;
+    settlement_currency?: string | null;
+    exchange_rate?: number | null;
+    merchant?: string | null;
+    transaction_date?: string | null;
+    receipt_image_urls?: string[] | null;
     bill_participants?: BillParticipantRow[];
 };
 
@@ -93,47 +109,36 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
     const { items = [], tax = 0, tip = 0, scannedTip = 0, subtotal = 0, users = [], userTotals = {}, paidStatus = [] } = details || {};
     const settled = getBillSettled(bill);
     const splitType = getSplitType(bill);
-    const dateStr = formatDate(created_at);
-    const computedSubtotal = subtotal || items.reduce((acc, i) => acc + i.price, 0);
+    const { merchant, transactionDate, receiptImages } = readReceiptDetails(bill);
+    const dateStr = transactionDate ? formatTransactionDate(transactionDate) : formatDate(created_at);
+    const { currency } = readBillCurrency(bill);
+    const [showReceipt, setShowReceipt] = useState(false);
+    const tipDescription = describeTipSettings(readTipSettings(details));
+    const computedSubtotal = subtotal || items.filter((i) => i.kind !== 'fee').reduce((acc, i) => acc + i.price, 0);
+    const feesTotal = items.filter((i) => i.kind === 'fee').reduce((acc, i) => acc + i.price, 0);
 
     // FIX 2: Total with fallback
     const displayTotal = (total_amount && total_amount > computedSubtotal)
         ? total_amount
-        : (computedSubtotal + tax + tip + scannedTip);
+        : (computedSubtotal + feesTotal + tax + tip + scannedTip);
 
     // Helpers using bill_participants + payment_requests + details fallback
     const billParticipants = bill.bill_participants || [];
     const detailAssignments: Record<string, string[]> = bill.details?.assignments || {};
 
-    // Pre-calculate shares from details.items + details.assignments (always available)
-    const calculatedShares: Record<string, number> = {};
-    if (items.length > 0 && Object.keys(detailAssignments).length > 0) {
-        users.forEach(u => { calculatedShares[u.id] = 0; });
-        items.forEach(item => {
-            const assignedIds: string[] = detailAssignments[item.id] || [];
-            if (assignedIds.length > 0) {
-                const perPerson = (item.price || 0) / assignedIds.length;
-                assignedIds.forEach(id => {
-                    if (calculatedShares[id] !== undefined) {
-                        calculatedShares[id] += perPerson;
-                    }
-                });
-            }
-        });
-        // Add proportional tax + tip
-        users.forEach(u => {
-            const itemShare = calculatedShares[u.id] || 0;
-            const proportion = computedSubtotal > 0
-                ? itemShare / computedSubtotal
-                : 1 / (users.length || 1);
-            calculatedShares[u.id] = itemShare + (tax + tip) * proportion;
-        });
-    }
+    // Same split the payment screen shows: details.shares, or worked out from the saved tip, tax rate and treats
+    const shareParticipants = users.length > 0
+        ? users.map(u => ({ id: u.id, tip_percentage: billParticipants.find(p => p.id === u.id)?.tip_percentage }))
+        : billParticipants;
+    const calculatedShares: Record<string, number> = finalizedBillShares(details, shareParticipants, [], currencyDecimals(currency));
 
     const getAmountForUser = (userId: string): number => {
         // Try userTotals from details JSONB first (standalone flow)
         if (userTotals[userId] && userTotals[userId] > 0) return userTotals[userId];
 
+        // The finalized split: a covered guest owes nothing and whoever treated them owes it instead
+        if (userId in calculatedShares) return calculatedShares[userId];
+
         // Find matching bill_participant
         const bp = billParticipants.find(p => p.id === userId || p.user_id === userId);
         const authUserId = bp?.user_id || userId;
@@ -150,11 +155,6 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
             if (req) return Number(req.amount) || 0;
         }
 
-        // Fallback: use calculated shares from details.items + details.assignments
-        if (calculatedShares[userId] && calculatedShares[userId] > 0) {
-            return calculatedShares[userId];
-        }
-
         // Last resort: equal split
         return displayTotal / (users.length || 1);
     };
@@ -197,19 +197,36 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
             }}>
                 {/* A) Restaurant Header */}
                 <View style={{ alignItems: 'center', marginBottom: 32 }}>
-                    <View style={{
-                        width: 64, height: 64, backgroundColor: '#6346cd',
-                        borderRadius: 20, alignItems: 'center', justifyContent: 'center',
-                        marginBottom: 16,
-                    }}>
-                        <Utensils size={32} color="#ffffff" />
-                    </View>
-                    <Text style={{ fontSize: 28, fontWeight: '800', color: '#111827', letterSpacing: -0.5, marginBottom: 4 }}>
-                        Shared Bill
+                    {receiptImages.length > 0 ? (
+                        <TouchableOpacity onPress={() => setShowReceipt(true)} activeOpacity={0.8} style={{ marginBottom: 16 }}>
+                            <Image
+                                source={{ uri: receiptImages[0] }}
+                                style={{ width: 64, height: 64, borderRadius: 20, backgroundColor: '#f1f3ff' }}
+                            />
+                        </TouchableOpacity>
+                    ) : (
+                        <View style={{
+                            width: 64, height: 64, backgroundColor: '#6346cd',
+                            borderRadius: 20, alignItems: 'center', justifyContent: 'center',
+                            marginBottom: 16,
+                        }}>
+                            <Utensils size={32} color="#ffffff" />
+                        </View>
+                    )}
+                    <Text
+                        style={{ fontSize: 28, fontWeight: '800', color: '#111827', letterSpacing: -0.5, marginBottom: 4, textAlign: 'center' }}
+                        numberOfLines={2}
+                    >
+                        {merchant || 'Shared Bill'}
                     </Text>
                     <Text style={{ fontSize: 14, color: '#484554', fontWeight: '500', marginBottom: 16 }}>
                         {dateStr}
                     </Text>
+                    {receiptImages.length > 0 && (
+                        <TouchableOpacity onPress={() => setShowReceipt(true)} style={{ marginTop: -8, marginBottom: 16 }}>
+                            <Text style={{ fontSize: 12, color: '#4b29b4', fontWeight: '700' }}>View receipt</Text>
+                        </TouchableOpacity>
+                    )}
                     <View style={{
                         paddingHorizontal: 16, paddingVertical: 6,
                         backgroundColor: settled ? '#dcfce7' : '#fef3c7',
@@ -239,9 +256,13 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
                         <View key={item?.id ? `item-${item.id}` : `item-${idx}`} style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: idx < items.length - 1 ? 16 : 24 }}>
                             <View style={{ flex: 1, marginRight: 16 }}>
                                 <Text style={{ fontWeight: '700', color: '#111827', fontSize: 14 }}>{item?.name || 'Item'}</Text>
-                                <Text style={{ fontSize: 12, color: '#484554', marginTop: 2 }}>1 × ${(item?.price ?? 0).toFixed(2)}</Text>
+                                <Text style={{ fontSize: 12, color: '#484554', marginTop: 2 }}>
+                                    {item?.kind === 'discount'
+                                        ? 'Discount'
+                                        : `${item?.quantity || 1} × ${formatLineAmount((item?.price ?? 0) / (item?.quantity || 1), currency)}`}
+                                </Text>
                             </View>
-                            <Text style={{ fontWeight: '700', color: '#111827', fontSize: 14 }}>${(item?.price ?? 0).toFixed(2)}</Text>
+                            <Text style={{ fontWeight: '700', color: '#111827', fontSize: 14 }}>{formatLineAmount(item?.price ?? 0, currency)}</Text>
                         </View>
                     ))}
 
@@ -251,33 +272,45 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
                     {/* Totals */}
                     <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 }}>
                         <Text style={{ color: '#484554', fontWeight: '500', fontSize: 14 }}>Subtotal</Text>
-                        <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>${computedSubtotal.toFixed(2)}</Text>
+                        <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>{formatMoney(computedSubtotal, currency)}</Text>
                     </View>
                     {scannedTip > 0 && (
                         <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 }}>
                             <Text style={{ color: '#484554', fontWeight: '500', fontSize: 14 }}>Service Charge</Text>
-                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>${scannedTip.toFixed(2)}</Text>
+                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>{formatMoney(scannedTip, currency)}</Text>
                         </View>
                     )}
                     {tax > 0 && (
                         <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 }}>
                             <Text style={{ color: '#484554', fontWeight: '500', fontSize: 14 }}>Tax</Text>
-                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>${tax.toFixed(2)}</Text>
+                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>{formatMoney(tax, currency)}</Text>
                         </View>
                     )}
                     {tip > 0 && (
                         <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 }}>
-                            <Text style={{ color: '#484554', fontWeight: '500', fontSize: 14 }}>Tip</Text>
-                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>${tip.toFixed(2)}</Text>
+                            <View>
+                                <Text style={{ color: '#484554', fontWeight: '500', fontSize: 14 }}>Tip</Text>
+                                {tipDescription && (
+                                    <Text style={{ color: '#6B7280', fontWeight: '500', fontSize: 12, marginTop: 2 }}>{tipDescription}</Text>
+                                )}
+                            </View>
+                            <Text style={{ color: '#484554', fontWeight: '700', fontSize: 14 }}>{formatMoney(tip, currency)}</Text>
                         </View>
                     )}
                     <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 12 }}>
                         <Text style={{ fontSize: 20, fontWeight: '800', color: '#111827' }}>Total</Text>
-                        <Text style={{ fontSize: 28, fontWeight: '800', color: '#4b29b4' }}>${displayTotal.toFixed(2)}</Text>
+                        <Text style={{ fontSize: 28, fontWeight: '800', color: '#4b29b4' }}>{formatMoney(displayTotal, currency)}</Text>
                     </View>
                 </View>
             </View>
 
+            <ReceiptImageViewer
+                visible={showReceipt}
+                images={receiptImages}
+                title={merchant}
+                onClose={() => setShowReceipt(false)}
+            />
+
             {/* Group Photo */}
             {bill.group_photo_url && (
                 <Image
@@ -359,7 +392,7 @@ const ReceiptCard = ({ bill, onShare, paymentRequests = [] }: {
                             </View>
                             <View style={{ alignItems: 'flex-end' }}>
                                 <Text style={{ fontWeight: '800', color: '#4b29b4', fontSize: 15 }}>
-                                    ${amount.toFixed(2)}
+                                    {formatMoney(amount, currency)}
                                 </Text>
                                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: 3, marginTop: 3 }}>
                                     <CheckCircle size={12} color={statusColor} />
@@ -488,7 +521,7 @@ export default function HistoryScreen() {
             const displayTotal = (total_amount && total_amount > computedSubtotal)
                 ? total_amount
                 : ((details?.subtotal || 0) + (details?.tax || 0) + (details?.tip || 0) + (details?.scannedTip || 0));
-            const total = `$${displayTotal.toFixed(2)}`;
+            const total = formatMoney(displayTotal, readBillCurrency(bill).currency);
             const scheme = __DEV__ ? 'divvit-dev' : 'divvit';
             await Share.share({
                 message: `💸 Divvit Receipt — ${total}\n📅 ${dateStr}\n👥 Split with ${bill.details?.users?.length || 0} people\n\n🔗 ${scheme}://bill/${bill.id}`,
@@ -507,7 +540,7 @@ export default function HistoryScreen() {
             const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
             const supabaseKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
             const response = await fetch(
-                `${supabaseUrl}/rest/v1/bills?host_id=eq.${user.id}&status=in.(settled,completed,closed)&select=*,bill_participants(id,user_id,name,is_guest,color,initials)&order=created_at.desc`,
+                `${supabaseUrl}/rest/v1/bills?host_id=eq.${user.id}&status=in.(settled,completed,closed)&select=*,bill_participants(id,user_id,name,is_guest,color,initials,tip_percentage)&order=created_at.desc`,
                 {
                     headers: {
                         'apikey': supabaseKey!,
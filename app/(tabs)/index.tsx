@@ -1,24 +1,28 @@
 import React, { useCallback, useState, useEffect } from 'react';
-import { View, Text, ScrollView, ActivityIndicator, TouchableOpacity, Alert, StyleSheet } from 'react-native';
+import { View, Text, ScrollView, ActivityIndicator, TouchableOpacity, Alert, StyleSheet, Image } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
-import { Pencil, Trash2, FileText, Utensils, Award, Receipt, Coffee } from 'lucide-react-native';
+import { Pencil, Trash2, FileText, Utensils, Award, Receipt, Coffee, CloudOff, RotateCcw } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Path } from 'react-native-svg';
 
 import TabHeader from '@/components/TabHeader';
 import { getInitials, getNextColor } from '../../types';
-import { useHomeStats } from '@/hooks/useHomeStats';
+import { useHomeStats, HomeStats } from '@/hooks/useHomeStats';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '../../lib/supabase';
 import { getUserPoints } from '@/services/rewardsService';
+import { formatMoney } from '@/utils/currency';
 
-// Format currency helper with commas for thousands
-const formatCurrency = (amount: number): string => {
-  const rounded = Math.round(amount);
-  return `$${rounded.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
+type PendingScan = NonNullable<HomeStats['drafts'][number]['pendingScan']>;
+
+// "Waiting for connection · 2 pages", "Scanning…", "Couldn't scan"
+const describePendingScan = (scan: PendingScan): string => {
+  if (scan.status === 'processing') return 'Scanning…';
+  if (scan.status === 'failed') return 'Couldn’t scan · tap to retry';
+  return `Waiting for connection · ${scan.pageCount} ${scan.pageCount === 1 ? 'page' : 'pages'}`;
 };
 
 // Draft Card Component (Retained from original)
@@ -26,12 +30,14 @@ const DraftCard = ({
   id,
   formattedDate,
   itemCount,
+  pendingScan,
   onEdit,
   onDelete
 }: {
   id: string;
   formattedDate: string;
   itemCount: number;
+  pendingScan?: PendingScan;
   onEdit: () => void;
   onDelete: () => void;
 }) => (
@@ -46,13 +52,17 @@ const DraftCard = ({
     >
       {/* Icon */}
       <View style={styles.draftIconContainer}>
-        <FileText size={20} color="#D97706" />
+        {pendingScan ? <CloudOff size={20} color="#D97706" /> : <FileText size={20} color="#D97706" />}
       </View>
 
       {/* Content */}
       <View style={{ flex: 1 }}>
         <Text style={styles.draftTitle}>{formattedDate}</Text>
-        <Text style={styles.draftSubtitle}>{itemCount} {itemCount === 1 ? 'Item' : 'Items'}</Text>
+        <Text style={styles.draftSubtitle}>
+          {pendingScan
+            ? describePendingScan(pendingScan)
+            : `${itemCount} ${itemCount === 1 ? 'Item' : 'Items'}`}
+        </Text>
       </View>
     </TouchableOpacity>
 
@@ -60,10 +70,11 @@ const DraftCard = ({
     <View style={styles.draftActions}>
       <TouchableOpacity
         onPress={onEdit}
+        disabled={pendingScan?.status === 'processing'}
         style={styles.draftActionBtn}
         activeOpacity={0.7}
       >
-        <Pencil size={16} color="#D97706" />
+        {pendingScan ? <RotateCcw size={16} color="#D97706" /> : <Pencil size={16} color="#D97706" />}
       </TouchableOpacity>
       <TouchableOpacity
         onPress={onDelete}
@@ -79,7 +90,7 @@ const DraftCard = ({
 export default function HomeScreen() {
   const router = useRouter();
   const { isLoading: isAuthLoading, session, user, profile } = useAuth();
-  const { totalSplit, minutesSaved, recentActivity, drafts, isLoading, deleteDraft, refetch } = useHomeStats();
+  const { totalSplit, minutesSaved, recentActivity, drafts, isLoading, deleteDraft, retryPendingScan, refetch } = useHomeStats();
 
   const [userPoints, setUserPoints] = useState(0);
   const [nextRewardPoints] = useState(500); // TODO: fetch from catalog if needed
@@ -220,6 +231,20 @@ export default function HomeScreen() {
     });
   };
 
+  // Queued scans have no bill to open yet; tapping one retries it straight away
+  const handleRetryPendingScan = async (scanId: string) => {
+    Haptics.selectionAsync();
+    try {
+      const status = await retryPendingScan(scanId);
+      if (status === 'in_progress') {
+        Alert.alert('Already Retrying', 'This scan is being sent right now. It will show up as a draft once it goes through.');
+      }
+    } catch (error) {
+      console.error('Error retrying queued scan:', error);
+      Alert.alert('Error', 'Failed to retry the scan. Please try again.');
+    }
+  };
+
   const handleDeleteDraft = (draftId: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     Alert.alert(
@@ -308,8 +333,13 @@ export default function HomeScreen() {
               </Svg>
             </View>
             <Text style={styles.totalSplitAmount}>
-              {isLoading ? '$0' : formatCurrency(totalSplit)}
+              {formatMoney(isLoading ? 0 : totalSplit[0].amount, totalSplit[0].currency)}
             </Text>
+            {!isLoading && totalSplit.length > 1 && (
+              <Text style={styles.totalSplitOther}>
+                {totalSplit.slice(1).map(total => `+ ${formatMoney(total.amount, total.currency)}`).join('  ')}
+              </Text>
+            )}
             
             <Svg
               viewBox="0 0 100 20"
@@ -372,7 +402,8 @@ export default function HomeScreen() {
                   id={draft.id}
                   formattedDate={draft.formattedDate}
                   itemCount={draft.itemCount}
-                  onEdit={() => handleEditDraft(draft.id)}
+                  pendingScan={draft.pendingScan}
+                  onEdit={() => (draft.pendingScan ? handleRetryPendingScan(draft.id) : handleEditDraft(draft.id))}
                   onDelete={() => handleDeleteDraft(draft.id)}
                 />
               ))}
@@ -480,9 +511,13 @@ export default function HomeScreen() {
                   style={styles.activityCard}
                 >
                   <View style={styles.activityLeft}>
-                    <View style={[styles.iconCircle, { backgroundColor: iconBg }]}>
-                      <IconComponent size={24} color={iconColor} />
-                    </View>
+                    {item.thumbnailUrl ? (
+                      <Image source={{ uri: item.thumbnailUrl }} style={[styles.iconCircle, { backgroundColor: iconBg }]} />
+                    ) : (
+                      <View style={[styles.iconCircle, { backgroundColor: iconBg }]}>
+                        <IconComponent size={24} color={iconColor} />
+                      </View>
+                    )}
                     <View style={styles.activityMiddle}>
                       <Text style={styles.activityName} numberOfLines={1}>
                         {item.title}
@@ -567,6 +602,14 @@ const styles = StyleSheet.create({
     marginTop: 4,
     zIndex: 1,
   },
+  totalSplitOther: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(99,70,205,0.7)',
+    fontFamily: 'Outfit',
+    marginTop: 2,
+    zIndex: 1,
+  },
   sparkline: {
     position: 'absolute',
     bottom: 0,
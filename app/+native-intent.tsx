@@ -0,0 +1,15 @@
+import { isSharedFileUrl } from '../utils/receiptImport';
+
+// Receipts opened in Divvit from another app ("Open in Divvit" on a PDF or image in Mail,
+// Files or a delivery app) arrive as file:// or content:// urls; send them to the scanner
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+    try {
+        if (isSharedFileUrl(path)) {
+            return `/camera/capture?importUri=${encodeURIComponent(path)}`;
+        }
+        return path;
+    } catch (error) {
+        console.error('NativeIntent: Failed to read incoming url:', error);
+        return path;
+    }
+}
@@ -28,6 +28,7 @@ import { StripeProvider } from '@stripe/stripe-react-native';
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
 import Constants from 'expo-constants';
+import { useShareIntent } from "expo-share-intent";
 
 // Configure notifications handler
 Notifications.setNotificationHandler({
@@ -298,6 +299,33 @@ function DeepLinkHandler() {
   return null;
 }
 
+// Share sheet handler - a PDF or image shared to Divvit on Android ("Share → Divvit")
+// arrives through the SEND intent rather than as a url, so +native-intent never sees it
+function ShareIntentHandler() {
+  const { session } = useAuth();
+  const router = useRouter();
+  const { hasShareIntent, shareIntent, resetShareIntent, error } = useShareIntent({
+    disabled: Platform.OS !== 'android',
+  });
+
+  useEffect(() => {
+    if (error) console.error('ShareIntent: Failed to read shared file:', error);
+  }, [error]);
+
+  useEffect(() => {
+    // Keep the share until the user is signed in; the capture screen needs a session
+    if (!hasShareIntent || !session) return;
+    const file = shareIntent.files?.[0];
+    if (file?.path) {
+      console.log('ShareIntent: Importing shared receipt', file.mimeType, file.fileName);
+      router.push(`/camera/capture?importUri=${encodeURIComponent(file.path)}` as any);
+    }
+    resetShareIntent();
+  }, [hasShareIntent, shareIntent, session, router, resetShareIntent]);
+
+  return null;
+}
+
 // Navigation controller - handles all routing logic
 function NavigationController() {
   const { session, isLoading, hasOnboarded } = useAuth();
@@ -388,6 +416,7 @@ function ProtectedLayout() {
       <StatusBar style="dark" />
       <NavigationController />
       <DeepLinkHandler />
+      <ShareIntentHandler />
       <Slot />
     </>
   );
@@ -2,6 +2,9 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, TextInput, Alert, Keyboard, Modal, ScrollView, BackHandler } from 'react-native';
 import { useLocalSearchParams, Stack, useRouter, useFocusEffect } from 'expo-router';
 import { useBillFlowSync } from '../../hooks/useBillFlowSync';
+import { useBillCurrency } from '../../hooks/useBillCurrency';
+import { useBillPresence } from '../../hooks/useBillPresence';
+import { useBillSession } from '../../hooks/useBillSession';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import Animated, {
@@ -16,33 +19,62 @@ import Animated, {
 } from 'react-native-reanimated';
 import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
 import { Swipeable, GestureHandlerRootView } from 'react-native-gesture-handler';
-import { ArrowLeft, Check, ArrowRight, Plus, Trash2, Save, Shuffle, Users, X, Columns } from 'lucide-react-native';
+import { ArrowLeft, Check, ArrowRight, Plus, Trash2, Save, Shuffle, Users, X, Columns, Tag, Receipt, Percent, AlertTriangle, History } from 'lucide-react-native';
 import * as Crypto from 'expo-crypto';
 import { useAuth } from '../../context/AuthContext';
 import DivvitLogo from '../../components/DivvitLogo';
 import { supabase } from '../../lib/supabase';
 import {
-    getBillItems,
     createBillItems,
     updateBillItem,
+    updateBillItemChecked,
+    updateItemAssignees,
+    BillItemUpdate,
+    updateFeeLine,
     deleteBillItem,
     assignItem,
     assignItemMulti,
     assignAllItemsMulti,
+    setItemSplit,
+    setAllItemsSplit,
     clearAllAssignmentsMulti,
     randomizeAssignmentsMulti,
-    subscribeToBillItems,
-    subscribeToBillStatus,
-    subscribeToParticipants,
     updateBillStatus,
-    unsubscribeAll,
+    updateBillCurrency,
 } from '../../services/billService';
-import { BillItem as SyncBillItem, BillStatus } from '../../types';
+import {
+    BillCurrency,
+    BillItem as SyncBillItem,
+    BillLineKind,
+    BillStatus,
+    FeeAllocation,
+    FeeType,
+    FEE_TYPE_LABELS,
+    ItemConfidence,
+    ItemSplit,
+    TaxCategory,
+    TotalsConfidence,
+} from '../../types';
+import {
+    computeSplit,
+    describeItemSplit,
+    fromCents,
+    linesFromAssignments,
+    parseAssigneeIds,
+    parseItemSplit,
+    unitsRemaining,
+} from '../../utils/splitEngine';
+import { clearConfidence, defaultFeeAllocation, describeTaxCategory, isLowConfidence, prepareScannedItems, uncertainFields } from '../../utils/receiptItems';
+import { normalizeTotalsConfidence } from '../../utils/scanResponse';
+import { currencyDecimals, currencyForCountry, formatMoney } from '../../utils/currency';
 
 import BillHeader from '../../components/bill/BillHeader';
 import BillItemCard from '../../components/bill/BillItemCard';
 import QuickActionsGrid from '../../components/bill/QuickActionsGrid';
 import ParticipantSelector from '../../components/bill/ParticipantSelector';
+import CurrencySheet from '../../components/bill/CurrencySheet';
+import ActivitySheet from '../../components/bill/ActivitySheet';
+import ReconnectingBanner from '../../components/bill/ReconnectingBanner';
 
 // --- Default Types ---
 type User = {
@@ -51,12 +83,21 @@ type User = {
     avatar: string;
     color: string;
     initials: string;
+    isGuest?: boolean; // added by the host without an account, so never online
 };
 
 type BillItem = {
     id: string;
     name: string;
-    price: number;
+    price: number; // line total; negative for discounts
+    quantity?: number;
+    kind?: BillLineKind;
+    applies_to?: string | null; // discounted item id; null = whole bill
+    fee_type?: FeeType | null;
+    fee_allocation?: FeeAllocation;
+    tax_category?: TaxCategory;
+    tax_rate?: number | null; // percent, custom category only
+    confidence?: ItemConfidence | null; // scanned lines only
 };
 
 // --- Helper Functions ---
@@ -66,12 +107,120 @@ const createEmptyItem = (): BillItem => ({
     price: 0
 });
 
+// Bulk quick actions only touch regular items; discounts and fees keep their own targets
+const isRegularLine = (item: { kind?: BillLineKind | null }) => (item.kind ?? 'item') === 'item';
+
+// Payers picked for 'assigned' fees, kept when a quick action rewrites every item's assignees
+const keptFeeAssignments = (items: BillItem[], assignments: Record<string, string[]>) => {
+    const kept: Record<string, string[]> = {};
+    items.filter(item => !isRegularLine(item) && assignments[item.id]).forEach(item => { kept[item.id] = assignments[item.id]; });
+    return kept;
+};
+
+const FEE_ALLOCATION_OPTIONS: { value: FeeAllocation; label: string; hint: string }[] = [
+    { value: 'proportional', label: 'By subtotal', hint: 'Everyone pays in proportion to what they ordered' },
+    { value: 'equal', label: 'Evenly', hint: 'Everyone pays the same amount' },
+    { value: 'assigned', label: 'Specific people', hint: 'Only the people you pick below' },
+];
+
+const TAX_CATEGORY_OPTIONS: { value: TaxCategory; label: string; hint: string }[] = [
+    { value: 'standard', label: 'Standard rate', hint: 'Taxed like the rest of the bill' },
+    { value: 'exempt', label: 'Tax exempt', hint: 'No tax on this item (e.g. groceries)' },
+    { value: 'custom', label: 'Custom rate', hint: 'Its own rate, e.g. alcohol taxed higher' },
+];
+
+const describeFeeAllocation = (allocation: FeeAllocation | undefined, assigneeCount: number) => {
+    if (allocation === 'equal') return 'split evenly';
+    if (allocation === 'assigned') return `${assigneeCount} ${assigneeCount === 1 ? 'person' : 'people'}`;
+    return 'split by subtotal';
+};
+
+// The sign of what's typed decides the line: a leading minus makes it a discount, deleting the
+// minus makes it an item again. Discount prices are stored negative; the input keeps the minus.
+const parsePriceInput = (priceText: string) => {
+    const discount = priceText.trim().startsWith('-');
+    const digits = priceText.replace(/[^0-9.]/g, '');
+    const magnitude = parseFloat(digits) || 0;
+    return { cleaned: discount ? `-${digits}` : digits, discount, price: discount ? -magnitude : magnitude };
+};
+
+// The kind a line has after its price was typed; fees stay fees, whatever the sign
+const kindForPrice = (kind: BillLineKind | undefined, discount: boolean): BillLineKind => {
+    if (discount) return 'discount';
+    return kind === 'discount' ? 'item' : kind ?? 'item';
+};
+
+// A line that just became a discount reduces an item instead of being eaten by someone
+const DISCOUNT_ASSIGNMENT_RESET: BillItemUpdate = {
+    assigned_ids: null,
+    assigned_to: null,
+    split_mode: 'equal',
+    split_weights: null,
+};
+
+// Tapping a multi-unit line claims one more unit per target; once every unit is taken it releases theirs instead
+const toggleUnitClaims = (
+    claims: Record<string, number>,
+    quantity: number,
+    targetIds: string[]
+): Record<string, number> => {
+    const next = { ...claims };
+    let remaining = unitsRemaining(quantity, claims);
+    if (remaining === 0) {
+        targetIds.forEach(uid => { delete next[uid]; });
+        return next;
+    }
+    targetIds.forEach(uid => {
+        if (remaining <= 0) return;
+        next[uid] = (next[uid] || 0) + 1;
+        remaining -= 1;
+    });
+    return next;
+};
+
+const releaseUnitClaims = (claims: Record<string, number>, targetIds: string[]): Record<string, number> => {
+    const next = { ...claims };
+    targetIds.forEach(uid => {
+        if (!next[uid]) return;
+        if (next[uid] <= 1) delete next[uid];
+        else next[uid] -= 1;
+    });
+    return next;
+};
+
+const sameClaims = (a: Record<string, number>, b: Record<string, number>): boolean => {
+    const ids = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(ids).every(uid => (a[uid] || 0) === (b[uid] || 0));
+};
+
+const unitSplitFrom = (claims: Record<string, number>): ItemSplit | null =>
+    Object.keys(claims).length > 0 ? { mode: 'units', weights: claims } : null;
+
+type SyncEditField = 'name' | 'price';
+
+const sameEditField = (a: SyncBillItem, b: SyncBillItem, field: SyncEditField): boolean =>
+    field === 'name' ? a.name === b.name : Number(a.price) === Number(b.price);
+
+const unitClaimsOf = (item: SyncBillItem): Record<string, number> =>
+    item.split_mode === 'units' ? (item.split_weights || {}) : {};
+
+// bill_items columns for a set of unit claims (no claims left = back to a plain equal split)
+const unitClaimColumns = (claims: Record<string, number>): BillItemUpdate => {
+    const claimantIds = Object.keys(claims);
+    const split = unitSplitFrom(claims);
+    return {
+        assigned_ids: claimantIds.length > 0 ? claimantIds.join(',') : null,
+        assigned_to: claimantIds[0] ?? null,
+        split_mode: split ? 'units' : 'equal',
+        split_weights: split ? split.weights : null,
+    };
+};
+
 export default function BillEditorScreen() {
     const router = useRouter();
     const { id, billData, users: usersParam, fromParty } = useLocalSearchParams<{ id: string; billData: string; users: string; fromParty: string }>();
-    const { user, session } = useAuth();
+    const { user, session, profile } = useAuth();
     const swipeableRefs = useRef<Map<string, Swipeable>>(new Map());
-    const channelRef = useRef<any>(null);
 
     // Debug logging for deep link verification
     console.log('BillEditor: Opened with ID:', id);
@@ -88,32 +237,28 @@ export default function BillEditorScreen() {
         return [];
     }, [usersParam]);
 
-    const { initialItems, scannedTip, scannedTax } = useMemo((): { initialItems: BillItem[]; scannedTip: number; scannedTax: number } => {
+    const { initialItems, scannedTip, scannedTax, scannedConfidence } = useMemo((): { initialItems: BillItem[]; scannedTip: number; scannedTax: number; scannedConfidence: TotalsConfidence | null } => {
         if (billData) {
             try {
                 const parsed = JSON.parse(billData);
                 const rawItems = (parsed.items as any[]) || [];
                 if (rawItems.length > 0) {
-                    const itemsWithIds = rawItems.map((item: any) => ({
-                        ...item,
-                        id: item.id || Crypto.randomUUID(),
-                        name: item.name || '',
-                        price: Number(item.price) || 0
-                    }));
                     return {
-                        initialItems: itemsWithIds,
+                        initialItems: prepareScannedItems(rawItems),
                         scannedTip: Number(parsed.scanned_tip) || Number(parsed.scannedTip) || 0,
-                        scannedTax: Number(parsed.tax) || 0
+                        scannedTax: Number(parsed.tax) || 0,
+                        scannedConfidence: parsed.confidence ? normalizeTotalsConfidence(parsed.confidence) : null,
                     };
                 }
             } catch (e) { console.error("Failed to parse billData", e); }
         }
-        return { initialItems: [createEmptyItem()], scannedTip: 0, scannedTax: 0 };
+        return { initialItems: [createEmptyItem()], scannedTip: 0, scannedTax: 0, scannedConfidence: null };
     }, [billData]);
 
     const [items, setItems] = useState<BillItem[]>(initialItems);
     const [selectedUserIds, setSelectedUserIds] = useState<string[]>(initialUsers[0]?.id ? [initialUsers[0].id] : []);
     const [assignments, setAssignments] = useState<Record<string, string[]>>({});
+    const [itemSplits, setItemSplits] = useState<Record<string, ItemSplit>>({});
     const [isSaving, setIsSaving] = useState(false);
     const [isLoadingDraft, setIsLoadingDraft] = useState(isExistingDraft || isFromParty);
     const [loadedUsers, setLoadedUsers] = useState<User[]>(initialUsers);
@@ -125,17 +270,51 @@ export default function BillEditorScreen() {
     const [priceInputs, setPriceInputs] = useState<Record<string, string>>({});
     const [taxAmount, setTaxAmount] = useState<number>(scannedTax);
     const [taxInput, setTaxInput] = useState<string>(scannedTax > 0 ? scannedTax.toFixed(2) : '');
+    // Scanner confidence in the printed totals; the tax gets flagged until the host checks it
+    const [totalsConfidence, setTotalsConfidence] = useState<TotalsConfidence | null>(scannedConfidence);
+    // Standard tax rate in percent; null = inferred from the receipt tax
+    const [standardTaxRate, setStandardTaxRate] = useState<number | null>(null);
+    const [taxSettingsItemId, setTaxSettingsItemId] = useState<string | null>(null);
+    const [taxDraft, setTaxDraft] = useState<{ category: TaxCategory; rateInput: string; standardRateInput: string }>({
+        category: 'standard',
+        rateInput: '',
+        standardRateInput: '',
+    });
 
     const [showCustomSplitModal, setShowCustomSplitModal] = useState(false);
     const [customPctInputs, setCustomPctInputs] = useState<Record<string, string>>({});
+    const [customSplitMode, setCustomSplitMode] = useState<ItemSplit['mode']>('percent');
+    // null = apply the custom split to every item on the bill
+    const [customSplitItemId, setCustomSplitItemId] = useState<string | null>(null);
+
+    const [discountTargetItemId, setDiscountTargetItemId] = useState<string | null>(null);
+    const [feeSettingsItemId, setFeeSettingsItemId] = useState<string | null>(null);
+    const [feeDraft, setFeeDraft] = useState<{ type: FeeType; allocation: FeeAllocation; assigneeIds: string[] }>({
+        type: 'service_charge',
+        allocation: 'proportional',
+        assigneeIds: [],
+    });
 
     const [showMultiAssignModal, setShowMultiAssignModal] = useState(false);
+    const [showCurrencySheet, setShowCurrencySheet] = useState(false);
+    const [showActivitySheet, setShowActivitySheet] = useState(false);
     const [multiAssignItemId, setMultiAssignItemId] = useState<string | null>(null);
     const [multiAssignSelectedUserIds, setMultiAssignSelectedUserIds] = useState<string[]>([]);
 
-    const isHost = user?.id === hostId;
+    // Party mode reads bill_items, participants and status from the shared live bill session
+    const billSession = useBillSession(isFromParty ? id : undefined);
+    const isHost = user?.id === (billSession.hostId ?? hostId);
+    // Receipt currency + settlement exchange rate; saved straight to the bill row when there is one
+    const { billCurrency, setBillCurrency } = useBillCurrency(isExistingDraft ? id : undefined, currencyForCountry(profile?.country));
     const currentBillStatus = useBillFlowSync(id, 'active', isHost);
     const isEditable = !isFromParty || currentBillStatus === 'active';
+    // Who else has the live bill open, who has gone idle, and which item someone is changing
+    const myPresenceName = billSession.participants.find(p => p.id === myParticipantId)?.name || profile?.username || 'Someone';
+    const presence = useBillPresence(
+        isFromParty ? id : undefined,
+        myParticipantId ? { participantId: myParticipantId, name: myPresenceName } : null,
+        'editor'
+    );
 
     useEffect(() => {
         if ((!isExistingDraft && !isFromParty) || !user || !session) return;
@@ -184,6 +363,7 @@ export default function BillEditorScreen() {
 
                 const details = bill.details || {};
                 if (details.assignments) setAssignments(details.assignments);
+                if (details.itemSplits) setItemSplits(details.itemSplits);
 
                 const tipValue = bill.scanned_tip ?? details.scannedTip ?? 0;
                 if (tipValue) setLoadedScannedTip(tipValue);
@@ -193,6 +373,8 @@ export default function BillEditorScreen() {
                     setTaxAmount(taxValue);
                     setTaxInput(taxValue.toFixed(2));
                 }
+                if (details.taxRate != null) setStandardTaxRate(Number(details.taxRate));
+                if (details.confidence) setTotalsConfidence(normalizeTotalsConfidence(details.confidence));
 
                 const participants = bill.bill_participants || [];
                 if (participants.length > 0) {
@@ -202,6 +384,7 @@ export default function BillEditorScreen() {
                         avatar: p.avatar_url || `https://i.pravatar.cc/150?u=${p.id}`,
                         color: p.color || '#6346cd',
                         initials: p.initials || p.name.slice(0, 2).toUpperCase(),
+                        isGuest: Boolean(p.is_guest),
                     }));
                     setLoadedUsers(usersFromDB);
 
@@ -227,78 +410,28 @@ export default function BillEditorScreen() {
         fetchBillData();
     }, [isExistingDraft, isFromParty, id, user, session]);
 
-    // ─── Realtime sync for party mode (postgres_changes on bill_items + bill status) ───
-    // Replaces old broadcast-based sync with database-backed realtime subscriptions
-    const [syncItems, setSyncItems] = useState<SyncBillItem[]>([]);
-    const [hasFetchedSyncItems, setHasFetchedSyncItems] = useState(false);
-    const [realtimeStatus, setRealtimeStatus] = useState<string>('connecting');
-
+    // ─── Live sync for party mode ───
+    // Items arrive through the bill session's channel; setSyncItems applies optimistic changes to it
+    const { items: syncItems, setItems: setSyncItems, isLoaded: hasFetchedSyncItems } = billSession;
+
+    const partyUsers = useMemo((): User[] => billSession.participants.map(p => ({
+        id: p.id,
+        name: p.name,
+        avatar: p.avatar_url || `https://i.pravatar.cc/150?u=${p.id}`,
+        color: p.color || '#6346cd',
+        initials: p.initials || p.name.slice(0, 2).toUpperCase(),
+        isGuest: Boolean(p.is_guest),
+    })), [billSession.participants]);
+
+    // Lines deleted by someone else drop out of the host's local copy as well
+    const syncItemIds = useRef<Set<string>>(new Set());
     useEffect(() => {
-        if (!id || !isFromParty) return;
-
-        // Fetch bill_items from table on mount
-        const loadSyncItems = async () => {
-            try {
-                const items = await getBillItems(id);
-                setSyncItems(items);
-                console.log('BillEditor: Loaded', items.length, 'bill_items from DB');
-            } catch (err) {
-                console.error('BillEditor: Failed to load bill_items:', err);
-            } finally {
-                setHasFetchedSyncItems(true);
-            }
-        };
-        loadSyncItems();
-
-        // Subscribe to bill_items changes (assignments, new items, deletions)
-        const itemsChannel = subscribeToBillItems(
-            id,
-            (item, eventType) => {
-                if (eventType === 'DELETE') {
-                    setSyncItems(prev => prev.filter(i => i.id !== item.id));
-                    setItems(prev => prev.filter(i => i.id !== item.id));
-                } else {
-                    setSyncItems(prev => {
-                        const exists = prev.find(i => i.id === item.id);
-                        if (exists) {
-                            return prev.map(i => i.id === item.id ? item : i);
-                        }
-                        return [...prev, item];
-                    });
-                }
-            },
-            (status) => {
-                console.log(`[Realtime] status: ${status}`);
-                setRealtimeStatus(status);
-
-                if (status === 'SUBSCRIBED') {
-                    console.log('[Realtime] ✅ Connected and listening for item updates');
-                } else if (status === 'CHANNEL_ERROR') {
-                    console.error('[Realtime] ❌ Channel error — items will not sync');
-                } else if (status === 'TIMED_OUT') {
-                    console.error('[Realtime] ⏱ Subscription timed out');
-                }
-            }
-        );
-
-        // Subscribe to new participants joining
-        const participantsChannel = subscribeToParticipants(id, (newParticipant) => {
-            setLoadedUsers(prev => {
-                if (prev.find(u => u.id === newParticipant.id)) return prev;
-                return [...prev, {
-                    id: newParticipant.id,
-                    name: newParticipant.name,
-                    avatar: newParticipant.avatar_url || `https://i.pravatar.cc/150?u=${newParticipant.id}`,
-                    color: newParticipant.color || '#6346cd',
-                    initials: newParticipant.initials || newParticipant.name.slice(0, 2).toUpperCase(),
-                }];
-            });
-        });
-
-        return () => {
-            unsubscribeAll([itemsChannel, participantsChannel]);
-        };
-    }, [id, isFromParty]);
+        if (!isFromParty) return;
+        const ids = new Set(syncItems.map(i => i.id));
+        const removed = Array.from(syncItemIds.current).filter(itemId => !ids.has(itemId));
+        syncItemIds.current = ids;
+        if (removed.length > 0) setItems(prev => prev.filter(i => !removed.includes(i.id)));
+    }, [isFromParty, syncItems]);
 
     // When host is in party mode, sync bill_items into local items state
     // so the standalone UI (multi-assignment, quick actions) works
@@ -306,62 +439,101 @@ export default function BillEditorScreen() {
         if (!isFromParty || !isHost || !hasFetchedSyncItems || syncItems.length === 0) return;
         // Only seed local items once (when first loaded from DB)
         if (items.length > 1 || (items.length === 1 && items[0].name !== '')) return;
-        setItems(syncItems.map(si => ({ id: si.id, name: si.name, price: si.price })));
+        setItems(syncItems.map(si => ({
+            id: si.id,
+            name: si.name,
+            price: si.price,
+            quantity: si.quantity,
+            kind: si.kind,
+            applies_to: si.applies_to,
+            fee_type: si.fee_type,
+            fee_allocation: si.fee_allocation,
+            tax_category: si.tax_category,
+            tax_rate: si.tax_rate,
+            confidence: si.confidence,
+        })));
     }, [isFromParty, isHost, hasFetchedSyncItems, syncItems]);
 
     const activeUsers = [
-        ...((isExistingDraft || isFromParty) ? loadedUsers : initialUsers),
+        ...(isFromParty ? partyUsers : isExistingDraft ? loadedUsers : initialUsers),
         ...additionalUsers,
     ];
     const activeScannedTip = isExistingDraft ? loadedScannedTip : scannedTip;
 
     const effectiveItems = useMemo(() => {
         if (isFromParty) {
-            return syncItems.map(si => ({ id: si.id, name: si.name, price: si.price }));
+            return syncItems.map(si => ({
+                id: si.id,
+                name: si.name,
+                price: si.price,
+                quantity: si.quantity,
+                kind: si.kind,
+                applies_to: si.applies_to,
+                fee_type: si.fee_type,
+                fee_allocation: si.fee_allocation,
+                tax_category: si.tax_category,
+                tax_rate: si.tax_rate,
+                confidence: si.confidence,
+            }));
         }
         return items;
     }, [isFromParty, syncItems, items]);
 
+    // Low-confidence scan values are only shown to whoever can fix them
+    const canCheckScan = !isFromParty || isHost;
+    const uncertainCount = effectiveItems.reduce((sum, item) => sum + uncertainFields(item).length, 0)
+        + (isLowConfidence(totalsConfidence?.tax) ? 1 : 0);
+
     const effectiveAssignments = useMemo(() => {
         if (isFromParty) {
             const map: Record<string, string[]> = {};
             syncItems.forEach(si => {
-                if (si.assigned_ids) {
-                    map[si.id] = si.assigned_ids.split(',').filter(Boolean);
-                } else if (si.assigned_to) {
-                    map[si.id] = [si.assigned_to];
-                }
+                const assigneeIds = parseAssigneeIds(si);
+                if (assigneeIds.length > 0) map[si.id] = assigneeIds;
             });
             return map;
         }
         return assignments;
     }, [isFromParty, syncItems, assignments]);
 
-    const subtotal = useMemo(() => effectiveItems.reduce((sum, item) => sum + (item.price || 0), 0), [effectiveItems]);
-    const billTotal = subtotal + taxAmount;
+    const effectiveItemSplits = useMemo(() => {
+        if (isFromParty) {
+            const map: Record<string, ItemSplit> = {};
+            syncItems.forEach(si => {
+                const split = parseItemSplit(si);
+                if (split) map[si.id] = split;
+            });
+            return map;
+        }
+        return itemSplits;
+    }, [isFromParty, syncItems, itemSplits]);
 
-    const userFinalTotals = useMemo(() => {
-        const totals: Record<string, number> = {};
-        activeUsers.forEach(u => totals[u.id] = 0);
+    // Fees sit outside the subtotal (tips are calculated on the food, not the service charge)
+    const subtotal = useMemo(
+        () => effectiveItems.filter(item => item.kind !== 'fee').reduce((sum, item) => sum + (item.price || 0), 0),
+        [effectiveItems]
+    );
+    const feesTotal = useMemo(
+        () => effectiveItems.filter(item => item.kind === 'fee').reduce((sum, item) => sum + (item.price || 0), 0),
+        [effectiveItems]
+    );
 
-        Object.entries(effectiveAssignments).forEach(([itemId, userIds]) => {
-            const item = effectiveItems.find(i => i.id === itemId);
-            if (item && userIds && userIds.length > 0) {
-                const costPerUser = item.price / userIds.length;
-                userIds.forEach(userId => {
-                    if (totals[userId] !== undefined) totals[userId] += costPerUser;
-                });
-            }
+    const splitPreview = useMemo(() => {
+        // Unclaimed items stay out of everyone's total until someone picks them up
+        return computeSplit({
+            participantIds: activeUsers.map(u => u.id),
+            lines: linesFromAssignments(effectiveItems, effectiveAssignments, effectiveItemSplits),
+            tax: taxAmount,
+            tip: 0,
+            taxRate: standardTaxRate,
+            unassigned: 'leave',
+            decimals: currencyDecimals(billCurrency.currency),
         });
-
-        if (taxAmount > 0 && subtotal > 0) {
-            activeUsers.forEach(u => {
-                const userTaxShare = (totals[u.id] / subtotal) * taxAmount;
-                totals[u.id] += userTaxShare;
-            });
-        }
-        return totals;
-    }, [effectiveAssignments, effectiveItems, activeUsers, taxAmount, subtotal]);
+    }, [effectiveAssignments, effectiveItems, effectiveItemSplits, activeUsers, taxAmount, standardTaxRate, billCurrency]);
+    const userFinalTotals = splitPreview.shares;
+    // Exempt and custom-rate items make the tax itemized; it can then differ from the receipt tax
+    const itemizedTax = fromCents(splitPreview.taxCents);
+    const billTotal = subtotal + feesTotal + itemizedTax;
 
     const progressSegments = useMemo(() => {
         const segments: { width: number; color: string; id: string }[] = [];
@@ -379,31 +551,84 @@ export default function BillEditorScreen() {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     };
 
+    const handleAddDiscount = () => {
+        setItems(prev => [...prev, { ...createEmptyItem(), name: 'Discount', kind: 'discount', applies_to: null }]);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    const handleAddFee = () => {
+        setItems(prev => [...prev, {
+            ...createEmptyItem(),
+            name: FEE_TYPE_LABELS.service_charge,
+            kind: 'fee',
+            fee_type: 'service_charge',
+            fee_allocation: defaultFeeAllocation('service_charge'),
+        }]);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
     const handleDeleteItem = (itemId: string) => {
         swipeableRefs.current.get(itemId)?.close();
-        setItems(prev => prev.filter(item => item.id !== itemId));
+        // Discounts on this item go with it (bill_items cascades the same way)
+        setItems(prev => prev.filter(item => item.id !== itemId && item.applies_to !== itemId));
         setAssignments(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+        setItemSplits(prev => { const next = { ...prev }; delete next[itemId]; return next; });
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     };
 
     const handleUpdateItemName = (itemId: string, name: string) => {
-        setItems(prev => prev.map(item => item.id === itemId ? { ...item, name } : item));
+        setItems(prev => prev.map(item => item.id === itemId
+            ? { ...item, name, confidence: clearConfidence(item.confidence, ['name']) }
+            : item));
     };
 
     const handleUpdateItemPrice = (itemId: string, priceText: string) => {
-        const cleaned = priceText.replace(/[^0-9.]/g, '');
+        const current = items.find(item => item.id === itemId);
+        const { cleaned, discount, price } = parsePriceInput(priceText);
         setPriceInputs(prev => ({ ...prev, [itemId]: cleaned }));
-        const price = parseFloat(cleaned) || 0;
-        setItems(prev => prev.map(item => item.id === itemId ? { ...item, price } : item));
+        setItems(prev => prev.map(item => item.id === itemId
+            ? {
+                ...item, price, kind: kindForPrice(item.kind, discount), applies_to: discount ? item.applies_to ?? null : null,
+                confidence: clearConfidence(item.confidence, ['price']),
+            }
+            : item));
+        if (discount && current?.kind !== 'discount') {
+            setAssignments(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+            setItemSplits(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+        }
     };
 
     const handlePriceBlur = (itemId: string) => {
         setPriceInputs(prev => { const next = { ...prev }; delete next[itemId]; return next; });
     };
 
+    // Host checked the flagged values against the receipt and they're right
+    const handleConfirmScan = async (itemId: string) => {
+        Haptics.selectionAsync();
+        setItems(prev => prev.map(item => item.id === itemId ? { ...item, confidence: null } : item));
+        if (!isFromParty) return;
+        setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, confidence: null } : i));
+        try { await updateBillItem(itemId, { confidence: null }); }
+        catch (err) { console.error('BillEditor: Failed to confirm scanned values:', err); }
+    };
+
+    const handleConfirmTax = () => {
+        setTotalsConfidence(prev => (prev ? { ...prev, tax: null } : prev));
+    };
+
     // ─── Party mode (GUEST only): single-assignment item claiming via bill_items table ───
     // Host uses the multi-assign local state path instead (see handleAssignItem).
     const handleSyncAssignItem = async (itemId: string) => {
+        const tappedKind = syncItems.find(i => i.id === itemId)?.kind;
+        if (tappedKind === 'discount') {
+            handleOpenDiscountTarget(itemId);
+            return;
+        }
+        if (tappedKind === 'fee') {
+            handleOpenFeeSettings(itemId);
+            return;
+        }
+
         const targetIds = isHost ? selectedUserIds : (myParticipantId ? [myParticipantId] : []);
 
         if (targetIds.length === 0) {
@@ -419,45 +644,74 @@ export default function BillEditorScreen() {
             ? item.assigned_ids.split(',').filter(Boolean)
             : (item.assigned_to ? [item.assigned_to] : []);
 
-        let newAssignees: string[];
-        if (isHost) {
-            const allAlreadyAssigned = targetIds.every(uid => currentAssignees.includes(uid));
-            if (allAlreadyAssigned) {
-                newAssignees = currentAssignees.filter(uid => !targetIds.includes(uid));
-            } else {
-                newAssignees = Array.from(new Set([...currentAssignees, ...targetIds]));
-            }
-        } else {
-            const myId = myParticipantId!;
-            if (currentAssignees.includes(myId)) {
-                newAssignees = currentAssignees.filter(uid => uid !== myId);
-            } else {
-                newAssignees = [...currentAssignees, myId];
-            }
+        // Multi-unit lines are claimed one unit at a time unless the host already shared the whole line
+        if (item.quantity > 1 && (item.split_mode === 'units' || currentAssignees.length === 0)) {
+            await handleSyncUpdateUnitClaims(item, (claims, latest) => toggleUnitClaims(claims, latest.quantity, targetIds));
+            return;
         }
 
+        // Tapping adds the targets, or takes them off if they're all on it already. Only the change is
+        // sent, so someone else claiming the same item at the same moment stays on it too.
+        const isRemoving = targetIds.every(uid => currentAssignees.includes(uid));
+        const newAssignees = isRemoving
+            ? currentAssignees.filter(uid => !targetIds.includes(uid))
+            : Array.from(new Set([...currentAssignees, ...targetIds]));
+
         const newAssignedIds = newAssignees.join(',');
         const newAssignedTo = newAssignees.length > 0 ? newAssignees[0] : null;
 
-        // Optimistic update
+        // Optimistic update (a plain claim resets any uneven split, matching assignItemMulti)
         setSyncItems(prev => prev.map(i =>
-            i.id === itemId ? { ...i, assigned_ids: newAssignedIds, assigned_to: newAssignedTo } : i
+            i.id === itemId ? { ...i, assigned_ids: newAssignedIds, assigned_to: newAssignedTo, split_mode: 'equal', split_weights: null } : i
         ));
         Haptics.selectionAsync();
 
-        // Persist to Supabase (triggers realtime for others)
+        // Persist to Supabase (triggers realtime for others); the returned row includes their claims
         try {
-            await assignItemMulti(itemId, newAssignees);
+            const saved = await updateItemAssignees(itemId, isRemoving ? { remove: targetIds } : { add: targetIds });
+            setSyncItems(prev => prev.map(i => i.id === itemId ? saved : i));
         } catch (error) {
             // Revert optimistic update on failure
-            setSyncItems(prev => prev.map(i =>
-                i.id === itemId ? { ...i, assigned_ids: item.assigned_ids, assigned_to: item.assigned_to } : i
-            ));
+            setSyncItems(prev => prev.map(i => i.id === itemId ? item : i));
             console.error('BillEditor: Failed to assign item:', error);
             Alert.alert('Error', 'Failed to assign item. Try again.');
         }
     };
 
+    // `nextClaims` is re-run on the latest row if someone else claimed a unit first, since what's
+    // left to claim depends on their claims
+    const handleSyncUpdateUnitClaims = async (
+        item: SyncBillItem,
+        nextClaims: (claims: Record<string, number>, latest: SyncBillItem) => Record<string, number>
+    ) => {
+        const claims = nextClaims(unitClaimsOf(item), item);
+        if (sameClaims(claims, unitClaimsOf(item))) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            return;
+        }
+
+        // Optimistic update; everyone else sees the remaining units through the bill_items subscription
+        setSyncItems(prev => prev.map(i => i.id === item.id ? { ...i, ...unitClaimColumns(claims) } : i));
+        Haptics.selectionAsync();
+
+        try {
+            const result = await updateBillItemChecked(item, latest => {
+                const latestClaims = unitClaimsOf(latest);
+                const next = nextClaims(latestClaims, latest);
+                return sameClaims(next, latestClaims) ? null : unitClaimColumns(next);
+            });
+            setSyncItems(prev => prev.map(i => i.id === item.id ? result.item : i));
+            if (!result.applied) {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                Alert.alert('Already Claimed', 'Someone else claimed the last units of this item first.');
+            }
+        } catch (error) {
+            setSyncItems(prev => prev.map(i => i.id === item.id ? item : i));
+            console.error('BillEditor: Failed to claim units:', error);
+            Alert.alert('Error', 'Failed to claim that unit. Try again.');
+        }
+    };
+
     // ─── Party mode: host can add, edit, and delete items via bill_items table ───
     const handleSyncAddItem = async () => {
         if (!isHost || !id) return;
@@ -474,36 +728,139 @@ export default function BillEditorScreen() {
         }
     };
 
+    const handleSyncAddDiscount = async () => {
+        if (!isHost || !id) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        try {
+            const created = await createBillItems(id, [{ name: 'Discount', price: 0, quantity: 1, kind: 'discount', applies_to: null }]);
+            if (created.length > 0) {
+                setSyncItems(prev => [...prev, created[0]]);
+                setItems(prev => [...prev, { id: created[0].id, name: 'Discount', price: 0, kind: 'discount', applies_to: null }]);
+            }
+        } catch (err) {
+            console.error('BillEditor: Failed to add discount:', err);
+            Alert.alert('Error', 'Failed to add discount.');
+        }
+    };
+
+    const handleSyncAddFee = async () => {
+        if (!isHost || !id) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        try {
+            const created = await createBillItems(id, [{
+                name: FEE_TYPE_LABELS.service_charge,
+                price: 0,
+                quantity: 1,
+                kind: 'fee',
+                fee_type: 'service_charge',
+                fee_allocation: defaultFeeAllocation('service_charge'),
+            }]);
+            if (created.length > 0) {
+                setSyncItems(prev => [...prev, created[0]]);
+                setItems(prev => [...prev, {
+                    id: created[0].id,
+                    name: created[0].name,
+                    price: 0,
+                    kind: 'fee',
+                    fee_type: created[0].fee_type,
+                    fee_allocation: created[0].fee_allocation,
+                }]);
+            }
+        } catch (err) {
+            console.error('BillEditor: Failed to add fee:', err);
+            Alert.alert('Error', 'Failed to add fee.');
+        }
+    };
+
     const syncNameTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
     const syncPriceTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
 
+    // The item as the server had it when a name or price edit started, keyed `${itemId}:${field}`
+    const syncEditBases = useRef<Map<string, SyncBillItem>>(new Map());
+
+    const startSyncEdit = (itemId: string, field: SyncEditField) => {
+        const key = `${itemId}:${field}`;
+        const current = syncItems.find(i => i.id === itemId);
+        if (current && !syncEditBases.current.has(key)) syncEditBases.current.set(key, current);
+    };
+
+    // Saves a debounced name or price edit against the version it started from. Someone claiming the
+    // item meanwhile only bumps updated_at and is retried; someone else changing the same field wins.
+    const saveSyncEdit = async (itemId: string, field: SyncEditField, updates: BillItemUpdate) => {
+        const key = `${itemId}:${field}`;
+        const timers = field === 'name' ? syncNameTimers : syncPriceTimers;
+        timers.current.delete(itemId);
+        const base = syncEditBases.current.get(key);
+        if (!base) return;
+
+        try {
+            const result = await updateBillItemChecked(base, latest => sameEditField(latest, base, field) ? updates : null);
+            if (result.applied) {
+                // Still typing: the next save builds on this one
+                if (timers.current.has(itemId)) syncEditBases.current.set(key, result.item);
+                else syncEditBases.current.delete(key);
+                return;
+            }
+
+            // Lost the race: drop whatever is still queued and show their version
+            syncEditBases.current.delete(key);
+            const pending = timers.current.get(itemId);
+            if (pending) clearTimeout(pending);
+            timers.current.delete(itemId);
+            setSyncItems(prev => prev.map(i => i.id === itemId ? result.item : i));
+            if (field === 'price') setPriceInputs(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+
+            const who = presence.editorOf(itemId)?.name || 'Someone else';
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            Alert.alert(
+                'Item Changed',
+                `${who} changed the ${field} of "${result.item.name || 'this item'}" while you were editing. Their change was kept and yours wasn't saved.`
+            );
+        } catch (err) {
+            syncEditBases.current.delete(key);
+            console.error(`BillEditor: Failed to update item ${field}:`, err);
+        }
+    };
+
     const handleSyncUpdateName = (itemId: string, name: string) => {
+        presence.setEditingItem(itemId);
+        startSyncEdit(itemId, 'name');
+        const confidence = clearConfidence(syncItems.find(i => i.id === itemId)?.confidence, ['name']);
         // Optimistic update
-        setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, name } : i));
+        setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, name, confidence } : i));
         // Debounce the DB write
         const existing = syncNameTimers.current.get(itemId);
         if (existing) clearTimeout(existing);
-        syncNameTimers.current.set(itemId, setTimeout(async () => {
-            try { await updateBillItem(itemId, { name }); }
-            catch (err) { console.error('BillEditor: Failed to update item name:', err); }
-        }, 500));
+        syncNameTimers.current.set(itemId, setTimeout(() => saveSyncEdit(itemId, 'name', { name, confidence }), 500));
     };
 
     const handleSyncUpdatePrice = (itemId: string, priceText: string) => {
-        const cleaned = priceText.replace(/[^0-9.]/g, '');
+        presence.setEditingItem(itemId);
+        startSyncEdit(itemId, 'price');
+        const current = syncItems.find(i => i.id === itemId);
+        const { cleaned, discount, price } = parsePriceInput(priceText);
         setPriceInputs(prev => ({ ...prev, [itemId]: cleaned }));
-        const price = parseFloat(cleaned) || 0;
-        setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, price } : i));
+        const kind = kindForPrice(current?.kind, discount);
+        const confidence = clearConfidence(current?.confidence, ['price']);
+        const becameDiscount = discount && current?.kind !== 'discount';
+        const updates: BillItemUpdate = {
+            price, kind, confidence,
+            ...(becameDiscount ? DISCOUNT_ASSIGNMENT_RESET : {}),
+            ...(!discount && current?.kind === 'discount' ? { applies_to: null } : {}),
+        };
+        setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, ...updates } : i));
+        if (becameDiscount) {
+            setAssignments(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+            setItemSplits(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+        }
         // Debounce the DB write
         const existing = syncPriceTimers.current.get(itemId);
         if (existing) clearTimeout(existing);
-        syncPriceTimers.current.set(itemId, setTimeout(async () => {
-            try { await updateBillItem(itemId, { price }); }
-            catch (err) { console.error('BillEditor: Failed to update item price:', err); }
-        }, 500));
+        syncPriceTimers.current.set(itemId, setTimeout(() => saveSyncEdit(itemId, 'price', updates), 500));
     };
 
     const handleSyncPriceBlur = (itemId: string) => {
+        presence.setEditingItem(null);
         setPriceInputs(prev => { const next = { ...prev }; delete next[itemId]; return next; });
     };
 
@@ -511,8 +868,8 @@ export default function BillEditorScreen() {
         if (!isHost) return;
         const prevSyncItems = syncItems;
         const prevLocalItems = items;
-        setSyncItems(prev => prev.filter(i => i.id !== itemId));
-        setItems(prev => prev.filter(i => i.id !== itemId));
+        setSyncItems(prev => prev.filter(i => i.id !== itemId && i.applies_to !== itemId));
+        setItems(prev => prev.filter(i => i.id !== itemId && i.applies_to !== itemId));
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
         try {
             await deleteBillItem(itemId);
@@ -530,7 +887,7 @@ export default function BillEditorScreen() {
         if (!isHost || !id) return;
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-        const validItems = effectiveItems.filter(item => item.name.trim() || item.price > 0);
+        const validItems = effectiveItems.filter(item => item.name.trim() || item.price !== 0);
         if (validItems.length === 0) {
             Alert.alert('No Items', 'Please add at least one item before continuing.');
             return;
@@ -553,8 +910,10 @@ export default function BillEditorScreen() {
                     details: {
                         items: validItems,
                         assignments: effectiveAssignments,
+                        itemSplits: effectiveItemSplits,
                         users: activeUsers,
                         tax: taxAmount,
+                        taxRate: standardTaxRate,
                         subtotal,
                     },
                 }),
@@ -580,6 +939,17 @@ export default function BillEditorScreen() {
             return;
         }
 
+        // Discounts follow their target item and fees their allocation rule, so tapping opens their settings
+        const tappedKind = items.find(i => i.id === itemId)?.kind;
+        if (tappedKind === 'discount') {
+            handleOpenDiscountTarget(itemId);
+            return;
+        }
+        if (tappedKind === 'fee') {
+            handleOpenFeeSettings(itemId);
+            return;
+        }
+
         if (selectedUserIds.length === 0) {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
             Alert.alert('Pick a person', 'Please select a participant at the bottom first.');
@@ -587,6 +957,15 @@ export default function BillEditorScreen() {
         }
 
         const currentAssignees = assignments[itemId] || [];
+        const localItem = items.find(i => i.id === itemId);
+        const quantity = localItem?.quantity || 1;
+        const currentSplit = itemSplits[itemId];
+        if (quantity > 1 && (currentSplit?.mode === 'units' || currentAssignees.length === 0)) {
+            const claims = currentSplit?.mode === 'units' ? currentSplit.weights : {};
+            handleUpdateUnitClaims(itemId, toggleUnitClaims(claims, quantity, selectedUserIds));
+            return;
+        }
+
         // If ALL selected users are already assigned → remove them. Otherwise → add them (union).
         const allAlreadyAssigned = selectedUserIds.every(uid => currentAssignees.includes(uid));
 
@@ -605,6 +984,43 @@ export default function BillEditorScreen() {
                 : { ...assignments, [itemId]: newAssignees };
 
         setAssignments(newAssignments);
+        setItemSplits(prev => { const next = { ...prev }; delete next[itemId]; return next; });
+    };
+
+    const handleUpdateUnitClaims = (itemId: string, claims: Record<string, number>) => {
+        const split = unitSplitFrom(claims);
+        const claimantIds = Object.keys(claims);
+        const currentSplit = itemSplits[itemId];
+        if (sameClaims(claims, currentSplit?.mode === 'units' ? currentSplit.weights : {})) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            return;
+        }
+        setAssignments(prev => {
+            const next = { ...prev };
+            if (claimantIds.length > 0) next[itemId] = claimantIds;
+            else delete next[itemId];
+            return next;
+        });
+        setItemSplits(prev => {
+            const next = { ...prev };
+            if (split) next[itemId] = split;
+            else delete next[itemId];
+            return next;
+        });
+        Haptics.selectionAsync();
+    };
+
+    const handleReleaseUnit = (itemId: string) => {
+        if (isFromParty) {
+            const item = syncItems.find(i => i.id === itemId);
+            if (!item || item.split_mode !== 'units') return;
+            const targetIds = isHost ? selectedUserIds : (myParticipantId ? [myParticipantId] : []);
+            handleSyncUpdateUnitClaims(item, (claims) => releaseUnitClaims(claims, targetIds));
+            return;
+        }
+        const split = itemSplits[itemId];
+        if (split?.mode !== 'units') return;
+        handleUpdateUnitClaims(itemId, releaseUnitClaims(split.weights, selectedUserIds));
     };
 
     const handleSelectUser = (userId: string) => {
@@ -626,6 +1042,16 @@ export default function BillEditorScreen() {
     };
 
     const handleLongPressItem = (itemId: string) => {
+        const pressedKind = effectiveItems.find(i => i.id === itemId)?.kind;
+        if (pressedKind === 'discount') {
+            handleOpenDiscountTarget(itemId);
+            return;
+        }
+        if (pressedKind === 'fee') {
+            handleOpenFeeSettings(itemId);
+            return;
+        }
+
         let existingAssignees: string[] = [];
         if (isFromParty) {
             const syncItem = syncItems.find(i => i.id === itemId);
@@ -644,6 +1070,156 @@ export default function BillEditorScreen() {
         setShowMultiAssignModal(true);
     };
 
+    // ─── Discounts: choose which item a discount line reduces, or share it across the bill ───
+    const handleOpenDiscountTarget = (itemId: string) => {
+        if (isFromParty && !isHost) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            return;
+        }
+        Haptics.selectionAsync();
+        setDiscountTargetItemId(itemId);
+    };
+
+    const handleUpdateDiscountLine = async (updates: { kind: BillLineKind; applies_to: string | null; price?: number }) => {
+        const itemId = discountTargetItemId;
+        if (!itemId) return;
+        setDiscountTargetItemId(null);
+        Haptics.selectionAsync();
+
+        if (isFromParty) {
+            const original = syncItems.find(i => i.id === itemId);
+            setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, ...updates } : i));
+            try {
+                await updateBillItem(itemId, updates);
+            } catch (err) {
+                if (original) setSyncItems(prev => prev.map(i => i.id === itemId ? original : i));
+                console.error('BillEditor: Failed to update discount:', err);
+                Alert.alert('Error', 'Failed to update discount. Try again.');
+            }
+        } else {
+            setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updates } : item));
+        }
+    };
+
+    const handleConvertDiscountToItem = () => {
+        const line = effectiveItems.find(i => i.id === discountTargetItemId);
+        if (!line) return;
+        handleUpdateDiscountLine({ kind: 'item', applies_to: null, price: Math.abs(line.price) });
+    };
+
+    // ─── Fees: type and allocation rule (proportional, equal, or specific people) ───
+    const handleOpenFeeSettings = (itemId: string) => {
+        if (isFromParty && !isHost) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            return;
+        }
+        const fee = effectiveItems.find(i => i.id === itemId);
+        if (!fee) return;
+        Haptics.selectionAsync();
+        setFeeDraft({
+            type: fee.fee_type || 'other',
+            allocation: fee.fee_allocation || 'proportional',
+            assigneeIds: effectiveAssignments[itemId] || [],
+        });
+        setFeeSettingsItemId(itemId);
+    };
+
+    const handleSaveFeeSettings = async () => {
+        const itemId = feeSettingsItemId;
+        if (!itemId) return;
+        const { type, allocation, assigneeIds } = feeDraft;
+        if (allocation === 'assigned' && assigneeIds.length === 0) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            Alert.alert('Pick who pays', 'Select at least one person to cover this fee.');
+            return;
+        }
+        setFeeSettingsItemId(null);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+        // Rename untouched default labels so the card matches the chosen type
+        const fee = effectiveItems.find(i => i.id === itemId);
+        const labels = Object.values(FEE_TYPE_LABELS);
+        const name = !fee?.name || labels.includes(fee.name) ? FEE_TYPE_LABELS[type] : fee.name;
+        const payerIds = allocation === 'assigned' ? assigneeIds : [];
+
+        if (isFromParty) {
+            const original = syncItems.find(i => i.id === itemId);
+            setSyncItems(prev => prev.map(i => i.id === itemId ? {
+                ...i,
+                name,
+                fee_type: type,
+                fee_allocation: allocation,
+                assigned_ids: payerIds.length > 0 ? payerIds.join(',') : null,
+                assigned_to: payerIds[0] ?? null,
+            } : i));
+            try {
+                await updateFeeLine(itemId, type, allocation, payerIds);
+                if (name !== fee?.name) await updateBillItem(itemId, { name });
+            } catch (err) {
+                if (original) setSyncItems(prev => prev.map(i => i.id === itemId ? original : i));
+                console.error('BillEditor: Failed to update fee:', err);
+                Alert.alert('Error', 'Failed to update fee. Try again.');
+            }
+        } else {
+            setItems(prev => prev.map(item => item.id === itemId
+                ? { ...item, name, fee_type: type, fee_allocation: allocation }
+                : item));
+            setAssignments(prev => {
+                const next = { ...prev };
+                if (payerIds.length > 0) next[itemId] = payerIds;
+                else delete next[itemId];
+                return next;
+            });
+        }
+    };
+
+    // ─── Tax categories: standard rate, exempt, or a custom rate per item ───
+    const handleOpenTaxSettings = () => {
+        if (!multiAssignItemId) return;
+        const item = effectiveItems.find(i => i.id === multiAssignItemId);
+        setShowMultiAssignModal(false);
+        setMultiAssignItemId(null);
+        if (!item) return;
+        Haptics.selectionAsync();
+        setTaxDraft({
+            category: item.tax_category || 'standard',
+            rateInput: item.tax_category === 'custom' && item.tax_rate != null ? String(item.tax_rate) : '',
+            standardRateInput: standardTaxRate != null ? String(standardTaxRate) : '',
+        });
+        setTaxSettingsItemId(item.id);
+    };
+
+    const handleSaveTaxSettings = async () => {
+        const itemId = taxSettingsItemId;
+        if (!itemId) return;
+        const { category, rateInput, standardRateInput } = taxDraft;
+        const rate = parseFloat(rateInput);
+        if (category === 'custom' && (!Number.isFinite(rate) || rate < 0 || rate > 100)) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            Alert.alert('Invalid rate', 'Enter a tax rate between 0 and 100%.');
+            return;
+        }
+        const standardRate = parseFloat(standardRateInput);
+        setStandardTaxRate(Number.isFinite(standardRate) && standardRate >= 0 ? standardRate : null);
+        setTaxSettingsItemId(null);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+        const updates = { tax_category: category, tax_rate: category === 'custom' ? rate : null };
+        if (isFromParty) {
+            const original = syncItems.find(i => i.id === itemId);
+            setSyncItems(prev => prev.map(i => i.id === itemId ? { ...i, ...updates } : i));
+            try {
+                await updateBillItem(itemId, updates);
+            } catch (err) {
+                if (original) setSyncItems(prev => prev.map(i => i.id === itemId ? original : i));
+                console.error('BillEditor: Failed to update tax category:', err);
+                Alert.alert('Error', 'Failed to update tax. Try again.');
+            }
+        } else {
+            setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updates } : item));
+        }
+    };
+
     const handleToggleMultiAssignUser = (userId: string) => {
         setMultiAssignSelectedUserIds(prev => {
             if (prev.includes(userId)) {
@@ -680,7 +1256,7 @@ export default function BillEditorScreen() {
             // Optimistic update
             const originalItem = syncItems.find(i => i.id === itemId);
             setSyncItems(prev => prev.map(i =>
-                i.id === itemId ? { ...i, assigned_ids: newAssignedIds, assigned_to: newAssignedTo } : i
+                i.id === itemId ? { ...i, assigned_ids: newAssignedIds, assigned_to: newAssignedTo, split_mode: 'equal', split_weights: null } : i
             ));
 
             try {
@@ -688,9 +1264,7 @@ export default function BillEditorScreen() {
             } catch (error) {
                 // Revert optimistic update on failure
                 if (originalItem) {
-                    setSyncItems(prev => prev.map(i =>
-                        i.id === itemId ? { ...i, assigned_ids: originalItem.assigned_ids, assigned_to: originalItem.assigned_to } : i
-                    ));
+                    setSyncItems(prev => prev.map(i => i.id === itemId ? originalItem : i));
                 }
                 console.error('BillEditor: Failed to multi-assign item:', error);
                 Alert.alert('Error', 'Failed to update assignment. Try again.');
@@ -701,6 +1275,7 @@ export default function BillEditorScreen() {
                     ? (() => { const n = { ...assignments }; delete n[itemId]; return n; })()
                     : { ...assignments, [itemId]: newAssignees };
             setAssignments(newAssignments);
+            setItemSplits(prev => { const next = { ...prev }; delete next[itemId]; return next; });
         }
 
         setShowMultiAssignModal(false);
@@ -799,19 +1374,24 @@ export default function BillEditorScreen() {
                         }
                         const inserted = await response.json();
                         const dbRow = inserted[0];
-                        const newUser: User = {
-                            id: dbRow.id,
-                            name: dbRow.name,
-                            avatar: dbRow.avatar_url || '',
-                            color: dbRow.color,
-                            initials: dbRow.initials,
-                        };
-                        // Add to loadedUsers (party/existing draft uses loadedUsers), not additionalUsers —
-                        // realtime subscription may also deliver this, so loadedUsers dedupes by id.
-                        setLoadedUsers(prev => {
-                            if (prev.some(u => u.id === newUser.id)) return prev;
-                            return [...prev, newUser];
-                        });
+                        if (isFromParty) {
+                            // Party mode lists the session's participants; its realtime insert may land first
+                            billSession.setParticipants(prev => prev.some(p => p.id === dbRow.id) ? prev : [...prev, dbRow]);
+                        } else {
+                            const newUser: User = {
+                                id: dbRow.id,
+                                name: dbRow.name,
+                                avatar: dbRow.avatar_url || '',
+                                color: dbRow.color,
+                                initials: dbRow.initials,
+                                isGuest: true,
+                            };
+                            // Add to loadedUsers (an existing draft uses loadedUsers), not additionalUsers
+                            setLoadedUsers(prev => {
+                                if (prev.some(u => u.id === newUser.id)) return prev;
+                                return [...prev, newUser];
+                            });
+                        }
                         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
                     } catch (err) {
                         console.error('BillEditor: Error adding participant:', err);
@@ -841,14 +1421,7 @@ export default function BillEditorScreen() {
             'Choose a way to split the bill',
             [
                 { text: 'Split Evenly', onPress: handleSplitEvenly },
-                {
-                    text: 'Custom Percentages', onPress: () => {
-                        const initialInputs: Record<string, string> = {};
-                        activeUsers.forEach(u => initialInputs[u.id] = '');
-                        setCustomPctInputs(initialInputs);
-                        setShowCustomSplitModal(true);
-                    }
-                },
+                { text: 'Custom Percentages', onPress: () => openCustomSplit(null, 'percent', []) },
                 { text: 'Cancel', style: 'cancel' }
             ]
         );
@@ -863,11 +1436,13 @@ export default function BillEditorScreen() {
             const assignedTo = allUserIds.length > 0 ? allUserIds[0] : null;
 
             // Optimistic update
-            setSyncItems(prev => prev.map(i => ({
+            setSyncItems(prev => prev.map(i => isRegularLine(i) ? {
                 ...i,
                 assigned_ids: assignedIdsString,
-                assigned_to: assignedTo
-            })));
+                assigned_to: assignedTo,
+                split_mode: 'equal',
+                split_weights: null,
+            } : i));
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
             try {
@@ -877,11 +1452,12 @@ export default function BillEditorScreen() {
                 Alert.alert('Error', 'Failed to split evenly. Please try again.');
             }
         } else {
-            const newAssignments: Record<string, string[]> = {};
+            const newAssignments: Record<string, string[]> = keptFeeAssignments(items, assignments);
             items.forEach(item => {
-                if (item.name || item.price > 0) newAssignments[item.id] = [...allUserIds];
+                if (isRegularLine(item) && (item.name || item.price > 0)) newAssignments[item.id] = [...allUserIds];
             });
             setAssignments(newAssignments);
+            setItemSplits({});
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         }
     };
@@ -890,7 +1466,7 @@ export default function BillEditorScreen() {
         if (isFromParty) {
             if (!isHost || !id) return;
             
-            const updates = syncItems.map(item => {
+            const updates = syncItems.filter(isRegularLine).map(item => {
                 const randomUser = activeUsers[Math.floor(Math.random() * activeUsers.length)];
                 return {
                     id: item.id,
@@ -902,25 +1478,26 @@ export default function BillEditorScreen() {
             // Optimistic update
             setSyncItems(prev => prev.map(i => {
                 const update = updates.find(u => u.id === i.id);
-                return update ? { ...i, assigned_ids: update.assigned_ids, assigned_to: update.assigned_to } : i;
+                return update ? { ...i, assigned_ids: update.assigned_ids, assigned_to: update.assigned_to, split_mode: 'equal', split_weights: null } : i;
             }));
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
             try {
-                await randomizeAssignmentsMulti(updates);
+                await randomizeAssignmentsMulti(id, updates);
             } catch (err) {
                 console.error('BillEditor: Failed to randomize:', err);
                 Alert.alert('Error', 'Failed to randomize assignments. Please try again.');
             }
         } else {
-            const newAssignments: Record<string, string[]> = {};
+            const newAssignments: Record<string, string[]> = keptFeeAssignments(items, assignments);
             items.forEach(item => {
-                if (item.name || item.price > 0) {
+                if (isRegularLine(item) && (item.name || item.price > 0)) {
                     const randomUser = activeUsers[Math.floor(Math.random() * activeUsers.length)];
                     newAssignments[item.id] = [randomUser.id];
                 }
             });
             setAssignments(newAssignments);
+            setItemSplits({});
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         }
     };
@@ -930,11 +1507,13 @@ export default function BillEditorScreen() {
             if (!isHost || !id) return;
 
             // Optimistic update
-            setSyncItems(prev => prev.map(i => ({
+            setSyncItems(prev => prev.map(i => isRegularLine(i) ? {
                 ...i,
                 assigned_ids: null,
-                assigned_to: null
-            })));
+                assigned_to: null,
+                split_mode: 'equal',
+                split_weights: null,
+            } : i));
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
 
             try {
@@ -944,55 +1523,114 @@ export default function BillEditorScreen() {
                 Alert.alert('Error', 'Failed to clear assignments. Please try again.');
             }
         } else {
-            setAssignments({});
+            setAssignments(keptFeeAssignments(items, assignments));
+            setItemSplits({});
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
         }
     };
 
+    // Opens the custom split sheet for one item (itemId) or for the whole bill (null)
+    const openCustomSplit = (itemId: string | null, mode: ItemSplit['mode'], preselectedIds: string[]) => {
+        const existing = itemId ? effectiveItemSplits[itemId] : undefined;
+        const splitMode = existing?.mode ?? mode;
+        const initialInputs: Record<string, string> = {};
+        activeUsers.forEach(u => {
+            if (existing) {
+                const weight = existing.weights[u.id];
+                initialInputs[u.id] = weight ? String(weight) : '';
+            } else {
+                initialInputs[u.id] = splitMode === 'shares' && preselectedIds.includes(u.id) ? '1' : '';
+            }
+        });
+        setCustomSplitItemId(itemId);
+        setCustomSplitMode(splitMode);
+        setCustomPctInputs(initialInputs);
+        setShowCustomSplitModal(true);
+    };
+
+    const handleOpenItemCustomSplit = () => {
+        if (!multiAssignItemId) return;
+        const itemId = multiAssignItemId;
+        setShowMultiAssignModal(false);
+        setMultiAssignItemId(null);
+        openCustomSplit(itemId, 'shares', multiAssignSelectedUserIds);
+    };
+
     const handleApplyCustomSplit = async () => {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        const proportionalShares: string[] = [];
+        const weights: Record<string, number> = {};
         activeUsers.forEach(u => {
-            const pct = parseFloat(customPctInputs[u.id]) || 0;
-            const shares = Math.round(pct * 10);
-            for (let i = 0; i < shares; i++) proportionalShares.push(u.id);
+            const value = parseFloat(customPctInputs[u.id]) || 0;
+            if (value > 0) weights[u.id] = value;
         });
+        const participantIds = activeUsers.map(u => u.id).filter(uid => weights[uid] !== undefined);
+        const split: ItemSplit = { mode: customSplitMode, weights };
+        const itemId = customSplitItemId;
 
         if (isFromParty) {
             if (!isHost || !id) return;
-            const assignedIdsString = proportionalShares.join(',');
-            const assignedTo = proportionalShares.length > 0 ? proportionalShares[0] : null;
-
-            // Optimistic update
-            setSyncItems(prev => prev.map(i => ({
+            const assignedIdsString = participantIds.join(',');
+            const assignedTo = participantIds.length > 0 ? participantIds[0] : null;
+            const applyTo = (i: SyncBillItem) => ({
                 ...i,
                 assigned_ids: assignedIdsString,
-                assigned_to: assignedTo
-            })));
+                assigned_to: assignedTo,
+                split_mode: split.mode,
+                split_weights: split.weights,
+            });
+
+            // Optimistic update
+            const previousSyncItems = syncItems;
+            setSyncItems(prev => prev.map(i => (itemId === null ? isRegularLine(i) : i.id === itemId) ? applyTo(i) : i));
             setShowCustomSplitModal(false);
 
             try {
-                await assignAllItemsMulti(id, proportionalShares);
+                if (itemId) {
+                    await setItemSplit(itemId, participantIds, split);
+                } else {
+                    await setAllItemsSplit(id, participantIds, split);
+                }
             } catch (err) {
+                setSyncItems(previousSyncItems);
                 console.error('BillEditor: Failed to apply custom split:', err);
                 Alert.alert('Error', 'Failed to apply custom split. Please try again.');
             }
         } else {
-            const newAssignments: Record<string, string[]> = {};
-            items.forEach(item => {
-                if (item.name || item.price > 0) {
-                    if (proportionalShares.length > 0) newAssignments[item.id] = [...proportionalShares];
-                }
+            const targetIds = itemId
+                ? [itemId]
+                : items.filter(item => isRegularLine(item) && (item.name || item.price > 0)).map(item => item.id);
+            setAssignments(prev => {
+                const next = { ...prev };
+                targetIds.forEach(tid => { next[tid] = [...participantIds]; });
+                return next;
+            });
+            setItemSplits(prev => {
+                const next = { ...prev };
+                targetIds.forEach(tid => { next[tid] = split; });
+                return next;
             });
-            setAssignments(newAssignments);
             setShowCustomSplitModal(false);
         }
     };
 
+    const handleSaveCurrency = async (next: BillCurrency) => {
+        const previous = billCurrency;
+        setBillCurrency(next);
+        setShowCurrencySheet(false);
+        if (!isExistingDraft) return; // saved with the draft / at checkout
+        try {
+            await updateBillCurrency(id, next);
+        } catch (err) {
+            setBillCurrency(previous);
+            console.error('BillEditor: Failed to save currency:', err);
+            Alert.alert('Error', 'Failed to save the currency. Please try again.');
+        }
+    };
+
     const handleSaveAsDraft = async () => {
         if (isSaving) return;
         if (!user) { Alert.alert('Error', 'Please log in to save drafts.'); return; }
-        const validItems = items.filter(item => item.name.trim() || item.price > 0);
+        const validItems = items.filter(item => item.name.trim() || item.price !== 0);
         if (validItems.length === 0) { Alert.alert('No Items', 'Add at least one item before saving.'); return; }
 
         setIsSaving(true);
@@ -1003,7 +1641,10 @@ export default function BillEditorScreen() {
                 host_id: user.id,
                 total_amount: subtotal,
                 status: 'draft',
-                details: { items: validItems, assignments, scannedTip: activeScannedTip }
+                currency: billCurrency.currency,
+                settlement_currency: billCurrency.settlementCurrency,
+                exchange_rate: billCurrency.exchangeRate,
+                details: { items: validItems, assignments, itemSplits, scannedTip: activeScannedTip, confidence: totalsConfidence }
             };
             if (isExistingDraft && id) billPayload.id = id;
 
@@ -1028,7 +1669,7 @@ export default function BillEditorScreen() {
     };
 
     const handleNext = () => {
-        const validItems = items.filter(item => item.name.trim() || item.price > 0);
+        const validItems = items.filter(item => item.name.trim() || item.price !== 0);
         if (validItems.length === 0) { Alert.alert('No Items', 'Please add at least one item before continuing.'); return; }
 
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -1036,7 +1677,7 @@ export default function BillEditorScreen() {
             pathname: '/bill/tip' as any,
             params: {
                 billId: id,
-                billData: JSON.stringify({ items: validItems, subtotal, tax: taxAmount }),
+                billData: JSON.stringify({ items: validItems, itemSplits, subtotal, tax: taxAmount, taxRate: standardTaxRate, billCurrency }),
                 users: JSON.stringify(activeUsers),
                 assignments: JSON.stringify(assignments),
                 scannedTip: String(activeScannedTip)
@@ -1062,7 +1703,7 @@ export default function BillEditorScreen() {
     }
 
     return (
-        <GestureHandlerRootView style={{ flex: 1 }}>
+        <GestureHandlerRootView style={{ flex: 1 }} onTouchStart={presence.markActive}>
             <SafeAreaView className="flex-1 bg-surface" edges={['top']}>
                 <Stack.Screen options={{ headerShown: false, gestureEnabled: !isFromParty || isHost }} />
 
@@ -1079,6 +1720,11 @@ export default function BillEditorScreen() {
                         <DivvitLogo />
                     </View>
                     <View className="flex-row items-center gap-4">
+                        {isFromParty && (
+                            <TouchableOpacity onPress={() => setShowActivitySheet(true)} className="p-2 rounded-full active:bg-gray-100 transition-colors">
+                                <History color="#6346cd" size={20} />
+                            </TouchableOpacity>
+                        )}
                         <View className="px-3 py-1 rounded-full bg-surface-container-high">
                             <Text className="text-primary text-[10px] font-bold uppercase tracking-widest">Draft</Text>
                         </View>
@@ -1088,6 +1734,8 @@ export default function BillEditorScreen() {
                     </View>
                 </View>
 
+                <ReconnectingBanner connection={billSession.connection} />
+
                 {/* Main Content Area */}
                 <KeyboardAwareScrollView
                     contentContainerStyle={{ paddingBottom: 150, paddingTop: 10, paddingHorizontal: 24 }}
@@ -1102,38 +1750,83 @@ export default function BillEditorScreen() {
                         taxAmount={taxAmount} 
                         taxInput={taxInput} 
                         setTaxInput={setTaxInput} 
-                        setTaxAmount={setTaxAmount} 
+                        setTaxAmount={(value) => { setTaxAmount(value); handleConfirmTax(); }} 
+                        feesTotal={feesTotal}
+                        itemizedTax={itemizedTax}
                         billTotal={billTotal} 
                         progressSegments={progressSegments} 
+                        currency={billCurrency.currency}
+                        onCurrencyPress={!isFromParty || isHost ? () => setShowCurrencySheet(true) : undefined}
+                        isTaxUncertain={canCheckScan && isLowConfidence(totalsConfidence?.tax)}
+                        onConfirmTax={handleConfirmTax}
                     />
 
+                    {/* Scanned values the scanner wasn't sure about — host checks them before the party starts */}
+                    {canCheckScan && uncertainCount > 0 && (
+                        <View className="flex-row items-center rounded-xl px-4 py-3 mb-4" style={{ backgroundColor: '#FEF3C7' }}>
+                            <AlertTriangle color="#92400e" size={18} />
+                            <Text className="ml-2 flex-1 font-semibold text-[13px]" style={{ color: '#92400e' }}>
+                                {uncertainCount === 1 ? '1 value' : `${uncertainCount} values`} from the scan may be misread. Check {uncertainCount === 1 ? 'it' : 'them'} against the receipt before splitting.
+                            </Text>
+                        </View>
+                    )}
+
                     {/* Items Bento Grid */}
                     <View className="flex-col gap-4">
                         <View className="flex-row items-center justify-between mb-4">
                             <Text className="text-lg font-bold tracking-tight text-on-surface ml-1 flex-1 flex-shrink">Bill Items</Text>
                             {(!isFromParty || isHost) && isEditable && (
-                                <TouchableOpacity onPress={isFromParty ? handleSyncAddItem : handleAddItem} className="flex-row items-center gap-1">
-                                    <Plus color="#4b29b4" size={16} />
-                                    <Text className="text-primary font-bold text-sm">Add Item</Text>
-                                </TouchableOpacity>
+                                <View className="flex-row items-center gap-4">
+                                    <TouchableOpacity onPress={isFromParty ? handleSyncAddDiscount : handleAddDiscount} className="flex-row items-center gap-1">
+                                        <Tag color="#4b29b4" size={14} />
+                                        <Text className="text-primary font-bold text-sm">Discount</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={isFromParty ? handleSyncAddFee : handleAddFee} className="flex-row items-center gap-1">
+                                        <Percent color="#4b29b4" size={14} />
+                                        <Text className="text-primary font-bold text-sm">Fee</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={isFromParty ? handleSyncAddItem : handleAddItem} className="flex-row items-center gap-1">
+                                        <Plus color="#4b29b4" size={16} />
+                                        <Text className="text-primary font-bold text-sm">Add Item</Text>
+                                    </TouchableOpacity>
+                                </View>
                             )}
                         </View>
 
                         {isFromParty ? (
                             /* ── Party mode (host or guest): render from bill_items table with realtime assignment ── */
                             syncItems.length > 0 ? syncItems.map((syncItem, index) => {
-                                const uniqueAssignees = syncItem.assigned_ids
-                                    ? syncItem.assigned_ids.split(',').filter(Boolean)
-                                    : (syncItem.assigned_to ? [syncItem.assigned_to].filter(Boolean) as string[] : []);
+                                const uniqueAssignees = Array.from(new Set(parseAssigneeIds(syncItem)));
+                                const itemSplit = effectiveItemSplits[syncItem.id];
+                                const unitClaims = itemSplit?.mode === 'units' ? itemSplit.weights : null;
+                                const claimTargetIds = isHost ? selectedUserIds : (myParticipantId ? [myParticipantId] : []);
+                                const editor = presence.editorOf(syncItem.id);
 
                                 return (
                                     <BillItemCard
                                         key={syncItem.id}
-                                        item={{ id: syncItem.id, name: syncItem.name, price: syncItem.price }}
+                                        item={{ id: syncItem.id, name: syncItem.name, price: syncItem.price, quantity: syncItem.quantity }}
+                                        discountTarget={syncItem.kind === 'discount'
+                                            ? (syncItems.find(i => i.id === syncItem.applies_to)?.name || null)
+                                            : undefined}
+                                        feeLabel={syncItem.kind === 'fee'
+                                            ? `${FEE_TYPE_LABELS[syncItem.fee_type || 'other']} · ${describeFeeAllocation(syncItem.fee_allocation, uniqueAssignees.length)}`
+                                            : undefined}
                                         index={index}
                                         priceInput={isHost ? priceInputs[syncItem.id] : undefined}
                                         uniqueAssignees={uniqueAssignees}
+                                        splitLabel={itemSplit ? describeItemSplit(itemSplit, uniqueAssignees) : undefined}
+                                        taxLabel={describeTaxCategory(syncItem)}
+                                        unitsLeft={syncItem.quantity > 1 && (unitClaims || uniqueAssignees.length === 0) ? unitsRemaining(syncItem.quantity, unitClaims) : undefined}
+                                        myUnits={unitClaims ? claimTargetIds.reduce((sum, uid) => sum + (unitClaims[uid] || 0), 0) : 0}
+                                        onReleaseUnit={isEditable ? () => handleReleaseUnit(syncItem.id) : undefined}
+                                        uncertainFields={isHost ? uncertainFields(syncItem) : undefined}
+                                        onConfirmScan={isHost && isEditable ? () => handleConfirmScan(syncItem.id) : undefined}
+                                        editingBy={editor
+                                            ? { name: editor.name, color: activeUsers.find(u => u.id === editor.participantId)?.color || '#4b29b4' }
+                                            : null}
                                         activeUsers={activeUsers}
+                                        currency={billCurrency.currency}
                                         onNameChange={isHost && isEditable ? (text) => handleSyncUpdateName(syncItem.id, text) : () => {}}
                                         onPriceChange={isHost && isEditable ? (text) => handleSyncUpdatePrice(syncItem.id, text) : () => {}}
                                         onPriceBlur={isHost && isEditable ? () => handleSyncPriceBlur(syncItem.id) : () => {}}
@@ -1157,15 +1850,32 @@ export default function BillEditorScreen() {
                             items.map((item, index) => {
                                 const assignedUserIds = assignments[item.id] || [];
                                 const uniqueAssignees = Array.from(new Set(assignedUserIds));
+                                const itemSplit = itemSplits[item.id];
+                                const quantity = item.quantity || 1;
+                                const unitClaims = itemSplit?.mode === 'units' ? itemSplit.weights : null;
 
                                 return (
                                     <BillItemCard
                                         key={item.id}
                                         item={item}
+                                        discountTarget={item.kind === 'discount'
+                                            ? (items.find(i => i.id === item.applies_to)?.name || null)
+                                            : undefined}
+                                        feeLabel={item.kind === 'fee'
+                                            ? `${FEE_TYPE_LABELS[item.fee_type || 'other']} · ${describeFeeAllocation(item.fee_allocation, uniqueAssignees.length)}`
+                                            : undefined}
                                         index={index}
                                         priceInput={priceInputs[item.id]}
                                         uniqueAssignees={uniqueAssignees}
+                                        splitLabel={itemSplit ? describeItemSplit(itemSplit, uniqueAssignees) : undefined}
+                                        taxLabel={describeTaxCategory(item)}
+                                        unitsLeft={quantity > 1 && (unitClaims || uniqueAssignees.length === 0) ? unitsRemaining(quantity, unitClaims) : undefined}
+                                        myUnits={unitClaims ? selectedUserIds.reduce((sum, uid) => sum + (unitClaims[uid] || 0), 0) : 0}
+                                        onReleaseUnit={isEditable ? () => handleReleaseUnit(item.id) : undefined}
+                                        uncertainFields={uncertainFields(item)}
+                                        onConfirmScan={isEditable ? () => handleConfirmScan(item.id) : undefined}
                                         activeUsers={activeUsers}
+                                        currency={billCurrency.currency}
                                         onNameChange={isEditable ? (text) => handleUpdateItemName(item.id, text) : () => {}}
                                         onPriceChange={isEditable ? (text) => handleUpdateItemPrice(item.id, text) : () => {}}
                                         onPriceBlur={isEditable ? () => handlePriceBlur(item.id) : () => {}}
@@ -1208,6 +1918,9 @@ export default function BillEditorScreen() {
                         selectedUserIds={selectedUserIds}
                         onSelectUser={handleSelectUser}
                         onAddUser={((!isFromParty || isHost) && isEditable) ? handleAddUser : undefined}
+                        presence={isFromParty
+                            ? Object.fromEntries(activeUsers.filter(u => !u.isGuest).map(u => [u.id, presence.statusOf(u.id)]))
+                            : undefined}
                     />
 
                 </KeyboardAwareScrollView>
@@ -1267,14 +1980,47 @@ export default function BillEditorScreen() {
                             <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
                                 <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
                                     <View className="flex-1 mr-4">
-                                        <Text className="font-heading text-xl font-bold text-on-surface">Custom Split</Text>
-                                        <Text className="text-sm text-on-surface-variant font-body mt-1">Enter percentages for each person</Text>
+                                        <Text className="font-heading text-xl font-bold text-on-surface" numberOfLines={1}>
+                                            {customSplitItemId
+                                                ? `Split ${effectiveItems.find(i => i.id === customSplitItemId)?.name || 'item'}`
+                                                : 'Custom Split'}
+                                        </Text>
+                                        <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                            {customSplitMode === 'percent'
+                                                ? 'Enter percentages for each person'
+                                                : 'Enter how many shares each person takes'}
+                                        </Text>
                                     </View>
                                     <TouchableOpacity onPress={() => setShowCustomSplitModal(false)} className="p-2 rounded-full bg-gray-100">
                                         <X size={20} color="#6B7280" />
                                     </TouchableOpacity>
                                 </View>
 
+                                {/* Percent / Shares toggle */}
+                                <View className="flex-row mx-5 mt-4 p-1 rounded-full bg-surface-container-high">
+                                    {(['percent', 'shares'] as const).map(mode => (
+                                        <TouchableOpacity
+                                            key={mode}
+                                            onPress={() => {
+                                                if (mode === customSplitMode) return;
+                                                Haptics.selectionAsync();
+                                                setCustomSplitMode(mode);
+                                                setCustomPctInputs(prev => {
+                                                    const next: Record<string, string> = {};
+                                                    Object.keys(prev).forEach(uid => { next[uid] = ''; });
+                                                    return next;
+                                                });
+                                            }}
+                                            activeOpacity={0.8}
+                                            className={`flex-1 py-2 rounded-full items-center ${customSplitMode === mode ? 'bg-primary' : ''}`}
+                                        >
+                                            <Text className={`text-xs font-bold uppercase tracking-wider ${customSplitMode === mode ? 'text-white' : 'text-on-surface-variant'}`}>
+                                                {mode === 'percent' ? 'Percent' : 'Shares'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
                                 <View className="px-5 pt-4 max-h-[300px]">
                                     {activeUsers.map(u => (
                                         <View key={u.id} className="flex-row items-center justify-between mb-4">
@@ -1296,7 +2042,7 @@ export default function BillEditorScreen() {
                                                     keyboardType="decimal-pad"
                                                     className="font-heading text-lg text-on-surface min-w-[40px] text-right"
                                                 />
-                                                <Text className="font-heading text-lg text-on-surface-variant ml-1">%</Text>
+                                                <Text className="font-heading text-lg text-on-surface-variant ml-1">{customSplitMode === 'percent' ? '%' : '×'}</Text>
                                             </View>
                                         </View>
                                     ))}
@@ -1307,22 +2053,23 @@ export default function BillEditorScreen() {
                                     let sumPcts = 0;
                                     Object.values(customPctInputs).forEach(v => sumPcts += parseFloat(v) || 0);
                                     const sumRounded = Math.round(sumPcts * 10) / 10;
-                                    const isValid = sumRounded === 100;
-                                    const isUnder = sumRounded < 100;
+                                    const isPercent = customSplitMode === 'percent';
+                                    const isValid = isPercent ? sumRounded === 100 : sumRounded > 0;
+                                    const isUnder = isPercent ? sumRounded < 100 : sumRounded === 0;
 
                                     return (
                                         <View className="px-5 pt-6 pb-4 border-t border-gray-100">
                                             <View className="flex-row justify-between mb-2">
                                                 <Text className="text-on-surface-variant text-xs uppercase tracking-wider font-bold">Total Allocated</Text>
                                                 <Text className={`text-xs font-bold leading-none ${isValid ? 'text-green-500' : (isUnder ? 'text-amber-500' : 'text-error')}`}>
-                                                    {sumRounded.toFixed(1)}% / 100%
+                                                    {isPercent ? `${sumRounded.toFixed(1)}% / 100%` : `${sumRounded} ${sumRounded === 1 ? 'share' : 'shares'}`}
                                                 </Text>
                                             </View>
                                             
                                             <View className="h-2 bg-gray-100 rounded-full overflow-hidden mb-6">
                                                 <View 
                                                     className={`h-full ${isValid ? 'bg-green-500' : (isUnder ? 'bg-amber-500' : 'bg-error')}`}
-                                                    style={{ width: `${Math.min(sumRounded, 100)}%` }}
+                                                    style={{ width: `${isPercent ? Math.min(sumRounded, 100) : (isValid ? 100 : 0)}%` }}
                                                 />
                                             </View>
 
@@ -1333,7 +2080,7 @@ export default function BillEditorScreen() {
                                                 className={`py-4 rounded-2xl items-center justify-center flex-row ${isValid ? 'bg-primary' : 'bg-gray-200'}`}
                                             >
                                                 <Text className={`font-heading font-bold text-lg mr-2 ${isValid ? 'text-white' : 'text-gray-400'}`}>
-                                                    Confirm Percentages
+                                                    {isPercent ? 'Confirm Percentages' : 'Confirm Shares'}
                                                 </Text>
                                                 {isValid && <Check size={20} color="white" strokeWidth={3} />}
                                             </TouchableOpacity>
@@ -1346,6 +2093,321 @@ export default function BillEditorScreen() {
                 </Modal>
 
                 {/* Multi-Assign Split Modal */}
+                {/* Fee settings: type + allocation rule */}
+                <Modal
+                    visible={!!feeSettingsItemId}
+                    transparent
+                    animationType="slide"
+                    onRequestClose={() => setFeeSettingsItemId(null)}
+                >
+                    <View className="flex-1 justify-end bg-black/40">
+                        <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                            <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                                <View className="flex-1 mr-4">
+                                    <Text className="font-heading text-xl font-bold text-on-surface">Fee settings</Text>
+                                    <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                        Fees are added on top of the subtotal
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={() => setFeeSettingsItemId(null)} className="p-2 rounded-full bg-gray-100">
+                                    <X size={20} color="#6B7280" />
+                                </TouchableOpacity>
+                            </View>
+
+                            <ScrollView showsVerticalScrollIndicator={true} className="px-5 pt-4 max-h-[420px]">
+                                <Text className="text-[11px] font-heading font-bold uppercase tracking-widest text-on-surface-variant mb-2">Type</Text>
+                                <View className="flex-row flex-wrap gap-2 mb-5">
+                                    {(Object.keys(FEE_TYPE_LABELS) as FeeType[]).map(type => {
+                                        const isSelected = feeDraft.type === type;
+                                        return (
+                                            <TouchableOpacity
+                                                key={type}
+                                                onPress={() => {
+                                                    Haptics.selectionAsync();
+                                                    setFeeDraft(prev => ({ ...prev, type }));
+                                                }}
+                                                className={`px-3 py-2 rounded-full ${isSelected ? 'bg-primary' : 'bg-surface-container-high'}`}
+                                            >
+                                                <Text className={`text-xs font-bold ${isSelected ? 'text-white' : 'text-on-surface-variant'}`}>
+                                                    {FEE_TYPE_LABELS[type]}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+
+                                <Text className="text-[11px] font-heading font-bold uppercase tracking-widest text-on-surface-variant mb-2">Who pays</Text>
+                                {FEE_ALLOCATION_OPTIONS.map(option => {
+                                    const isSelected = feeDraft.allocation === option.value;
+                                    return (
+                                        <TouchableOpacity
+                                            key={option.value}
+                                            onPress={() => {
+                                                Haptics.selectionAsync();
+                                                setFeeDraft(prev => ({ ...prev, allocation: option.value }));
+                                            }}
+                                            activeOpacity={0.7}
+                                            className="flex-row items-center justify-between mb-4 p-1"
+                                        >
+                                            <View className="flex-1 mr-3">
+                                                <Text className="font-heading font-bold text-on-surface text-base">{option.label}</Text>
+                                                <Text className="text-xs text-on-surface-variant font-medium">{option.hint}</Text>
+                                            </View>
+                                            <View className={`w-6 h-6 rounded-full border-2 items-center justify-center ${isSelected ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                                {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                                            </View>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+
+                                {feeDraft.allocation === 'assigned' && activeUsers.map(u => {
+                                    const isSelected = feeDraft.assigneeIds.includes(u.id);
+                                    return (
+                                        <TouchableOpacity
+                                            key={u.id}
+                                            onPress={() => {
+                                                Haptics.selectionAsync();
+                                                setFeeDraft(prev => ({
+                                                    ...prev,
+                                                    assigneeIds: isSelected
+                                                        ? prev.assigneeIds.filter(uid => uid !== u.id)
+                                                        : [...prev.assigneeIds, u.id],
+                                                }));
+                                            }}
+                                            activeOpacity={0.7}
+                                            className="flex-row items-center justify-between mb-4 p-1 pl-4"
+                                        >
+                                            <View className="flex-row items-center flex-1">
+                                                <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: u.color }}>
+                                                    <Text className="font-heading font-bold text-white text-xs">{u.initials}</Text>
+                                                </View>
+                                                <Text className="font-heading font-bold text-on-surface text-base">{u.name}</Text>
+                                            </View>
+                                            <View className={`w-6 h-6 rounded-full border-2 items-center justify-center ${isSelected ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                                {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                                            </View>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </ScrollView>
+
+                            <View className="flex-row px-5 pt-4 gap-3">
+                                <TouchableOpacity
+                                    onPress={() => setFeeSettingsItemId(null)}
+                                    activeOpacity={0.8}
+                                    className="flex-1 py-4 rounded-2xl items-center justify-center bg-gray-100"
+                                >
+                                    <Text className="font-heading font-bold text-base text-gray-500">Cancel</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    onPress={handleSaveFeeSettings}
+                                    activeOpacity={0.8}
+                                    className="flex-1 py-4 rounded-2xl items-center justify-center bg-primary"
+                                >
+                                    <Text className="font-heading font-bold text-base text-white">Save</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    </View>
+                </Modal>
+
+                {/* Tax category: standard, exempt or custom rate */}
+                <Modal
+                    visible={!!taxSettingsItemId}
+                    transparent
+                    animationType="slide"
+                    onRequestClose={() => setTaxSettingsItemId(null)}
+                >
+                    <View className="flex-1 justify-end bg-black/40">
+                        <KeyboardAwareScrollView
+                            contentContainerStyle={{ flexGrow: 1, justifyContent: 'flex-end' }}
+                            showsVerticalScrollIndicator={false}
+                            enableOnAndroid={true}
+                            keyboardShouldPersistTaps="handled"
+                        >
+                            <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                                <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                                    <View className="flex-1 mr-4">
+                                        <Text className="font-heading text-xl font-bold text-on-surface">Tax on this item</Text>
+                                        <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                            Everyone pays tax on the items they claimed
+                                        </Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => setTaxSettingsItemId(null)} className="p-2 rounded-full bg-gray-100">
+                                        <X size={20} color="#6B7280" />
+                                    </TouchableOpacity>
+                                </View>
+
+                                <View className="px-5 pt-4">
+                                    {TAX_CATEGORY_OPTIONS.map(option => {
+                                        const isSelected = taxDraft.category === option.value;
+                                        return (
+                                            <TouchableOpacity
+                                                key={option.value}
+                                                onPress={() => {
+                                                    Haptics.selectionAsync();
+                                                    setTaxDraft(prev => ({ ...prev, category: option.value }));
+                                                }}
+                                                activeOpacity={0.7}
+                                                className="flex-row items-center justify-between mb-4 p-1"
+                                            >
+                                                <View className="flex-1 mr-3">
+                                                    <Text className="font-heading font-bold text-on-surface text-base">{option.label}</Text>
+                                                    <Text className="text-xs text-on-surface-variant font-medium">{option.hint}</Text>
+                                                </View>
+                                                <View className={`w-6 h-6 rounded-full border-2 items-center justify-center ${isSelected ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                                    {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                                                </View>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+
+                                    {taxDraft.category === 'custom' && (
+                                        <View className="flex-row items-center justify-between mb-4 pl-4">
+                                            <Text className="font-heading font-bold text-on-surface text-base">Item rate</Text>
+                                            <View className="flex-row items-center bg-surface-container-high rounded-xl px-3 py-2">
+                                                <TextInput
+                                                    value={taxDraft.rateInput}
+                                                    onChangeText={(text) => setTaxDraft(prev => ({ ...prev, rateInput: text.replace(/[^0-9.]/g, '') }))}
+                                                    placeholder="0"
+                                                    placeholderTextColor="#9CA3AF"
+                                                    keyboardType="decimal-pad"
+                                                    style={{ minWidth: 48, textAlign: 'right', fontSize: 16, fontWeight: '700', color: '#111827', padding: 0 }}
+                                                />
+                                                <Text className="font-bold text-on-surface-variant ml-1">%</Text>
+                                            </View>
+                                        </View>
+                                    )}
+
+                                    <View className="flex-row items-center justify-between mt-2 pt-4 border-t border-gray-100">
+                                        <View className="flex-1 mr-3">
+                                            <Text className="font-heading font-bold text-on-surface text-base">Standard rate</Text>
+                                            <Text className="text-xs text-on-surface-variant font-medium">
+                                                Leave blank to match the receipt tax
+                                            </Text>
+                                        </View>
+                                        <View className="flex-row items-center bg-surface-container-high rounded-xl px-3 py-2">
+                                            <TextInput
+                                                value={taxDraft.standardRateInput}
+                                                onChangeText={(text) => setTaxDraft(prev => ({ ...prev, standardRateInput: text.replace(/[^0-9.]/g, '') }))}
+                                                placeholder={splitPreview.standardTaxRate != null ? splitPreview.standardTaxRate.toFixed(2) : '0'}
+                                                placeholderTextColor="#9CA3AF"
+                                                keyboardType="decimal-pad"
+                                                style={{ minWidth: 48, textAlign: 'right', fontSize: 16, fontWeight: '700', color: '#111827', padding: 0 }}
+                                            />
+                                            <Text className="font-bold text-on-surface-variant ml-1">%</Text>
+                                        </View>
+                                    </View>
+                                </View>
+
+                                <View className="flex-row px-5 pt-6 gap-3">
+                                    <TouchableOpacity
+                                        onPress={() => setTaxSettingsItemId(null)}
+                                        activeOpacity={0.8}
+                                        className="flex-1 py-4 rounded-2xl items-center justify-center bg-gray-100"
+                                    >
+                                        <Text className="font-heading font-bold text-base text-gray-500">Cancel</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={handleSaveTaxSettings}
+                                        activeOpacity={0.8}
+                                        className="flex-1 py-4 rounded-2xl items-center justify-center bg-primary"
+                                    >
+                                        <Text className="font-heading font-bold text-base text-white">Save</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        </KeyboardAwareScrollView>
+                    </View>
+                </Modal>
+
+                <CurrencySheet
+                    visible={showCurrencySheet}
+                    value={billCurrency}
+                    onSave={handleSaveCurrency}
+                    onClose={() => setShowCurrencySheet(false)}
+                />
+
+                {isFromParty && (
+                    <ActivitySheet
+                        visible={showActivitySheet}
+                        billId={id}
+                        participants={billSession.participants}
+                        currency={billCurrency.currency}
+                        currentUserId={user?.id}
+                        canUndo={isHost && isEditable}
+                        onClose={() => setShowActivitySheet(false)}
+                    />
+                )}
+
+                {/* Discount target picker */}
+                <Modal
+                    visible={!!discountTargetItemId}
+                    transparent
+                    animationType="slide"
+                    onRequestClose={() => setDiscountTargetItemId(null)}
+                >
+                    <View className="flex-1 justify-end bg-black/40">
+                        <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                            <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                                <View className="flex-1 mr-4">
+                                    <Text className="font-heading text-xl font-bold text-on-surface">Apply discount to</Text>
+                                    <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                        Item discounts come off whoever has that item
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={() => setDiscountTargetItemId(null)} className="p-2 rounded-full bg-gray-100">
+                                    <X size={20} color="#6B7280" />
+                                </TouchableOpacity>
+                            </View>
+
+                            <ScrollView showsVerticalScrollIndicator={true} className="px-5 pt-4 max-h-[320px]">
+                                {(() => {
+                                    const currentTarget = effectiveItems.find(i => i.id === discountTargetItemId)?.applies_to ?? null;
+                                    const options = [
+                                        { id: null as string | null, label: 'Whole bill', hint: "Shared by each person's subtotal" },
+                                        ...effectiveItems
+                                            .filter(i => isRegularLine(i) && i.id !== discountTargetItemId)
+                                            .map(i => ({ id: i.id as string | null, label: i.name || 'Untitled item', hint: formatMoney(i.price, billCurrency.currency) })),
+                                    ];
+                                    return options.map(option => {
+                                        const isSelected = option.id === currentTarget;
+                                        return (
+                                            <TouchableOpacity
+                                                key={option.id ?? 'bill'}
+                                                onPress={() => handleUpdateDiscountLine({ kind: 'discount', applies_to: option.id })}
+                                                activeOpacity={0.7}
+                                                className="flex-row items-center justify-between mb-4 p-1"
+                                            >
+                                                <View className="flex-row items-center flex-1">
+                                                    <View className="w-10 h-10 rounded-full items-center justify-center mr-3 bg-primary/10">
+                                                        {option.id ? <Tag size={18} color="#6346cd" /> : <Receipt size={18} color="#6346cd" />}
+                                                    </View>
+                                                    <View className="flex-1">
+                                                        <Text className="font-heading font-bold text-on-surface text-base" numberOfLines={1}>{option.label}</Text>
+                                                        <Text className="text-xs text-on-surface-variant font-medium">{option.hint}</Text>
+                                                    </View>
+                                                </View>
+                                                <View className={`w-6 h-6 rounded-full border-2 items-center justify-center ${isSelected ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                                    {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                                                </View>
+                                            </TouchableOpacity>
+                                        );
+                                    });
+                                })()}
+                            </ScrollView>
+
+                            <TouchableOpacity
+                                onPress={handleConvertDiscountToItem}
+                                activeOpacity={0.7}
+                                className="flex-row items-center justify-center mx-5 mt-2 py-3 rounded-2xl border border-dashed border-outline-variant"
+                            >
+                                <Text className="font-heading font-bold text-sm text-primary">Not a discount — make it a regular item</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </Modal>
+
                 <Modal
                     visible={showMultiAssignModal}
                     transparent
@@ -1427,6 +2489,33 @@ export default function BillEditorScreen() {
                                     </ScrollView>
                                 </View>
 
+                                {(!isFromParty || isHost) && (
+                                    <TouchableOpacity
+                                        onPress={handleOpenItemCustomSplit}
+                                        activeOpacity={0.7}
+                                        className="flex-row items-center justify-center mx-5 mt-2 py-3 rounded-2xl border border-dashed border-outline-variant"
+                                    >
+                                        <Columns size={16} color="#6346cd" />
+                                        <Text className="font-heading font-bold text-sm text-primary ml-2">Split unevenly (shares or %)</Text>
+                                    </TouchableOpacity>
+                                )}
+
+                                {(!isFromParty || isHost) && (
+                                    <TouchableOpacity
+                                        onPress={handleOpenTaxSettings}
+                                        activeOpacity={0.7}
+                                        className="flex-row items-center justify-center mx-5 mt-2 py-3 rounded-2xl border border-dashed border-outline-variant"
+                                    >
+                                        <Receipt size={16} color="#6346cd" />
+                                        <Text className="font-heading font-bold text-sm text-primary ml-2">
+                                            {(() => {
+                                                const item = effectiveItems.find(i => i.id === multiAssignItemId);
+                                                return `Tax: ${(item && describeTaxCategory(item)?.replace(/^Tax /, '')) || 'standard rate'}`;
+                                            })()}
+                                        </Text>
+                                    </TouchableOpacity>
+                                )}
+
                                 {/* Buttons: Cancel & Confirm */}
                                 <View className="flex-row px-5 pt-6 gap-3">
                                     <TouchableOpacity
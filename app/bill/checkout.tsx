@@ -6,6 +6,8 @@ import * as Haptics from 'expo-haptics';
 import { ArrowLeft, ArrowRight, Check, X } from 'lucide-react-native';
 import { useAuth } from '../../context/AuthContext';
 import { openVenmo, openCashApp, openZelle, openAppleCash } from '../../utils/payments';
+import { convertAmount, formatMoney, readBillCurrency } from '../../utils/currency';
+import { BillCurrency } from '../../types';
 
 // --- Types ---
 type User = {
@@ -56,6 +58,10 @@ export default function CheckoutScreen() {
         return { items: [], tip: 0, total: 0, subtotal: 0 };
     }, [billData]);
 
+    // Amounts are in the receipt's currency; payment links go out in the settlement currency
+    const billCurrency: BillCurrency = billInfo.billCurrency || readBillCurrency(null);
+    const isConverted = billCurrency.exchangeRate != null;
+
     const users: User[] = useMemo(() => {
         if (usersParam) {
             try {
@@ -196,7 +202,7 @@ export default function CheckoutScreen() {
     const handlePaymentMethodSelect = async (method: PaymentMethod) => {
         if (!selectedUserForPayment) return;
 
-        const amountOwed = userTotals[selectedUserForPayment.id] || 0;
+        const amountOwed = convertAmount(userTotals[selectedUserForPayment.id] || 0, billCurrency);
         const note = `Divvit - Payment from ${selectedUserForPayment.name}`;
 
         if (method === 'venmo' && hostPaymentMethods.venmo_handle) {
@@ -238,12 +244,17 @@ export default function CheckoutScreen() {
             const updateData = {
                 status: 'settled', // CRITICAL: This makes it appear in History tab
                 total_amount: billInfo.total,
+                currency: billCurrency.currency,
+                settlement_currency: billCurrency.settlementCurrency,
+                exchange_rate: billCurrency.exchangeRate,
                 details: {
                     items: billInfo.items,
                     tip: billInfo.tip,
+                    tipSettings: billInfo.tipSettings ?? null,
                     subtotal: billInfo.subtotal,
                     users: users,
                     assignments: assignments,
+                    itemSplits: billInfo.itemSplits || {},
                     userTotals: userTotals,
                     paidStatus: paidUsers,
                     closedAt: new Date().toISOString()
@@ -342,8 +353,13 @@ export default function CheckoutScreen() {
                                             OWES
                                         </Text>
                                         <Text className="font-heading text-2xl font-bold text-white">
-                                            ${amountOwed.toFixed(2)}
+                                            {formatMoney(amountOwed, billCurrency.currency)}
                                         </Text>
+                                        {isConverted && (
+                                            <Text className="text-white/70 font-body text-xs">
+                                                {formatMoney(convertAmount(amountOwed, billCurrency), billCurrency.settlementCurrency)}
+                                            </Text>
+                                        )}
                                     </View>
 
                                     {/* Right: Pay/Paid Button or Host Badge */}
@@ -407,7 +423,7 @@ export default function CheckoutScreen() {
                                     </Text>
                                 </View>
                                 <Text className="font-heading font-bold text-divvit-text mt-2 text-sm">
-                                    ${amountOwed.toFixed(2)}
+                                    {formatMoney(amountOwed, billCurrency.currency)}
                                 </Text>
                             </View>
                         );
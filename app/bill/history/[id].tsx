@@ -1,13 +1,18 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, Alert, Image } from 'react-native';
 import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import Animated, { FadeInDown, SlideInDown } from 'react-native-reanimated';
-import { ArrowLeft, Calendar, CheckCircle, Clock, Receipt, ChevronDown, ChevronUp, Bell } from 'lucide-react-native';
+import { ArrowLeft, Calendar, CheckCircle, Clock, Receipt, ChevronDown, ChevronUp, Bell, Maximize2 } from 'lucide-react-native';
 import DivvitLogo from '../../../components/DivvitLogo';
+import ReceiptImageViewer from '../../../components/ReceiptImageViewer';
 import { supabase } from '../../../lib/supabase';
+import { formatLineAmount } from '../../../utils/receiptItems';
+import { formatMoney, readBillCurrency } from '../../../utils/currency';
+import { describeTipSettings, readTipSettings } from '../../../utils/tipSettings';
+import { formatTransactionDate, readReceiptDetails } from '../../../utils/receiptDetails';
 
 // --- Types ---
 type User = {
@@ -39,6 +44,12 @@ type BillData = {
         closedAt: string;
     };
     created_at: string;
+    currency?: string | null;
+    settlement_currency?: string | null;
+    exchange_rate?: number | null;
+    merchant?: string | null;
+    transaction_date?: string | null;
+    receipt_image_urls?: string[] | null;
 };
 
 // --- Helpers ---
@@ -55,12 +66,14 @@ const PersonRow = ({
     isSettled,
     isHost,
     index,
+    currency,
 }: {
     user: User;
     amount: number;
     isSettled: boolean;
     isHost: boolean;
     index: number;
+    currency: string;
 }) => {
     const subtitle = isHost ? 'Paid for everyone' : isSettled ? 'Paid back' : 'Owes';
 
@@ -121,7 +134,7 @@ const PersonRow = ({
                         fontWeight: '800', fontSize: 15,
                         color: isSettled ? '#111827' : '#4b29b4',
                     }}>
-                        ${amount.toFixed(2)}
+                        {formatMoney(amount, currency)}
                     </Text>
                     <View style={{
                         marginTop: 4, paddingHorizontal: 8, paddingVertical: 2,
@@ -147,6 +160,7 @@ export default function HistoryDetailScreen() {
     const router = useRouter();
     const { id, billData: billDataParam } = useLocalSearchParams<{ id: string; billData: string }>();
     const [isItemsExpanded, setIsItemsExpanded] = useState(false);
+    const [viewerPage, setViewerPage] = useState<number | null>(null);
 
     const bill: BillData | null = useMemo(() => {
         if (billDataParam) {
@@ -173,6 +187,9 @@ export default function HistoryDetailScreen() {
 
     const { details, total_amount, created_at, host_id } = bill;
     const { items = [], users = [], userTotals = {}, paidStatus = [], tax = 0, tip = 0 } = details || {};
+    const tipDescription = describeTipSettings(readTipSettings(details));
+    const { currency } = readBillCurrency(bill);
+    const { merchant, transactionDate, receiptImages } = readReceiptDetails(bill);
 
     const [participants, setParticipants] = useState<any[]>([]);
     const [paymentRequests, setPaymentRequests] = useState<any[]>([]);
@@ -324,16 +341,16 @@ export default function HistoryDetailScreen() {
                         color: 'rgba(255,255,255,0.7)',
                         letterSpacing: 2, textTransform: 'uppercase', marginBottom: 10,
                     }}>
-                        Bill Summary
+                        {merchant || 'Bill Summary'}
                     </Text>
                     <Text style={{ fontSize: 48, fontWeight: '800', color: '#ffffff', letterSpacing: -1, marginBottom: 16 }}>
-                        ${total_amount.toFixed(2)}
+                        {formatMoney(total_amount, currency)}
                     </Text>
                     <View style={{ flexDirection: 'row', alignItems: 'center', gap: 20 }}>
                         <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
                             <Calendar size={14} color="rgba(255,255,255,0.8)" />
                             <Text style={{ fontSize: 13, color: 'rgba(255,255,255,0.85)', fontWeight: '600' }}>
-                                {formatShortDate(created_at)}
+                                {transactionDate ? formatTransactionDate(transactionDate) : formatShortDate(created_at)}
                             </Text>
                         </View>
                         <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
@@ -373,6 +390,7 @@ export default function HistoryDetailScreen() {
                                 isSettled={isSettled}
                                 isHost={isHost}
                                 index={index}
+                                currency={currency}
                             />
                         );
                     })}
@@ -421,7 +439,7 @@ export default function HistoryDetailScreen() {
                                             {item.name}
                                         </Text>
                                         <Text style={{ color: '#111827', fontWeight: '700', fontSize: 14 }}>
-                                            ${item.price.toFixed(2)}
+                                            {formatLineAmount(item.price, currency)}
                                         </Text>
                                     </View>
                                 ))}
@@ -434,15 +452,20 @@ export default function HistoryDetailScreen() {
                                         marginTop: items.length > 0 ? 4 : 0,
                                     }}>
                                         <Text style={{ color: '#484554', fontSize: 14, fontWeight: '500' }}>Tax</Text>
-                                        <Text style={{ color: '#111827', fontWeight: '700', fontSize: 14 }}>${tax.toFixed(2)}</Text>
+                                        <Text style={{ color: '#111827', fontWeight: '700', fontSize: 14 }}>{formatMoney(tax, currency)}</Text>
                                     </View>
                                 )}
                                 {tip > 0 && (
                                     <View style={{
                                         flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 10,
                                     }}>
-                                        <Text style={{ color: '#484554', fontSize: 14, fontWeight: '500' }}>Service Charge</Text>
-                                        <Text style={{ color: '#111827', fontWeight: '700', fontSize: 14 }}>${tip.toFixed(2)}</Text>
+                                        <View>
+                                            <Text style={{ color: '#484554', fontSize: 14, fontWeight: '500' }}>Service Charge</Text>
+                                            {tipDescription && (
+                                                <Text style={{ color: '#6B7280', fontSize: 12, fontWeight: '500', marginTop: 2 }}>{tipDescription}</Text>
+                                            )}
+                                        </View>
+                                        <Text style={{ color: '#111827', fontWeight: '700', fontSize: 14 }}>{formatMoney(tip, currency)}</Text>
                                     </View>
                                 )}
                             </View>
@@ -450,6 +473,36 @@ export default function HistoryDetailScreen() {
                     )}
                 </View>
 
+                {/* Original receipt photos */}
+                {receiptImages.length > 0 && (
+                    <View style={{ marginBottom: 20 }}>
+                        <Text style={{ fontSize: 20, fontWeight: '800', color: '#111827', letterSpacing: -0.3, marginBottom: 14, paddingHorizontal: 4 }}>
+                            Original Receipt
+                        </Text>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                            {receiptImages.map((uri, index) => (
+                                <TouchableOpacity
+                                    key={`${uri}-${index}`}
+                                    onPress={() => setViewerPage(index)}
+                                    activeOpacity={0.8}
+                                    style={{ marginRight: 12 }}
+                                >
+                                    <Image
+                                        source={{ uri }}
+                                        style={{ width: 96, height: 128, borderRadius: 14, backgroundColor: '#f1f3ff' }}
+                                    />
+                                    <View style={{
+                                        position: 'absolute', bottom: 6, right: 6,
+                                        backgroundColor: 'rgba(0,0,0,0.55)', borderRadius: 8, padding: 4,
+                                    }}>
+                                        <Maximize2 size={12} color="#ffffff" />
+                                    </View>
+                                </TouchableOpacity>
+                            ))}
+                        </ScrollView>
+                    </View>
+                )}
+
                 {/* Section 4 — Nudge Banner (only when pending users exist) */}
                 {pendingUsers.length > 0 && (
                     <View style={{
@@ -487,6 +540,14 @@ export default function HistoryDetailScreen() {
                     </View>
                 )}
             </ScrollView>
+
+            <ReceiptImageViewer
+                visible={viewerPage !== null}
+                images={receiptImages}
+                title={merchant}
+                initialPage={viewerPage ?? 0}
+                onClose={() => setViewerPage(null)}
+            />
         </SafeAreaView>
     );
 }
@@ -20,10 +20,15 @@ import * as Linking from 'expo-linking';
 import QRCode from 'react-native-qrcode-svg';
 import Animated, { FadeIn, FadeInDown, Layout } from 'react-native-reanimated';
 import { useAuth } from '../../context/AuthContext';
-import { Participant, BillStatus, getInitials, getNextColor } from '../../types';
-import { supabase } from '../../lib/supabase';
+import { getInitials, getNextColor } from '../../types';
 import '../../global.css';
 import { useBillFlowSync } from '../../hooks/useBillFlowSync';
+import { useBillPresence } from '../../hooks/useBillPresence';
+import { useBillSession } from '../../hooks/useBillSession';
+import { onBillBroadcast } from '../../services/billSession';
+import PresenceDot from '../../components/bill/PresenceDot';
+import ReconnectingBanner from '../../components/bill/ReconnectingBanner';
+import { prepareScannedItems } from '../../utils/receiptItems';
 
 const getJoinedTimeAgo = (dateString?: string): string => {
     if (!dateString) return 'Ready to split';
@@ -38,139 +43,41 @@ export default function PartyScreen() {
     const { id: billId, billData, partySize } = useLocalSearchParams<{ id: string; billData?: string; partySize?: string }>();
     const { user, session } = useAuth();
 
-    const [participants, setParticipants] = useState<Participant[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    // Bill row, participants and broadcasts all come through the shared bill session
+    const billSession = useBillSession(billId);
+    const { participants, setParticipants, status: billStatus, hostId } = billSession;
+    const isLoading = !billSession.isLoaded;
     const [showAddModal, setShowAddModal] = useState(false);
     const [guestName, setGuestName] = useState('');
     const [isAddingGuest, setIsAddingGuest] = useState(false);
-    const [billStatus, setBillStatus] = useState<BillStatus>('draft');
-    const [hostId, setHostId] = useState<string | null>(null);
     const [partyName, setPartyName] = useState('Party Lobby');
 
     const hasRedirected = useRef(false);
-    const channelRef = useRef<any>(null);
     const hostIdRef = useRef<string | null>(null);
 
     const isHost = user?.id === hostId;
     useBillFlowSync(billId, 'lobby', isHost);
+    const me = participants.find(p => p.user_id && p.user_id === user?.id);
+    const presence = useBillPresence(billId, me ? { participantId: me.id, name: me.name } : null, 'lobby');
     const deepLinkUrl = Linking.createURL(`/bill/${billId}`);
     console.log('Generated Join Link:', deepLinkUrl);
 
     // Keep hostIdRef in sync so the broadcast handler (closure) always has the latest value
     useEffect(() => { hostIdRef.current = hostId; }, [hostId]);
 
-    useEffect(() => {
-        if (!billId || !session) return;
-        fetchBillAndParticipants();
-    }, [billId, session]);
-
     useEffect(() => {
         if (!billId) return;
-        console.log('PartyScreen: Setting up Realtime subscription for bill', billId);
-
-        const channel = supabase
-            .channel(`party-${billId}`)
-            .on(
-                'postgres_changes',
-                { event: 'UPDATE', schema: 'public', table: 'bills', filter: `id=eq.${billId}` },
-                (payload) => {
-                    console.log('PartyScreen Realtime: Bill updated', payload.new);
-                    const newStatus = (payload.new as any).status as BillStatus;
-                    setBillStatus(newStatus);
-                    if ((payload.new as any).host_id) setHostId((payload.new as any).host_id);
-                }
-            )
-            .on(
-                'postgres_changes',
-                { event: 'INSERT', schema: 'public', table: 'bill_participants', filter: `bill_id=eq.${billId}` },
-                (payload) => {
-                    console.log('PartyScreen Realtime: New participant joined', payload.new);
-                    const newParticipant = payload.new as Participant;
-                    setParticipants(prev => {
-                        if (prev.some(p => p.id === newParticipant.id)) return prev;
-                        return [...prev, newParticipant];
-                    });
-                }
-            )
-            .on(
-                'postgres_changes',
-                { event: 'DELETE', schema: 'public', table: 'bill_participants', filter: `bill_id=eq.${billId}` },
-                (payload) => {
-                    console.log('PartyScreen Realtime: Participant removed', payload.old);
-                    const removedId = (payload.old as any).id;
-                    setParticipants(prev => prev.filter(p => p.id !== removedId));
-                }
-            )
-            .on(
-                'broadcast',
-                { event: 'session-started' },
-                () => {
-                    // Host navigates directly in handleStartSplitting; only guests act here
-                    if (user?.id === hostIdRef.current) return;
-                    if (hasRedirected.current) return;
-                    console.log('PartyScreen: Broadcast received — session started, navigating guest to editor');
-                    hasRedirected.current = true;
-                    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                    router.replace({ pathname: '/bill/[id]', params: { id: billId!, fromParty: 'true' } });
-                }
-            )
-            .subscribe((status) => {
-                console.log('PartyScreen Realtime: Channel status', status);
-            });
-
-        channelRef.current = channel;
-
-        return () => {
-            console.log('PartyScreen: Cleaning up Realtime subscription');
-            supabase.removeChannel(channel);
-            channelRef.current = null;
-        };
+        return onBillBroadcast(billId, 'session-started', () => {
+            // Host navigates directly in handleStartSplitting; only guests act here
+            if (user?.id === hostIdRef.current) return;
+            if (hasRedirected.current) return;
+            console.log('PartyScreen: Broadcast received — session started, navigating guest to editor');
+            hasRedirected.current = true;
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            router.replace({ pathname: '/bill/[id]', params: { id: billId!, fromParty: 'true' } });
+        });
     }, [billId]);
 
-    const fetchBillAndParticipants = async () => {
-        try {
-            const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
-            const supabaseKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
-
-            const billResponse = await fetch(
-                `${supabaseUrl}/rest/v1/bills?id=eq.${billId}&select=*`,
-                {
-                    headers: {
-                        'apikey': supabaseKey!,
-                        'Authorization': `Bearer ${session!.access_token}`,
-                        'Content-Type': 'application/json',
-                    }
-                }
-            );
-            if (billResponse.ok) {
-                const billData = await billResponse.json();
-                if (billData && billData.length > 0) {
-                    setHostId(billData[0].host_id);
-                    setBillStatus(billData[0].status as BillStatus);
-                }
-            }
-
-            const participantsResponse = await fetch(
-                `${supabaseUrl}/rest/v1/bill_participants?bill_id=eq.${billId}&select=*&order=created_at.asc`,
-                {
-                    headers: {
-                        'apikey': supabaseKey!,
-                        'Authorization': `Bearer ${session!.access_token}`,
-                        'Content-Type': 'application/json',
-                    }
-                }
-            );
-            if (participantsResponse.ok) {
-                const participantsData = await participantsResponse.json();
-                setParticipants(participantsData || []);
-            }
-        } catch (err) {
-            console.error('PartyScreen: Error fetching data:', err);
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
     const handleRenameParty = () => {
         Alert.prompt(
             'Name your party',
@@ -259,11 +166,9 @@ export default function PartyScreen() {
                     const parsedBillData = JSON.parse(billData);
                     const items = parsedBillData.items || [];
                     if (items.length > 0) {
-                        const itemsPayload = items.map((item: any) => ({
+                        const itemsPayload = prepareScannedItems(items).map(item => ({
+                            ...item,
                             bill_id: billId,
-                            name: item.name || '',
-                            price: Number(item.price) || 0,
-                            quantity: 1, // Force quantity to 1 to align with line total representation
                         }));
                         await fetch(`${supabaseUrl}/rest/v1/bill_items`, {
                             method: 'POST',
@@ -300,7 +205,7 @@ export default function PartyScreen() {
             }
             console.log('PartyScreen: Bill status updated to active');
             // Broadcast to all guests so they navigate immediately (does not rely on postgres_changes RLS)
-            channelRef.current?.send({ type: 'broadcast', event: 'session-started', payload: {} });
+            billSession.broadcast('session-started');
         } catch (err) {
             console.error('PartyScreen: Error updating bill:', err);
             Alert.alert('Error', 'Failed to start session. Please try again.');
@@ -333,7 +238,7 @@ export default function PartyScreen() {
     }
 
     return (
-        <SafeAreaView style={{ flex: 1, backgroundColor: '#f9f9ff' }} edges={['top']}>
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#f9f9ff' }} edges={['top']} onTouchStart={presence.markActive}>
             <Stack.Screen options={{ headerShown: false }} />
 
             {/* Header */}
@@ -356,6 +261,8 @@ export default function PartyScreen() {
                 <View style={{ width: 40 }} />
             </View>
 
+            <ReconnectingBanner connection={billSession.connection} />
+
             <ScrollView
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 120, paddingTop: 8 }}
@@ -527,6 +434,7 @@ export default function PartyScreen() {
                                             <Text style={{ fontWeight: '700', color: '#ffffff', fontSize: 16 }}>
                                                 {participant.initials}
                                             </Text>
+                                            {!participant.is_guest && <PresenceDot status={presence.statusOf(participant.id)} />}
                                         </View>
                                         <View style={{ flex: 1 }}>
                                             <Text style={{ fontWeight: '800', color: '#111827', fontSize: 14 }}>
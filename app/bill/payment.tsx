@@ -9,25 +9,17 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Animated, { FadeInDown, FadeIn } from 'react-native-reanimated';
-import { ArrowLeft, Check, Lock, DollarSign, Smartphone, Banknote, Zap, Building2 } from 'lucide-react-native';
+import { ArrowLeft, Check, Lock, DollarSign, Smartphone, Banknote, Zap, Building2, Gift } from 'lucide-react-native';
 import { usePlatformPay, PlatformPay } from '@stripe/stripe-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../../context/AuthContext';
 import DivvitLogo from '../../components/DivvitLogo';
 import {
-    getBill,
-    getBillItems,
-    getParticipants,
-    getPaymentRequests,
     markPaymentSent,
     confirmPayment,
     updateBillStatus,
-    subscribeToBillStatus,
-    subscribeToPaymentRequests,
-    calculateShares,
-    unsubscribeAll,
 } from '../../services/billService';
-import { BillItem, Participant, PaymentRequest } from '../../types';
+import { Participant, PaymentRequest } from '../../types';
 import { 
     openVenmo, 
     openCashApp, 
@@ -42,9 +34,15 @@ import {
     requestCashAppNoRecipient
 } from '../../utils/payments';
 import type { ZelleBank } from '../../utils/payments';
+import { finalizedBillShares } from '../../utils/billShares';
+import { describeTipSettings, readTipSettings } from '../../utils/tipSettings';
+import { describeTreat, joinNames, readTreats } from '../../utils/treats';
+import { convertAmount, currencyDecimals, describeExchangeRate, formatMoney, readBillCurrency } from '../../utils/currency';
 import { supabase } from '../../lib/supabase';
 import { useBillFlowSync } from '../../hooks/useBillFlowSync';
+import { useBillSession } from '../../hooks/useBillSession';
 import PaymentRequestSheet from '../../components/bill/PaymentRequestSheet';
+import ReconnectingBanner from '../../components/bill/ReconnectingBanner';
 
 // ─── DESIGN TOKENS ─────────────────────────────────────────────────────────
 const COLORS = {
@@ -75,12 +73,11 @@ export default function PaymentScreen() {
     const isFromParty = fromParty === 'true';
     const { isPlatformPaySupported, createPlatformPayPaymentMethod } = usePlatformPay();
 
-    const [isLoading, setIsLoading] = useState(true);
-    const [bill, setBill] = useState<any>(null);
-    const [billItems, setBillItems] = useState<BillItem[]>([]);
-    const [participants, setParticipants] = useState<Participant[]>([]);
-    const [paymentRequests, setPaymentRequests] = useState<PaymentRequest[]>([]);
-    const [hostProfile, setHostProfile] = useState<{ 
+    // Bill, items, participants and payment requests are the live bill session's
+    const billSession = useBillSession(billId);
+    const { bill, items: billItems, participants, paymentRequests, setPaymentRequests } = billSession;
+    const isLoading = !billSession.isLoaded;
+    const [payeeProfile, setPayeeProfile] = useState<{ 
         venmo_handle: string | null; 
         cashapp_handle: string | null;
         zelle_handle: string | null;
@@ -124,62 +121,84 @@ export default function PaymentScreen() {
         [participants, user]
     );
 
-    const myPaymentRequest = useMemo(() => {
-        return paymentRequests.find(
+    // With several payers a debtor can owe more than one person; settle them one at a time
+    const myPaymentRequests = useMemo(() => {
+        return paymentRequests.filter(
             pr => pr.from_participant_id === myParticipant?.id ||
                   (pr.from_user_id && pr.from_user_id === user?.id)
         );
     }, [paymentRequests, myParticipant, user]);
 
-    // ─── SHARE CALCULATION ─────────────────────────────────────────────────────
+    const myPaymentRequest = useMemo(
+        () => myPaymentRequests.find(pr => pr.status !== 'confirmed') || myPaymentRequests[0],
+        [myPaymentRequests]
+    );
 
-    const shares = useMemo(() => {
-        if (participants.length === 0) return {};
+    // Money owed to me because I paid (part of) the check; the host's own list covers the host
+    const incomingRequests = useMemo(
+        () => paymentRequests.filter(pr => !!user?.id && pr.to_user_id === user.id),
+        [paymentRequests, user]
+    );
 
-        const tip = Number(bill?.details?.tip) || 0;
-        const tax = Number(bill?.details?.tax) || 0;
-        const detailItems: any[] = bill?.details?.items || [];
-        const detailAssignments: Record<string, string[]> = bill?.details?.assignments || {};
+    // ─── SHARE CALCULATION ─────────────────────────────────────────────────────
 
-        if (Object.keys(detailAssignments).length > 0 && detailItems.length > 0) {
-            const detailSubtotal = detailItems.reduce(
-                (sum: number, item: any) => sum + (Number(item.price) || 0), 0
-            );
-            const result: Record<string, number> = {};
-            participants.forEach(p => { result[p.id] = 0; });
-
-            detailItems.forEach((item: any) => {
-                const assignedIds: string[] = detailAssignments[item.id] || [];
-                if (assignedIds.length > 0) {
-                    const perPerson = (Number(item.price) || 0) / assignedIds.length;
-                    assignedIds.forEach(id => {
-                        if (result[id] !== undefined) {
-                            result[id] += perPerson;
-                        }
-                    });
-                }
-            });
+    // Treated participants have no payment request; their share sits with whoever covered them
+    const treats = useMemo(() => readTreats(bill?.details), [bill]);
 
-            participants.forEach(p => {
-                const itemShare = result[p.id];
-                const proportion = detailSubtotal > 0
-                    ? itemShare / detailSubtotal
-                    : 1 / participants.length;
-                result[p.id] += (tax + tip) * proportion;
-            });
+    // Shares are in the receipt's currency; requests (and what people actually send) are in the settlement currency
+    const billCurrency = useMemo(() => readBillCurrency(bill), [bill]);
+    const money = (amount: number) => formatMoney(amount, billCurrency.settlementCurrency);
+
+    // The split the payment requests were made from (details.shares), so every amount here matches them
+    const shares = useMemo(
+        () => finalizedBillShares(bill?.details, participants, billItems, currencyDecimals(billCurrency.currency)),
+        [billItems, participants, bill, billCurrency]
+    );
 
-            return result;
+    // e.g. "18% on pre-tax subtotal", so guests can see how the tip in their share was worked out
+    const tipSettings = useMemo(() => readTipSettings(bill?.details), [bill]);
+    const tipDescription = tipSettings && tipSettings.amount > 0
+        ? `Tip ${formatMoney(tipSettings.amount, billCurrency.currency)} · ${describeTipSettings(tipSettings)}`
+        : null;
+
+    const myAmount = myPaymentRequest?.amount
+        || (myParticipant && incomingRequests.length === 0 ? convertAmount(shares[myParticipant.id] || 0, billCurrency) : 0);
+
+    // "€45.20 at 1 EUR = 1.0842 USD" when my request was converted from the receipt's currency
+    const myConversionLabel = myPaymentRequest?.original_amount != null
+        && myPaymentRequest.original_currency
+        && myPaymentRequest.original_currency !== myPaymentRequest.currency
+        ? `${formatMoney(Number(myPaymentRequest.original_amount), myPaymentRequest.original_currency)} at ${describeExchangeRate(billCurrency)}`
+        : null;
+
+    // "Covered by Alex" when I'm treated; names of the people my amount also covers
+    const myTreatLabel = myParticipant && !myPaymentRequest ? describeTreat(treats[myParticipant.id], participants) : null;
+    const coveringNames = useMemo(() => {
+        if (!myParticipant) return [];
+        return participants
+            .filter(p => treats[p.id]?.coveredBy.includes(myParticipant.id))
+            .map(p => p.name);
+    }, [participants, treats, myParticipant]);
+
+    // Who my current request pays back: whoever paid the check, the host unless recorded otherwise
+    const payeeParticipant = useMemo(() => {
+        if (myPaymentRequest?.to_participant_id) {
+            return participants.find(p => p.id === myPaymentRequest.to_participant_id);
         }
+        return participants.find(p => p.user_id === (myPaymentRequest?.to_user_id || hostId));
+    }, [participants, myPaymentRequest, hostId]);
+    const payeeUserId = myPaymentRequest ? myPaymentRequest.to_user_id : hostId;
 
-        if (billItems.length === 0) return {};
-        return calculateShares(billItems, tax, tip, participants);
-    }, [billItems, participants, bill]);
+    // The viewer confirms requests paid to them; the host also confirms for creditors without an account
+    const canConfirmRequest = (request: PaymentRequest) =>
+        request.to_user_id === user?.id || (isHost && !request.to_user_id);
 
-    const myAmount = myPaymentRequest?.amount || (myParticipant ? (shares[myParticipant.id] || 0) : 0);
+    const participantName = (participantId?: string | null) =>
+        participants.find(p => p.id === participantId)?.name || 'Someone';
 
-    const hostParticipant = useMemo(
-        () => participants.find(p => p.user_id === hostId),
-        [participants, hostId]
+    const requestsFrom = (participant: Participant) => paymentRequests.filter(
+        pr => pr.from_participant_id === participant.id ||
+              (!pr.from_participant_id && pr.from_user_id && participant.user_id && pr.from_user_id === participant.user_id)
     );
 
     const paidCount = paymentRequests.filter(pr => pr.status === 'confirmed').length;
@@ -187,11 +206,11 @@ export default function PaymentScreen() {
 
     const allPaymentsSettled = useMemo(() => {
         if (paymentRequests.length === 0) {
-            const needsPayment = participants.filter(p => p.user_id !== hostId);
+            const needsPayment = participants.filter(p => p.user_id !== hostId && !treats[p.id]);
             return needsPayment.length === 0;
         }
         return paymentRequests.every(pr => pr.status === 'confirmed');
-    }, [participants, paymentRequests, hostId]);
+    }, [participants, paymentRequests, hostId, treats]);
 
     // ─── LOAD SAVED ZELLE BANK ───────────────────────────────────────────────────
 
@@ -212,63 +231,42 @@ export default function PaymentScreen() {
 
     // ─── DATA LOADING ──────────────────────────────────────────────────────────
 
-    useEffect(() => {
-        if (!billId) return;
+    // Payment handles of everyone who owes the host, fetched again only when that list changes
+    const debtorUserIds = useMemo(() => participants
+        .filter(p => p.user_id && p.user_id !== bill?.host_id)
+        .map(p => p.user_id!)
+        .join(','), [participants, bill?.host_id]);
 
-        const load = async () => {
-            try {
-                const [billData, items, parts, requests] = await Promise.all([
-                    getBill(billId),
-                    getBillItems(billId),
-                    getParticipants(billId),
-                    getPaymentRequests(billId),
-                ]);
-                setBill(billData);
-                setBillItems(items);
-                setParticipants(parts);
-                setPaymentRequests(requests);
-
-                if (billData.host_id) {
-                    const { data: profile } = await supabase
-                        .from('profiles')
-                        .select('venmo_handle, cashapp_handle, zelle_handle, apple_pay_handle')
-                        .eq('id', billData.host_id)
-                        .single();
-                    if (profile) setHostProfile(profile);
-                }
-
-                const userIds = parts
-                    .filter(p => p.user_id && p.user_id !== billData.host_id)
-                    .map(p => p.user_id!);
-                if (userIds.length > 0) {
-                    const { data: profiles } = await supabase
-                        .from('profiles')
-                        .select('id, venmo_handle, cashapp_handle, zelle_handle')
-                        .in('id', userIds);
-                    if (profiles) {
-                        const map: ProfileMap = {};
-                        profiles.forEach(p => { map[p.id] = p; });
-                        setParticipantProfiles(map);
-                    }
+    useEffect(() => {
+        if (!debtorUserIds) return;
+        supabase
+            .from('profiles')
+            .select('id, venmo_handle, cashapp_handle, zelle_handle')
+            .in('id', debtorUserIds.split(','))
+            .then(({ data: profiles, error }) => {
+                if (error) {
+                    console.error('PaymentScreen: Failed to load profiles:', error);
+                    return;
                 }
-            } catch (err) {
-                console.error('PaymentScreen: Failed to load:', err);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-        load();
-
-        const prChannel = subscribeToPaymentRequests(billId, (updated) => {
-            setPaymentRequests(prev => {
-                const exists = prev.find(pr => pr.id === updated.id);
-                if (exists) return prev.map(pr => pr.id === updated.id ? updated : pr);
-                return [...prev, updated];
+                const map: ProfileMap = {};
+                (profiles || []).forEach(p => { map[p.id] = p; });
+                setParticipantProfiles(map);
             });
-        });
+    }, [debtorUserIds]);
 
-        return () => unsubscribeAll([prChannel]);
-    }, [billId]);
+    // Payment handles of whoever the current request pays back
+    useEffect(() => {
+        if (!payeeUserId) {
+            setPayeeProfile(null);
+            return;
+        }
+        supabase
+            .from('profiles')
+            .select('venmo_handle, cashapp_handle, zelle_handle, apple_pay_handle')
+            .eq('id', payeeUserId)
+            .single()
+            .then(({ data: profile }) => setPayeeProfile(profile || null));
+    }, [payeeUserId]);
 
     // ─── GUEST PAYMENT HANDLERS ────────────────────────────────────────────────
 
@@ -301,7 +299,7 @@ export default function PaymentScreen() {
     };
 
     const handlePayVenmo = async () => {
-        if (!hostProfile?.venmo_handle) {
+        if (!payeeProfile?.venmo_handle) {
             Alert.alert(
                 'Venmo Not Set Up',
                 "The host hasn't added their Venmo username yet. Ask them to add it in their profile settings."
@@ -310,7 +308,7 @@ export default function PaymentScreen() {
         }
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
         await openVenmo(
-            hostProfile.venmo_handle,
+            payeeProfile.venmo_handle,
             myAmount,
             bill?.restaurant_name || 'Divvit Bill'
         );
@@ -318,7 +316,7 @@ export default function PaymentScreen() {
         setTimeout(() => {
             Alert.alert(
                 'Payment Complete?',
-                `Did you send $${myAmount.toFixed(2)} via Venmo?`,
+                `Did you send ${money(myAmount)} via Venmo?`,
                 [
                     { 
                         text: 'Yes, I paid!', 
@@ -331,7 +329,7 @@ export default function PaymentScreen() {
     };
 
     const handlePayCashApp = async () => {
-        if (!hostProfile?.cashapp_handle) {
+        if (!payeeProfile?.cashapp_handle) {
             Alert.alert(
                 'Cash App Not Set Up',
                 "The host hasn't added their Cash App tag yet."
@@ -340,14 +338,14 @@ export default function PaymentScreen() {
         }
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
         await openCashApp(
-            hostProfile.cashapp_handle,
+            payeeProfile.cashapp_handle,
             myAmount
         );
         
         setTimeout(() => {
             Alert.alert(
                 'Payment Complete?',
-                `Did you send $${myAmount.toFixed(2)} via Cash App?`,
+                `Did you send ${money(myAmount)} via Cash App?`,
                 [
                     {
                         text: 'Yes, I paid!',
@@ -360,14 +358,14 @@ export default function PaymentScreen() {
     };
 
     const handlePayApplePay = async () => {
-        if (!hostProfile?.apple_pay_handle) return;
+        if (!payeeProfile?.apple_pay_handle) return;
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        await openAppleCash(hostProfile.apple_pay_handle, myAmount, `Divvit: ${bill?.title || 'Bill split'}`);
+        await openAppleCash(payeeProfile.apple_pay_handle, myAmount, `Divvit: ${bill?.title || 'Bill split'}`);
         showDidYouPayDialog('applecash');
     };
 
     const handlePayZelle = async () => {
-        if (!hostProfile?.zelle_handle) {
+        if (!payeeProfile?.zelle_handle) {
             Alert.alert(
                 'Zelle Not Set Up',
                 "The host hasn't added their Zelle phone or email yet."
@@ -380,15 +378,15 @@ export default function PaymentScreen() {
             // Saved bank — open directly, zero friction
             const opened = await openZelleViaBank(
                 savedZelleBank,
-                hostProfile.zelle_handle,
+                payeeProfile.zelle_handle,
                 myAmount,
-                hostParticipant?.name || 'Host'
+                payeeParticipant?.name || 'Host'
             );
             if (opened) {
                 setTimeout(() => {
                     Alert.alert(
                         'Payment Complete?',
-                        `Did you send $${myAmount.toFixed(2)} via Zelle in ${savedZelleBank.name}?`,
+                        `Did you send ${money(myAmount)} via Zelle in ${savedZelleBank.name}?`,
                         [
                             { text: 'Yes, I paid!', onPress: () => doMarkAsSent('zelle') },
                             { text: 'Not yet', style: 'cancel' },
@@ -422,15 +420,15 @@ export default function PaymentScreen() {
             // Open bank app immediately after selection (paying guest flow)
             const opened = await openZelleViaBank(
                 bank,
-                hostProfile!.zelle_handle!,
+                payeeProfile!.zelle_handle!,
                 myAmount,
-                hostParticipant?.name || 'Host'
+                payeeParticipant?.name || 'Host'
             );
             if (opened) {
                 setTimeout(() => {
                     Alert.alert(
                         'Payment Complete?',
-                        `Did you send $${myAmount.toFixed(2)} via Zelle in ${bank.name}?`,
+                        `Did you send ${money(myAmount)} via Zelle in ${bank.name}?`,
                         [
                             { text: 'Yes, I paid!', onPress: () => doMarkAsSent('zelle') },
                             { text: 'Not yet', style: 'cancel' },
@@ -450,7 +448,7 @@ export default function PaymentScreen() {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
         Alert.alert(
             'Pay with Cash',
-            `Let ${hostParticipant?.name || 'the host'} know you're paying $${myAmount.toFixed(2)} in cash, then tap confirm.`,
+            `Let ${payeeParticipant?.name || 'the host'} know you're paying ${money(myAmount)} in cash, then tap confirm.`,
             [
                 { text: 'Cancel', style: 'cancel' },
                 { text: 'Confirm', onPress: () => doMarkAsSent('cash') },
@@ -460,6 +458,19 @@ export default function PaymentScreen() {
 
     // ─── HOST PAYMENT HANDLERS ─────────────────────────────────────────────────
 
+    const handleMarkRequestSent = async (requestId: string) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        try {
+            await markPaymentSent(requestId);
+            setPaymentRequests(prev =>
+                prev.map(pr => pr.id === requestId ? { ...pr, status: 'sent' } : pr)
+            );
+        } catch (err) {
+            console.error('PaymentScreen: Failed to mark sent:', err);
+            Alert.alert('Error', 'Failed to update payment status.');
+        }
+    };
+
     const handleConfirmPayment = async (requestId: string) => {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         try {
@@ -482,6 +493,7 @@ export default function PaymentScreen() {
                 params: {
                     billId: billId as string,
                     totalAmount: (Number(bill?.total_amount) || myAmount || 0).toFixed(2),
+                    currency: bill?.total_amount ? billCurrency.currency : billCurrency.settlementCurrency,
                     groupSize: participants.length.toString(),
                 },
             });
@@ -550,16 +562,13 @@ export default function PaymentScreen() {
 
     const selectedParticipantRequest = useMemo(() => {
         if (!selectedParticipantForSheet) return null;
-        return paymentRequests.find(
-            pr => pr.from_participant_id === selectedParticipantForSheet.id ||
-                  (pr.from_user_id && selectedParticipantForSheet.user_id && pr.from_user_id === selectedParticipantForSheet.user_id)
-        ) || null;
+        return requestsFrom(selectedParticipantForSheet).find(canConfirmRequest) || null;
     }, [paymentRequests, selectedParticipantForSheet]);
 
     const selectedParticipantAmount = useMemo(() => {
         if (!selectedParticipantForSheet) return 0;
-        return selectedParticipantRequest?.amount || (shares[selectedParticipantForSheet.id] || 0);
-    }, [shares, selectedParticipantRequest, selectedParticipantForSheet]);
+        return selectedParticipantRequest?.amount || convertAmount(shares[selectedParticipantForSheet.id] || 0, billCurrency);
+    }, [shares, selectedParticipantRequest, selectedParticipantForSheet, billCurrency]);
 
     const selectedParticipantProfile = useMemo(() => {
         if (!selectedParticipantForSheet || !selectedParticipantForSheet.user_id) return null;
@@ -620,7 +629,7 @@ export default function PaymentScreen() {
             // Host has a saved bank — open it directly
             Alert.alert(
                 'Request via Zelle',
-                `${participant.name}'s Zelle contact copied to clipboard.\n\nOpen ${savedZelleBank.name} and request $${amount.toFixed(2)} from:\n${zelleContact}`,
+                `${participant.name}'s Zelle contact copied to clipboard.\n\nOpen ${savedZelleBank.name} and request ${money(amount)} from:\n${zelleContact}`,
                 [
                     { text: `Open ${savedZelleBank.shortName}`, onPress: () => openZelleViaBank(savedZelleBank, zelleContact, amount, participant.name) },
                     {
@@ -641,7 +650,7 @@ export default function PaymentScreen() {
             // No saved bank — show picker
             Alert.alert(
                 'Request via Zelle',
-                `${participant.name}'s Zelle contact copied to clipboard: ${zelleContact}\n\nOpen your bank app and request $${amount.toFixed(2)} via Zelle.`,
+                `${participant.name}'s Zelle contact copied to clipboard: ${zelleContact}\n\nOpen your bank app and request ${money(amount)} via Zelle.`,
                 [
                     {
                         text: 'Select Bank',
@@ -669,7 +678,7 @@ export default function PaymentScreen() {
 
         Alert.alert(
             'Confirm Receipt',
-            `Confirm you received $${amount.toFixed(2)} from ${participant.name}?`,
+            `Confirm you received ${money(amount)} from ${participant.name}?`,
             [
                 { text: 'Cancel', style: 'cancel' },
                 { text: 'Confirm', onPress: () => handleConfirmPayment(request.id) },
@@ -719,17 +728,17 @@ export default function PaymentScreen() {
     }> = [];
 
     if (!isHost) {
-        if (hostProfile?.venmo_handle) {
+        if (payeeProfile?.venmo_handle) {
             paymentTiles.push({
                 key: 'venmo',
                 label: 'Venmo',
-                subtitle: `@${hostProfile.venmo_handle.replace(/^@/, '')}`,
+                subtitle: `@${payeeProfile.venmo_handle.replace(/^@/, '')}`,
                 iconBg: '#EFF6FF',
                 icon: <Text style={{ color: '#3D95CE', fontWeight: '800', fontSize: 28 }}>V</Text>,
                 onPress: handlePayVenmo,
             });
         }
-        if (hostProfile?.apple_pay_handle) {
+        if (payeeProfile?.apple_pay_handle) {
             paymentTiles.push({
                 key: 'applecash',
                 label: 'Apple Cash',
@@ -739,7 +748,7 @@ export default function PaymentScreen() {
                 onPress: handlePayApplePay,
             });
         }
-        if (hostProfile?.zelle_handle) {
+        if (payeeProfile?.zelle_handle) {
             paymentTiles.push({
                 key: 'zelle',
                 label: 'Zelle',
@@ -750,11 +759,11 @@ export default function PaymentScreen() {
                 onLongPress: savedZelleBank ? handleChangeZelleBank : undefined,
             });
         }
-        if (hostProfile?.cashapp_handle) {
+        if (payeeProfile?.cashapp_handle) {
             paymentTiles.push({
                 key: 'cashapp',
                 label: 'Cash App',
-                subtitle: `$${hostProfile.cashapp_handle.replace(/^\$/, '')}`,
+                subtitle: `$${payeeProfile.cashapp_handle.replace(/^\$/, '')}`,
                 iconBg: '#F0FDF4',
                 icon: <DollarSign size={28} color="#00D632" />,
                 onPress: handlePayCashApp,
@@ -773,6 +782,7 @@ export default function PaymentScreen() {
     // ─── RENDER ────────────────────────────────────────────────────────────────
 
     const guestShowTiles = !isHost
+        && !myTreatLabel
         && myPaymentRequest?.status !== 'sent'
         && myPaymentRequest?.status !== 'confirmed';
 
@@ -804,6 +814,8 @@ export default function PaymentScreen() {
                 <View style={{ width: 40 }} />
             </View>
 
+            <ReconnectingBanner connection={billSession.connection} />
+
             <ScrollView
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 140, paddingTop: 8 }}
@@ -856,6 +868,7 @@ export default function PaymentScreen() {
                             params: {
                                 billId: billId as string,
                                 totalAmount: myAmount.toFixed(2),
+                                currency: billCurrency.settlementCurrency,
                                 groupSize: participants.length.toString(),
                             },
                         })}
@@ -1041,6 +1054,7 @@ export default function PaymentScreen() {
                 visible={isSheetVisible}
                 participant={selectedParticipantForSheet}
                 amount={selectedParticipantAmount}
+                currency={billCurrency.settlementCurrency}
                 request={selectedParticipantRequest}
                 onClose={() => setIsSheetVisible(false)}
                 onVenmo={handleSheetVenmo}
@@ -1072,7 +1086,7 @@ export default function PaymentScreen() {
                         </Text>
                     </View>
                     <Text style={{ fontSize: 24, fontWeight: '800', color: COLORS.onSurface, textAlign: 'center' }}>
-                        Settle with {hostParticipant?.name || 'Host'}
+                        Settle with {payeeParticipant?.name || 'Host'}
                     </Text>
                 </View>
 
@@ -1110,12 +1124,27 @@ export default function PaymentScreen() {
                         {/* Amount */}
                         <View style={{ flexDirection: 'row', alignItems: 'baseline' }}>
                             <Text style={{ fontSize: 48, fontWeight: '800', color: '#fff', letterSpacing: -1 }}>
-                                ${myAmount.toFixed(2)}
+                                {money(myAmount)}
                             </Text>
                             <Text style={{ fontSize: 16, fontWeight: '600', color: 'rgba(255,255,255,0.5)', marginLeft: 6 }}>
-                                USD
+                                {billCurrency.settlementCurrency}
                             </Text>
                         </View>
+                        {myConversionLabel && (
+                            <Text style={{ fontSize: 13, fontWeight: '600', color: 'rgba(255,255,255,0.75)', marginTop: 6 }}>
+                                Converted from {myConversionLabel}
+                            </Text>
+                        )}
+                        {tipDescription && (
+                            <Text style={{ fontSize: 13, fontWeight: '600', color: 'rgba(255,255,255,0.75)', marginTop: 6 }}>
+                                Includes {tipDescription}
+                            </Text>
+                        )}
+                        {coveringNames.length > 0 && (
+                            <Text style={{ fontSize: 13, fontWeight: '600', color: 'rgba(255,255,255,0.75)', marginTop: 4 }}>
+                                Includes your treat for {joinNames(coveringNames)}
+                            </Text>
+                        )}
 
                         {/* Divider + Bottom row */}
                         <View style={{
@@ -1155,6 +1184,25 @@ export default function PaymentScreen() {
                 </Animated.View>
 
                 {/* Payment Status Banners */}
+                {myTreatLabel && (
+                    <Animated.View entering={FadeIn} style={{
+                        backgroundColor: COLORS.greenBg, borderRadius: 20, padding: 20,
+                        marginBottom: 20, alignItems: 'center', gap: 8,
+                    }}>
+                        <View style={{
+                            width: 48, height: 48, borderRadius: 24,
+                            backgroundColor: COLORS.green, alignItems: 'center', justifyContent: 'center',
+                        }}>
+                            <Gift size={24} color="#fff" />
+                        </View>
+                        <Text style={{ color: COLORS.green, fontWeight: '800', fontSize: 18 }}>
+                            You're Treated!
+                        </Text>
+                        <Text style={{ color: COLORS.green, fontWeight: '500', fontSize: 14, opacity: 0.7 }}>
+                            {myTreatLabel}. Nothing to pay.
+                        </Text>
+                    </Animated.View>
+                )}
                 {myPaymentRequest?.status === 'sent' && (
                     <Animated.View entering={FadeIn} style={{
                         backgroundColor: COLORS.greenBg, borderRadius: 20, padding: 20,
@@ -1194,6 +1242,9 @@ export default function PaymentScreen() {
                     </Animated.View>
                 )}
 
+                {/* Owed to me: I paid part of the check */}
+                {incomingRequests.length > 0 && renderIncomingRequests()}
+
                 {/* Payment Method Grid */}
                 {guestShowTiles && (
                     <View>
@@ -1338,23 +1389,73 @@ export default function PaymentScreen() {
                     <Text style={{ fontSize: 32, fontWeight: '800', color: COLORS.onSurface, letterSpacing: -0.5 }}>
                         {allPaymentsSettled ? 'All Settled! \uD83C\uDF89' : 'Waiting for Payments'}
                     </Text>
+                    {tipDescription && (
+                        <Text style={{ fontSize: 14, fontWeight: '500', color: COLORS.onSurfaceVariant, marginTop: 6 }}>
+                            {tipDescription}
+                        </Text>
+                    )}
+                    {coveringNames.length > 0 && (
+                        <Text style={{ fontSize: 14, fontWeight: '500', color: COLORS.onSurfaceVariant, marginTop: 4 }}>
+                            You're treating {joinNames(coveringNames)}
+                        </Text>
+                    )}
                 </View>
 
+                {/* Someone else paid part of the check, so the host owes them too */}
+                {myPaymentRequests.map(pr => (
+                    <View key={pr.id} style={{
+                        backgroundColor: COLORS.amberBg, borderRadius: 20, padding: 16, marginBottom: 12,
+                        flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+                    }}>
+                        <Text style={{ flex: 1, fontSize: 14, fontWeight: '700', color: COLORS.amber, marginRight: 12 }}>
+                            You owe {participantName(pr.to_participant_id)} {money(Number(pr.amount))}
+                        </Text>
+                        {pr.status === 'pending' ? (
+                            <TouchableOpacity
+                                onPress={() => handleMarkRequestSent(pr.id)}
+                                activeOpacity={0.8}
+                                style={{ backgroundColor: COLORS.amber, paddingHorizontal: 12, paddingVertical: 7, borderRadius: 999 }}
+                            >
+                                <Text style={{ fontSize: 10, fontWeight: '800', color: '#fff', textTransform: 'uppercase', letterSpacing: 0.8 }}>
+                                    Mark as Sent
+                                </Text>
+                            </TouchableOpacity>
+                        ) : (
+                            <Text style={{ fontSize: 10, fontWeight: '800', color: COLORS.amber, textTransform: 'uppercase', letterSpacing: 1 }}>
+                                {pr.status === 'confirmed' ? 'Confirmed' : 'Sent'}
+                            </Text>
+                        )}
+                    </View>
+                ))}
+
                 {/* Participant List */}
                 {participants.map((participant, index) => {
                     const isParticipantHost = participant.user_id === hostId;
-                    const request = paymentRequests.find(
-                        pr => pr.from_participant_id === participant.id ||
-                              (pr.from_user_id && participant.user_id && pr.from_user_id === participant.user_id)
-                    );
+                    const requests = requestsFrom(participant);
+                    // The host acts on what's owed to them (or to an account-less payer); the rest is shown read-only
+                    const request = requests.find(pr => canConfirmRequest(pr) && pr.status !== 'confirmed')
+                        || requests.find(canConfirmRequest)
+                        || requests[0];
+                    const routedElsewhere = requests.filter(pr => !canConfirmRequest(pr));
+                    const isPayer = requests.length === 0
+                        && paymentRequests.some(pr => pr.to_participant_id === participant.id);
                     const amount = isParticipantHost
-                        ? (shares[participant.id] || 0)
-                        : (request?.amount || shares[participant.id] || 0);
+                        ? convertAmount(shares[participant.id] || 0, billCurrency)
+                        : requests.length > 0
+                            ? requests.reduce((sum, pr) => sum + Number(pr.amount), 0)
+                            : convertAmount(shares[participant.id] || 0, billCurrency);
+                    const treatLabel = request ? null : describeTreat(treats[participant.id], participants);
                     const status = isParticipantHost
                         ? 'host'
-                        : (request?.status || (participant.is_guest ? 'external' : 'pending'));
+                        : treatLabel
+                            ? 'treated'
+                            : isPayer
+                                ? 'payer'
+                                : request && !canConfirmRequest(request)
+                                    ? (request.status === 'confirmed' ? 'confirmed' : 'routed')
+                                    : (request?.status || (participant.is_guest ? 'external' : 'pending'));
 
-                    const canTap = !isParticipantHost && status !== 'confirmed';
+                    const canTap = !isParticipantHost && !['confirmed', 'treated', 'payer', 'routed'].includes(status);
 
                     return (
                         <Animated.View
@@ -1393,9 +1494,20 @@ export default function PaymentScreen() {
                                         <Text style={{ fontWeight: '800', color: COLORS.onSurface, fontSize: 16 }}>
                                             {participant.name}
                                         </Text>
-                                        {!isParticipantHost && (
+                                        {treatLabel ? (
+                                            <Text style={{ fontSize: 14, color: COLORS.primary, fontWeight: '600', marginTop: 2 }}>
+                                                {treatLabel}
+                                            </Text>
+                                        ) : isPayer ? (
+                                            <Text style={{ fontSize: 14, color: COLORS.primary, fontWeight: '600', marginTop: 2 }}>
+                                                Paid part of the check
+                                            </Text>
+                                        ) : !isParticipantHost && (
                                             <Text style={{ fontSize: 14, color: COLORS.onSurfaceVariant, fontWeight: '500', marginTop: 2 }}>
-                                                ${amount.toFixed(2)}
+                                                {money(amount)}
+                                                {routedElsewhere.length > 0 && ` · pays ${routedElsewhere
+                                                    .map(pr => `${participantName(pr.to_participant_id)} ${money(Number(pr.amount))}`)
+                                                    .join(', ')}`}
                                             </Text>
                                         )}
                                     </View>
@@ -1410,6 +1522,34 @@ export default function PaymentScreen() {
         );
     }
 
+    function renderIncomingRequests() {
+        return (
+            <View style={{ marginBottom: 24 }}>
+                <Text style={{ fontSize: 18, fontWeight: '800', color: COLORS.onSurface, marginBottom: 16 }}>
+                    Owed to You
+                </Text>
+                {incomingRequests.map(pr => (
+                    <View key={pr.id} style={{
+                        backgroundColor: '#ffffff', borderRadius: 20, padding: 16, marginBottom: 12,
+                        flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+                        shadowColor: 'rgba(20,27,43,1)', shadowOffset: { width: 0, height: 2 },
+                        shadowOpacity: 0.06, shadowRadius: 12, elevation: 2,
+                    }}>
+                        <View style={{ flex: 1, marginRight: 12 }}>
+                            <Text style={{ fontWeight: '800', color: COLORS.onSurface, fontSize: 16 }}>
+                                {participantName(pr.from_participant_id)}
+                            </Text>
+                            <Text style={{ fontSize: 14, color: COLORS.onSurfaceVariant, fontWeight: '500', marginTop: 2 }}>
+                                {money(Number(pr.amount))}
+                            </Text>
+                        </View>
+                        {renderStatusBadge(pr.status, pr)}
+                    </View>
+                ))}
+            </View>
+        );
+    }
+
     function renderStatusBadge(status: string, request?: PaymentRequest) {
         switch (status) {
             case 'host':
@@ -1457,6 +1597,29 @@ export default function PaymentScreen() {
                         </Text>
                     </TouchableOpacity>
                 );
+            case 'payer':
+            case 'routed':
+                return (
+                    <View style={{
+                        backgroundColor: COLORS.surfaceContainerHigh, paddingHorizontal: 14, paddingVertical: 7,
+                        borderRadius: 999,
+                    }}>
+                        <Text style={{ fontSize: 10, fontWeight: '800', color: COLORS.onSurfaceVariant, textTransform: 'uppercase', letterSpacing: 1 }}>
+                            {status === 'payer' ? 'Paid Bill' : request?.status === 'sent' ? 'Sent' : 'Pending'}
+                        </Text>
+                    </View>
+                );
+            case 'treated':
+                return (
+                    <View style={{
+                        backgroundColor: COLORS.surfaceContainerHigh, paddingHorizontal: 14, paddingVertical: 7,
+                        borderRadius: 999,
+                    }}>
+                        <Text style={{ fontSize: 10, fontWeight: '800', color: COLORS.primary, textTransform: 'uppercase', letterSpacing: 1 }}>
+                            Treated
+                        </Text>
+                    </View>
+                );
             case 'external':
                 return (
                     <View style={{
@@ -11,7 +11,8 @@ import { useAuth } from '../../context/AuthContext';
 import DivvitLogo from '../../components/DivvitLogo';
 import { useRewards } from '../../context/RewardsContext';
 import { getPointsForBill } from '../../services/rewardsService';
-import { supabase } from '../../lib/supabase';
+import { useBillSession } from '../../hooks/useBillSession';
+import { DEFAULT_CURRENCY, formatMoney } from '../../utils/currency';
 
 const POINTS_FETCH_RETRIES = 3;
 const POINTS_FETCH_DELAY_MS = 750;
@@ -20,13 +21,15 @@ const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 export default function SuccessScreen() {
     const router = useRouter();
-    const { billId, totalAmount, groupSize } = useLocalSearchParams<{
+    const { billId, totalAmount, currency, groupSize } = useLocalSearchParams<{
         billId: string;
         totalAmount: string;
+        currency: string;
         groupSize: string;
     }>();
     const { user } = useAuth();
     const rewards = useRewards();
+    const billSession = useBillSession(billId);
 
     const [groupPhoto, setGroupPhoto] = useState<string | null>(null);
     const [isUploading, setIsUploading] = useState(false);
@@ -91,62 +94,15 @@ export default function SuccessScreen() {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [user?.id, billId]);
 
-    // Query initial group photo and subscribe to real-time sync
+    // The group photo, whoever takes it, arrives with the bill row through the shared bill session
+    const groupPhotoUrl: string | null = billSession.bill?.group_photo_url ?? null;
     useEffect(() => {
-        if (!billId) return;
-
-        const checkInitialPhoto = async () => {
-            try {
-                const { data, error } = await supabase
-                    .from('bills')
-                    .select('group_photo_url')
-                    .eq('id', billId)
-                    .single();
-
-                if (error) {
-                    console.warn('[SuccessScreen] Error checking initial photo:', error);
-                    return;
-                }
-
-                if (data?.group_photo_url) {
-                    setGroupPhoto(data.group_photo_url);
-                    setUploadComplete(true);
-                    fetchBonusPoints();
-                }
-            } catch (err) {
-                console.error('[SuccessScreen] Failed to fetch initial photo:', err);
-            }
-        };
-
-        checkInitialPhoto();
-
-        // Subscribe to real-time UPDATE events for this bill
-        const channel = supabase
-            .channel(`bill-group-photo-${billId}`)
-            .on(
-                'postgres_changes',
-                {
-                    event: 'UPDATE',
-                    schema: 'public',
-                    table: 'bills',
-                    filter: `id=eq.${billId}`,
-                },
-                (payload) => {
-                    const newPhotoUrl = (payload.new as any).group_photo_url;
-                    if (newPhotoUrl) {
-                        setGroupPhoto(newPhotoUrl);
-                        setUploadComplete(true);
-                        fetchBonusPoints();
-                    }
-                }
-            )
-            .subscribe();
-
-        return () => {
-            channel.unsubscribe();
-        };
+        if (!groupPhotoUrl) return;
+        setGroupPhoto(groupPhotoUrl);
+        setUploadComplete(true);
+        fetchBonusPoints();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [billId]);
+    }, [groupPhotoUrl]);
 
     const handleTakePhoto = async () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -420,7 +376,7 @@ export default function SuccessScreen() {
                             Total Bill
                         </Text>
                         <Text style={{ fontSize: 18, fontWeight: '800', color: '#111827' }}>
-                            ${totalAmount || '0.00'}
+                            {formatMoney(Number(totalAmount) || 0, currency || DEFAULT_CURRENCY)}
                         </Text>
                     </View>
                 </View>
@@ -1,7 +1,9 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, Keyboard, Alert, ActivityIndicator, StyleSheet, BackHandler } from 'react-native';
 import { useLocalSearchParams, Stack, useRouter, useFocusEffect } from 'expo-router';
 import { useBillFlowSync } from '../../hooks/useBillFlowSync';
+import { useBillCurrency } from '../../hooks/useBillCurrency';
+import { useBillSession } from '../../hooks/useBillSession';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { ArrowLeft, Users } from 'lucide-react-native';
@@ -9,15 +11,19 @@ import { useAuth } from '../../context/AuthContext';
 import { supabase } from '../../lib/supabase';
 import {
     getBill,
-    getBillItems,
-    getParticipants,
     updateBillStatus,
     updateBillTip,
     createPaymentRequests,
-    subscribeToBillStatus,
-    unsubscribeAll,
+    PaymentRequestConflict,
+    readPaymentConflicts,
+    setParticipantTipPercentage,
 } from '../../services/billService';
-import { BillItem as SyncBillItem, Participant } from '../../types';
+import { BillItem as SyncBillItem, BillCurrency, BillLineKind, FeeType, FEE_TYPE_LABELS, BillPayer, ItemSplit, ParticipantTreat, TaxCategory, TipBase, TipSettings } from '../../types';
+import { allocateCents, computeSplit, fromCents, linesFromAssignments, linesFromBillItems, minorUnitCents, roundToCents, toCents } from '../../utils/splitEngine';
+import { describeTipSettings, readTipSettings } from '../../utils/tipSettings';
+import { describeTreat, readTreats } from '../../utils/treats';
+import { readPayers } from '../../utils/payers';
+import { currencyDecimals, formatMoney } from '../../utils/currency';
 
 // Import our new components
 import DivvitLogo from '../../components/DivvitLogo';
@@ -25,6 +31,12 @@ import TotalsCard from '../../components/bill/tip/TotalsCard';
 import ContextCard from '../../components/bill/tip/ContextCard';
 import TipSelection from '../../components/bill/tip/TipSelection';
 import FinalCalculationSurface from '../../components/bill/tip/FinalCalculationSurface';
+import IndividualTipsCard from '../../components/bill/tip/IndividualTipsCard';
+import TreatCard from '../../components/bill/tip/TreatCard';
+import TreatSheet from '../../components/bill/tip/TreatSheet';
+import PayersCard from '../../components/bill/tip/PayersCard';
+import PayersSheet from '../../components/bill/tip/PayersSheet';
+import ReconnectingBanner from '../../components/bill/ReconnectingBanner';
 
 // --- Types ---
 type User = {
@@ -39,6 +51,10 @@ type BillItem = {
     id: string;
     name: string;
     price: number;
+    kind?: BillLineKind;
+    fee_type?: FeeType | null;
+    tax_category?: TaxCategory;
+    tax_rate?: number | null;
 };
 
 // Tip percentage options matching matching new design and beta tester feedback
@@ -70,15 +86,37 @@ export default function TipScreen() {
     const isFromParty = fromPartyParam === 'true';
 
     // ─── Party mode state ───
-    const [partyBillItems, setPartyBillItems] = useState<SyncBillItem[]>([]);
-    const [partyParticipants, setPartyParticipants] = useState<Participant[]>([]);
-    const [partyTax, setPartyTax] = useState(0);
-    const [partySubtotal, setPartySubtotal] = useState(0);
-    const [hostId, setHostId] = useState<string | null>(null);
-    const [isPartyLoading, setIsPartyLoading] = useState(isFromParty);
+    // Items, participants (with their individual tip picks) and the bill row stay live through the bill session
+    const billSession = useBillSession(isFromParty ? billId : undefined);
+    const {
+        items: partyBillItems,
+        participants: partyParticipants,
+        setParticipants: setPartyParticipants,
+        hostId,
+    } = billSession;
+    const partyDetails: Record<string, any> | null = billSession.bill?.details || null;
+    const partyTax = Number(billSession.bill?.tax) || Number(partyDetails?.tax) || 0;
+    const partyTaxRate: number | null = partyDetails?.taxRate ?? null;
+    // Fees are listed separately and never count toward the tip base
+    const partySubtotal = useMemo(
+        () => partyBillItems.filter(i => i.kind !== 'fee').reduce((s: number, i: SyncBillItem) => s + i.price, 0),
+        [partyBillItems]
+    );
+    // Tip choice saved on the bill: guests follow the host's live; the host's own only restores a reopened bill
+    const liveTipSettings = useMemo(() => readTipSettings(partyDetails), [partyDetails]);
+    const [restoredTipSettings, setRestoredTipSettings] = useState<TipSettings | null>(null);
+    // Host only: participants whose share someone else is covering (saved to details.treats on finalize)
+    const [treats, setTreats] = useState<Record<string, ParticipantTreat>>({});
+    const [treatingId, setTreatingId] = useState<string | null>(null);
+    // Host only: who put down a card (saved to details.payers on finalize); empty = the host paid it all
+    const [payers, setPayers] = useState<BillPayer[]>([]);
+    const [showPayersSheet, setShowPayersSheet] = useState(false);
+    const isPartyLoading = isFromParty && !billSession.isLoaded;
     const isHost = user?.id === hostId;
+    const savedTipSettings = isHost ? restoredTipSettings : liveTipSettings;
 
     useBillFlowSync(billId, 'tip_selection', isHost);
+    const { billCurrency: partyBillCurrency } = useBillCurrency(isFromParty ? billId : undefined);
 
     const handleBackPress = async () => {
         if (isFromParty && isHost) {
@@ -119,51 +157,57 @@ export default function TipScreen() {
         }, [isFromParty, isHost, billId])
     );
 
-    // Fetch bill data from Supabase for party mode
+    // The host's treats, payers and tip pick are edited locally; seed them once from the saved bill
+    const hasSeededParty = useRef(false);
     useEffect(() => {
-        if (!isFromParty || !billId) return;
-
-        const loadPartyData = async () => {
-            try {
-                const [bill, items, participants] = await Promise.all([
-                    getBill(billId),
-                    getBillItems(billId),
-                    getParticipants(billId),
-                ]);
-                setHostId(bill.host_id);
-                setPartyBillItems(items);
-                setPartyParticipants(participants);
-                setPartyTax(Number(bill.tax) || Number(bill.details?.tax) || 0);
-                setPartySubtotal(items.reduce((s: number, i: SyncBillItem) => s + i.price * i.quantity, 0));
-            } catch (err) {
-                console.error('TipScreen: Failed to load party data:', err);
-            } finally {
-                setIsPartyLoading(false);
-            }
-        };
-        loadPartyData();
-
-    }, [isFromParty, billId]);
+        if (!isFromParty || !billSession.isLoaded || !billSession.bill || hasSeededParty.current) return;
+        hasSeededParty.current = true;
+        setRestoredTipSettings(readTipSettings(partyDetails));
+        setTreats(readTreats(partyDetails));
+        setPayers(readPayers(partyDetails));
+    }, [isFromParty, billSession.isLoaded, billSession.bill]);
 
     // Parse incoming data (standalone mode — from route params)
-    const { items, subtotal, tax } = useMemo((): { items: BillItem[]; subtotal: number; tax: number } => {
+    const { items, itemSplits, subtotal, receiptTax, taxRate, billCurrency } = useMemo((): {
+        items: BillItem[];
+        itemSplits: Record<string, ItemSplit>;
+        subtotal: number;
+        receiptTax: number;
+        taxRate: number | null;
+        billCurrency: BillCurrency;
+    } => {
         if (isFromParty) {
-            return { items: [], subtotal: partySubtotal, tax: partyTax };
+            return { items: [], itemSplits: {}, subtotal: partySubtotal, receiptTax: partyTax, taxRate: partyTaxRate, billCurrency: partyBillCurrency };
         }
         if (billData) {
             try {
                 const parsed = JSON.parse(billData);
                 return {
                     items: parsed.items || [],
+                    itemSplits: parsed.itemSplits || {},
                     subtotal: Number(parsed.subtotal) || 0,
-                    tax: Number(parsed.tax) || 0
+                    receiptTax: Number(parsed.tax) || 0,
+                    taxRate: parsed.taxRate ?? null,
+                    billCurrency: parsed.billCurrency || partyBillCurrency
                 };
             } catch (e) {
                 console.error('Failed to parse billData', e);
             }
         }
-        return { items: [], subtotal: 0, tax: 0 };
-    }, [billData, isFromParty, partySubtotal, partyTax]);
+        return { items: [], itemSplits: {}, subtotal: 0, receiptTax: 0, taxRate: null, billCurrency: partyBillCurrency };
+    }, [billData, isFromParty, partySubtotal, partyTax, partyTaxRate, partyBillCurrency]);
+    const currency = billCurrency.currency;
+    const decimals = currencyDecimals(currency);
+
+    // Tax after per-item categories (exempt / custom rate); equals the receipt tax when none are set
+    const tax = useMemo(() => fromCents(computeSplit({
+        participantIds: [],
+        lines: linesFromAssignments(isFromParty ? partyBillItems : items, {}),
+        tax: receiptTax,
+        tip: 0,
+        taxRate,
+        decimals,
+    }).taxCents), [isFromParty, partyBillItems, items, receiptTax, taxRate, decimals]);
 
     const users: User[] = useMemo(() => {
         if (isFromParty) {
@@ -200,22 +244,57 @@ export default function TipScreen() {
         return Number(scannedTipParam) || 0;
     }, [scannedTipParam]);
 
+    // Service charges, auto-gratuity and other fees, each listed on its own line
+    const fees = useMemo(() => {
+        const lines: Array<{ id: string; name: string; price: number; kind?: BillLineKind; fee_type?: FeeType | null }> =
+            isFromParty ? partyBillItems : items;
+        return lines
+            .filter(line => line.kind === 'fee' && line.price !== 0)
+            .map(line => ({
+                id: line.id,
+                label: line.name || FEE_TYPE_LABELS[line.fee_type || 'other'],
+                amount: line.price,
+                feeType: line.fee_type || 'other',
+            }));
+    }, [isFromParty, partyBillItems, items]);
+    const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+    const autoGratuity = fees
+        .filter(fee => fee.feeType === 'auto_gratuity')
+        .reduce((sum, fee) => sum + fee.amount, 0);
+
     // State
     const [noTip, setNoTip] = useState(false);
     const [selectedPercentage, setSelectedPercentage] = useState<number | null>(null);
     const [customTip, setCustomTip] = useState('');
-    const [hasAutoSkipped, setHasAutoSkipped] = useState(false);
     
     // Tip base toggle: pre-tax (subtotal only) or post-tax (subtotal + tax)
-    const [tipBase, setTipBase] = useState<'pre-tax' | 'post-tax'>('pre-tax');
+    const [tipBase, setTipBase] = useState<TipBase>('pre-tax');
+    // Party host: let everyone pick their own percentage instead of one shared tip
+    const [individualTips, setIndividualTips] = useState(false);
+    const [guestCustomTip, setGuestCustomTip] = useState('');
     const [isScannedTipActive, setIsScannedTipActive] = useState(false);
 
     // The base amount used for percentage tip calculations
     const tipBaseAmount = tipBase === 'pre-tax' ? subtotal : subtotal + tax;
 
-    // Pre-fill from scanned tip on mount, and auto-skip to checkout if tip was already on receipt
+    // Pre-fill the tip once the bill is loaded, and auto-skip to checkout if tip was already on receipt.
+    // Only once: live updates to the bill must not undo what the host has picked since.
+    const hasSeededTip = useRef(false);
     useEffect(() => {
-        if (scannedTip > 0 && subtotal > 0) {
+        if (isPartyLoading || hasSeededTip.current) return;
+        hasSeededTip.current = true;
+        // restoredTipSettings is set in the same pass, so read the saved choice straight from the bill
+        const restored = isFromParty && isHost ? readTipSettings(partyDetails) : null;
+        if (restored) {
+            // A reopened party bill picks up where the host left off
+            setTipBase(restored.base);
+            setNoTip(restored.mode === 'none');
+            setIndividualTips(restored.mode === 'individual');
+            setSelectedPercentage(restored.mode === 'percentage' || restored.mode === 'individual'
+                ? restored.percentage
+                : null);
+            setCustomTip(restored.mode === 'custom' ? restored.amount.toFixed(2) : '');
+        } else if (scannedTip > 0 && subtotal > 0) {
             const tipPercentage = scannedTip / subtotal;
 
             // Check if it matches one of our percentage options (within 1% tolerance)
@@ -233,50 +312,50 @@ export default function TipScreen() {
             setIsScannedTipActive(true);
 
             // Auto-skip to checkout since tip was already on the receipt
-            if (!hasAutoSkipped) {
-                setHasAutoSkipped(true);
-                setTimeout(() => {
-                    handleAutoSkipToCheckout(scannedTip);
-                }, 500);
-            }
+            setTimeout(() => {
+                handleAutoSkipToCheckout(scannedTip);
+            }, 500);
+        } else if (autoGratuity > 0) {
+            // Gratuity is already on the bill, so start from no extra tip
+            setNoTip(true);
+            setSelectedPercentage(null);
         } else {
             // Default to 18% (middle option)
             setSelectedPercentage(0.18);
         }
-    }, [scannedTip, subtotal]);
+    }, [isPartyLoading, scannedTip, subtotal, autoGratuity, isHost, partyDetails]);
+
+    // Standalone mode: per-item tip shares for the receipt plus cent-exact user totals
+    const buildStandaloneSplit = (tipValue: number) => {
+        const tipByItem = allocateCents(
+            toCents(tipValue),
+            items
+                .filter((item: BillItem) => (item.kind ?? 'item') === 'item')
+                .map((item: BillItem) => ({ id: item.id, weight: toCents(item.price) })),
+            minorUnitCents(decimals)
+        );
+        const itemsWithTip = items.map((item: BillItem) => ({
+            ...item,
+            share_of_tip: fromCents(tipByItem[item.id] || 0)
+        }));
+
+        const split = computeSplit({
+            participantIds: users.map(u => u.id),
+            lines: linesFromAssignments(items, assignments as Record<string, string[]>, itemSplits),
+            tax: receiptTax,
+            tip: tipValue,
+            taxRate,
+            decimals,
+        });
+
+        return { itemsWithTip, userTotals: split.shares, total: fromCents(split.totalCents) };
+    };
 
     // Auto-skip function for when tip was scanned
     const handleAutoSkipToCheckout = (tipValue: number) => {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-        const totalWithTip = subtotal + tax + tipValue;
-
-        // Distribute tip proportionally to items
-        const itemsWithTip = items.map((item: BillItem) => {
-            const tipShare = subtotal > 0
-                ? (item.price / subtotal) * tipValue
-                : 0;
-            return {
-                ...item,
-                share_of_tip: Math.round(tipShare * 100) / 100
-            };
-        });
-
-        // Calculate user totals with tip included
-        const userTotals: Record<string, number> = {};
-        users.forEach(u => userTotals[u.id] = 0);
-
-        Object.entries(assignments as Record<string, string[]>).forEach(([itemId, userIds]: [string, string[]]) => {
-            const item = itemsWithTip.find((i: any) => i.id === itemId);
-            if (item && Array.isArray(userIds) && userIds.length > 0) {
-                const costPerUser = (item.price + item.share_of_tip) / userIds.length;
-                userIds.forEach((userId: string) => {
-                    if (userTotals[userId] !== undefined) {
-                        userTotals[userId] += costPerUser;
-                    }
-                });
-            }
-        });
+        const { itemsWithTip, userTotals, total: totalWithTip } = buildStandaloneSplit(tipValue);
 
         router.replace({
             pathname: '/bill/checkout' as any,
@@ -284,10 +363,13 @@ export default function TipScreen() {
                 billId: billId,
                 billData: JSON.stringify({
                     items: itemsWithTip,
+                    itemSplits,
                     tip: tipValue,
+                    tipSettings: { mode: 'custom', percentage: null, base: tipBase, amount: tipValue },
                     tax: tax,
                     total: totalWithTip,
-                    subtotal: subtotal
+                    subtotal: subtotal,
+                    billCurrency
                 }),
                 users: JSON.stringify(users),
                 assignments: JSON.stringify(assignments),
@@ -297,19 +379,145 @@ export default function TipScreen() {
     };
 
     // Calculate tip amount
-    const tipAmount = useMemo(() => {
+    const sharedTipAmount = useMemo(() => {
         if (noTip) return 0;
         if (customTip && !selectedPercentage) {
-            return Number(customTip) || 0;
+            return roundToCents(Number(customTip) || 0, decimals);
         }
         if (selectedPercentage) {
-            return tipBaseAmount * selectedPercentage;
+            return roundToCents(tipBaseAmount * selectedPercentage, decimals);
         }
         return 0;
-    }, [noTip, customTip, selectedPercentage, tipBaseAmount]);
+    }, [noTip, customTip, selectedPercentage, tipBaseAmount, decimals]);
+
+    // ─── Individual tips (party mode): each person tips their own percentage on their own share ───
+    const isIndividualMode = isFromParty && (isHost ? individualTips : savedTipSettings?.mode === 'individual');
+    const activeTipBase: TipBase = isHost || !isFromParty ? tipBase : savedTipSettings?.base ?? 'pre-tax';
+    const myParticipant = partyParticipants.find(p => p.user_id === user?.id);
+
+    // The host's pick is the default for anyone who hasn't chosen (custom dollars count as a % of the bill)
+    const defaultTipPercent = useMemo(() => {
+        if (!isHost) return (savedTipSettings?.percentage ?? 0) * 100;
+        if (noTip) return 0;
+        if (selectedPercentage) return selectedPercentage * 100;
+        const base = tipBase === 'pre-tax' ? subtotal : subtotal + tax;
+        return base > 0 ? Math.round(((Number(customTip) || 0) / base) * 10000) / 100 : 0;
+    }, [isHost, savedTipSettings, noTip, selectedPercentage, customTip, tipBase, subtotal, tax]);
+
+    const tipPercentages = useMemo(() => {
+        if (!isIndividualMode) return null;
+        const map: Record<string, number> = {};
+        partyParticipants.forEach(p => { map[p.id] = p.tip_percentage ?? defaultTipPercent; });
+        return map;
+    }, [isIndividualMode, partyParticipants, defaultTipPercent]);
+
+    // Same source as the final split: details.assignments when the editor saved them, else bill_items
+    const partyLines = useMemo(() => {
+        const detailItems: any[] = partyDetails?.items || [];
+        const detailAssignments: Record<string, string[]> = partyDetails?.assignments || {};
+        if (Object.keys(detailAssignments).length > 0 && detailItems.length > 0) {
+            return linesFromAssignments(detailItems, detailAssignments, partyDetails?.itemSplits || {});
+        }
+        return linesFromBillItems(partyBillItems);
+    }, [partyDetails, partyBillItems]);
+
+    // Per-person preview of what finalizing will charge: individual tips and treats both show up here
+    const partySplit = useMemo(() => {
+        if (!isFromParty || partyParticipants.length === 0) return null;
+        return computeSplit({
+            participantIds: partyParticipants.map(p => p.id),
+            lines: partyLines,
+            tax: receiptTax,
+            tip: tipPercentages ? 0 : sharedTipAmount,
+            taxRate,
+            tipPercentages,
+            tipBase: activeTipBase,
+            treats,
+            decimals,
+        });
+    }, [isFromParty, partyParticipants, partyLines, receiptTax, taxRate, tipPercentages, sharedTipAmount, activeTipBase, treats, decimals]);
+
+    const tipAmount = tipPercentages && partySplit ? fromCents(partySplit.tipCents) : sharedTipAmount;
+
+    // TOTAL FIX: Include fees and tax in the grand total
+    const total = subtotal + feesTotal + tax + tipAmount;
+
+    const tipSettings = useMemo((): TipSettings => ({
+        mode: isIndividualMode ? 'individual' : noTip ? 'none' : selectedPercentage ? 'percentage' : 'custom',
+        percentage: isIndividualMode ? defaultTipPercent / 100 : noTip ? null : selectedPercentage,
+        base: tipBase,
+        amount: tipAmount,
+    }), [isIndividualMode, defaultTipPercent, noTip, selectedPercentage, tipBase, tipAmount]);
 
-    // TOTAL FIX: Include tax in the grand total
-    const total = subtotal + tax + tipAmount;
+    // Party host: save the tip choice as it changes so guests see the same math live
+    const pendingTipSave = useRef<Promise<unknown> | null>(null);
+    useEffect(() => {
+        if (!isFromParty || !isHost || !billId || isPartyLoading) return;
+        const timer = setTimeout(() => {
+            pendingTipSave.current = updateBillTip(billId, tipAmount, tipSettings)
+                .catch(err => console.error('TipScreen: Failed to save tip settings:', err));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [isFromParty, isHost, billId, isPartyLoading, tipAmount, tipSettings]);
+
+    // ─── Guest tip pick (individual mode) ───
+    const myBreakdown = myParticipant && tipPercentages ? partySplit?.breakdownCents[myParticipant.id] : undefined;
+    const myTipBaseAmount = myBreakdown
+        ? fromCents(myBreakdown.items + (activeTipBase === 'post-tax' ? myBreakdown.tax : 0))
+        : 0;
+
+    const saveMyTipPercentage = (percentage: number) => {
+        if (!myParticipant) return;
+        // Optimistic: the realtime update confirms it for everyone else
+        setPartyParticipants(prev => prev.map(p => p.id === myParticipant.id ? { ...p, tip_percentage: percentage } : p));
+        setParticipantTipPercentage(myParticipant.id, percentage).catch((error) => {
+            console.error('TipScreen: Failed to save tip pick', error);
+            Alert.alert('Error', 'Could not save your tip. Please try again.');
+        });
+    };
+
+    // Custom dollar amounts become a percentage of the guest's own base, saved once typing settles
+    useEffect(() => {
+        if (!guestCustomTip || !isIndividualMode || isHost) return;
+        const timer = setTimeout(() => {
+            const dollars = Number(guestCustomTip) || 0;
+            const percentage = myTipBaseAmount > 0 ? Math.round((dollars / myTipBaseAmount) * 10000) / 100 : 0;
+            saveMyTipPercentage(Math.min(100, percentage));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [guestCustomTip]);
+
+    const handleGuestPercentageSelect = (percentage: number) => {
+        Haptics.selectionAsync();
+        setGuestCustomTip('');
+        saveMyTipPercentage(percentage * 100);
+    };
+
+    const handleGuestCustomTipChange = (text: string) => {
+        setGuestCustomTip(text.replace(/[^0-9.]/g, ''));
+    };
+
+    const handleGuestNoTipToggle = () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        setGuestCustomTip('');
+        saveMyTipPercentage(myParticipant?.tip_percentage === 0 ? defaultTipPercent : 0);
+    };
+
+    const handleSaveTreat = (treat: ParticipantTreat | null) => {
+        if (!treatingId) return;
+        setTreats(prev => {
+            const next = { ...prev };
+            if (treat) next[treatingId] = treat;
+            else delete next[treatingId];
+            return next;
+        });
+        setTreatingId(null);
+    };
+
+    const handleIndividualTipsToggle = () => {
+        Haptics.selectionAsync();
+        setIndividualTips(prev => !prev);
+    };
 
     // Handlers
     const handlePercentageSelect = (percentage: number) => {
@@ -343,50 +551,88 @@ export default function TipScreen() {
         }
     };
 
-    const handleContinue = async () => {
+    const handleContinue = () => {
+        // Tipping on top of an auto-gratuity is usually a mistake, so ask first
+        if (autoGratuity > 0 && tipAmount > 0) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            Alert.alert(
+                'Gratuity already included',
+                `This bill already has a ${formatMoney(autoGratuity, currency)} auto-gratuity. Add a ${formatMoney(tipAmount, currency)} tip on top of it?`,
+                [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Add Tip Anyway', onPress: () => finalizeTip() },
+                ]
+            );
+            return;
+        }
+        finalizeTip();
+    };
+
+    // Someone already paid under the old split; the host decides before anything changes
+    const confirmPaidConflicts = (conflicts: PaymentRequestConflict[]) => {
+        const nameOf = (participantId: string | null) =>
+            participantId ? partyParticipants.find(p => p.id === participantId)?.name || 'Someone' : 'you';
+        const lines = conflicts.map(c => {
+            const paid = `${nameOf(c.from_participant_id)} already ${c.status === 'confirmed' ? 'paid' : 'sent'} `
+                + `${formatMoney(c.amount, c.currency)} to ${nameOf(c.to_participant_id)}`;
+            return c.new_amount == null
+                ? `${paid}, but owes nothing now.`
+                : `${paid}; the new split says ${formatMoney(c.new_amount, c.new_currency || c.currency)}.`;
+        });
+        Alert.alert(
+            'Payments Already Made',
+            `${lines.join('\n')}\n\nFinalizing anyway keeps those payments as they are; settle the difference with them directly.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Finalize Anyway', onPress: () => finalizeTip(true) },
+            ]
+        );
+    };
+
+    // keepPaidRequests: the host was shown payments the new split would change and went ahead
+    const finalizeTip = async (keepPaidRequests = false) => {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
         // ─── Party mode: create payment requests, update bill, navigate to payment ───
         if (isFromParty && isHost && billId) {
             try {
+                // Let an in-flight tip save land first so it can't overwrite the final details
+                await pendingTipSave.current;
+
                 // Fetch bill to get details.assignments (multi-assignment format)
                 // handleContinueToTip re-creates bill_items without assigned_to,
                 // so we must read assignments from bill.details JSONB
                 const billData = await getBill(billId);
                 const detailItems: any[] = billData.details?.items || [];
                 const detailAssignments: Record<string, string[]> = billData.details?.assignments || {};
+                const detailItemSplits: Record<string, ItemSplit> = billData.details?.itemSplits || {};
                 const detailTax = Number(billData.details?.tax) || partyTax;
-                const detailSubtotal = detailItems.reduce(
-                    (sum: number, item: any) => sum + (Number(item.price) || 0), 0
-                );
-
-                // Calculate shares from detail assignments
-                const shares: Record<string, number> = {};
-                partyParticipants.forEach(p => { shares[p.id] = 0; });
-
-                detailItems.forEach((item: any) => {
-                    const assignedIds: string[] = detailAssignments[item.id] || [];
-                    if (assignedIds.length > 0) {
-                        const perPerson = (Number(item.price) || 0) / assignedIds.length;
-                        assignedIds.forEach(id => {
-                            if (shares[id] !== undefined) {
-                                shares[id] += perPerson;
-                            }
-                        });
-                    }
-                });
 
-                // Add proportional tax + tip
-                partyParticipants.forEach(p => {
-                    const itemShare = shares[p.id];
-                    const proportion = detailSubtotal > 0
-                        ? itemShare / detailSubtotal
-                        : 1 / partyParticipants.length;
-                    shares[p.id] += (detailTax + tipAmount) * proportion;
+                const split = computeSplit({
+                    participantIds: partyParticipants.map(p => p.id),
+                    lines: linesFromAssignments(detailItems, detailAssignments, detailItemSplits),
+                    tax: detailTax,
+                    tip: tipPercentages ? 0 : tipAmount,
+                    taxRate: billData.details?.taxRate ?? null,
+                    tipPercentages,
+                    tipBase,
+                    treats,
+                    decimals,
                 });
 
+                // Create payment requests so each debtor pays back whoever paid the check (host by default).
+                // First, so a refused re-finalize (payments already made) leaves the bill as it was
+                const paymentParticipants = partyParticipants.map(p => ({
+                    participantId: p.id,
+                    userId: p.user_id || null,
+                }));
+
+                if (paymentParticipants.length > 1) {
+                    await createPaymentRequests(billId, hostId!, paymentParticipants, split, payers, billCurrency, keepPaidRequests);
+                }
+
                 // Save tip, subtotal, tax, total, and complete the bill in database atomically
-                const totalAmountVal = subtotal + tax + tipAmount;
+                const totalAmountVal = fromCents(split.totalCents);
                 const { error: billUpdateError } = await supabase
                     .from('bills')
                     .update({
@@ -394,36 +640,32 @@ export default function TipScreen() {
                         status: 'completed',
                         details: {
                             ...billData.details,
-                            tip: tipAmount,
-                            tip_base: tipBase,
-                            subtotal: subtotal,
-                            tax: tax,
+                            tip: fromCents(split.tipCents),
+                            tipSettings: { ...tipSettings, amount: fromCents(split.tipCents) },
+                            subtotal: fromCents(split.subtotalCents),
+                            tax: fromCents(split.taxCents),
                             total: totalAmountVal,
+                            // What each person owes; the payment and history screens read it back
+                            shares: split.shares,
+                            treats,
+                            payers,
                         }
                     })
                     .eq('id', billId);
 
                 if (billUpdateError) throw billUpdateError;
 
-                // Create payment requests for all non-host participants (both registered users and guests)
-                const paymentParticipants = partyParticipants
-                    .filter(p => p.user_id !== hostId)
-                    .map(p => ({
-                        participantId: p.id,
-                        userId: p.user_id || null,
-                        amount: Math.round((shares[p.id] || 0) * 100) / 100,
-                    }));
-
-                if (paymentParticipants.length > 0) {
-                    await createPaymentRequests(billId, hostId!, paymentParticipants);
-                }
-
                 // Host navigates to payment screen
                 router.replace({
                     pathname: '/bill/payment' as any,
                     params: { billId, fromParty: 'true' },
                 });
             } catch (err) {
+                const conflicts = readPaymentConflicts(err);
+                if (conflicts) {
+                    confirmPaidConflicts(conflicts);
+                    return;
+                }
                 console.error('TipScreen: Error finalizing bill:', err);
                 Alert.alert('Error', 'Failed to finalize bill. Please try again.');
             }
@@ -431,32 +673,7 @@ export default function TipScreen() {
         }
 
         // ─── Standalone mode: original flow ───
-        // Distribute tip proportionally to items
-        const itemsWithTip = items.map((item: BillItem) => {
-            const tipShare = subtotal > 0
-                ? (item.price / subtotal) * tipAmount
-                : 0;
-            return {
-                ...item,
-                share_of_tip: Math.round(tipShare * 100) / 100
-            };
-        });
-
-        // Calculate user totals with tip included
-        const userTotals: Record<string, number> = {};
-        users.forEach(u => userTotals[u.id] = 0);
-
-        Object.entries(assignments as Record<string, string[]>).forEach(([itemId, userIds]: [string, string[]]) => {
-            const item = itemsWithTip.find((i: any) => i.id === itemId);
-            if (item && Array.isArray(userIds) && userIds.length > 0) {
-                const costPerUser = (item.price + item.share_of_tip) / userIds.length;
-                userIds.forEach((userId: string) => {
-                    if (userTotals[userId] !== undefined) {
-                        userTotals[userId] += costPerUser;
-                    }
-                });
-            }
-        });
+        const { itemsWithTip, userTotals } = buildStandaloneSplit(tipAmount);
 
         // Navigate to checkout
         router.replace({
@@ -465,11 +682,13 @@ export default function TipScreen() {
                 billId: billId,
                 billData: JSON.stringify({
                     items: itemsWithTip,
+                    itemSplits,
                     tip: tipAmount,
-                    tip_base: tipBase,
+                    tipSettings,
                     tax: tax,
                     total: total,
-                    subtotal: subtotal
+                    subtotal: subtotal,
+                    billCurrency
                 }),
                 users: JSON.stringify(users),
                 assignments: JSON.stringify(assignments),
@@ -480,7 +699,9 @@ export default function TipScreen() {
 
     // Determine tip label for FinalCalculationSurface
     let tipLabel = noTip ? 'None' : 'Custom';
-    if (selectedPercentage) {
+    if (isIndividualMode) {
+        tipLabel = 'Individual';
+    } else if (selectedPercentage) {
         tipLabel = `${(selectedPercentage * 100).toFixed(0)}%`;
     } else if (isScannedTipActive && !selectedPercentage && customTip) {
         tipLabel = 'From receipt';
@@ -497,6 +718,80 @@ export default function TipScreen() {
         );
     }
 
+    // Party mode: individual tips — the guest picks their own percentage, the host finalizes
+    if (isFromParty && !isHost && isIndividualMode && myParticipant && myBreakdown) {
+        const myPercentage = myParticipant.tip_percentage ?? defaultTipPercent;
+        const myNoTip = myParticipant.tip_percentage === 0 && !guestCustomTip;
+        return (
+            <SafeAreaView className="flex-1 bg-surface" edges={['top']}>
+                <Stack.Screen options={{ headerShown: false, gestureEnabled: false }} />
+                <View className="flex-row items-center justify-between px-6 h-16 w-full z-50">
+                    <View className="w-10" />
+                    <DivvitLogo />
+                    <View className="w-10" />
+                </View>
+                <ReconnectingBanner connection={billSession.connection} />
+                <ScrollView
+                    className="flex-1 px-6 mx-auto w-full max-w-2xl"
+                    showsVerticalScrollIndicator={false}
+                    contentContainerStyle={{ paddingBottom: 100, paddingTop: 16 }}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <View className="mb-10">
+                        <Text className="text-[11px] font-heading font-bold uppercase tracking-widest text-primary mb-2">Your Tip</Text>
+                        <Text className="text-3xl font-heading font-extrabold tracking-tight text-on-surface">Pick your tip</Text>
+                        <Text className="text-on-surface-variant font-body mt-2">
+                            Everyone tips on their own share. The host will finalize once everyone has picked.
+                        </Text>
+                    </View>
+
+                    <TotalsCard
+                        currency={currency}
+                        subtotal={fromCents(myBreakdown.items)}
+                        fees={myBreakdown.fees > 0 ? [{ id: 'fees', label: 'Fees', amount: fromCents(myBreakdown.fees) }] : []}
+                        tax={fromCents(myBreakdown.tax)}
+                        dueNow={fromCents(myBreakdown.items + myBreakdown.fees + myBreakdown.tax)}
+                    />
+
+                    <View style={tipStyles.noTipRow}>
+                        <TouchableOpacity onPress={handleGuestNoTipToggle} style={tipStyles.noTipLeft}>
+                            <View className={`w-5 h-5 rounded border-2 items-center justify-center ${myNoTip ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                {myNoTip && <View className="w-2.5 h-2.5 bg-white rounded-sm" />}
+                            </View>
+                            <Text className="text-sm font-medium text-on-surface">No Tip</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <TipSelection
+                        currency={currency}
+                        tipBaseAmount={myTipBaseAmount}
+                        selectedPercentage={myNoTip || guestCustomTip ? null : myPercentage / 100}
+                        customTip={guestCustomTip}
+                        noTip={myNoTip}
+                        onSelectPercentage={handleGuestPercentageSelect}
+                        onCustomChange={handleGuestCustomTipChange}
+                        isScannedTipActive={false}
+                        tipPercentages={TIP_PERCENTAGES}
+                    />
+
+                    <Text style={tipStyles.tipBaseInfo}>
+                        {myParticipant.tip_percentage == null
+                            ? `Using the host's ${myPercentage}% until you pick`
+                            : `${myPercentage}% on your ${activeTipBase === 'pre-tax' ? 'subtotal' : 'subtotal + tax'} (${formatMoney(myTipBaseAmount, currency)})`
+                        }
+                    </Text>
+
+                    <View style={tipStyles.hostTipPill}>
+                        <Text style={tipStyles.hostTipPillLabel}>Your total</Text>
+                        <Text style={tipStyles.hostTipPillValue}>
+                            {formatMoney(fromCents(myBreakdown.total), currency)} · tip {formatMoney(fromCents(myBreakdown.tip), currency)}
+                        </Text>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        );
+    }
+
     // Party mode: guest waiting state — host controls the tip
     if (isFromParty && !isHost) {
         return (
@@ -507,6 +802,7 @@ export default function TipScreen() {
                     <DivvitLogo />
                     <View className="w-10" />
                 </View>
+                <ReconnectingBanner connection={billSession.connection} />
                 <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 32 }}>
                     <View style={{
                         width: 80, height: 80, borderRadius: 40,
@@ -521,6 +817,15 @@ export default function TipScreen() {
                     <Text style={{ fontSize: 14, color: '#484554', textAlign: 'center', fontWeight: '500' }}>
                         The host is choosing the tip amount. You'll be redirected to payment automatically.
                     </Text>
+                    {savedTipSettings && (
+                        <View style={tipStyles.hostTipPill}>
+                            <Text style={tipStyles.hostTipPillLabel}>Host's pick</Text>
+                            <Text style={tipStyles.hostTipPillValue}>
+                                {describeTipSettings(savedTipSettings)}
+                                {savedTipSettings.amount > 0 ? ` · ${formatMoney(savedTipSettings.amount, currency)}` : ''}
+                            </Text>
+                        </View>
+                    )}
                 </View>
             </SafeAreaView>
         );
@@ -552,6 +857,8 @@ export default function TipScreen() {
                 </View>
             </View>
 
+            <ReconnectingBanner connection={billSession.connection} />
+
             <ScrollView 
                 className="flex-1 px-6 mx-auto w-full max-w-2xl"
                 showsVerticalScrollIndicator={false}
@@ -567,10 +874,12 @@ export default function TipScreen() {
 
                 {/* Bento Layout */}
                 <View className="flex-col md:flex-row mb-3">
-                    <TotalsCard 
+                    <TotalsCard
+                        currency={currency}
                         subtotal={subtotal} 
+                        fees={fees}
                         tax={tax} 
-                        dueNow={subtotal + tax} 
+                        dueNow={subtotal + feesTotal + tax} 
                     />
                     <ContextCard 
                         restaurantName="Local Restaurant" // Handled properly on backend generally but visually satisfying here
@@ -609,7 +918,29 @@ export default function TipScreen() {
                     </TouchableOpacity>
                 </View>
 
+                {isFromParty && isHost && (
+                    <TouchableOpacity onPress={handleIndividualTipsToggle} style={[tipStyles.noTipRow, tipStyles.noTipLeft]}>
+                        <View className={`w-5 h-5 rounded border-2 items-center justify-center ${individualTips ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                            {individualTips && <View className="w-2.5 h-2.5 bg-white rounded-sm" />}
+                        </View>
+                        <Text className="text-sm font-medium text-on-surface">Everyone picks their own tip</Text>
+                    </TouchableOpacity>
+                )}
+
+                {autoGratuity > 0 && (
+                    <View style={tipStyles.gratuityNotice}>
+                        <Text style={tipStyles.gratuityNoticeTitle}>
+                            Auto-gratuity included: {formatMoney(autoGratuity, currency)}
+                            {subtotal > 0 ? ` (${Math.round((autoGratuity / subtotal) * 100)}% of subtotal)` : ''}
+                        </Text>
+                        <Text style={tipStyles.gratuityNoticeBody}>
+                            The restaurant already added a tip. Anything you choose below is extra.
+                        </Text>
+                    </View>
+                )}
+
                 <TipSelection
+                    currency={currency}
                     tipBaseAmount={tipBaseAmount}
                     selectedPercentage={selectedPercentage}
                     customTip={customTip}
@@ -621,22 +952,113 @@ export default function TipScreen() {
                 />
 
                 {/* Tip base info line */}
-                {!noTip && (
+                {isIndividualMode ? (
+                    <Text style={tipStyles.tipBaseInfo}>
+                        Your pick is the default for anyone who hasn't chosen yet
+                    </Text>
+                ) : !noTip && (
                     <Text style={tipStyles.tipBaseInfo}>
                         {tipBase === 'pre-tax'
-                            ? `Tip calculated on subtotal ($${subtotal.toFixed(2)})`
-                            : `Tip calculated on subtotal + tax ($${(subtotal + tax).toFixed(2)})`
+                            ? `Tip calculated on subtotal (${formatMoney(subtotal, currency)})`
+                            : `Tip calculated on subtotal + tax (${formatMoney(subtotal + tax, currency)})`
                         }
                     </Text>
                 )}
 
-                <FinalCalculationSurface 
+                {tipPercentages && partySplit && (
+                    <View className="mt-6">
+                        <IndividualTipsCard
+                            currency={currency}
+                            rows={partyParticipants.map(p => ({
+                                id: p.id,
+                                name: p.name,
+                                color: p.color,
+                                initials: p.initials,
+                                percentage: p.tip_percentage ?? defaultTipPercent,
+                                isDefault: p.tip_percentage == null,
+                                amount: fromCents(partySplit.breakdownCents[p.id]?.tip || 0),
+                            }))}
+                            combinedTip={tipAmount}
+                        />
+                    </View>
+                )}
+
+                {isFromParty && isHost && partyParticipants.length > 1 && (
+                    <View className={tipPercentages ? '' : 'mt-6'}>
+                        <PayersCard
+                            currency={currency}
+                            rows={payers.map(payer => {
+                                const p = partyParticipants.find(pp => pp.id === payer.participantId);
+                                return {
+                                    id: payer.participantId,
+                                    name: p?.name || 'Someone',
+                                    color: p?.color || '#6346cd',
+                                    initials: p?.initials || '?',
+                                    amount: payer.amount,
+                                };
+                            })}
+                            hostName={partyParticipants.find(p => p.user_id === hostId)?.name || 'The host'}
+                            onEdit={() => {
+                                Haptics.selectionAsync();
+                                setShowPayersSheet(true);
+                            }}
+                        />
+                    </View>
+                )}
+
+                {isFromParty && isHost && partySplit && partyParticipants.length > 1 && (
+                    <View>
+                        <TreatCard
+                            currency={currency}
+                            rows={partyParticipants.map(p => {
+                                const breakdown = partySplit.breakdownCents[p.id];
+                                return {
+                                    id: p.id,
+                                    name: p.name,
+                                    color: p.color,
+                                    initials: p.initials,
+                                    coveredLabel: partySplit.coveredCents[p.id] ? describeTreat(treats[p.id], partyParticipants) : null,
+                                    amount: breakdown ? fromCents(breakdown.total - breakdown.covered) : 0,
+                                };
+                            })}
+                            onEdit={(participantId) => {
+                                Haptics.selectionAsync();
+                                setTreatingId(participantId);
+                            }}
+                        />
+                    </View>
+                )}
+
+                <FinalCalculationSurface
+                    currency={currency}
                     tipLabel={tipLabel}
                     tipAmount={tipAmount}
                     total={total}
                     onContinue={handleContinue}
                 />
             </ScrollView>
+
+            <TreatSheet
+                visible={!!treatingId}
+                treated={partyParticipants.find(p => p.id === treatingId) || null}
+                payers={partyParticipants.filter(p => p.id !== treatingId && !treats[p.id])}
+                treat={treatingId ? treats[treatingId] || null : null}
+                onSave={handleSaveTreat}
+                onClose={() => setTreatingId(null)}
+            />
+
+            <PayersSheet
+                currency={currency}
+                visible={showPayersSheet}
+                participants={partyParticipants}
+                payers={payers}
+                billTotal={total}
+                onSave={(next) => {
+                    setPayers(next);
+                    setShowPayersSheet(false);
+                }}
+                onClose={() => setShowPayersSheet(false)}
+            />
         </SafeAreaView>
     );
 }
@@ -682,6 +1104,46 @@ const tipStyles = StyleSheet.create({
     tipBaseOptionTextActive: {
         color: '#ffffff',
     },
+    hostTipPill: {
+        marginTop: 24,
+        backgroundColor: '#f1f3ff',
+        borderRadius: 16,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        alignItems: 'center',
+    },
+    hostTipPillLabel: {
+        fontSize: 10,
+        fontWeight: '800',
+        color: '#6346cd',
+        letterSpacing: 1.5,
+        textTransform: 'uppercase',
+        marginBottom: 2,
+    },
+    hostTipPillValue: {
+        fontSize: 15,
+        fontWeight: '700',
+        color: '#111827',
+    },
+    gratuityNotice: {
+        backgroundColor: '#fff7ed',
+        borderRadius: 16,
+        padding: 12,
+        marginBottom: 12,
+        marginHorizontal: 8,
+    },
+    gratuityNoticeTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: '#9a3412',
+        fontFamily: 'Outfit',
+    },
+    gratuityNoticeBody: {
+        fontSize: 12,
+        color: '#9a3412',
+        marginTop: 2,
+        fontFamily: 'Outfit',
+    },
     tipBaseInfo: {
         fontSize: 11,
         color: '#484554',
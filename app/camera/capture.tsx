@@ -2,22 +2,73 @@ import React, { useState, useRef, useEffect } from 'react';
 import { View, Text, TouchableOpacity, Alert, Image, SafeAreaView, ScrollView } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
-import * as ImageManipulator from 'expo-image-manipulator';
-import { useRouter, Stack } from 'expo-router';
-import { ArrowLeft, Camera, Upload, X, Zap } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useRouter, useLocalSearchParams, Stack } from 'expo-router';
+import { ArrowLeft, Camera, FileText, Upload, X, Zap } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { LoadingScreen } from '../../components/LoadingScreen';
-import { scanReceipt } from '../../utils/gemini';
+import ReconciliationReview from '../../components/capture/ReconciliationReview';
+import PageStrip from '../../components/capture/PageStrip';
+import ScanProgress from '../../components/capture/ScanProgress';
+import { ScanHandle, startScan } from '../../services/receiptScanner';
+import { isScanCanceled, ScanStage } from '../../utils/scanResponse';
 import { useAuth } from '../../context/AuthContext';
-import { getInitials, getNextColor } from '../../types';
+import { prepareScannedItems, ScannedLine } from '../../utils/receiptItems';
+import { applyReconcileFix, reconcileReceipt, ReconcileFix } from '../../utils/reconcile';
+import { currencyForCountry, formatMoney } from '../../utils/currency';
+import { createScannedBill, DuplicateBill, findDuplicateBills, joinBill } from '../../services/billService';
+import { formatTransactionDate } from '../../utils/receiptDetails';
+import { uploadReceiptImages } from '../../utils/photoUpload';
+import { enqueueScan, isRetryableScanError, processScanQueue } from '../../services/scanQueue';
+import { importReceiptFile, isPdfPage, resizeForScan } from '../../utils/receiptImport';
+
+// Long receipts are photographed in overlapping pages, top to bottom
+const MAX_PAGES = 8;
+
+type DuplicateChoice = 'join' | 'create' | 'cancel';
+
+// Someone at the table may have scanned this receipt already; their party beats a competing one
+const askAboutDuplicate = (duplicate: DuplicateBill, isOwn: boolean, currency: string) =>
+    new Promise<DuplicateChoice>(resolve => {
+        const who = isOwn ? 'You' : (duplicate.host_name || 'Someone you split with');
+        Alert.alert(
+            'Already Scanned?',
+            `${who} already started a party for ${duplicate.merchant} on ${formatTransactionDate(duplicate.transaction_date)}`
+                + ` (${formatMoney(duplicate.total_amount, currency)}). Join it instead of starting another one?`,
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+                { text: 'Create Anyway', onPress: () => resolve('create') },
+                { text: isOwn ? 'Open My Party' : 'Join Their Party', onPress: () => resolve('join') },
+            ],
+            { cancelable: true, onDismiss: () => resolve('cancel') }
+        );
+    });
 
 export default function CaptureScreen() {
     const router = useRouter();
+    // Set when a PDF or image was opened in Divvit from another app (app/+native-intent.tsx)
+    const { importUri } = useLocalSearchParams<{ importUri?: string }>();
     const { user, session, profile } = useAuth();
     const [permission, requestPermission] = useCameraPermissions();
-    const [capturedImage, setCapturedImage] = useState<string | null>(null);
+    const [pages, setPages] = useState<string[]>([]);
+    const [selectedPage, setSelectedPage] = useState(0);
+    // Camera is back up over the pages: adding one at the end, or retaking the page at retakeIndex
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    // Stage of the scan in flight; the running scan is kept so Cancel can abort it
+    const [scanStage, setScanStage] = useState<ScanStage | null>(null);
+    const [isCanceling, setIsCanceling] = useState(false);
+    const scanRef = useRef<ScanHandle | null>(null);
+    // Scan that didn't add up: held here until the host fixes it or continues anyway
+    const [review, setReview] = useState<{ result: any; lines: ScannedLine[]; tax: number } | null>(null);
     const cameraRef = useRef<CameraView>(null);
+    const currency = currencyForCountry(profile?.country);
+    const hostName = () => profile?.username || user?.email?.split('@')[0] || 'You';
+
+    // Leaving the screen mid-scan cancels it
+    useEffect(() => () => scanRef.current?.cancel(), []);
 
     // Request permission on mount
     useEffect(() => {
@@ -26,6 +77,44 @@ export default function CaptureScreen() {
         }
     }, [permission]);
 
+    useEffect(() => {
+        if (!importUri) return;
+        let cancelled = false;
+        setIsImporting(true);
+        importReceiptFile(importUri)
+            .then(page => {
+                if (!cancelled) addPages([page.uri]);
+            })
+            .catch(error => {
+                console.error('CaptureScreen: Import failed:', error);
+                Alert.alert('Couldn’t Import Receipt', error.message || 'This file could not be read.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsImporting(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [importUri]);
+
+    // New photos go in at the retaken slot, or after the last page
+    const addPages = (uris: string[]) => {
+        if (uris.length === 0) return;
+        if (retakeIndex != null) {
+            setPages(prev => prev.map((uri, i) => (i === retakeIndex ? uris[0] : uri)));
+            setSelectedPage(retakeIndex);
+        } else {
+            const room = MAX_PAGES - pages.length;
+            if (uris.length > room) {
+                Alert.alert('Too many pages', `A receipt can have up to ${MAX_PAGES} pages.`);
+            }
+            setPages(prev => [...prev, ...uris.slice(0, room)]);
+            setSelectedPage(Math.min(pages.length + uris.length, MAX_PAGES) - 1);
+        }
+        setRetakeIndex(null);
+        setIsCapturing(false);
+    };
+
     const handleCapture = async () => {
         if (!cameraRef.current) return;
 
@@ -34,12 +123,7 @@ export default function CaptureScreen() {
             const photo = await cameraRef.current.takePictureAsync({ quality: 0.8 });
             if (!photo?.uri) return;
 
-            const resized = await ImageManipulator.manipulateAsync(
-                photo.uri,
-                [{ resize: { width: 1500 } }],
-                { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
-            );
-            setCapturedImage(resized.uri);
+            addPages([await resizeForScan(photo.uri)]);
         } catch (error) {
             console.error('Error capturing photo:', error);
             Alert.alert('Error', 'Failed to capture photo');
@@ -52,30 +136,62 @@ export default function CaptureScreen() {
             const result = await ImagePicker.launchImageLibraryAsync({
                 mediaTypes: ['images'],
                 quality: 0.8,
+                // Screenshots of a long receipt can be picked together, in order
+                allowsMultipleSelection: retakeIndex == null,
+                orderedSelection: true,
+                selectionLimit: retakeIndex == null ? MAX_PAGES - pages.length : 1,
             });
-            if (result.canceled || !result.assets[0]) return;
-
-            const resized = await ImageManipulator.manipulateAsync(
-                result.assets[0].uri,
-                [{ resize: { width: 1500 } }],
-                { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
-            );
-            setCapturedImage(resized.uri);
+            if (result.canceled || result.assets.length === 0) return;
+
+            const resized = [];
+            for (const asset of result.assets) {
+                resized.push(await resizeForScan(asset.uri));
+            }
+            addPages(resized);
         } catch (error) {
             console.error('Error picking image:', error);
             Alert.alert('Error', 'Failed to pick image');
         }
     };
 
+    // PDF receipts (emailed invoices, delivery orders) and images saved to Files
+    const handlePickFile = async () => {
+        try {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            const result = await DocumentPicker.getDocumentAsync({
+                type: ['application/pdf', 'image/*'],
+                copyToCacheDirectory: true,
+                multiple: retakeIndex == null,
+            });
+            if (result.canceled || result.assets.length === 0) return;
+
+            setIsImporting(true);
+            const imported = [];
+            for (const asset of result.assets.slice(0, retakeIndex == null ? MAX_PAGES - pages.length : 1)) {
+                imported.push((await importReceiptFile(asset.uri)).uri);
+            }
+            addPages(imported);
+        } catch (error: any) {
+            console.error('CaptureScreen: File import failed:', error);
+            Alert.alert('Couldn’t Import Receipt', error?.message || 'This file could not be read.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const handleAnalyze = async () => {
-        if (!capturedImage) return;
+        if (pages.length === 0) return;
 
         setIsAnalyzing(true);
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
         try {
             console.log('CaptureScreen: Starting receipt analysis...');
-            const result = await scanReceipt(capturedImage);
+            const scan = startScan(pages, setScanStage);
+            scanRef.current = scan;
+            const result = await scan.result;
+            scanRef.current = null;
+            setScanStage(null);
             console.log('CaptureScreen: Analysis result received:', result);
 
             // Validate we have the data we need
@@ -86,136 +202,216 @@ export default function CaptureScreen() {
                 return;
             }
 
-            // Create bill in Supabase
-            if (!user || !session) {
-                Alert.alert('Error', 'Please log in to create a bill.');
-                setIsAnalyzing(false);
-                return;
-            }
-
-            const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
-            const supabaseKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
-
-            // Calculate subtotal from items (use Gemini's value if available, otherwise sum items)
-            const subtotal = result.subtotal ?? result.items.reduce((sum: number, item: any) => sum + (Number(item.price) || 0), 0);
+            // Give every line an id up front so discount lines can point at the item they reduce
+            const scannedItems = prepareScannedItems(result.items);
             const tax = result.tax || 0;
 
-            // Create the bill — status:'draft' so party lobby works correctly;
-            // host presses "Start Splitting" to move it to 'active'.
-            const billResponse = await fetch(
-                `${supabaseUrl}/rest/v1/bills`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'apikey': supabaseKey!,
-                        'Authorization': `Bearer ${session.access_token}`,
-                        'Content-Type': 'application/json',
-                        'Prefer': 'return=representation',
-                    },
-                    body: JSON.stringify({
-                        host_id: user.id,
-                        total_amount: subtotal,
-                        status: 'draft',
-                        details: {
-                            items: result.items,
-                            scannedTip: result.scannedTip || 0,
-                            tax,
-                            subtotal,
-                            is_manual: false,
-                        }
-                    }),
-                }
-            );
-
-            if (!billResponse.ok) {
-                throw new Error('Failed to create bill');
+            // Compare against the printed totals; anything off goes to the review screen first
+            const check = reconcileReceipt(scannedItems, tax, result);
+            if (check.issues.length > 0) {
+                console.log('CaptureScreen: Receipt does not reconcile:', check.issues.map(i => i.label));
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                setReview({ result, lines: scannedItems, tax });
+                return;
             }
 
-            const billData = await billResponse.json();
-            const billId = billData[0].id;
-            console.log('CaptureScreen: Created bill with id:', billId);
-
-            // Add host as first participant
-            const displayName = profile?.username || user.email?.split('@')[0] || 'You';
-
-            await fetch(
-                `${supabaseUrl}/rest/v1/bill_participants`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'apikey': supabaseKey!,
-                        'Authorization': `Bearer ${session.access_token}`,
-                        'Content-Type': 'application/json',
-                        'Prefer': 'return=minimal',
-                    },
-                    body: JSON.stringify({
-                        bill_id: billId,
-                        user_id: user.id,
-                        name: displayName,
-                        is_guest: false,
-                        color: getNextColor(0), // First color for host
-                        initials: getInitials(displayName),
-                    }),
-                }
-            );
-
-            // Save items to bill_items table for realtime sync
-            const itemsPayload = (result.items || []).map((item: any) => ({
-                bill_id: billId,
-                name: item.name || '',
-                price: Number(item.price) || 0,
-                quantity: 1, // Ignore parsed quantity to avoid double-multiplication of line totals
-            }));
-
-            if (itemsPayload.length > 0) {
-                const itemsResponse = await fetch(
-                    `${supabaseUrl}/rest/v1/bill_items`,
-                    {
-                        method: 'POST',
-                        headers: {
-                            'apikey': supabaseKey!,
-                            'Authorization': `Bearer ${session.access_token}`,
-                            'Content-Type': 'application/json',
-                            'Prefer': 'return=minimal',
-                        },
-                        body: JSON.stringify(itemsPayload),
-                    }
-                );
-                if (!itemsResponse.ok) {
-                    console.warn('CaptureScreen: Failed to save bill_items, will retry on split start');
-                }
+            await createBillFromScan(result, scannedItems, tax);
+        } catch (error: any) {
+            scanRef.current = null;
+            setScanStage(null);
+            if (isScanCanceled(error)) {
+                console.log('CaptureScreen: Scan canceled');
+                return;
             }
+            console.error('CaptureScreen: Analysis error:', error);
+            if (isRetryableScanError(error) && await queueForLater(error)) return;
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            Alert.alert('Analysis Failed', error.message || 'Could not analyze receipt');
+        } finally {
+            setIsAnalyzing(false);
+            setIsCanceling(false);
+        }
+    };
 
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const handleCancelScan = () => {
+        if (!scanRef.current) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setIsCanceling(true);
+        scanRef.current.cancel();
+    };
 
-            // Navigate to Party Size Screen instead of setup
-            router.push({
-                pathname: '/bill/party-size',
-                params: {
-                    billId: billId,
-                    billData: JSON.stringify(result),
-                }
-            });
+    const handleReconcileFix = (fix: ReconcileFix) => {
+        if (!review) return;
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setReview({ ...review, ...applyReconcileFix(review.lines, review.tax, fix) });
+    };
+
+    const handleContinueFromReview = async () => {
+        if (!review) return;
+        setIsAnalyzing(true);
+        try {
+            await createBillFromScan(review.result, review.lines, review.tax);
+            setReview(null);
         } catch (error: any) {
-            console.error('CaptureScreen: Analysis error:', error);
+            console.error('CaptureScreen: Bill creation error:', error);
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-            Alert.alert('Analysis Failed', error.message || 'Could not analyze receipt');
+            Alert.alert('Error', error.message || 'Could not create the bill');
         } finally {
             setIsAnalyzing(false);
         }
     };
 
+    const createBillFromScan = async (result: any, scannedItems: ScannedLine[], tax: number) => {
+        if (!user || !session) {
+            Alert.alert('Error', 'Please log in to create a bill.');
+            return;
+        }
+
+        // A failed lookup shouldn't stand between the host and their split
+        const duplicates = await findDuplicateBills(result, scannedItems).catch(error => {
+            console.warn('CaptureScreen: Duplicate check failed:', error);
+            return [];
+        });
+        if (duplicates.length > 0) {
+            const duplicate = duplicates[0];
+            console.log('CaptureScreen: Receipt matches open bill', duplicate.bill_id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            const choice = await askAboutDuplicate(duplicate, duplicate.host_id === user.id, currency);
+            if (choice === 'cancel') return;
+            if (choice === 'join') {
+                await joinBill(duplicate.bill_id, user.id, hostName(), duplicate.participant_count);
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                router.push({
+                    pathname: '/bill/party',
+                    params: { id: duplicate.bill_id }
+                });
+                return;
+            }
+        }
+
+        const billId = await createScannedBill({
+            hostId: user.id,
+            hostName: hostName(),
+            currency,
+            result,
+            items: scannedItems,
+            tax,
+        });
+        console.log('CaptureScreen: Created bill with id:', billId);
+
+        // The original photos upload in the background; the split doesn't wait for them
+        uploadReceiptImages(billId, pages).catch(error =>
+            console.warn('CaptureScreen: Failed to upload receipt images:', error)
+        );
+
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+        // The connection is evidently back, so anything queued earlier can go too
+        processScanQueue(user.id).catch(error => console.warn('CaptureScreen: Queue run failed:', error));
+
+        // Navigate to Party Size Screen instead of setup
+        router.push({
+            pathname: '/bill/party-size',
+            params: {
+                billId: billId,
+                billData: JSON.stringify({ ...result, items: scannedItems, tax }),
+            }
+        });
+    };
+
+    // Keep the pages on the device and let the queue scan them once the connection is back
+    const queueForLater = async (error: any) => {
+        if (!user) return false;
+        try {
+            await enqueueScan(pages, { hostId: user.id, hostName: hostName(), currency }, error?.message || null);
+        } catch (queueError) {
+            console.error('CaptureScreen: Failed to queue scan:', queueError);
+            return false;
+        }
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+            'Saved for Later',
+            'We couldn’t reach the scanner. Your receipt is saved as a pending draft and will be scanned when you’re back online.',
+            [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+        );
+        return true;
+    };
+
     const handleClearImage = () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        setCapturedImage(null);
+        setPages([]);
+        setSelectedPage(0);
+    };
+
+    const handleMovePage = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= pages.length) return;
+        Haptics.selectionAsync();
+        setPages(prev => {
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+        setSelectedPage(target);
+    };
+
+    const handleRemovePage = (index: number) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setPages(prev => prev.filter((_, i) => i !== index));
+        setSelectedPage(Math.max(0, Math.min(index, pages.length - 2)));
+    };
+
+    const handleRetakePage = (index: number) => {
+        setRetakeIndex(index);
+        setIsCapturing(true);
     };
 
-    if (isAnalyzing) {
+    const handleCancelCapture = () => {
+        // Backing out of an extra page returns to the pages already taken
+        if (pages.length > 0 && isCapturing) {
+            setRetakeIndex(null);
+            setIsCapturing(false);
+            return;
+        }
+        router.back();
+    };
+
+    if (isAnalyzing && scanStage) {
+        return (
+            <>
+                <Stack.Screen options={{ headerShown: false }} />
+                <ScanProgress
+                    stage={scanStage}
+                    pageCount={pages.length}
+                    isCanceling={isCanceling}
+                    onCancel={handleCancelScan}
+                />
+            </>
+        );
+    }
+
+    if (isAnalyzing || isImporting) {
         return <LoadingScreen />;
     }
 
-    // Show captured image preview
-    if (capturedImage) {
+    if (review) {
+        return (
+            <>
+                <Stack.Screen options={{ headerShown: false }} />
+                <ReconciliationReview
+                    lines={review.lines}
+                    check={reconcileReceipt(review.lines, review.tax, review.result)}
+                    currency={currency}
+                    onFix={handleReconcileFix}
+                    onContinue={handleContinueFromReview}
+                    onRetake={() => setReview(null)}
+                />
+            </>
+        );
+    }
+
+    // Show captured pages
+    if (pages.length > 0 && !isCapturing) {
         return (
             <SafeAreaView style={{ flex: 1, backgroundColor: '#000' }}>
                 <Stack.Screen options={{ headerShown: false }} />
@@ -234,15 +430,36 @@ export default function CaptureScreen() {
                     </TouchableOpacity>
                 </View>
 
-                {/* Preview */}
+                {/* Preview; PDFs can't be drawn as an image, the backend reads their pages */}
                 <View style={{ flex: 1, padding: 16 }}>
-                    <Image
-                        source={{ uri: capturedImage }}
-                        style={{ flex: 1, borderRadius: 16 }}
-                        resizeMode="contain"
-                    />
+                    {isPdfPage(pages[selectedPage] ?? pages[0]) ? (
+                        <View style={{ flex: 1, borderRadius: 16, backgroundColor: 'rgba(255,255,255,0.08)', alignItems: 'center', justifyContent: 'center' }}>
+                            <FileText color="white" size={64} />
+                            <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold', marginTop: 16 }}>PDF Receipt</Text>
+                            <Text style={{ color: 'rgba(255,255,255,0.7)', marginTop: 6, textAlign: 'center' }}>
+                                Every page of the document is read together
+                            </Text>
+                        </View>
+                    ) : (
+                        <Image
+                            source={{ uri: pages[selectedPage] ?? pages[0] }}
+                            style={{ flex: 1, borderRadius: 16 }}
+                            resizeMode="contain"
+                        />
+                    )}
                 </View>
 
+                <PageStrip
+                    pages={pages}
+                    selectedIndex={Math.min(selectedPage, pages.length - 1)}
+                    maxPages={MAX_PAGES}
+                    onSelect={setSelectedPage}
+                    onMove={handleMovePage}
+                    onRetake={handleRetakePage}
+                    onRemove={handleRemovePage}
+                    onAddPage={() => setIsCapturing(true)}
+                />
+
                 {/* Analyze Button */}
                 <View style={{ padding: 20 }}>
                     <TouchableOpacity
@@ -258,7 +475,7 @@ export default function CaptureScreen() {
                     >
                         <Zap color="white" size={24} style={{ marginRight: 8 }} />
                         <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
-                            Analyze Receipt
+                            {pages.length > 1 ? `Analyze ${pages.length} Pages` : 'Analyze Receipt'}
                         </Text>
                     </TouchableOpacity>
                 </View>
@@ -309,7 +526,7 @@ export default function CaptureScreen() {
             {/* Header */}
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', padding: 16, zIndex: 10 }}>
                 <TouchableOpacity
-                    onPress={() => router.back()}
+                    onPress={handleCancelCapture}
                     style={{
                         padding: 12,
                         backgroundColor: 'rgba(255,255,255,0.2)',
@@ -318,16 +535,28 @@ export default function CaptureScreen() {
                 >
                     <ArrowLeft color="white" size={24} />
                 </TouchableOpacity>
-                <TouchableOpacity
-                    onPress={handlePickImage}
-                    style={{
-                        padding: 12,
-                        backgroundColor: 'rgba(255,255,255,0.2)',
-                        borderRadius: 12,
-                    }}
-                >
-                    <Upload color="white" size={24} />
-                </TouchableOpacity>
+                <View style={{ flexDirection: 'row', gap: 8 }}>
+                    <TouchableOpacity
+                        onPress={handlePickFile}
+                        style={{
+                            padding: 12,
+                            backgroundColor: 'rgba(255,255,255,0.2)',
+                            borderRadius: 12,
+                        }}
+                    >
+                        <FileText color="white" size={24} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        onPress={handlePickImage}
+                        style={{
+                            padding: 12,
+                            backgroundColor: 'rgba(255,255,255,0.2)',
+                            borderRadius: 12,
+                        }}
+                    >
+                        <Upload color="white" size={24} />
+                    </TouchableOpacity>
+                </View>
             </View>
 
             {/* Camera */}
@@ -349,7 +578,11 @@ export default function CaptureScreen() {
                         }}
                     />
                     <Text style={{ color: 'white', marginTop: 16, opacity: 0.7 }}>
-                        Position receipt within frame
+                        {retakeIndex != null
+                            ? `Retaking page ${retakeIndex + 1}`
+                            : pages.length > 0
+                                ? `Page ${pages.length + 1} — overlap the bottom of the last photo a little`
+                                : 'Position receipt within frame'}
                     </Text>
                 </View>
             </CameraView>
@@ -110,6 +110,11 @@ export default function ReceiptProcessingScreen() {
   }, []);
 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // The backend turned the receipt away because it was already claimed for this challenge
+  const [isDuplicate, setIsDuplicate] = useState(false);
+  // The backend couldn't finish the check (5xx); sending the same receipt again may work
+  const [isRetryable, setIsRetryable] = useState(false);
+  const [attempt, setAttempt] = useState(0);
 
   useEffect(() => {
     let active = true;
@@ -149,7 +154,12 @@ export default function ReceiptProcessingScreen() {
 
         if (!response.ok) {
           const text = await response.text();
-          throw new Error(text || `Verification failed with status ${response.status}`);
+          let detail = text;
+          try {
+            detail = JSON.parse(text)?.detail || text;
+          } catch {}
+          setIsRetryable(response.status >= 500);
+          throw new Error(detail || `Verification failed with status ${response.status}`);
         }
 
         const resData = await response.json();
@@ -168,6 +178,7 @@ export default function ReceiptProcessingScreen() {
           });
         } else {
           const reasons = resData.reasons || ['Receipt does not match the challenge criteria.'];
+          setIsDuplicate(Boolean(resData.duplicate));
           setErrorMsg(reasons.join('\n'));
         }
       } catch (err: any) {
@@ -183,7 +194,37 @@ export default function ReceiptProcessingScreen() {
     return () => {
       active = false;
     };
-  }, [idStr, imageUriDecoded]);
+  }, [idStr, imageUriDecoded, attempt]);
+
+  // Animated styles
+  const spinStyle = useAnimatedStyle(() => ({
+    transform: [{ rotate: `${spinVal.value}deg` }],
+  }));
+
+  const pulseStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: pulseScale.value }],
+    opacity: pulseOpacity.value,
+  }));
+
+  const floatStyle1 = useAnimatedStyle(() => ({
+    transform: [{ translateY: floatY1.value }],
+  }));
+
+  const floatStyle2 = useAnimatedStyle(() => ({
+    transform: [{ translateY: floatY2.value }],
+  }));
+
+  const statusStyle = useAnimatedStyle(() => ({
+    opacity: statusOpacity.value,
+  }));
+
+  const progressStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: progressX.value }],
+  }));
+
+  const bgScanLineStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: bgScanLineY.value }],
+  }));
 
   if (errorMsg) {
     return (
@@ -196,7 +237,9 @@ export default function ReceiptProcessingScreen() {
             <MaterialIcons name="error-outline" size={64} color="#b41340" />
           </View>
           
-          <Text style={styles.headline}>Receipt didn't qualify</Text>
+          <Text style={styles.headline}>
+            {isDuplicate ? 'Receipt already submitted' : isRetryable ? "Couldn't check receipt" : "Receipt didn't qualify"}
+          </Text>
           
           <View style={styles.errorReasonsCard}>
             <Text style={styles.errorReasonsTitle}>REASONS:</Text>
@@ -205,50 +248,33 @@ export default function ReceiptProcessingScreen() {
         </View>
 
         <View style={styles.footer}>
+          {isRetryable && (
+            <TouchableOpacity
+              onPress={() => {
+                setErrorMsg(null);
+                setIsRetryable(false);
+                setAttempt((prev) => prev + 1);
+              }}
+              activeOpacity={0.8}
+              style={styles.retryButton}
+            >
+              <Text style={styles.retryButtonText}>TRY AGAIN</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             onPress={() => {
               router.replace('/(tabs)/challenges');
             }}
             activeOpacity={0.8}
-            style={styles.retryButton}
+            style={isRetryable ? styles.skipButton : styles.retryButton}
           >
-            <Text style={styles.retryButtonText}>BACK TO CHALLENGES</Text>
+            <Text style={isRetryable ? styles.skipButtonText : styles.retryButtonText}>BACK TO CHALLENGES</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
     );
   }
 
-  // Animated styles
-  const spinStyle = useAnimatedStyle(() => ({
-    transform: [{ rotate: `${spinVal.value}deg` }],
-  }));
-
-  const pulseStyle = useAnimatedStyle(() => ({
-    transform: [{ scale: pulseScale.value }],
-    opacity: pulseOpacity.value,
-  }));
-
-  const floatStyle1 = useAnimatedStyle(() => ({
-    transform: [{ translateY: floatY1.value }],
-  }));
-
-  const floatStyle2 = useAnimatedStyle(() => ({
-    transform: [{ translateY: floatY2.value }],
-  }));
-
-  const statusStyle = useAnimatedStyle(() => ({
-    opacity: statusOpacity.value,
-  }));
-
-  const progressStyle = useAnimatedStyle(() => ({
-    transform: [{ translateX: progressX.value }],
-  }));
-
-  const bgScanLineStyle = useAnimatedStyle(() => ({
-    transform: [{ translateY: bgScanLineY.value }],
-  }));
-
   return (
     <SafeAreaView style={styles.container}>
       <Stack.Screen options={{ headerShown: false }} />
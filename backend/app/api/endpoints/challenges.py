@@ -33,6 +33,7 @@ class VerifyResponse(BaseModel):
     new_balance: Optional[int] = None
     streak: Optional[int] = None
     challenge_title: Optional[str] = None
+    duplicate: bool = False
 
 
 def normalize_text(text: Optional[str]) -> str:
@@ -97,6 +98,38 @@ def parse_iso_datetime(dt_str: Optional[str]) -> Optional[datetime]:
         return None
 
 
+def claim_receipt(client, challenge_id: str, user_id: str, receipt_hash: str) -> bool:
+    """
+    Record the receipt against the challenge. False if it was already claimed.
+    Any other failure raises a 503: without the claim nothing stops the same receipt from
+    earning points twice, so the client retries instead.
+    """
+    try:
+        client.table("challenge_receipts").insert({
+            "challenge_id": challenge_id,
+            "user_id": user_id,
+            "receipt_hash": receipt_hash,
+        }).execute()
+        return True
+    except Exception as e:
+        # 23505 is Postgres' unique violation
+        if "23505" in str(e) or "duplicate key" in str(e):
+            return False
+        logger.error(f"[Challenges] Failed to record receipt claim: {e}")
+        raise HTTPException(
+            status_code=503,
+            detail="Couldn't record this receipt right now. Please try again."
+        )
+
+
+def release_receipt(client, challenge_id: str, receipt_hash: str) -> None:
+    """Undo a claim whose points weren't awarded, so the receipt can be tried again."""
+    try:
+        client.table("challenge_receipts").delete().eq("challenge_id", challenge_id).eq("receipt_hash", receipt_hash).execute()
+    except Exception as e:
+        logger.error(f"[Challenges] Failed to release receipt claim: {e}")
+
+
 @router.post("/verify", response_model=VerifyResponse)
 @limiter.limit("5/minute")
 async def verify_challenge(
@@ -215,6 +248,16 @@ async def verify_challenge(
         hash_input = f"{normalize_text(ext_merchant)}|{receipt_date}|{ext_total}"
         receipt_hash = hashlib.sha256(hash_input.encode("utf-8")).hexdigest()
 
+        # Claim the receipt first; (challenge_id, receipt_hash) is unique, so a second
+        # submission of the same receipt, by anyone, fails here before points are awarded
+        if not claim_receipt(supabase_client, challengeId, user_id, receipt_hash):
+            logger.info(f"[Challenges] Duplicate receipt: user_id={user_id}, challenge_id={challengeId}")
+            return VerifyResponse(
+                passed=False,
+                duplicate=True,
+                reasons=["This receipt has already been submitted for this challenge."]
+            )
+
         try:
             rpc_res = supabase_client.rpc(
                 "verify_and_award_challenge",
@@ -230,6 +273,7 @@ async def verify_challenge(
             rpc_data = rpc_res.data
             if not rpc_data or not rpc_data.get("success"):
                 error_msg = rpc_data.get("error") if rpc_data else "Unknown transaction failure"
+                release_receipt(supabase_client, challengeId, receipt_hash)
                 return VerifyResponse(
                     passed=False,
                     reasons=[f"Claim rejected: {error_msg}"]
@@ -244,6 +288,7 @@ async def verify_challenge(
             )
         except Exception as e:
             logger.error(f"[Challenges] Transaction execution failed: {e}")
+            release_receipt(supabase_client, challengeId, receipt_hash)
             return VerifyResponse(
                 passed=False,
                 reasons=[f"Database transaction error: {str(e)}"]
@@ -5,23 +5,47 @@ Handles file uploads and delegates to the Gemini service for AI processing.
 
 from fastapi import APIRouter, File, UploadFile, Request, HTTPException, Depends
 from pydantic import BaseModel
-from typing import List, Optional
+from typing import List, Optional, Tuple
 
 from app.services.gemini import GeminiService
+from app.services.pdf_pages import PDF_CONTENT_TYPE, split_pdf_pages
+from app.services.scan_jobs import cancel_job, get_job, start_job
 from app.core.auth import get_current_user
 from app.core.security import limiter
 
 router = APIRouter()
 
-# 10 MB file size limit
+# 10 MB file size limit (per page)
 MAX_FILE_SIZE = 10 * 1024 * 1024
 
+# Long receipts are photographed in several overlapping pages; a PDF counts each of its pages
+MAX_PAGES = 8
+
+
+class ItemConfidence(BaseModel):
+    """How sure the scanner is of each field on a line, 0-1; None when it didn't say."""
+    name: Optional[float] = None
+    price: Optional[float] = None
+
+
+class TotalsConfidence(BaseModel):
+    """How sure the scanner is of each printed total, 0-1; None when it didn't say."""
+    subtotal: Optional[float] = None
+    tax: Optional[float] = None
+    total: Optional[float] = None
+    scannedTip: Optional[float] = None
+
 
 class ReceiptItem(BaseModel):
     """Individual item from a receipt."""
     name: str
     price: float
     quantity: int = 1
+    kind: str = "item"  # "item", "discount" (negative price) or "fee"
+    applies_to: Optional[str] = None  # name of the discounted item; None = whole bill
+    fee_type: Optional[str] = None  # fee lines only: service_charge, auto_gratuity, delivery, card_surcharge, other
+    tax_category: str = "standard"  # "standard" or "exempt" when the receipt flags the line as untaxed
+    confidence: Optional[ItemConfidence] = None
 
 
 class ScanResponse(BaseModel):
@@ -31,40 +55,37 @@ class ScanResponse(BaseModel):
     tax: Optional[float] = None
     total: Optional[float] = None
     scanned_tip: Optional[float] = None
+    confidence: Optional[TotalsConfidence] = None
 
 
-@router.post("/scan")
-@limiter.limit("10/minute")
-async def scan_receipt(
-    request: Request,
-    file: UploadFile = File(...),
-    user: dict = Depends(get_current_user),
-):
+async def read_scan_pages(uploads: List[UploadFile]) -> List[Tuple[bytes, str]]:
     """
-    Scan a receipt image and extract structured data.
-    Requires authentication (Supabase JWT).
-
-    Args:
-        file: Uploaded receipt image file (JPEG, PNG, etc.)
-
-    Returns:
-        Parsed receipt data with items and totals
+    Validate the uploaded photos / PDFs and read them into (bytes, MIME type) pages, in order.
+    Each PDF is split into its pages; every page counts toward MAX_PAGES.
     """
-    user_id = user.get("sub", "unknown")
-    print(f"[Backend] Scan request from user {user_id} — file: {file.filename!r}, type: {file.content_type!r}")
-
-    # Validate file type
-    allowed_types = ["image/jpeg", "image/png", "image/webp", "image/heic"]
-    if file.content_type not in allowed_types:
-        print(f"[Backend] Rejected — invalid content type: {file.content_type!r}")
+    if not uploads:
+        raise HTTPException(status_code=400, detail="No receipt image uploaded.")
+    if len(uploads) > MAX_PAGES:
+        print(f"[Backend] Rejected — too many pages: {len(uploads)}")
         raise HTTPException(
             status_code=400,
-            detail=f"Invalid file type. Allowed types: {', '.join(allowed_types)}"
+            detail=f"Too many pages. A receipt can have up to {MAX_PAGES} photos."
         )
 
-    try:
-        # Read file contents
-        contents = await file.read()
+    # Validate file type
+    allowed_types = ["image/jpeg", "image/png", "image/webp", "image/heic", PDF_CONTENT_TYPE]
+    for upload in uploads:
+        if upload.content_type not in allowed_types:
+            print(f"[Backend] Rejected — invalid content type: {upload.content_type!r}")
+            raise HTTPException(
+                status_code=400,
+                detail=f"Invalid file type. Allowed types: {', '.join(allowed_types)}"
+            )
+
+    # Read file contents, in page order
+    pages = []
+    for upload in uploads:
+        contents = await upload.read()
 
         # Enforce file size limit
         if len(contents) > MAX_FILE_SIZE:
@@ -73,18 +94,62 @@ async def scan_receipt(
                 status_code=413,
                 detail=f"File too large ({len(contents) / 1024 / 1024:.1f} MB). Maximum size is 10 MB."
             )
+        if upload.content_type == PDF_CONTENT_TYPE:
+            try:
+                pages.extend((page, PDF_CONTENT_TYPE) for page in split_pdf_pages(contents))
+            except ValueError as e:
+                raise HTTPException(status_code=400, detail=str(e))
+        else:
+            pages.append((contents, upload.content_type))
+
+    if len(pages) > MAX_PAGES:
+        print(f"[Backend] Rejected — too many pages after splitting PDFs: {len(pages)}")
+        raise HTTPException(
+            status_code=400,
+            detail=f"Too many pages. A receipt can have up to {MAX_PAGES} pages."
+        )
+
+    print(f"[Backend] Files read — {len(pages)} page(s), {sum(len(c) for c, _ in pages)} bytes")
+    return pages
+
 
-        print(f"[Backend] File read — {len(contents)} bytes. Calling Gemini...")
+async def parse_pages(pages: List[Tuple[bytes, str]], on_stage=None) -> dict:
+    """Process with Gemini; pages split from a document don't overlap the way photos do."""
+    gemini_service = GeminiService()
+    overlapping = all(content_type != PDF_CONTENT_TYPE for _, content_type in pages)
+    result = await gemini_service.parse_receipt_pages(pages, overlapping=overlapping, on_stage=on_stage)
+    print(f"[Backend] Gemini success — {len(result.get('items', []))} items found")
+    return result
+
+
+@router.post("/scan")
+@limiter.limit("10/minute")
+async def scan_receipt(
+    request: Request,
+    files: List[UploadFile] = File(default=[]),
+    file: Optional[UploadFile] = File(default=None),
+    user: dict = Depends(get_current_user),
+):
+    """
+    Scan a receipt image and extract structured data, waiting for the result.
+    Requires authentication (Supabase JWT). The app uses /scan/jobs instead so it can
+    show progress and cancel; this stays for older app versions.
 
-        # Process with Gemini
-        gemini_service = GeminiService()
-        result = await gemini_service.parse_receipt(contents, file.content_type)
+    Args:
+        files: Receipt photos or PDFs in order, top of the receipt first (long receipts span several)
+        file: Single receipt image, as sent by older app versions
 
-        print(f"[Backend] Gemini success — {len(result.get('items', []))} items found")
-        return result
+    Returns:
+        Parsed receipt data with items and totals
+    """
+    user_id = user.get("sub", "unknown")
+    uploads = files or ([file] if file else [])
+    print(f"[Backend] Scan request from user {user_id} — {len(uploads)} file(s): "
+          f"{[(u.filename, u.content_type) for u in uploads]!r}")
 
-    except HTTPException:
-        raise  # Re-raise our own HTTP exceptions
+    pages = await read_scan_pages(uploads)
+    try:
+        return await parse_pages(pages)
     except ValueError as e:
         print(f"[Backend] ValueError: {e}")
         raise HTTPException(status_code=400, detail=str(e))
@@ -94,3 +159,42 @@ async def scan_receipt(
             status_code=500,
             detail=f"Failed to process receipt: {str(e)}"
         )
+
+
+@router.post("/scan/jobs", status_code=202)
+@limiter.limit("10/minute")
+async def start_scan_job(
+    request: Request,
+    files: List[UploadFile] = File(default=[]),
+    user: dict = Depends(get_current_user),
+):
+    """
+    Start scanning a receipt in the background. Returns the job at its first stage;
+    poll GET /scan/jobs/{job_id} for progress and the result.
+    """
+    user_id = user.get("sub", "unknown")
+    print(f"[Backend] Scan job request from user {user_id} — {len(files)} file(s): "
+          f"{[(u.filename, u.content_type) for u in files]!r}")
+
+    pages = await read_scan_pages(files)
+    job = await start_job(user_id, lambda set_stage: parse_pages(pages, on_stage=set_stage))
+    print(f"[Backend] Started scan job {job.id}")
+    return job.to_response()
+
+
+@router.get("/scan/jobs/{job_id}")
+async def get_scan_job(job_id: str, user: dict = Depends(get_current_user)):
+    """Stage of a scan job, plus the parsed receipt once it's done or the error if it failed."""
+    job = await get_job(job_id, user.get("sub", "unknown"))
+    if not job:
+        raise HTTPException(status_code=404, detail="Scan job not found.")
+    return job.to_response()
+
+
+@router.delete("/scan/jobs/{job_id}")
+async def cancel_scan_job(job_id: str, user: dict = Depends(get_current_user)):
+    """Cancel a running scan job. Canceling a job that already finished is a no-op."""
+    job = await cancel_job(job_id, user.get("sub", "unknown"))
+    if not job:
+        raise HTTPException(status_code=404, detail="Scan job not found.")
+    return job.to_response()
@@ -7,7 +7,8 @@ import asyncio
 import io
 import json
 import os
-from typing import Dict, Any
+from itertools import groupby
+from typing import Callable, Dict, Any, List, Optional, Tuple
 
 from PIL import Image
 from google import genai
@@ -15,6 +16,68 @@ from google.genai import types
 
 from app.core.config import settings
 
+# Fewest repeated lines at a page boundary that count as photos overlapping
+MIN_PAGE_OVERLAP = 2
+
+FEE_TYPES = ("service_charge", "auto_gratuity", "delivery", "card_surcharge", "other")
+
+ITEM_CONFIDENCE_FIELDS = ("name", "price")
+TOTALS_CONFIDENCE_FIELDS = ("subtotal", "tax", "total", "scanned_tip")
+
+MULTI_PAGE_PROMPT = """
+This receipt was photographed in {count} overlapping photos, given in order from the top of the receipt to the bottom:
+- Read them as ONE receipt and return ONE JSON object
+- List items in receipt order and add "page": the 1-based number of the photo each line was read from
+- Lines visible in two photos (where the photos overlap) must be listed only once
+- Take subtotal, tax, total and scanned_tip from wherever they are printed (usually the last photo)
+"""
+
+DOCUMENT_PAGES_PROMPT = """
+This receipt is a {count}-page document (an emailed receipt, delivery order or invoice), given in page order:
+- Read the pages as ONE receipt and return ONE JSON object
+- The pages do not overlap: list every line on every page, in order
+- Take subtotal, tax, total and scanned_tip from wherever they are printed (usually the last page)
+- Leave out anything that isn't a charge on this bill, such as account summaries, earlier balances or promotions for future orders
+"""
+
+
+def merge_page_overlap(items: List[Dict[str, Any]]) -> List[Dict[str, Any]]:
+    """
+    Drop lines read twice where consecutive photos overlap.
+    The overlap is the longest run at the top of a page that repeats the bottom of the page before it,
+    so the same dish ordered twice elsewhere on the receipt is left alone. A run of one line is not
+    enough: the same dish can just as well be the last line of one page and the first of the next.
+    """
+    def line_key(item: Dict[str, Any]) -> Tuple[str, float]:
+        return (str(item.get("name") or "").strip().lower(), round(float(item.get("price") or 0), 2))
+
+    merged: List[Dict[str, Any]] = []
+    previous_page: List[Dict[str, Any]] = []
+    for page, page_items in groupby(items, key=lambda item: item.get("page")):
+        page_items = list(page_items)
+        overlap = 0
+        for size in range(min(len(previous_page), len(page_items)), MIN_PAGE_OVERLAP - 1, -1):
+            if [line_key(i) for i in previous_page[-size:]] == [line_key(i) for i in page_items[:size]]:
+                overlap = size
+                break
+        if overlap:
+            print(f"[Gemini] Dropped {overlap} overlapping line(s) at the top of page {page}")
+        merged.extend(page_items[overlap:])
+        previous_page = page_items
+    return merged
+
+
+def normalize_confidence(raw: Any, fields: Tuple[str, ...]) -> Dict[str, Any]:
+    """Clamp each field's confidence to 0-1; anything missing or unreadable becomes None (unknown)."""
+    raw = raw if isinstance(raw, dict) else {}
+    confidence: Dict[str, Any] = {}
+    for field in fields:
+        try:
+            confidence[field] = min(1.0, max(0.0, float(raw[field])))
+        except (KeyError, TypeError, ValueError):
+            confidence[field] = None
+    return confidence
+
 
 class GeminiService:
     """Service class for interacting with Google's Gemini AI."""
@@ -38,12 +101,35 @@ class GeminiService:
         Returns:
             Dictionary containing parsed receipt data
         """
-        # Validate image with PIL
-        try:
-            image = Image.open(io.BytesIO(image_data))
-            image.verify()  # Verify it's a valid image
-        except Exception as e:
-            raise ValueError(f"Invalid image file: {e}")
+        return await self.parse_receipt_pages([(image_data, content_type)])
+
+    async def parse_receipt_pages(
+        self,
+        pages: List[Tuple[bytes, str]],
+        overlapping: bool = True,
+        on_stage: Optional[Callable[[str], None]] = None,
+    ) -> Dict[str, Any]:
+        """
+        Parse a receipt photographed in one or more pages using Gemini Vision.
+
+        Args:
+            pages: (raw image or single-page PDF bytes, MIME type) for each page, top of the receipt first
+            overlapping: Whether consecutive pages are photos that overlap; False for pages split from a PDF
+            on_stage: Called with "analyzing" before Gemini reads the pages and "structuring" once
+                it has answered and the lines are being normalized (scan job progress)
+
+        Returns:
+            Dictionary containing parsed receipt data, with lines from overlapping photos merged
+        """
+        # Validate images with PIL; PDF pages were already read by split_pdf_pages()
+        for image_data, content_type in pages:
+            if content_type == "application/pdf":
+                continue
+            try:
+                image = Image.open(io.BytesIO(image_data))
+                image.verify()  # Verify it's a valid image
+            except Exception as e:
+                raise ValueError(f"Invalid image file: {e}")
 
         # Construct the prompt for receipt parsing
         prompt = """Extract merchant, date, items (name, price), tax, tip, and total from this receipt.
@@ -58,12 +144,13 @@ Return ONLY valid JSON in this exact format:
     "merchant": "merchant or store name",
     "date": "YYYY-MM-DD",
     "items": [
-        {"name": "item name", "price": 0.00, "quantity": 1}
+        {"name": "item name", "price": 0.00, "quantity": 1, "kind": "item", "applies_to": null, "fee_type": null, "tax_category": "standard", "confidence": {"name": 0.0, "price": 0.0}}
     ],
     "subtotal": 0.00,
     "tax": 0.00,
     "total": 0.00,
-    "scanned_tip": 0.00
+    "scanned_tip": 0.00,
+    "confidence": {"subtotal": 0.0, "tax": 0.0, "total": 0.0, "scanned_tip": 0.0}
 }
 
 Rules:
@@ -72,9 +159,21 @@ Rules:
 - If a value is not found, use null
 - Include all line items from the receipt
 - Be accurate with the prices and names
-- "price" must be the total price for the line item (e.g. if the receipt says "3 Hako Tonkatsu $44.85", you should return "price": 44.85 and "quantity": 1)
-- Always return "quantity" as 1 for every item
+- "price" must be the total price for the line item, never the unit price (e.g. if the receipt says "3 Hako Tonkatsu $44.85", you should return "price": 44.85 and "quantity": 3)
+- "quantity" is the number of units on the line as a whole number; use 1 when no count is printed
+- "kind" is "discount" for any line that reduces the bill (coupons, promotions, happy hour, comps, voids, "-$5.00"), otherwise "item"
+- Discount lines must have a negative "price" (e.g. "Happy Hour -$5.00" becomes "price": -5.00)
+- "applies_to" is the exact "name" of the item a discount belongs to (e.g. a comped dessert printed under that dessert), or null when the discount applies to the whole bill
+- "kind" is "fee" for charges added on top of the food: service charges, automatic gratuity ("18% gratuity added for parties of 6+"), delivery fees and credit-card surcharges
+- For fee lines set "fee_type" to one of "service_charge", "auto_gratuity", "delivery", "card_surcharge" or "other"; for every other line use null
+- An automatic gratuity printed on the receipt is a fee line, not "scanned_tip"; "scanned_tip" is only a tip the customer wrote in
+- "confidence" is how sure you are that each value was read correctly, from 0.0 to 1.0: use 0.95 or higher only for clean, clearly printed text, and go lower for smudged, faded, crumpled, cut-off or handwritten text and for anything you had to guess or reconstruct
+- Give a confidence for every line's "name" and "price", and for "subtotal", "tax", "total" and "scanned_tip" in the top-level "confidence" (use null for values that are not on the receipt)
+- "tax_category" is "exempt" when the receipt marks the line as not taxed (e.g. grocery receipts that flag taxable lines with "T" and leave the rest unflagged, or print "N"/"NT" next to non-taxable lines), otherwise "standard"
 """
+        if len(pages) > 1:
+            page_prompt = MULTI_PAGE_PROMPT if overlapping else DOCUMENT_PAGES_PROMPT
+            prompt += page_prompt.format(count=len(pages))
 
         # Retry chain — only use gemini-2.5-flash. If it returns 503 (high demand) or 429
         # it will automatically retry up to 3 times with a 2-second delay.
@@ -84,18 +183,24 @@ Rules:
             types.Content(
                 parts=[
                     types.Part.from_text(text=prompt),
-                    types.Part.from_bytes(
-                        data=image_data,
-                        mime_type=content_type,
-                    ),
+                    *[
+                        types.Part.from_bytes(
+                            data=image_data,
+                            mime_type=content_type,
+                        )
+                        for image_data, content_type in pages
+                    ],
                 ]
             )
         ]
 
+        report_stage = on_stage or (lambda stage: None)
+
         last_error = None
         for model_name in MODELS:
             try:
                 print(f"[Gemini] Trying model: {model_name}")
+                report_stage("analyzing")
                 response = await asyncio.to_thread(
                     self.client.models.generate_content,
                     model=model_name,
@@ -103,6 +208,7 @@ Rules:
                 )
 
                 # Parse the JSON response
+                report_stage("structuring")
                 response_text = response.text.strip()
 
                 # Remove any markdown code block formatting if present
@@ -116,6 +222,42 @@ Rules:
                 if "scanned_tip" in result:
                     result["scannedTip"] = result.pop("scanned_tip")
 
+                # Quantity is a whole unit count (>= 1); price stays the line total
+                for item in result.get("items") or []:
+                    try:
+                        item["quantity"] = max(1, int(item.get("quantity") or 1))
+                    except (TypeError, ValueError):
+                        item["quantity"] = 1
+
+                    # Discounts always come back negative; a stray negative "item" is a discount too
+                    price = item.get("price") or 0
+                    is_discount = item.get("kind") == "discount" or price < 0
+                    is_fee = not is_discount and item.get("kind") == "fee"
+                    item["kind"] = "discount" if is_discount else "fee" if is_fee else "item"
+                    if is_discount:
+                        item["price"] = -abs(price)
+                    else:
+                        item["applies_to"] = None
+                    if is_fee:
+                        if item.get("fee_type") not in FEE_TYPES:
+                            item["fee_type"] = "other"
+                    else:
+                        item["fee_type"] = None
+                    if item.get("tax_category") != "exempt" or item["kind"] != "item":
+                        item["tax_category"] = "standard"
+                    item["confidence"] = normalize_confidence(item.get("confidence"), ITEM_CONFIDENCE_FIELDS)
+
+                # Same camelCase key as the value itself
+                totals_confidence = normalize_confidence(result.get("confidence"), TOTALS_CONFIDENCE_FIELDS)
+                totals_confidence["scannedTip"] = totals_confidence.pop("scanned_tip")
+                result["confidence"] = totals_confidence
+
+                # Lines read from two overlapping photos only count once; the page number isn't part of the response
+                if len(pages) > 1 and overlapping:
+                    result["items"] = merge_page_overlap(result.get("items") or [])
+                for item in result.get("items") or []:
+                    item.pop("page", None)
+
                 print(f"[Gemini] Success with model: {model_name}")
                 return result
 
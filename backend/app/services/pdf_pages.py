@@ -0,0 +1,44 @@
+"""
+PDF receipts (emailed receipts, delivery orders, hotel folios) arrive as documents rather
+than photos. Each page is split out into its own single-page PDF so it goes to Gemini as
+one page of the receipt, the same way a photo would.
+"""
+
+import io
+from typing import List
+
+from pypdf import PdfReader, PdfWriter
+from pypdf.errors import PdfReadError
+
+PDF_CONTENT_TYPE = "application/pdf"
+
+
+def split_pdf_pages(data: bytes) -> List[bytes]:
+    """
+    Split a PDF into single-page PDFs, in page order.
+
+    Raises:
+        ValueError: If the file isn't a readable PDF, is password-protected or has no pages
+    """
+    if not data.startswith(b"%PDF-"):
+        raise ValueError("Invalid PDF file.")
+
+    try:
+        reader = PdfReader(io.BytesIO(data))
+        # Owner-locked PDFs (common for invoices) open with an empty password
+        if reader.is_encrypted and not reader.decrypt(""):
+            raise ValueError("This PDF is password-protected. Open it, then share a screenshot instead.")
+
+        pages = []
+        for page in reader.pages:
+            writer = PdfWriter()
+            writer.add_page(page)
+            buffer = io.BytesIO()
+            writer.write(buffer)
+            pages.append(buffer.getvalue())
+    except PdfReadError as e:
+        raise ValueError(f"Invalid PDF file: {e}")
+
+    if not pages:
+        raise ValueError("This PDF has no pages.")
+    return pages
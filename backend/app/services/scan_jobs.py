@@ -0,0 +1,145 @@
+"""
+Receipt scans running in the background.
+The app starts a job, polls it for its stage (analyzing → structuring → done) and can
+cancel it. Jobs are rows in the scan_jobs table (migration 037), so a poll can land on any
+Cloud Run instance; only the task doing the work lives in the instance that started it,
+which is deployed with --no-cpu-throttling so it keeps running after the 202 (see deploy.sh).
+"""
+
+import asyncio
+import datetime
+import uuid
+from dataclasses import dataclass
+from typing import Any, Awaitable, Callable, Dict, Optional
+
+from app.services.supabase import get_supabase_client
+
+# Finished jobs are kept this long for the client's last poll
+JOB_TTL_SECONDS = 10 * 60
+
+STAGES = ("uploading", "analyzing", "structuring")
+
+
+@dataclass
+class ScanJob:
+    id: str
+    user_id: str
+    stage: str = "analyzing"  # the upload is already done by the time a job exists
+    status: str = "running"  # running, done, failed, canceled
+    result: Optional[Dict[str, Any]] = None
+    error: Optional[str] = None
+    error_status: Optional[int] = None  # HTTP status the synchronous endpoint would have returned
+
+    @classmethod
+    def from_row(cls, row: Dict[str, Any]) -> "ScanJob":
+        return cls(
+            id=row["id"],
+            user_id=row["user_id"],
+            stage=row.get("stage") or "analyzing",
+            status=row.get("status") or "running",
+            result=row.get("result"),
+            error=row.get("error"),
+            error_status=row.get("error_status"),
+        )
+
+    def to_response(self) -> Dict[str, Any]:
+        response: Dict[str, Any] = {"job_id": self.id, "status": self.status, "stage": self.stage}
+        if self.status == "done":
+            response["result"] = self.result
+        if self.status == "failed":
+            response["error"] = self.error
+            response["error_status"] = self.error_status
+        return response
+
+
+# Tasks started by this instance, so a cancel that lands here can stop the work too
+_tasks: Dict[str, asyncio.Task] = {}
+
+
+def _table():
+    return get_supabase_client().table("scan_jobs")
+
+
+def _update_running(job_id: str, changes: Dict[str, Any]) -> None:
+    """Apply `changes` only while the job is still running; a cancel from any instance wins."""
+    _table().update(changes).eq("id", job_id).eq("status", "running").execute()
+
+
+def _prune() -> None:
+    cutoff = datetime.datetime.now(datetime.timezone.utc) - datetime.timedelta(seconds=JOB_TTL_SECONDS)
+    _table().delete().lt("created_at", cutoff.isoformat()).execute()
+
+
+async def start_job(
+    user_id: str,
+    run: Callable[[Callable[[str], None]], Awaitable[Dict[str, Any]]],
+) -> ScanJob:
+    """
+    Run `run(set_stage)` in the background and track it as a job owned by `user_id`.
+    ValueError marks the job failed with a 400 (the receipt was rejected); anything else is a 500.
+    """
+    job = ScanJob(id=str(uuid.uuid4()), user_id=user_id)
+    try:
+        await asyncio.to_thread(_prune)
+    except Exception as e:
+        print(f"[ScanJobs] Failed to prune old jobs: {e}")
+    await asyncio.to_thread(
+        lambda: _table().insert({"id": job.id, "user_id": user_id, "stage": job.stage, "status": job.status}).execute()
+    )
+
+    loop = asyncio.get_running_loop()
+
+    def set_stage(stage: str) -> None:
+        if stage in STAGES and stage != job.stage:
+            job.stage = stage
+            loop.create_task(asyncio.to_thread(_update_running, job.id, {"stage": stage}))
+
+    async def worker() -> None:
+        try:
+            result = await run(set_stage)
+            await asyncio.to_thread(_update_running, job.id, {"status": "done", "result": result})
+        except asyncio.CancelledError:
+            raise
+        except ValueError as e:
+            print(f"[ScanJobs] Job {job.id} rejected: {e}")
+            await asyncio.to_thread(_update_running, job.id, {"status": "failed", "error": str(e), "error_status": 400})
+        except Exception as e:
+            print(f"[ScanJobs] Job {job.id} failed: {type(e).__name__}: {e}")
+            await asyncio.to_thread(
+                _update_running, job.id,
+                {"status": "failed", "error": f"Failed to process receipt: {e}", "error_status": 500},
+            )
+        finally:
+            _tasks.pop(job.id, None)
+
+    _tasks[job.id] = asyncio.create_task(worker())
+    return job
+
+
+async def get_job(job_id: str, user_id: str) -> Optional[ScanJob]:
+    """The job, if it exists and belongs to this user."""
+    try:
+        uuid.UUID(job_id)
+    except ValueError:
+        return None
+    res = await asyncio.to_thread(
+        lambda: _table().select("*").eq("id", job_id).eq("user_id", user_id).limit(1).execute()
+    )
+    return ScanJob.from_row(res.data[0]) if res.data else None
+
+
+async def cancel_job(job_id: str, user_id: str) -> Optional[ScanJob]:
+    """
+    Stop a running job. The Gemini request itself runs in a worker thread and can't be
+    interrupted, and the task may be on another instance, but the job reports "canceled"
+    from here on and its result is never stored.
+    """
+    job = await get_job(job_id, user_id)
+    if job and job.status == "running":
+        await asyncio.to_thread(_update_running, job.id, {"status": "canceled"})
+        task = _tasks.pop(job.id, None)
+        if task:
+            task.cancel()
+        print(f"[ScanJobs] Job {job.id} canceled at stage {job.stage}")
+        job = await get_job(job_id, user_id)
+    return job
@@ -30,12 +30,15 @@ gcloud services enable artifactregistry.googleapis.com \
                        run.googleapis.com
 
 # --- 2. DEPLOY ---
+# Scan jobs keep running after the 202 that started them, so the CPU must stay on between
+# requests; their state is in Supabase (scan_jobs), so any instance can answer a poll
 echo "📦 Building and Deploying to Cloud Run..."
 gcloud run deploy $SERVICE_NAME \
   --source . \
   --region $REGION \
   --allow-unauthenticated \
   --set-env-vars="GEMINI_API_KEY=$GEMINI_KEY" \
+  --no-cpu-throttling \
   --timeout=300
 
 echo "✅ DONE! Your backend is live."
\ No newline at end of file
@@ -0,0 +1,38 @@
+"""merge_page_overlap(): lines read twice where two receipt photos overlap."""
+
+from app.services.gemini import merge_page_overlap
+
+
+def line(name, price, page):
+    return {"name": name, "price": price, "quantity": 1, "page": page}
+
+
+def test_drops_lines_repeated_where_photos_overlap():
+    items = [
+        line("Burger", 14.0, 1),
+        line("Fries", 5.0, 1),
+        line("Coke", 3.0, 1),
+        line("Fries", 5.0, 2),
+        line("Coke", 3.0, 2),
+        line("Salad", 9.5, 2),
+    ]
+
+    merged = merge_page_overlap(items)
+
+    assert [(i["name"], i["page"]) for i in merged] == [
+        ("Burger", 1), ("Fries", 1), ("Coke", 1), ("Salad", 2),
+    ]
+
+
+def test_keeps_the_same_item_ordered_again_at_a_page_boundary():
+    # Two beers on separate lines: one ends the first photo, the other starts the second
+    items = [
+        line("Burger", 14.0, 1),
+        line("IPA", 7.0, 1),
+        line("IPA", 7.0, 2),
+        line("Salad", 9.5, 2),
+    ]
+
+    merged = merge_page_overlap(items)
+
+    assert [i["name"] for i in merged] == ["Burger", "IPA", "IPA", "Salad"]
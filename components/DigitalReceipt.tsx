@@ -1,15 +1,24 @@
 import React, { useState } from 'react';
-import { View, Text, Dimensions, ScrollView, NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
+import { View, Text, Dimensions, ScrollView, TouchableOpacity, NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
 import Svg, { Path, Defs, LinearGradient, Stop, Rect } from 'react-native-svg';
+import { formatLineAmount } from '../utils/receiptItems';
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/currency';
+import { joinNames } from '../utils/treats';
+import { formatTransactionDate } from '../utils/receiptDetails';
+import ReceiptImageViewer from './ReceiptImageViewer';
 
 // --- Types ---
 type DigitalReceiptProps = {
     date: string;
     total: number;
-    items: Array<{ name: string; price: number }>;
+    items: Array<{ name: string; price: number; kind?: string }>;
     storeName?: string;
     tax?: number;
     tip?: number;
+    treats?: Array<{ name: string; coveredBy: string[] }>; // who covered whom
+    currency?: string;
+    transactionDate?: string | null; // printed on the receipt; replaces the split time when known
+    receiptImages?: string[];
 };
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -65,9 +74,15 @@ const formatReceiptDate = (dateString: string): { date: string; time: string } =
 };
 
 // --- Main Component ---
-export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax = 0, tip = 0 }: DigitalReceiptProps) => {
-    const { date: formattedDate, time } = formatReceiptDate(date);
+export const DigitalReceipt = ({
+    date, total, items, storeName = 'DIVVIT', tax = 0, tip = 0, treats = [], currency = DEFAULT_CURRENCY,
+    transactionDate = null, receiptImages = [],
+}: DigitalReceiptProps) => {
+    const splitDate = formatReceiptDate(date);
+    const formattedDate = transactionDate ? formatTransactionDate(transactionDate).toUpperCase() : splitDate.date;
+    const time = transactionDate ? null : splitDate.time;
     const [showFadeGradient, setShowFadeGradient] = useState(true);
+    const [showOriginal, setShowOriginal] = useState(false);
 
     // Check if we've scrolled to the bottom
     const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
@@ -76,8 +91,9 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
         setShowFadeGradient(!isAtBottom);
     };
 
-    // Calculate subtotal from items
-    const subtotal = items.reduce((sum, item) => sum + item.price, 0);
+    // Calculate subtotal from items; fee lines sit outside the subtotal
+    const subtotal = items.filter((item) => item.kind !== 'fee').reduce((sum, item) => sum + item.price, 0);
+    const fees = items.filter((item) => item.kind === 'fee').reduce((sum, item) => sum + item.price, 0);
 
     return (
         <View
@@ -149,16 +165,18 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                         >
                             {formattedDate}
                         </Text>
-                        <Text
-                            style={{
-                                fontFamily: 'Courier',
-                                fontSize: 11,
-                                color: '#666666',
-                                textAlign: 'center',
-                            }}
-                        >
-                            {time}
-                        </Text>
+                        {time && (
+                            <Text
+                                style={{
+                                    fontFamily: 'Courier',
+                                    fontSize: 11,
+                                    color: '#666666',
+                                    textAlign: 'center',
+                                }}
+                            >
+                                {time}
+                            </Text>
+                        )}
                     </View>
 
                     {/* Dashed Separator */}
@@ -215,7 +233,7 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                                         color: '#333333',
                                     }}
                                 >
-                                    ${item.price.toFixed(2)}
+                                    {formatLineAmount(item.price, currency)}
                                 </Text>
                             </View>
                         ))}
@@ -242,16 +260,26 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                                 Subtotal
                             </Text>
                             <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
-                                ${subtotal.toFixed(2)}
+                                {formatMoney(subtotal, currency)}
                             </Text>
                         </View>
+                        {fees > 0 && (
+                            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 }}>
+                                <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
+                                    Fees
+                                </Text>
+                                <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
+                                    {formatMoney(fees, currency)}
+                                </Text>
+                            </View>
+                        )}
                         {tax > 0 && (
                             <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 }}>
                                 <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
                                     Tax
                                 </Text>
                                 <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
-                                    ${tax.toFixed(2)}
+                                    {formatMoney(tax, currency)}
                                 </Text>
                             </View>
                         )}
@@ -261,7 +289,7 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                                     Tip
                                 </Text>
                                 <Text style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666' }}>
-                                    ${tip.toFixed(2)}
+                                    {formatMoney(tip, currency)}
                                 </Text>
                             </View>
                         )}
@@ -296,10 +324,34 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                                 color: '#111827',
                             }}
                         >
-                            ${total.toFixed(2)}
+                            {formatMoney(total, currency)}
                         </Text>
                     </View>
 
+                    {/* Treats */}
+                    {treats.length > 0 && (
+                        <View style={{ marginTop: 16 }}>
+                            <Text
+                                style={{
+                                    fontFamily: 'Courier',
+                                    fontSize: 10,
+                                    color: '#888888',
+                                    marginBottom: 6,
+                                }}
+                            >
+                                TREATS
+                            </Text>
+                            {treats.map((treat, index) => (
+                                <Text
+                                    key={index}
+                                    style={{ fontFamily: 'Courier', fontSize: 11, color: '#666666', marginBottom: 4 }}
+                                >
+                                    {treat.name} covered by {joinNames(treat.coveredBy)}
+                                </Text>
+                            ))}
+                        </View>
+                    )}
+
                     {/* Thank You */}
                     <Text
                         style={{
@@ -313,6 +365,23 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
                     >
                         THANK YOU FOR SPLITTING!
                     </Text>
+
+                    {/* Original Receipt */}
+                    {receiptImages.length > 0 && (
+                        <TouchableOpacity onPress={() => setShowOriginal(true)} style={{ marginTop: 12, alignSelf: 'center' }}>
+                            <Text
+                                style={{
+                                    fontFamily: 'Courier',
+                                    fontSize: 11,
+                                    fontWeight: 'bold',
+                                    color: '#6346cd',
+                                    textDecorationLine: 'underline',
+                                }}
+                            >
+                                VIEW ORIGINAL RECEIPT
+                            </Text>
+                        </TouchableOpacity>
+                    )}
                 </ScrollView>
 
                 {/* Fade Gradient at bottom when more content exists */}
@@ -323,6 +392,13 @@ export const DigitalReceipt = ({ date, total, items, storeName = 'DIVVIT', tax =
 
             {/* Zigzag Torn Paper Edge */}
             <ZigzagEdge width={CARD_WIDTH} />
+
+            <ReceiptImageViewer
+                visible={showOriginal}
+                images={receiptImages}
+                title={storeName}
+                onClose={() => setShowOriginal(false)}
+            />
         </View>
     );
 };
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, Dimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react-native';
+
+type Props = {
+    visible: boolean;
+    images: string[]; // receipt pages, top of the receipt first
+    title?: string | null;
+    initialPage?: number;
+    onClose: () => void;
+};
+
+const MAX_ZOOM = 5;
+const DOUBLE_TAP_ZOOM = 2.5;
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+// Pinch to zoom, drag to pan once zoomed, double-tap to toggle
+const ZoomableImage = ({ uri }: { uri: string }) => {
+    const scale = useSharedValue(1);
+    const savedScale = useSharedValue(1);
+    const translateX = useSharedValue(0);
+    const translateY = useSharedValue(0);
+    const savedTranslateX = useSharedValue(0);
+    const savedTranslateY = useSharedValue(0);
+
+    const reset = () => {
+        'worklet';
+        scale.value = withTiming(1);
+        savedScale.value = 1;
+        translateX.value = withTiming(0);
+        translateY.value = withTiming(0);
+        savedTranslateX.value = 0;
+        savedTranslateY.value = 0;
+    };
+
+    const pinch = Gesture.Pinch()
+        .onUpdate((e) => {
+            scale.value = Math.min(MAX_ZOOM, Math.max(1, savedScale.value * e.scale));
+        })
+        .onEnd(() => {
+            savedScale.value = scale.value;
+            if (scale.value <= 1) reset();
+        });
+
+    const pan = Gesture.Pan()
+        .averageTouches(true)
+        .onUpdate((e) => {
+            if (savedScale.value <= 1) return;
+            translateX.value = savedTranslateX.value + e.translationX;
+            translateY.value = savedTranslateY.value + e.translationY;
+        })
+        .onEnd(() => {
+            savedTranslateX.value = translateX.value;
+            savedTranslateY.value = translateY.value;
+        });
+
+    const doubleTap = Gesture.Tap()
+        .numberOfTaps(2)
+        .onEnd(() => {
+            if (savedScale.value > 1) {
+                reset();
+            } else {
+                scale.value = withTiming(DOUBLE_TAP_ZOOM);
+                savedScale.value = DOUBLE_TAP_ZOOM;
+            }
+        });
+
+    const animatedStyle = useAnimatedStyle(() => ({
+        transform: [
+            { translateX: translateX.value },
+            { translateY: translateY.value },
+            { scale: scale.value },
+        ],
+    }));
+
+    return (
+        <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+            <Animated.View style={[{ flex: 1, alignItems: 'center', justifyContent: 'center' }, animatedStyle]}>
+                <Animated.Image
+                    source={{ uri }}
+                    style={{ width: SCREEN_WIDTH, height: SCREEN_HEIGHT * 0.75 }}
+                    resizeMode="contain"
+                />
+            </Animated.View>
+        </GestureDetector>
+    );
+};
+
+export default function ReceiptImageViewer({ visible, images, title, initialPage = 0, onClose }: Props) {
+    const [page, setPage] = useState(initialPage);
+
+    useEffect(() => {
+        if (visible) setPage(Math.min(initialPage, Math.max(0, images.length - 1)));
+    }, [visible, initialPage, images.length]);
+
+    if (images.length === 0) return null;
+
+    return (
+        <Modal visible={visible} animationType="fade" onRequestClose={onClose} statusBarTranslucent>
+            <GestureHandlerRootView style={{ flex: 1 }}>
+                <SafeAreaView style={{ flex: 1, backgroundColor: '#000' }}>
+                    {/* Header */}
+                    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 16 }}>
+                        <View style={{ flex: 1, marginRight: 12 }}>
+                            <Text style={{ color: 'white', fontSize: 16, fontWeight: '700' }} numberOfLines={1}>
+                                {title || 'Receipt'}
+                            </Text>
+                            {images.length > 1 && (
+                                <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 12, fontWeight: '500', marginTop: 2 }}>
+                                    Page {page + 1} of {images.length}
+                                </Text>
+                            )}
+                        </View>
+                        <TouchableOpacity
+                            onPress={onClose}
+                            style={{ padding: 12, backgroundColor: 'rgba(255,255,255,0.2)', borderRadius: 12 }}
+                        >
+                            <X color="white" size={24} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {/* Keyed by page so zoom resets when the page changes */}
+                    <View style={{ flex: 1, overflow: 'hidden' }}>
+                        <ZoomableImage key={images[page]} uri={images[page]} />
+                    </View>
+
+                    {/* Page controls */}
+                    {images.length > 1 && (
+                        <View style={{ flexDirection: 'row', justifyContent: 'center', alignItems: 'center', padding: 20 }}>
+                            <TouchableOpacity
+                                onPress={() => setPage(p => Math.max(0, p - 1))}
+                                disabled={page === 0}
+                                style={{ padding: 12, backgroundColor: 'rgba(255,255,255,0.2)', borderRadius: 12, opacity: page === 0 ? 0.35 : 1 }}
+                            >
+                                <ChevronLeft color="white" size={24} />
+                            </TouchableOpacity>
+                            <View style={{ flexDirection: 'row', marginHorizontal: 20 }}>
+                                {images.map((uri, index) => (
+                                    <View
+                                        key={`${uri}-${index}`}
+                                        style={{
+                                            width: 8, height: 8, borderRadius: 4, marginHorizontal: 4,
+                                            backgroundColor: index === page ? '#ffffff' : 'rgba(255,255,255,0.35)',
+                                        }}
+                                    />
+                                ))}
+                            </View>
+                            <TouchableOpacity
+                                onPress={() => setPage(p => Math.min(images.length - 1, p + 1))}
+                                disabled={page === images.length - 1}
+                                style={{ padding: 12, backgroundColor: 'rgba(255,255,255,0.2)', borderRadius: 12, opacity: page === images.length - 1 ? 0.35 : 1 }}
+                            >
+                                <ChevronRight color="white" size={24} />
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                </SafeAreaView>
+            </GestureHandlerRootView>
+        </Modal>
+    );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Undo2, X } from 'lucide-react-native';
+import { BillActivity, Participant } from '../../types';
+import { getBillActivity, undoBulkAssignment } from '../../services/billService';
+import { buildActivityTimeline, latestUndoableTxid } from '../../utils/billActivity';
+
+type Props = {
+    visible: boolean;
+    billId: string;
+    participants: Participant[];
+    currency: string;
+    currentUserId: string | undefined;
+    canUndo: boolean; // the host, while items can still be edited
+    onClose: () => void;
+};
+
+const timeAgo = (dateString: string): string => {
+    const diffMins = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+    if (diffMins < 1) return 'Just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    const diffHours = Math.floor(diffMins / 60);
+    if (diffHours < 24) return `${diffHours}h ago`;
+    return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Timeline of who changed what on a live bill; the host can undo the latest bulk assignment from here
+export default function ActivitySheet({ visible, billId, participants, currency, currentUserId, canUndo, onClose }: Props) {
+    const [rows, setRows] = useState<BillActivity[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isUndoing, setIsUndoing] = useState(false);
+
+    const load = async () => {
+        try {
+            setRows(await getBillActivity(billId));
+        } catch (err) {
+            console.error('ActivitySheet: Failed to load activity:', err);
+        }
+    };
+
+    // Fresh copy each time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        setIsLoading(true);
+        load().finally(() => setIsLoading(false));
+    }, [visible, billId]);
+
+    const entries = useMemo(() => buildActivityTimeline(rows, participants, currency), [rows, participants, currency]);
+    const undoableTxid = useMemo(() => (canUndo ? latestUndoableTxid(rows) : null), [rows, canUndo]);
+
+    const actorName = (actorId: string | null) => {
+        if (!actorId) return 'Divvit';
+        if (actorId === currentUserId) return 'You';
+        return participants.find(p => p.user_id === actorId)?.name || 'Someone';
+    };
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await load();
+        setIsRefreshing(false);
+    };
+
+    const handleUndo = async () => {
+        setIsUndoing(true);
+        try {
+            const restored = await undoBulkAssignment(billId);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            if (restored === 0) {
+                Alert.alert('Nothing Put Back', 'Every item from that change has been changed again since, so it was left as it is.');
+            }
+            await load();
+        } catch (err: any) {
+            console.error('ActivitySheet: Failed to undo:', err);
+            Alert.alert('Error', err?.message || 'Failed to undo. Please try again.');
+        } finally {
+            setIsUndoing(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View className="flex-1 justify-end bg-black/40">
+                <View className="bg-white rounded-t-3xl pb-10" style={{ maxHeight: '80%', shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                    <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                        <View className="flex-1 mr-4">
+                            <Text className="font-heading text-xl font-bold text-on-surface">Activity</Text>
+                            <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                Every change to this bill, newest first
+                            </Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose} className="p-2 rounded-full bg-gray-100">
+                            <X size={20} color="#6B7280" />
+                        </TouchableOpacity>
+                    </View>
+
+                    {isLoading ? (
+                        <View className="py-12 items-center">
+                            <ActivityIndicator color="#6346cd" />
+                        </View>
+                    ) : (
+                        <ScrollView
+                            contentContainerStyle={{ paddingHorizontal: 20, paddingTop: 8 }}
+                            showsVerticalScrollIndicator={false}
+                            refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor="#6346cd" />}
+                        >
+                            {entries.length === 0 && (
+                                <Text className="text-sm text-on-surface-variant text-center py-10">
+                                    Nothing has changed yet
+                                </Text>
+                            )}
+                            {entries.map((entry, index) => (
+                                <View key={entry.id} className="flex-row py-3" style={index > 0 ? { borderTopWidth: 1, borderTopColor: '#F3F4F6' } : undefined}>
+                                    <View
+                                        className="w-2 h-2 rounded-full mt-1.5 mr-3"
+                                        style={{ backgroundColor: entry.isBulk ? '#6346cd' : '#CBD5E1' }}
+                                    />
+                                    <View className="flex-1">
+                                        <Text className="text-[14px] text-on-surface">
+                                            <Text className="font-bold">{actorName(entry.actorId)}</Text> {entry.text}
+                                        </Text>
+                                        <Text className="text-xs text-on-surface-variant mt-0.5">{timeAgo(entry.createdAt)}</Text>
+                                    </View>
+                                    {entry.isBulk && entry.txid === undoableTxid && (
+                                        <TouchableOpacity
+                                            onPress={handleUndo}
+                                            disabled={isUndoing}
+                                            className="self-center ml-3 px-3 py-1.5 rounded-full bg-primary/10 flex-row items-center"
+                                        >
+                                            {isUndoing
+                                                ? <ActivityIndicator size="small" color="#6346cd" style={{ marginRight: 6 }} />
+                                                : <Undo2 size={14} color="#6346cd" style={{ marginRight: 4 }} />}
+                                            <Text className="text-xs font-bold text-primary">Undo</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+                            ))}
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+}
@@ -1,11 +1,15 @@
 import React, { useEffect } from 'react';
-import { View, Text, TextInput } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
 import Animated, { useAnimatedProps, useSharedValue, withTiming } from 'react-native-reanimated';
+import { currencyDecimals, currencySymbol, DEFAULT_CURRENCY, formatMoney } from '../../utils/currency';
 
 const AnimatedTextInput = Animated.createAnimatedComponent(TextInput);
 
-const AnimatedNumber = ({ value, className, style }: { value: number; className?: string; style?: any }) => {
+const AnimatedNumber = ({ value, currency, className, style }: { value: number; currency: string; className?: string; style?: any }) => {
     const animatedValue = useSharedValue(value);
+    // Intl isn't available on the UI thread, so the animated text uses symbol + fixed decimals
+    const symbol = currencySymbol(currency);
+    const decimals = currencyDecimals(currency);
 
     useEffect(() => {
         animatedValue.value = withTiming(value, { duration: 500 });
@@ -13,7 +17,7 @@ const AnimatedNumber = ({ value, className, style }: { value: number; className?
 
     const animatedProps = useAnimatedProps(() => {
         return {
-            text: `$${animatedValue.value.toFixed(2)}`,
+            text: `${symbol}${animatedValue.value.toFixed(decimals)}`,
         } as any;
     });
 
@@ -21,7 +25,7 @@ const AnimatedNumber = ({ value, className, style }: { value: number; className?
         <AnimatedTextInput
             underlineColorAndroid="transparent"
             editable={false}
-            value={`$${value.toFixed(2)}`}
+            value={`${symbol}${value.toFixed(decimals)}`}
             animatedProps={animatedProps}
             className={className}
             style={style}
@@ -35,34 +39,53 @@ interface Props {
     taxInput: string;
     setTaxInput(val: string): void;
     setTaxAmount(val: number): void;
+    feesTotal?: number; // service charges, auto-gratuity and other fee lines
+    itemizedTax?: number; // tax from per-item categories; compared against the receipt tax above
     billTotal: number;
     progressSegments: { width: number; color: string; id: string }[];
+    currency?: string;
+    onCurrencyPress?: () => void; // opens the currency / exchange rate picker
+    isTaxUncertain?: boolean; // the scanner wasn't sure it read the tax right
+    onConfirmTax?: () => void;
 }
 
-export default function BillHeader({ subtotal, taxAmount, taxInput, setTaxInput, setTaxAmount, billTotal, progressSegments }: Props) {
+export default function BillHeader({ subtotal, taxAmount, taxInput, setTaxInput, setTaxAmount, feesTotal = 0, itemizedTax, billTotal, progressSegments, currency = DEFAULT_CURRENCY, onCurrencyPress, isTaxUncertain = false, onConfirmTax }: Props) {
+    const symbol = currencySymbol(currency);
+    const taxDifference = itemizedTax !== undefined ? Math.round((itemizedTax - taxAmount) * 100) / 100 : 0;
+
     return (
         <View className="mb-8 mt-2">
             <View className="flex-row justify-between items-end mb-6">
                 <View className="flex-1 flex-shrink mr-4">
-                    <Text className="font-semibold text-on-surface-variant uppercase tracking-widest text-[11px] mb-1">Subtotal (pre-tip)</Text>
-                    <Text className="text-4xl font-extrabold tracking-tight text-on-surface">${subtotal.toFixed(2)}</Text>
+                    <View className="flex-row items-center mb-1">
+                        <Text className="font-semibold text-on-surface-variant uppercase tracking-widest text-[11px]">Subtotal (pre-tip)</Text>
+                        {onCurrencyPress && (
+                            <TouchableOpacity onPress={onCurrencyPress} className="ml-2 px-2 py-0.5 rounded-full bg-primary/10">
+                                <Text className="text-primary font-bold text-[11px]">{currency}</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    <Text className="text-4xl font-extrabold tracking-tight text-on-surface">{formatMoney(subtotal, currency)}</Text>
                 </View>
                 {/* Right side: Tax + Total, using a fixed 2-column grid so both rows align */}
                 <View style={{ flexDirection: 'column', alignItems: 'flex-end' }}>
                     {/* Tax Row */}
                     <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
-                        <Text style={{ color: '#6B7280', fontSize: 14, marginRight: 8 }}>Tax</Text>
+                        <Text style={{ color: isTaxUncertain ? '#92400e' : '#6B7280', fontSize: 14, marginRight: 8 }}>Tax</Text>
                         {/* Value column — fixed width so $ and digits always line up */}
-                        <View style={{ width: 80, flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end' }}>
+                        <View style={{
+                            width: 80, flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end',
+                            ...(isTaxUncertain ? { backgroundColor: '#FEF3C7', borderRadius: 6 } : {}),
+                        }}>
                             <TextInput
-                                value={taxInput ? `$${taxInput}` : (taxAmount > 0 ? `$${taxAmount.toFixed(2)}` : '')}
+                                value={taxInput ? `${symbol}${taxInput}` : (taxAmount > 0 ? formatMoney(taxAmount, currency) : '')}
                                 onChangeText={(text) => {
                                     const cleaned = text.replace(/[^0-9.]/g, '');
                                     setTaxInput(cleaned);
                                     setTaxAmount(parseFloat(cleaned) || 0);
                                 }}
                                 onBlur={() => setTaxInput('')}
-                                placeholder="$0.00"
+                                placeholder={formatMoney(0, currency)}
                                 placeholderTextColor="#9CA3AF"
                                 keyboardType="decimal-pad"
                                 style={{ fontSize: 14, fontWeight: '500', color: '#111827', textAlign: 'right', minWidth: 50, padding: 0 }}
@@ -70,12 +93,44 @@ export default function BillHeader({ subtotal, taxAmount, taxInput, setTaxInput,
                         </View>
                     </View>
 
+                    {/* Low-confidence tax read — tap once it matches the receipt */}
+                    {isTaxUncertain && (
+                        <TouchableOpacity onPress={onConfirmTax} disabled={!onConfirmTax} style={{ marginTop: -2, marginBottom: 6 }}>
+                            <Text style={{ color: '#92400e', fontSize: 11, fontWeight: '600' }}>
+                                Check tax{onConfirmTax ? ' · tap if right' : ''}
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+
+                    {/* Itemized tax — only when exempt or custom-rate items move it away from the receipt */}
+                    {taxDifference !== 0 && (
+                        <View style={{ alignItems: 'flex-end', marginTop: -2, marginBottom: 6 }}>
+                            <Text style={{ color: '#6B7280', fontSize: 12 }}>
+                                Itemized {formatMoney(itemizedTax!, currency)}
+                            </Text>
+                            <Text style={{ color: '#B45309', fontSize: 11, fontWeight: '600' }}>
+                                {taxDifference > 0 ? '+' : '-'}{formatMoney(Math.abs(taxDifference), currency)} vs receipt
+                            </Text>
+                        </View>
+                    )}
+
+                    {/* Fees Row — only when the bill has fee lines */}
+                    {feesTotal > 0 && (
+                        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
+                            <Text style={{ color: '#6B7280', fontSize: 14, marginRight: 8 }}>Fees</Text>
+                            <View style={{ width: 80, alignItems: 'flex-end' }}>
+                                <Text style={{ fontSize: 14, fontWeight: '500', color: '#111827' }}>{formatMoney(feesTotal, currency)}</Text>
+                            </View>
+                        </View>
+                    )}
+
                     {/* Total Row — same value-column width so $ aligns directly below Tax $ */}
                     <View style={{ flexDirection: 'row', alignItems: 'center' }}>
                         <Text style={{ fontSize: 20, fontWeight: '800', color: '#4b29b4', marginRight: 8 }}>Total</Text>
                         <View style={{ width: 80, alignItems: 'flex-end' }}>
                             <AnimatedNumber
                                 value={billTotal}
+                                currency={currency}
                                 style={{ fontSize: 20, fontWeight: '800', color: '#4b29b4', textAlign: 'right' }}
                             />
                         </View>
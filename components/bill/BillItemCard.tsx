@@ -2,7 +2,9 @@ import React from 'react';
 import { View, Text, TouchableOpacity, TextInput } from 'react-native';
 import Animated, { Layout, FadeInDown } from 'react-native-reanimated';
 import { Swipeable } from 'react-native-gesture-handler';
-import { Utensils, Trash2 } from 'lucide-react-native';
+import { Utensils, Trash2, Minus, Tag, Percent, AlertTriangle, Pencil } from 'lucide-react-native';
+import { currencySymbol, DEFAULT_CURRENCY, formatMoney } from '../../utils/currency';
+import { ConfidenceField } from '../../utils/receiptItems';
 
 interface User {
     id: string;
@@ -16,6 +18,7 @@ interface BillItem {
     id: string;
     name: string;
     price: number;
+    quantity?: number;
 }
 
 interface Props {
@@ -23,7 +26,18 @@ interface Props {
     index: number;
     priceInput?: string;
     uniqueAssignees: string[];
+    splitLabel?: string; // set when the item is split unevenly, e.g. "2 : 1 shares"
+    discountTarget?: string | null; // discount lines only: target item name, null = whole bill
+    feeLabel?: string; // fee lines only, e.g. "Auto-gratuity · split by subtotal"
+    taxLabel?: string | null; // set for exempt or custom-rate items, e.g. "Tax exempt"
+    unitsLeft?: number; // set when a multi-quantity line is being claimed unit by unit
+    myUnits?: number; // units held by the selected person (or me, for guests)
+    uncertainFields?: ConfidenceField[]; // scanned values the host should check against the receipt
+    onConfirmScan?: () => void; // host says the flagged values are right
+    editingBy?: { name: string; color: string } | null; // someone else is changing this item right now
+    onReleaseUnit?: () => void;
     activeUsers: User[];
+    currency?: string;
     onNameChange: (text: string) => void;
     onPriceChange: (text: string) => void;
     onPriceBlur: () => void;
@@ -46,9 +60,31 @@ const RenderRightActions = ({ onDelete }: { onDelete: () => void }) => {
 };
 
 export default function BillItemCard({ 
-    item, index, priceInput, uniqueAssignees, activeUsers, 
-    onNameChange, onPriceChange, onPriceBlur, onAssignToggle, onLongPress, onDelete, setSwipeableRef 
+    item, index, priceInput, uniqueAssignees, splitLabel, discountTarget, feeLabel, taxLabel, unitsLeft, myUnits = 0, activeUsers, currency = DEFAULT_CURRENCY,
+    uncertainFields = [], onConfirmScan, editingBy, onReleaseUnit, onNameChange, onPriceChange, onPriceBlur, onAssignToggle, onLongPress, onDelete, setSwipeableRef 
 }: Props) {
+    const isDiscount = discountTarget !== undefined;
+    const isFee = feeLabel !== undefined;
+    const displayPrice = Math.abs(item.price);
+    const isNameUncertain = uncertainFields.includes('name');
+    const isPriceUncertain = uncertainFields.includes('price');
+
+    let subtitle: string;
+    if (isDiscount) {
+        subtitle = discountTarget ? `Discount on ${discountTarget}` : 'Discount on the whole bill';
+    } else if (isFee) {
+        subtitle = feeLabel;
+    } else if (unitsLeft !== undefined) {
+        subtitle = unitsLeft === 0
+            ? `All ${item.quantity} units claimed`
+            : `${unitsLeft} of ${item.quantity} units left · tap to claim one`;
+    } else if (uniqueAssignees.length > 1) {
+        subtitle = splitLabel ? `Split ${splitLabel}` : `Split ${uniqueAssignees.length} ways`;
+    } else {
+        subtitle = uniqueAssignees.length === 1 ? 'Assigned' : 'Tap to assign';
+    }
+    if (taxLabel && !isDiscount && !isFee) subtitle = `${subtitle} · ${taxLabel}`;
+
     return (
         <Animated.View
             entering={FadeInDown.delay(index * 30).springify()}
@@ -70,7 +106,11 @@ export default function BillItemCard({
                 >
                     <View className="flex-row items-center flex-1">
                         <View className="w-12 h-12 rounded-xl bg-surface-container-low items-center justify-center mr-4">
-                            <Utensils color="#4b29b4" size={24} />
+                            {isDiscount
+                                ? <Tag color="#4b29b4" size={22} />
+                                : isFee
+                                    ? <Percent color="#4b29b4" size={22} />
+                                    : <Utensils color="#4b29b4" size={24} />}
                         </View>
                         <View className="flex-1 mr-2">
                             <TextInput
@@ -79,24 +119,60 @@ export default function BillItemCard({
                                 placeholder="Item name..."
                                 placeholderTextColor="#9CA3AF"
                                 className="font-bold text-base text-on-surface"
-                                style={{ padding: 0, margin: 0 }}
+                                style={{
+                                    padding: 0, margin: 0,
+                                    ...(isNameUncertain ? { color: '#92400e', borderBottomWidth: 1, borderBottomColor: '#F59E0B', borderStyle: 'dashed' } : {}),
+                                }}
                                 returnKeyType="next"
                             />
                             <Text className="text-xs text-on-surface-variant font-medium mt-0.5">
-                                {uniqueAssignees.length > 1
-                                    ? `Split ${uniqueAssignees.length} ways`
-                                    : uniqueAssignees.length === 1
-                                        ? 'Assigned'
-                                        : 'Tap to assign'}
+                                {subtitle}
                             </Text>
+                            {editingBy && (
+                                <View className="flex-row items-center self-start mt-1.5 px-2 py-0.5 rounded-full" style={{ backgroundColor: `${editingBy.color}22` }}>
+                                    <Pencil color={editingBy.color} size={11} />
+                                    <Text className="font-bold text-[11px] ml-1" style={{ color: editingBy.color }}>
+                                        {editingBy.name} is editing
+                                    </Text>
+                                </View>
+                            )}
+                            {uncertainFields.length > 0 && (
+                                <TouchableOpacity
+                                    onPress={onConfirmScan}
+                                    disabled={!onConfirmScan}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    className="flex-row items-center self-start mt-1.5 px-2 py-0.5 rounded-full"
+                                    style={{ backgroundColor: '#FEF3C7' }}
+                                >
+                                    <AlertTriangle color="#92400e" size={12} />
+                                    <Text className="font-bold text-[11px] ml-1" style={{ color: '#92400e' }}>
+                                        Check {isNameUncertain && isPriceUncertain ? 'name and price' : isNameUncertain ? 'name' : 'price'}
+                                        {onConfirmScan ? ' · tap if right' : ''}
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                            {unitsLeft !== undefined && myUnits > 0 && onReleaseUnit && (
+                                <TouchableOpacity
+                                    onPress={onReleaseUnit}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    className="flex-row items-center self-start mt-1.5 px-2 py-0.5 rounded-full bg-primary/10"
+                                >
+                                    <Minus color="#4b29b4" size={12} />
+                                    <Text className="text-primary font-bold text-[11px] ml-1">{myUnits} claimed</Text>
+                                </TouchableOpacity>
+                            )}
                         </View>
                     </View>
 
                     <View className="items-end">
-                        <View className="flex-row items-center">
-                            <Text className="font-bold text-on-surface" style={{ fontSize: 16 }}>$</Text>
+                        <View
+                            className="flex-row items-center"
+                            style={isPriceUncertain ? { backgroundColor: '#FEF3C7', borderRadius: 8, paddingHorizontal: 6, paddingVertical: 2 } : undefined}
+                        >
+                            <Text className="font-bold text-on-surface" style={{ fontSize: 16 }}>{currencySymbol(currency)}</Text>
+                            {/* Discounts keep their minus in the input: deleting it turns the line back into an item */}
                             <TextInput
-                                value={priceInput !== undefined ? priceInput : (item.price > 0 ? item.price.toString() : '')}
+                                value={priceInput !== undefined ? priceInput : `${isDiscount ? '-' : ''}${displayPrice > 0 ? displayPrice.toString() : ''}`}
                                 onChangeText={onPriceChange}
                                 onBlur={onPriceBlur}
                                 placeholder="0.00"
@@ -108,7 +184,13 @@ export default function BillItemCard({
                             />
                         </View>
                         
-                        {uniqueAssignees.length > 0 && (
+                        {!isDiscount && !isFee && (item.quantity || 1) > 1 && (
+                            <Text className="text-[11px] text-on-surface-variant font-medium mt-0.5">
+                                {item.quantity} × {formatMoney(item.price / (item.quantity || 1), currency)}
+                            </Text>
+                        )}
+
+                        {!isDiscount && uniqueAssignees.length > 0 && (
                             <View className="flex-row mt-1 justify-end">
                                 {uniqueAssignees.slice(0, 3).map((uid, idx) => {
                                     const u = activeUsers.find(usr => usr.id === uid);
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, Modal, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
+import * as Haptics from 'expo-haptics';
+import { X } from 'lucide-react-native';
+import { BillCurrency } from '../../types';
+import { CURRENCIES } from '../../utils/currency';
+import { getExchangeRate } from '../../services/billService';
+
+type Props = {
+    visible: boolean;
+    value: BillCurrency;
+    onSave: (value: BillCurrency) => void;
+    onClose: () => void;
+};
+
+const CURRENCY_CODES = Object.keys(CURRENCIES);
+
+function CurrencyChips({ selected, onSelect }: { selected: string; onSelect: (code: string) => void }) {
+    return (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8, paddingVertical: 4 }}>
+            {CURRENCY_CODES.map(code => (
+                <TouchableOpacity
+                    key={code}
+                    onPress={() => {
+                        Haptics.selectionAsync();
+                        onSelect(code);
+                    }}
+                    className={`px-3 py-2 rounded-full ${selected === code ? 'bg-primary' : 'bg-surface-container-high'}`}
+                >
+                    <Text className={`text-xs font-bold ${selected === code ? 'text-white' : 'text-on-surface-variant'}`}>
+                        {CURRENCIES[code].symbol.trim()} {code}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </ScrollView>
+    );
+}
+
+export default function CurrencySheet({ visible, value, onSave, onClose }: Props) {
+    const [currency, setCurrency] = useState(value.currency);
+    const [settlementCurrency, setSettlementCurrency] = useState(value.settlementCurrency);
+    const [rateInput, setRateInput] = useState('');
+    const [isFetchingRate, setIsFetchingRate] = useState(false);
+
+    // Start from the bill's saved settings each time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        setCurrency(value.currency);
+        setSettlementCurrency(value.settlementCurrency);
+        setRateInput(value.exchangeRate ? String(value.exchangeRate) : '');
+    }, [visible]);
+
+    const needsRate = currency !== settlementCurrency;
+
+    const handleFetchRate = async () => {
+        setIsFetchingRate(true);
+        try {
+            const rate = await getExchangeRate(currency, settlementCurrency);
+            if (rate) {
+                setRateInput(String(Number(rate.toFixed(6))));
+            } else {
+                Alert.alert('No Rate Found', `We don't have a ${currency} → ${settlementCurrency} rate yet. Enter it by hand.`);
+            }
+        } catch (err) {
+            console.error('CurrencySheet: Failed to fetch exchange rate:', err);
+            Alert.alert('Error', 'Could not load the exchange rate. Please enter it by hand.');
+        } finally {
+            setIsFetchingRate(false);
+        }
+    };
+
+    const handleSave = () => {
+        const rate = Number(rateInput);
+        if (needsRate && !(rate > 0)) {
+            Alert.alert('Exchange Rate Needed', `Enter how many ${settlementCurrency} one ${currency} is worth.`);
+            return;
+        }
+        onSave({ currency, settlementCurrency, exchangeRate: needsRate ? rate : null });
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View className="flex-1 justify-end bg-black/40">
+                <KeyboardAwareScrollView
+                    contentContainerStyle={{ flexGrow: 1, justifyContent: 'flex-end' }}
+                    showsVerticalScrollIndicator={false}
+                    enableOnAndroid={true}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                        <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                            <View className="flex-1 mr-4">
+                                <Text className="font-heading text-xl font-bold text-on-surface">Currency</Text>
+                                <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                    Split in the receipt's currency, settle up in yours
+                                </Text>
+                            </View>
+                            <TouchableOpacity onPress={onClose} className="p-2 rounded-full bg-gray-100">
+                                <X size={20} color="#6B7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        <View className="px-5 pt-4">
+                            <Text className="font-heading font-bold text-on-surface text-base mb-2">Receipt currency</Text>
+                            <CurrencyChips selected={currency} onSelect={setCurrency} />
+
+                            <Text className="font-heading font-bold text-on-surface text-base mt-5 mb-2">Settle up in</Text>
+                            <CurrencyChips selected={settlementCurrency} onSelect={setSettlementCurrency} />
+
+                            {needsRate && (
+                                <View className="mt-5 pt-4 border-t border-gray-100">
+                                    <View className="flex-row items-center justify-between">
+                                        <Text className="font-heading font-bold text-on-surface text-base flex-1 mr-3">
+                                            1 {currency} =
+                                        </Text>
+                                        <View className="flex-row items-center bg-surface-container-high rounded-xl px-3 py-2">
+                                            <TextInput
+                                                value={rateInput}
+                                                onChangeText={(text) => setRateInput(text.replace(/[^0-9.]/g, ''))}
+                                                placeholder="0.00"
+                                                placeholderTextColor="#9CA3AF"
+                                                keyboardType="decimal-pad"
+                                                style={{ minWidth: 72, textAlign: 'right', fontSize: 16, fontWeight: '700', color: '#111827', padding: 0 }}
+                                            />
+                                            <Text className="font-bold text-on-surface-variant ml-1">{settlementCurrency}</Text>
+                                        </View>
+                                    </View>
+                                    <TouchableOpacity
+                                        onPress={handleFetchRate}
+                                        disabled={isFetchingRate}
+                                        className="self-start mt-3 px-3 py-1.5 rounded-full bg-primary/10 flex-row items-center"
+                                    >
+                                        {isFetchingRate && <ActivityIndicator size="small" color="#6346cd" style={{ marginRight: 6 }} />}
+                                        <Text className="text-xs font-bold text-primary">Use latest rate</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            )}
+                        </View>
+
+                        <View className="flex-row px-5 pt-6 gap-3">
+                            <TouchableOpacity
+                                onPress={onClose}
+                                activeOpacity={0.8}
+                                className="flex-1 py-4 rounded-2xl items-center justify-center bg-gray-100"
+                            >
+                                <Text className="font-heading font-bold text-base text-gray-500">Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                onPress={handleSave}
+                                activeOpacity={0.8}
+                                className="flex-1 py-4 rounded-2xl items-center justify-center bg-primary"
+                            >
+                                <Text className="font-heading font-bold text-base text-white">Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </KeyboardAwareScrollView>
+            </View>
+        </Modal>
+    );
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
 import { Check, UserPlus } from 'lucide-react-native';
+import PresenceDot from './PresenceDot';
+import { PresenceStatus } from '../../types';
 
 interface User {
     id: string;
@@ -15,19 +17,30 @@ interface Props {
     selectedUserIds: string[];
     onSelectUser: (id: string) => void;
     onAddUser?: () => void;
+    presence?: Record<string, PresenceStatus>; // live bills only; guests have no entry and no dot
 }
 
-export default function ParticipantSelector({ activeUsers, selectedUserIds, onSelectUser, onAddUser }: Props) {
+export default function ParticipantSelector({ activeUsers, selectedUserIds, onSelectUser, onAddUser, presence }: Props) {
     const selectedCount = selectedUserIds.length;
     const label = selectedCount === 0
         ? 'Tap a person to start'
         : selectedCount === 1
             ? 'Assigning to'
             : `Assigning to ${selectedCount} people (split evenly)`;
+    const presenceStatuses = presence ? Object.values(presence) : [];
+    const hereCount = presenceStatuses.filter(status => status === 'online').length;
+
 
     return (
         <View className="mt-8 pb-4">
-            <Text className="font-semibold text-on-surface-variant uppercase tracking-widest text-[11px] mb-4">{label}</Text>
+            <View className="flex-row items-center justify-between mb-4">
+                <Text className="font-semibold text-on-surface-variant uppercase tracking-widest text-[11px]">{label}</Text>
+                {presenceStatuses.length > 0 && (
+                    <Text className="font-semibold text-on-surface-variant text-[11px]">
+                        {hereCount} of {presenceStatuses.length} here now
+                    </Text>
+                )}
+            </View>
             <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingRight: 20 }}>
                 <View className="flex-row items-center gap-3">
                     {activeUsers.map(user => {
@@ -46,6 +59,7 @@ export default function ParticipantSelector({ activeUsers, selectedUserIds, onSe
                                 >
                                     <Text className="font-bold text-white text-lg">{user.initials}</Text>
                                 </View>
+                                {presence?.[user.id] && <PresenceDot status={presence[user.id]} />}
                                 {isSelected && (
                                     <View style={{
                                         position: 'absolute',
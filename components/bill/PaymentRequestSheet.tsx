@@ -12,6 +12,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BlurView } from 'expo-blur';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Participant, PaymentRequest } from '../../types';
+import { DEFAULT_CURRENCY, formatMoney } from '../../utils/currency';
 import * as Haptics from 'expo-haptics';
 
 // Design system colors matching Indigo Velvet style
@@ -79,6 +80,7 @@ interface PaymentRequestSheetProps {
     visible: boolean;
     participant: Participant | null;
     amount: number;
+    currency?: string;
     request: PaymentRequest | null;
     onClose: () => void;
     onVenmo: () => void;
@@ -92,6 +94,7 @@ export default function PaymentRequestSheet({
     visible,
     participant,
     amount,
+    currency = DEFAULT_CURRENCY,
     request,
     onClose,
     onVenmo,
@@ -131,7 +134,7 @@ export default function PaymentRequestSheet({
                     <View style={styles.header}>
                         <Text style={styles.participantName}>{participant.name}</Text>
                         <Text style={styles.oweText}>
-                            Owes <Text style={styles.oweAmount}>${amount.toFixed(2)}</Text>
+                            Owes <Text style={styles.oweAmount}>{formatMoney(amount, currency)}</Text>
                         </Text>
                     </View>
 
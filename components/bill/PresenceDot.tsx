@@ -0,0 +1,32 @@
+import React from 'react';
+import { View } from 'react-native';
+import { PresenceStatus } from '../../types';
+
+type Props = {
+    status: PresenceStatus;
+    size?: number;
+};
+
+const COLORS: Record<PresenceStatus, string> = {
+    online: '#16a34a',
+    idle: '#F59E0B',
+    offline: '#9CA3AF',
+};
+
+// Online / idle / offline marker pinned to the top-right corner of a participant avatar
+export default function PresenceDot({ status, size = 14 }: Props) {
+    return (
+        <View style={{
+            position: 'absolute',
+            top: -2,
+            right: -2,
+            width: size,
+            height: size,
+            borderRadius: size / 2,
+            backgroundColor: COLORS[status],
+            borderWidth: 2,
+            borderColor: '#FFFFFF',
+            zIndex: 10,
+        }} />
+    );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Text, ActivityIndicator } from 'react-native';
+import Animated, { FadeInUp, FadeOutUp } from 'react-native-reanimated';
+import { BillSessionConnection } from '../../services/billSession';
+
+type Props = {
+    connection: BillSessionConnection;
+};
+
+// Strip under a live bill screen's header while its channel is down and the missed changes are being read back
+export default function ReconnectingBanner({ connection }: Props) {
+    if (connection !== 'reconnecting') return null;
+
+    return (
+        <Animated.View
+            entering={FadeInUp}
+            exiting={FadeOutUp}
+            style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'center',
+                backgroundColor: '#FEF3C7',
+                paddingVertical: 8,
+                paddingHorizontal: 16,
+            }}
+        >
+            <ActivityIndicator size="small" color="#92400e" />
+            <Text style={{ marginLeft: 8, color: '#92400e', fontSize: 13, fontWeight: '600' }}>
+                Reconnecting… others' changes will catch up
+            </Text>
+        </Animated.View>
+    );
+}
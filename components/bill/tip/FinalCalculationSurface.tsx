@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { ArrowRight } from 'lucide-react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
 
 type Props = {
     tipLabel: string;
@@ -8,18 +9,19 @@ type Props = {
     total: number;
     onContinue: () => void;
     isLoading?: boolean;
+    currency?: string;
 };
 
-export default function FinalCalculationSurface({ tipLabel, tipAmount, total, onContinue, isLoading = false }: Props) {
+export default function FinalCalculationSurface({ tipLabel, tipAmount, total, onContinue, isLoading = false, currency = DEFAULT_CURRENCY }: Props) {
     return (
         <View className="bg-[#e5e7eb]/30 rounded-[40px] p-8 mt-2 mb-4">
             <View className="flex-row justify-between items-center mb-6">
                 <Text className="text-on-surface-variant font-medium">Selected Tip ({tipLabel})</Text>
-                <Text className="font-bold text-on-surface">${tipAmount.toFixed(2)}</Text>
+                <Text className="font-bold text-on-surface">{formatMoney(tipAmount, currency)}</Text>
             </View>
             <View className="flex-row justify-between items-center mb-6">
                 <Text className="text-on-surface-variant font-medium">Total</Text>
-                <Text className="font-heading text-2xl font-bold text-on-surface">${total.toFixed(2)}</Text>
+                <Text className="font-heading text-2xl font-bold text-on-surface">{formatMoney(total, currency)}</Text>
             </View>
 
             <View className="pt-6 border-t border-[#e5e7eb]/50" style={{ paddingHorizontal: 16, width: '100%' }}>
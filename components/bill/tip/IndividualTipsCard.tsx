@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
+
+type TipRow = {
+    id: string;
+    name: string;
+    color: string;
+    initials: string;
+    percentage: number; // percent
+    isDefault: boolean; // hasn't picked yet, so the host's percentage applies
+    amount: number;
+};
+
+type Props = {
+    rows: TipRow[];
+    combinedTip: number;
+    currency?: string;
+};
+
+export default function IndividualTipsCard({ rows, combinedTip, currency = DEFAULT_CURRENCY }: Props) {
+    return (
+        <View className="bg-surface-container-low p-6 rounded-[32px] mb-4">
+            <Text className="text-sm font-heading font-extrabold uppercase tracking-widest text-on-surface-variant mb-4">
+                Everyone's Tip
+            </Text>
+            {rows.map(row => (
+                <View key={row.id} className="flex-row items-center justify-between mb-3">
+                    <View className="flex-row items-center flex-1 mr-4">
+                        <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: row.color }}>
+                            <Text className="font-heading font-bold text-white text-xs">{row.initials}</Text>
+                        </View>
+                        <View className="flex-1">
+                            <Text className="font-bold text-on-surface text-sm" numberOfLines={1}>{row.name}</Text>
+                            <Text className="text-on-surface-variant text-xs">
+                                {row.isDefault ? `${row.percentage}% · hasn't picked yet` : `${row.percentage}%`}
+                            </Text>
+                        </View>
+                    </View>
+                    <Text className="font-bold text-on-surface text-base">{formatMoney(row.amount, currency)}</Text>
+                </View>
+            ))}
+            <View className="pt-4 mt-1 border-t border-[#e5e7eb]/30 flex-row justify-between items-center">
+                <Text className="text-on-surface-variant font-medium text-sm">Combined tip</Text>
+                <Text className="font-heading text-2xl font-extrabold text-primary">{formatMoney(combinedTip, currency)}</Text>
+            </View>
+        </View>
+    );
+}
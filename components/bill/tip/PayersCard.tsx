@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { CreditCard } from 'lucide-react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
+
+type PayerRow = {
+    id: string;
+    name: string;
+    color: string;
+    initials: string;
+    amount: number;
+};
+
+type Props = {
+    rows: PayerRow[]; // empty = the host paid the whole bill
+    hostName: string;
+    onEdit: () => void;
+    currency?: string;
+};
+
+export default function PayersCard({ rows, hostName, onEdit, currency = DEFAULT_CURRENCY }: Props) {
+    return (
+        <View className="bg-surface-container-low p-6 rounded-[32px] mb-4">
+            <View className="flex-row items-center justify-between mb-4">
+                <View className="flex-row items-center">
+                    <CreditCard size={16} color="#6346cd" />
+                    <Text className="text-sm font-heading font-extrabold uppercase tracking-widest text-on-surface-variant ml-2">
+                        Who Paid?
+                    </Text>
+                </View>
+                <TouchableOpacity onPress={onEdit} className="px-3 py-1.5 rounded-full bg-primary/10">
+                    <Text className="text-xs font-bold text-primary">Edit</Text>
+                </TouchableOpacity>
+            </View>
+            {rows.length === 0 ? (
+                <Text className="text-on-surface-variant text-sm">{hostName} paid the whole bill</Text>
+            ) : rows.map(row => (
+                <View key={row.id} className="flex-row items-center justify-between mb-3">
+                    <View className="flex-row items-center flex-1 mr-4">
+                        <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: row.color }}>
+                            <Text className="font-heading font-bold text-white text-xs">{row.initials}</Text>
+                        </View>
+                        <Text className="font-bold text-on-surface text-sm flex-1" numberOfLines={1}>{row.name}</Text>
+                    </View>
+                    <Text className="font-bold text-on-surface text-base">{formatMoney(row.amount, currency)}</Text>
+                </View>
+            ))}
+        </View>
+    );
+}
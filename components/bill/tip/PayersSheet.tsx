@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, Modal } from 'react-native';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
+import * as Haptics from 'expo-haptics';
+import { X } from 'lucide-react-native';
+import { BillPayer } from '../../../types';
+import { roundToCents } from '../../../utils/splitEngine';
+import { DEFAULT_CURRENCY, currencyDecimals, currencySymbol, formatMoney } from '../../../utils/currency';
+
+type Person = {
+    id: string;
+    name: string;
+    color: string;
+    initials: string;
+};
+
+type Props = {
+    visible: boolean;
+    participants: Person[];
+    payers: BillPayer[];
+    billTotal: number;
+    onSave: (payers: BillPayer[]) => void;
+    onClose: () => void;
+    currency?: string;
+};
+
+export default function PayersSheet({ visible, participants, payers, billTotal, onSave, onClose, currency = DEFAULT_CURRENCY }: Props) {
+    const [amounts, setAmounts] = useState<Record<string, string>>({});
+    const decimals = currencyDecimals(currency);
+
+    // Start from the saved payers each time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        const next: Record<string, string> = {};
+        payers.forEach(p => { next[p.participantId] = p.amount.toFixed(decimals); });
+        setAmounts(next);
+    }, [visible]);
+
+    const entered = Object.values(amounts).reduce((sum, value) => sum + (Number(value) || 0), 0);
+    const remaining = roundToCents(billTotal - entered, decimals);
+
+    // Fill whoever is being edited with what's left of the bill
+    const handleFillRemaining = (id: string) => {
+        Haptics.selectionAsync();
+        const current = Number(amounts[id]) || 0;
+        setAmounts(prev => ({ ...prev, [id]: Math.max(0, roundToCents(current + remaining, decimals)).toFixed(decimals) }));
+    };
+
+    const handleSave = () => {
+        const next = participants
+            .map(p => ({ participantId: p.id, amount: roundToCents(Number(amounts[p.id]) || 0, decimals) }))
+            .filter(p => p.amount > 0);
+        onSave(next);
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View className="flex-1 justify-end bg-black/40">
+                <KeyboardAwareScrollView
+                    contentContainerStyle={{ flexGrow: 1, justifyContent: 'flex-end' }}
+                    showsVerticalScrollIndicator={false}
+                    enableOnAndroid={true}
+                    keyboardShouldPersistTaps="handled"
+                >
+                    <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                        <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                            <View className="flex-1 mr-4">
+                                <Text className="font-heading text-xl font-bold text-on-surface">Who paid the check?</Text>
+                                <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                    Enter what each card covered. Everyone else pays them back.
+                                </Text>
+                            </View>
+                            <TouchableOpacity onPress={onClose} className="p-2 rounded-full bg-gray-100">
+                                <X size={20} color="#6B7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        <View className="px-5 pt-4">
+                            {participants.map(person => (
+                                <View key={person.id} className="flex-row items-center justify-between mb-4">
+                                    <View className="flex-row items-center flex-1 mr-3">
+                                        <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: person.color }}>
+                                            <Text className="font-heading font-bold text-white text-xs">{person.initials}</Text>
+                                        </View>
+                                        <Text className="font-heading font-bold text-on-surface text-base flex-1" numberOfLines={1}>{person.name}</Text>
+                                    </View>
+                                    {remaining > 0 && (
+                                        <TouchableOpacity onPress={() => handleFillRemaining(person.id)} className="mr-2 px-2 py-1 rounded-full bg-primary/10">
+                                            <Text className="text-[10px] font-bold text-primary">+ Rest</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                    <View className="flex-row items-center bg-surface-container-high rounded-xl px-3 py-2">
+                                        <Text className="font-bold text-on-surface-variant mr-1">{currencySymbol(currency)}</Text>
+                                        <TextInput
+                                            value={amounts[person.id] || ''}
+                                            onChangeText={(text) => setAmounts(prev => ({ ...prev, [person.id]: text.replace(/[^0-9.]/g, '') }))}
+                                            placeholder="0.00"
+                                            placeholderTextColor="#9CA3AF"
+                                            keyboardType="decimal-pad"
+                                            style={{ minWidth: 64, textAlign: 'right', fontSize: 16, fontWeight: '700', color: '#111827', padding: 0 }}
+                                        />
+                                    </View>
+                                </View>
+                            ))}
+
+                            <View className="flex-row items-center justify-between mt-2 pt-4 border-t border-gray-100">
+                                <Text className="font-heading font-bold text-on-surface text-base">Bill total {formatMoney(billTotal, currency)}</Text>
+                                <Text className={`text-sm font-bold ${remaining === 0 ? 'text-green-600' : 'text-on-surface-variant'}`}>
+                                    {remaining === 0
+                                        ? 'All covered'
+                                        : remaining > 0
+                                            ? `${formatMoney(remaining, currency)} left`
+                                            : `${formatMoney(Math.abs(remaining), currency)} over`}
+                                </Text>
+                            </View>
+                            {entered > 0 && remaining !== 0 && (
+                                <Text className="text-xs text-on-surface-variant font-medium mt-2">
+                                    Amounts are scaled to the final total, so a 60/40 split stays 60/40.
+                                </Text>
+                            )}
+                        </View>
+
+                        <View className="flex-row px-5 pt-6 gap-3">
+                            <TouchableOpacity
+                                onPress={() => onSave([])}
+                                activeOpacity={0.8}
+                                className="flex-1 py-4 rounded-2xl items-center justify-center bg-gray-100"
+                            >
+                                <Text className="font-heading font-bold text-base text-gray-500">Host Paid All</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                onPress={handleSave}
+                                activeOpacity={0.8}
+                                className="flex-1 py-4 rounded-2xl items-center justify-center bg-primary"
+                            >
+                                <Text className="font-heading font-bold text-base text-white">Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </KeyboardAwareScrollView>
+            </View>
+        </Modal>
+    );
+}
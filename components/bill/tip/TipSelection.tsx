@@ -1,6 +1,7 @@
 import React, { useRef } from 'react';
 import { View, Text, TouchableOpacity, TextInput } from 'react-native';
 import { Edit2, Sparkles } from 'lucide-react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
 
 type TipOption = { value: number; label: string };
 
@@ -13,6 +14,7 @@ type Props = {
     onCustomChange: (val: string) => void;
     isScannedTipActive: boolean;
     tipPercentages: TipOption[];
+    currency?: string;
 };
 
 export default function TipSelection({
@@ -23,7 +25,8 @@ export default function TipSelection({
     onSelectPercentage,
     onCustomChange,
     isScannedTipActive,
-    tipPercentages
+    tipPercentages,
+    currency = DEFAULT_CURRENCY
 }: Props) {
     const inputRef = useRef<TextInput>(null);
     const isCustomActive = !selectedPercentage && !!customTip && !noTip;
@@ -74,7 +77,7 @@ export default function TipSelection({
                                 {tip.label}
                             </Text>
                             <Text className={`text-xl font-heading font-extrabold tracking-tight ${isSelected ? 'text-on-primary' : 'text-on-surface'}`}>
-                                ${(tipBaseAmount * tip.value).toFixed(2)}
+                                {formatMoney(tipBaseAmount * tip.value, currency)}
                             </Text>
 
                             {isScannedMatch && (
@@ -1,27 +1,42 @@
 import React from 'react';
 import { View, Text } from 'react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
+
+type FeeLine = {
+    id: string;
+    label: string;
+    amount: number;
+};
 
 type Props = {
     subtotal: number;
+    fees?: FeeLine[];
     tax: number;
     dueNow: number;
+    currency?: string;
 };
 
-export default function TotalsCard({ subtotal, tax, dueNow }: Props) {
+export default function TotalsCard({ subtotal, fees = [], tax, dueNow, currency = DEFAULT_CURRENCY }: Props) {
     return (
         <View className="bg-surface-container-low p-6 rounded-[32px] mb-4">
             <View className="flex-row justify-between items-center mb-4">
                 <Text className="text-on-surface-variant font-medium text-sm">Subtotal</Text>
-                <Text className="font-bold text-on-surface text-base">${subtotal.toFixed(2)}</Text>
+                <Text className="font-bold text-on-surface text-base">{formatMoney(subtotal, currency)}</Text>
             </View>
+            {fees.map(fee => (
+                <View key={fee.id} className="flex-row justify-between items-center mb-4">
+                    <Text className="text-on-surface-variant font-medium text-sm flex-1 mr-4" numberOfLines={1}>{fee.label}</Text>
+                    <Text className="font-bold text-on-surface text-base">{formatMoney(fee.amount, currency)}</Text>
+                </View>
+            ))}
             <View className="flex-row justify-between items-center mb-4">
                 <Text className="text-on-surface-variant font-medium text-sm">Tax</Text>
-                <Text className="font-bold text-on-surface text-base">${tax.toFixed(2)}</Text>
+                <Text className="font-bold text-on-surface text-base">{formatMoney(tax, currency)}</Text>
             </View>
             <View className="pt-4 border-t border-[#e5e7eb]/30 flex-row justify-between items-end">
                 <Text className="text-on-surface-variant text-sm pb-1">Due Now</Text>
                 <Text className="text-4xl font-heading font-extrabold tracking-tighter text-primary">
-                    ${dueNow.toFixed(2)}
+                    {formatMoney(dueNow, currency)}
                 </Text>
             </View>
         </View>
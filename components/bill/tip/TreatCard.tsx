@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Gift } from 'lucide-react-native';
+import { DEFAULT_CURRENCY, formatMoney } from '../../../utils/currency';
+
+type TreatRow = {
+    id: string;
+    name: string;
+    color: string;
+    initials: string;
+    coveredLabel: string | null; // "Covered by Alex & Sam"; null = paying their own share
+    amount: number; // their own share, moved onto the payers when treated
+};
+
+type Props = {
+    rows: TreatRow[];
+    onEdit: (participantId: string) => void;
+    currency?: string;
+};
+
+export default function TreatCard({ rows, onEdit, currency = DEFAULT_CURRENCY }: Props) {
+    return (
+        <View className="bg-surface-container-low p-6 rounded-[32px] mb-4">
+            <View className="flex-row items-center mb-1">
+                <Gift size={16} color="#6346cd" />
+                <Text className="text-sm font-heading font-extrabold uppercase tracking-widest text-on-surface-variant ml-2">
+                    Treat Someone
+                </Text>
+            </View>
+            <Text className="text-on-surface-variant text-xs mb-4">
+                Tap a person to cover their share. They won't get a payment request.
+            </Text>
+            {rows.map(row => (
+                <TouchableOpacity
+                    key={row.id}
+                    onPress={() => onEdit(row.id)}
+                    activeOpacity={0.7}
+                    className="flex-row items-center justify-between mb-3"
+                >
+                    <View className="flex-row items-center flex-1 mr-4">
+                        <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: row.color }}>
+                            <Text className="font-heading font-bold text-white text-xs">{row.initials}</Text>
+                        </View>
+                        <View className="flex-1">
+                            <Text className="font-bold text-on-surface text-sm" numberOfLines={1}>{row.name}</Text>
+                            <Text className={`text-xs ${row.coveredLabel ? 'text-primary font-bold' : 'text-on-surface-variant'}`} numberOfLines={1}>
+                                {row.coveredLabel || 'Pays their own share'}
+                            </Text>
+                        </View>
+                    </View>
+                    <Text className={`font-bold text-base ${row.coveredLabel ? 'text-on-surface-variant line-through' : 'text-on-surface'}`}>
+                        {formatMoney(row.amount, currency)}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
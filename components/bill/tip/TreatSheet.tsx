@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Check, X } from 'lucide-react-native';
+import { ParticipantTreat, TreatMode } from '../../../types';
+
+type Person = {
+    id: string;
+    name: string;
+    color: string;
+    initials: string;
+};
+
+type Props = {
+    visible: boolean;
+    treated: Person | null;
+    payers: Person[]; // everyone who can cover; treated people are left out
+    treat: ParticipantTreat | null;
+    onSave: (treat: ParticipantTreat | null) => void;
+    onClose: () => void;
+};
+
+const MODE_OPTIONS: Array<{ value: TreatMode; label: string }> = [
+    { value: 'equal', label: 'Equally' },
+    { value: 'proportional', label: 'By share' },
+];
+
+export default function TreatSheet({ visible, treated, payers, treat, onSave, onClose }: Props) {
+    const [coveredBy, setCoveredBy] = useState<string[]>([]);
+    const [mode, setMode] = useState<TreatMode>('equal');
+
+    // Start from the saved treat, or everyone else, each time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        setCoveredBy(treat?.coveredBy ?? payers.map(p => p.id));
+        setMode(treat?.mode ?? 'equal');
+    }, [visible]);
+
+    const togglePayer = (id: string) => {
+        Haptics.selectionAsync();
+        setCoveredBy(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View className="flex-1 justify-end bg-black/40">
+                <View className="bg-white rounded-t-3xl pb-10" style={{ shadowColor: '#000', shadowOffset: { width: 0, height: -4 }, shadowOpacity: 0.1, shadowRadius: 12, elevation: 10 }}>
+                    <View className="flex-row items-center justify-between px-5 py-5 border-b border-gray-100">
+                        <View className="flex-1 mr-4">
+                            <Text className="font-heading text-xl font-bold text-on-surface">Treat {treated?.name}</Text>
+                            <Text className="text-sm text-on-surface-variant font-body mt-1">
+                                Who's covering their share?
+                            </Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose} className="p-2 rounded-full bg-gray-100">
+                            <X size={20} color="#6B7280" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView className="px-5 pt-4" style={{ maxHeight: 320 }}>
+                        {payers.map(person => {
+                            const isSelected = coveredBy.includes(person.id);
+                            return (
+                                <TouchableOpacity
+                                    key={person.id}
+                                    onPress={() => togglePayer(person.id)}
+                                    activeOpacity={0.7}
+                                    className="flex-row items-center justify-between mb-4 p-1"
+                                >
+                                    <View className="flex-row items-center flex-1 mr-3">
+                                        <View className="w-8 h-8 rounded-full items-center justify-center mr-3" style={{ backgroundColor: person.color }}>
+                                            <Text className="font-heading font-bold text-white text-xs">{person.initials}</Text>
+                                        </View>
+                                        <Text className="font-heading font-bold text-on-surface text-base">{person.name}</Text>
+                                    </View>
+                                    <View className={`w-6 h-6 rounded-full border-2 items-center justify-center ${isSelected ? 'bg-primary border-primary' : 'border-gray-300'}`}>
+                                        {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                                    </View>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <View className="flex-row items-center justify-between px-5 pt-4 border-t border-gray-100">
+                        <Text className="font-heading font-bold text-on-surface text-base">Split it</Text>
+                        <View className="flex-row bg-surface-container-high rounded-full p-1">
+                            {MODE_OPTIONS.map(option => (
+                                <TouchableOpacity
+                                    key={option.value}
+                                    onPress={() => {
+                                        Haptics.selectionAsync();
+                                        setMode(option.value);
+                                    }}
+                                    className={`px-3 py-1.5 rounded-full ${mode === option.value ? 'bg-primary' : ''}`}
+                                >
+                                    <Text className={`text-xs font-bold ${mode === option.value ? 'text-white' : 'text-on-surface-variant'}`}>
+                                        {option.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+
+                    <View className="flex-row px-5 pt-6 gap-3">
+                        <TouchableOpacity
+                            onPress={() => onSave(null)}
+                            activeOpacity={0.8}
+                            className="flex-1 py-4 rounded-2xl items-center justify-center bg-gray-100"
+                        >
+                            <Text className="font-heading font-bold text-base text-gray-500">{treat ? 'Remove Treat' : 'Cancel'}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            onPress={() => onSave({ coveredBy, mode })}
+                            disabled={coveredBy.length === 0}
+                            activeOpacity={0.8}
+                            className={`flex-1 py-4 rounded-2xl items-center justify-center ${coveredBy.length > 0 ? 'bg-primary' : 'bg-gray-200'}`}
+                        >
+                            <Text className="font-heading font-bold text-base text-white">Save</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+}
@@ -0,0 +1,114 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Image, ScrollView } from 'react-native';
+import { ChevronLeft, ChevronRight, FileText, Plus, RotateCcw, Trash2 } from 'lucide-react-native';
+import { isPdfPage } from '../../utils/receiptImport';
+
+type Props = {
+    pages: string[]; // image or PDF uris, top of the receipt first
+    selectedIndex: number;
+    maxPages: number;
+    onSelect: (index: number) => void;
+    onMove: (index: number, direction: -1 | 1) => void;
+    onRetake: (index: number) => void;
+    onRemove: (index: number) => void;
+    onAddPage: () => void;
+};
+
+const ActionButton = ({ onPress, disabled = false, children }: { onPress: () => void; disabled?: boolean; children: React.ReactNode }) => (
+    <TouchableOpacity
+        onPress={onPress}
+        disabled={disabled}
+        style={{
+            padding: 10,
+            marginHorizontal: 4,
+            backgroundColor: 'rgba(255,255,255,0.2)',
+            borderRadius: 12,
+            opacity: disabled ? 0.35 : 1,
+        }}
+    >
+        {children}
+    </TouchableOpacity>
+);
+
+export default function PageStrip({ pages, selectedIndex, maxPages, onSelect, onMove, onRetake, onRemove, onAddPage }: Props) {
+    return (
+        <View style={{ paddingHorizontal: 16 }}>
+            {/* Actions for the selected page */}
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginBottom: 12 }}>
+                <ActionButton onPress={() => onMove(selectedIndex, -1)} disabled={selectedIndex === 0}>
+                    <ChevronLeft color="white" size={20} />
+                </ActionButton>
+                <ActionButton onPress={() => onRetake(selectedIndex)}>
+                    <RotateCcw color="white" size={20} />
+                </ActionButton>
+                <ActionButton onPress={() => onRemove(selectedIndex)}>
+                    <Trash2 color="white" size={20} />
+                </ActionButton>
+                <ActionButton onPress={() => onMove(selectedIndex, 1)} disabled={selectedIndex === pages.length - 1}>
+                    <ChevronRight color="white" size={20} />
+                </ActionButton>
+            </View>
+
+            {/* Thumbnails in receipt order */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {pages.map((uri, index) => (
+                    <TouchableOpacity key={`${uri}-${index}`} onPress={() => onSelect(index)} style={{ marginRight: 10 }}>
+                        {isPdfPage(uri) ? (
+                            <View
+                                style={{
+                                    width: 56,
+                                    height: 76,
+                                    borderRadius: 10,
+                                    borderWidth: 2,
+                                    borderColor: index === selectedIndex ? '#6346cd' : 'transparent',
+                                    backgroundColor: 'rgba(255,255,255,0.15)',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                }}
+                            >
+                                <FileText color="white" size={22} />
+                                <Text style={{ color: 'white', fontSize: 9, fontWeight: '700', marginTop: 4 }}>PDF</Text>
+                            </View>
+                        ) : (
+                            <Image
+                                source={{ uri }}
+                                style={{
+                                    width: 56,
+                                    height: 76,
+                                    borderRadius: 10,
+                                    borderWidth: 2,
+                                    borderColor: index === selectedIndex ? '#6346cd' : 'transparent',
+                                }}
+                            />
+                        )}
+                        <View style={{
+                            position: 'absolute', top: 4, left: 4,
+                            backgroundColor: 'rgba(0,0,0,0.6)', borderRadius: 8,
+                            paddingHorizontal: 5, paddingVertical: 1,
+                        }}>
+                            <Text style={{ color: 'white', fontSize: 10, fontWeight: '700' }}>{index + 1}</Text>
+                        </View>
+                    </TouchableOpacity>
+                ))}
+                {pages.length < maxPages && (
+                    <TouchableOpacity
+                        onPress={onAddPage}
+                        style={{
+                            width: 56,
+                            height: 76,
+                            borderRadius: 10,
+                            borderWidth: 2,
+                            borderStyle: 'dashed',
+                            borderColor: 'rgba(255,255,255,0.5)',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                        }}
+                    >
+                        <Plus color="white" size={20} />
+                        <Text style={{ color: 'white', fontSize: 10, fontWeight: '700', marginTop: 2 }}>Add</Text>
+                    </TouchableOpacity>
+                )}
+            </ScrollView>
+        </View>
+    );
+}
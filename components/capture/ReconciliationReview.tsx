@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, SafeAreaView } from 'react-native';
+import { AlertTriangle, CheckCircle, ArrowRight, RotateCcw } from 'lucide-react-native';
+import { ScannedLine } from '../../utils/receiptItems';
+import { ReceiptReconciliation, ReconcileFix } from '../../utils/reconcile';
+import { formatMoney } from '../../utils/currency';
+
+type Props = {
+    lines: ScannedLine[];
+    check: ReceiptReconciliation;
+    currency: string;
+    onFix: (fix: ReconcileFix) => void;
+    onContinue: () => void;
+    onRetake: () => void;
+};
+
+const SummaryRow = ({ label, value, muted = false }: { label: string; value: string; muted?: boolean }) => (
+    <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 8 }}>
+        <Text style={{ color: muted ? '#6B7280' : '#484554', fontWeight: '500', fontSize: 14 }}>{label}</Text>
+        <Text style={{ color: muted ? '#6B7280' : '#111827', fontWeight: '700', fontSize: 14 }}>{value}</Text>
+    </View>
+);
+
+export default function ReconciliationReview({ lines, check, currency, onFix, onContinue, onRetake }: Props) {
+    const money = (amount: number) => formatMoney(amount, currency);
+    const isBalanced = check.issues.length === 0;
+
+    // Lines a suggested fix would remove get highlighted in the list
+    const suspectIds = new Set(
+        check.issues.flatMap(issue => issue.fixes)
+            .map(({ fix }) => (fix.type === 'remove_line' ? fix.lineId : null))
+            .filter((id): id is string => !!id)
+    );
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#f9f9ff' }}>
+            <ScrollView contentContainerStyle={{ padding: 20, paddingBottom: 40 }}>
+                <Text style={{ fontSize: 28, fontWeight: '800', color: '#111827', letterSpacing: -0.5, marginTop: 8 }}>
+                    Check the receipt
+                </Text>
+                <Text style={{ fontSize: 14, color: '#484554', fontWeight: '500', marginTop: 4, marginBottom: 20 }}>
+                    {isBalanced
+                        ? 'Everything adds up to what the receipt says.'
+                        : 'The scanned lines don’t match the receipt totals. Fix it now so nobody pays the gap later.'}
+                </Text>
+
+                {/* Issues with one-tap fixes */}
+                {check.issues.map(issue => (
+                    <View key={issue.id} style={{ backgroundColor: '#fef3c7', borderRadius: 20, padding: 16, marginBottom: 12 }}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
+                            <AlertTriangle size={18} color="#92400e" />
+                            <Text style={{ marginLeft: 8, fontWeight: '800', color: '#92400e', fontSize: 15, flex: 1 }}>
+                                {issue.label}
+                            </Text>
+                        </View>
+                        <Text style={{ color: '#92400e', fontSize: 13, fontWeight: '500', marginBottom: 12 }}>
+                            Receipt says {money(issue.printed)}, scan adds up to {money(issue.scanned)} ({money(Math.abs(issue.difference))} {issue.difference > 0 ? 'missing' : 'extra'})
+                        </Text>
+                        {issue.fixes.map(({ label, fix }) => (
+                            <TouchableOpacity
+                                key={`${fix.type}-${label}`}
+                                onPress={() => onFix(fix)}
+                                activeOpacity={0.8}
+                                style={{ backgroundColor: '#92400e', borderRadius: 12, paddingVertical: 10, paddingHorizontal: 14, marginBottom: 8 }}
+                            >
+                                <Text style={{ color: '#ffffff', fontWeight: '700', fontSize: 14 }}>{label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                        {issue.fixes.length === 0 && (
+                            <Text style={{ color: '#92400e', fontSize: 12, fontWeight: '600' }}>
+                                No single line explains the gap; you can still fix prices in the editor.
+                            </Text>
+                        )}
+                    </View>
+                ))}
+
+                {isBalanced && (
+                    <View style={{ backgroundColor: '#dcfce7', borderRadius: 20, padding: 16, marginBottom: 12, flexDirection: 'row', alignItems: 'center' }}>
+                        <CheckCircle size={18} color="#166534" />
+                        <Text style={{ marginLeft: 8, fontWeight: '800', color: '#166534', fontSize: 15 }}>Receipt balances</Text>
+                    </View>
+                )}
+
+                {/* Totals */}
+                <View style={{ backgroundColor: '#ffffff', borderRadius: 24, padding: 20, marginBottom: 12 }}>
+                    <SummaryRow label="Items" value={money(check.itemSum)} />
+                    {check.feeSum !== 0 && <SummaryRow label="Fees" value={money(check.feeSum)} />}
+                    <SummaryRow label="Tax" value={money(check.tax)} />
+                    {check.tip > 0 && <SummaryRow label="Tip on receipt" value={money(check.tip)} />}
+                    <View style={{ height: 1, backgroundColor: '#e5e7eb', marginVertical: 8 }} />
+                    {check.printedSubtotal != null && <SummaryRow label="Printed subtotal" value={money(check.printedSubtotal)} muted />}
+                    {check.printedTotal != null && <SummaryRow label="Printed total" value={money(check.printedTotal)} muted />}
+                </View>
+
+                {/* Scanned lines */}
+                <View style={{ backgroundColor: '#ffffff', borderRadius: 24, padding: 20 }}>
+                    {lines.map(line => {
+                        const isSuspect = suspectIds.has(line.id);
+                        return (
+                            <View
+                                key={line.id}
+                                style={{
+                                    flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6,
+                                    paddingHorizontal: isSuspect ? 8 : 0, borderRadius: 8,
+                                    backgroundColor: isSuspect ? '#fef3c7' : 'transparent',
+                                }}
+                            >
+                                <Text style={{ flex: 1, marginRight: 12, color: '#111827', fontWeight: '600', fontSize: 14 }} numberOfLines={1}>
+                                    {line.quantity > 1 ? `${line.quantity} × ` : ''}{line.name || 'Untitled item'}
+                                </Text>
+                                <Text style={{ color: line.kind === 'discount' ? '#16a34a' : '#111827', fontWeight: '700', fontSize: 14 }}>
+                                    {money(line.price)}
+                                </Text>
+                            </View>
+                        );
+                    })}
+                </View>
+            </ScrollView>
+
+            <View style={{ padding: 20, flexDirection: 'row' }}>
+                <TouchableOpacity
+                    onPress={onRetake}
+                    style={{
+                        paddingVertical: 18, paddingHorizontal: 20, borderRadius: 16, marginRight: 12,
+                        backgroundColor: '#f1f3ff', alignItems: 'center', justifyContent: 'center',
+                    }}
+                >
+                    <RotateCcw color="#4b29b4" size={22} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    onPress={onContinue}
+                    style={{
+                        flex: 1, backgroundColor: '#6346cd', paddingVertical: 18, borderRadius: 16,
+                        flexDirection: 'row', alignItems: 'center', justifyContent: 'center',
+                    }}
+                >
+                    <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold', marginRight: 8 }}>
+                        {isBalanced ? 'Start Splitting' : 'Continue Anyway'}
+                    </Text>
+                    <ArrowRight color="white" size={22} />
+                </TouchableOpacity>
+            </View>
+        </SafeAreaView>
+    );
+}
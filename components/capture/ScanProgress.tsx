@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Check } from 'lucide-react-native';
+import { ScanStage } from '../../utils/scanResponse';
+
+type Props = {
+    stage: ScanStage;
+    pageCount: number;
+    isCanceling: boolean;
+    onCancel: () => void;
+};
+
+const STAGES: { key: ScanStage; label: (pageCount: number) => string }[] = [
+    { key: 'uploading', label: (n) => (n > 1 ? `Uploading ${n} pages` : 'Uploading receipt') },
+    { key: 'analyzing', label: () => 'Reading items and prices' },
+    { key: 'structuring', label: () => 'Checking totals' },
+];
+
+export default function ScanProgress({ stage, pageCount, isCanceling, onCancel }: Props) {
+    const [elapsed, setElapsed] = useState(0);
+    const current = STAGES.findIndex(s => s.key === stage);
+
+    useEffect(() => {
+        const timer = setInterval(() => setElapsed(e => e + 1), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    return (
+        <View style={StyleSheet.absoluteFill}>
+            <LinearGradient
+                colors={['#6346cd', '#4b29b4']}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}
+                style={StyleSheet.absoluteFill}
+            />
+
+            <View style={{ flex: 1, justifyContent: 'center', paddingHorizontal: 40 }}>
+                <Text style={{ color: 'white', fontSize: 24, fontWeight: '800', marginBottom: 6 }}>
+                    Scanning receipt
+                </Text>
+                <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 14, fontWeight: '500', marginBottom: 32 }}>
+                    {elapsed < 20 ? 'This usually takes 15–30 seconds' : `Still working… ${elapsed}s`}
+                </Text>
+
+                {STAGES.map((s, index) => {
+                    const isDone = index < current;
+                    const isActive = index === current;
+                    return (
+                        <View key={s.key} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 20 }}>
+                            <View style={{
+                                width: 28, height: 28, borderRadius: 14, marginRight: 14,
+                                alignItems: 'center', justifyContent: 'center',
+                                backgroundColor: isDone ? '#ffffff' : 'rgba(255,255,255,0.15)',
+                            }}>
+                                {isDone && <Check size={16} color="#4b29b4" />}
+                                {isActive && <ActivityIndicator size="small" color="#ffffff" />}
+                            </View>
+                            <Text style={{
+                                color: isDone || isActive ? '#ffffff' : 'rgba(255,255,255,0.5)',
+                                fontSize: 16,
+                                fontWeight: isActive ? '700' : '500',
+                            }}>
+                                {s.label(pageCount)}
+                            </Text>
+                        </View>
+                    );
+                })}
+            </View>
+
+            <View style={{ padding: 24, paddingBottom: 48 }}>
+                <TouchableOpacity
+                    onPress={onCancel}
+                    disabled={isCanceling}
+                    style={{
+                        paddingVertical: 16,
+                        borderRadius: 16,
+                        borderWidth: 1,
+                        borderColor: 'rgba(255,255,255,0.4)',
+                        alignItems: 'center',
+                        opacity: isCanceling ? 0.5 : 1,
+                    }}
+                >
+                    <Text style={{ color: 'white', fontSize: 16, fontWeight: '700' }}>
+                        {isCanceling ? 'Canceling…' : 'Cancel'}
+                    </Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+}
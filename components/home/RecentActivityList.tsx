@@ -1,11 +1,12 @@
 import React from 'react';
-import { View, Text, TouchableOpacity } from 'react-native';
+import { View, Text, TouchableOpacity, Image } from 'react-native';
 import { Utensils, Fuel, Receipt } from 'lucide-react-native';
 
 interface ActivityItem {
   id: string;
   title: string;
   subtitle: string;
+  thumbnailUrl?: string | null;
 }
 
 interface RecentActivityListProps {
@@ -76,9 +77,16 @@ export function RecentActivityList({ items, onItemPress, isLoading }: RecentActi
             >
               {/* Left: icon + title + date — flex-1 so it shrinks before pushing the price off */}
               <View className="flex-row items-center gap-4 flex-1 mr-3">
-                <View className="w-12 h-12 bg-surface-container-low rounded-2xl items-center justify-center shrink-0">
-                  <Icon size={24} color={iconColor} />
-                </View>
+                {item.thumbnailUrl ? (
+                  <Image
+                    source={{ uri: item.thumbnailUrl }}
+                    className="w-12 h-12 bg-surface-container-low rounded-2xl shrink-0"
+                  />
+                ) : (
+                  <View className="w-12 h-12 bg-surface-container-low rounded-2xl items-center justify-center shrink-0">
+                    <Icon size={24} color={iconColor} />
+                  </View>
+                )}
                 <View className="flex-1">
                   <Text
                     className="font-heading font-bold text-on-surface"
@@ -0,0 +1,78 @@
+import type { ReceiptFixture } from '../services/fixtureScanner';
+
+// Recorded /api/v1/scan responses for the fixture scanner (EXPO_PUBLIC_SCANNER=fixture).
+// Amounts add up the way the printed totals say unless the fixture is about a mismatch.
+
+export const receiptFixtures: ReceiptFixture[] = [
+  {
+    name: 'diner',
+    description: 'Six lines, tax, no tip; everything reconciles',
+    response: {
+      merchant: "Rosie's Diner",
+      date: '2026-03-04',
+      items: [
+        { name: 'Cheeseburger', price: 14.5, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.97, price: 0.99 } },
+        { name: 'Fish Tacos', price: 25.0, quantity: 2, kind: 'item', tax_category: 'standard', confidence: { name: 0.95, price: 0.98 } },
+        { name: 'Caesar Salad', price: 11.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.96, price: 0.97 } },
+        { name: 'Fries', price: 5.5, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.99, price: 0.99 } },
+        { name: 'Iced Tea', price: 7.0, quantity: 2, kind: 'item', tax_category: 'standard', confidence: { name: 0.93, price: 0.96 } },
+        { name: 'Chocolate Shake', price: 6.5, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.94, price: 0.95 } },
+      ],
+      subtotal: 69.5,
+      tax: 6.17,
+      total: 75.67,
+      scannedTip: null,
+      confidence: { subtotal: 0.98, tax: 0.97, total: 0.99, scannedTip: null },
+    },
+  },
+  {
+    name: 'brunch',
+    description: 'A discount, an automatic service charge and a few low-confidence values',
+    response: {
+      merchant: 'Sunday Kitchen',
+      date: '2026-02-15',
+      items: [
+        { name: 'Eggs Benedict', price: 17.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.96, price: 0.98 } },
+        { name: 'Avocado Toast', price: 15.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.94, price: 0.62 } },
+        { name: 'Pancake Stack', price: 13.5, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.9, price: 0.95 } },
+        { name: 'Mimosa', price: 36.0, quantity: 3, kind: 'item', tax_category: 'standard', confidence: { name: 0.97, price: 0.96 } },
+        { name: 'Happy Hour Mimosa', price: -9.0, quantity: 1, kind: 'discount', applies_to: 'Mimosa', tax_category: 'standard', confidence: { name: 0.88, price: 0.93 } },
+        { name: 'Cld Brw', price: 5.5, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.55, price: 0.91 } },
+        { name: 'Service Charge 18%', price: 14.04, quantity: 1, kind: 'fee', fee_type: 'auto_gratuity', tax_category: 'standard', confidence: { name: 0.92, price: 0.94 } },
+      ],
+      subtotal: 78.0,
+      tax: 5.66,
+      total: 97.7,
+      scannedTip: null,
+      confidence: { subtotal: 0.95, tax: 0.7, total: 0.97, scannedTip: null },
+    },
+  },
+  {
+    name: 'mismatch',
+    description: 'One line missed by the scanner; the printed subtotal is $6.50 higher',
+    response: {
+      merchant: 'Noodle Bar',
+      date: '2026-01-22',
+      items: [
+        { name: 'Tonkotsu Ramen', price: 16.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.96, price: 0.97 } },
+        { name: 'Spicy Miso Ramen', price: 17.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.95, price: 0.96 } },
+        { name: 'Edamame', price: 7.0, quantity: 1, kind: 'item', tax_category: 'standard', confidence: { name: 0.98, price: 0.97 } },
+      ],
+      subtotal: 46.5,
+      tax: 3.95,
+      total: 50.45,
+      scannedTip: null,
+      confidence: { subtotal: 0.96, tax: 0.95, total: 0.98, scannedTip: null },
+    },
+  },
+  {
+    name: 'offline',
+    description: 'Fails like a dropped connection, so the scan lands in the offline queue',
+    error: 'Network request failed',
+  },
+  {
+    name: 'rejected',
+    description: 'Fails like the backend refusing the photo',
+    error: 'Backend error 400: Could not find a receipt in this image.',
+  },
+];
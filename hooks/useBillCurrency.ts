@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useState } from 'react';
+import { BillCurrency } from '../types';
+import { formatMoney, readBillCurrency } from '../utils/currency';
+import { useBillSession } from './useBillSession';
+
+// A bill's currency settings, read from its live session, and a formatter for its amounts.
+// Bills that aren't saved yet start in `initialCurrency` (e.g. the host's home currency).
+export function useBillCurrency(billId: string | undefined, initialCurrency?: string) {
+    const { bill, patchBill } = useBillSession(billId);
+    // Unsaved bills have no session; their choice is kept here until the bill is saved
+    const [unsavedCurrency, setUnsavedCurrency] = useState<BillCurrency>(() => readBillCurrency({ currency: initialCurrency }));
+
+    const billCurrency = useMemo(
+        () => (bill ? readBillCurrency(bill) : unsavedCurrency),
+        [bill?.currency, bill?.settlement_currency, bill?.exchange_rate, unsavedCurrency]
+    );
+
+    // Optimistic: the caller saves it with updateBillCurrency and puts the previous one back on failure
+    const setBillCurrency = useCallback((next: BillCurrency) => {
+        if (!bill) {
+            setUnsavedCurrency(next);
+            return;
+        }
+        patchBill({
+            currency: next.currency,
+            settlement_currency: next.settlementCurrency,
+            exchange_rate: next.exchangeRate,
+        });
+    }, [bill, patchBill]);
+
+    const format = useCallback(
+        (amount: number) => formatMoney(amount, billCurrency.currency),
+        [billCurrency.currency]
+    );
+
+    return { billCurrency, setBillCurrency, format };
+}
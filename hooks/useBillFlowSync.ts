@@ -1,7 +1,7 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useCallback, useRef } from 'react';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { supabase } from '../lib/supabase';
-import { getBill, subscribeToBillStatus } from '../services/billService';
+import { getBill } from '../services/billService';
+import { useBillSession } from './useBillSession';
 import { BillStatus } from '../types';
 
 export function useBillFlowSync(
@@ -10,7 +10,11 @@ export function useBillFlowSync(
     isHost: boolean
 ): BillStatus | null {
     const router = useRouter();
-    const [status, setStatus] = useState<BillStatus | null>(null);
+    // Live status comes from the shared bill session every bill screen holds
+    const { status, patchBill } = useBillSession(billId);
+    // The session can outlive the screen that last wrote the status (a router.replace is quicker
+    // than the realtime echo), so only changes seen while mounted and the focus check navigate
+    const seenStatus = useRef(status);
 
     const handleNavigation = useCallback((targetStatus: BillStatus) => {
         if (!billId) return;
@@ -47,14 +51,14 @@ export function useBillFlowSync(
         try {
             const bill = await getBill(billId);
             if (bill && bill.status) {
-                const liveStatus = bill.status as BillStatus;
-                setStatus(liveStatus);
-                handleNavigation(liveStatus);
+                seenStatus.current = bill.status as BillStatus;
+                patchBill(bill);
+                handleNavigation(bill.status as BillStatus);
             }
         } catch (err) {
             console.error('[useBillFlowSync] Error performing live status check:', err);
         }
-    }, [billId, handleNavigation]);
+    }, [billId, patchBill, handleNavigation]);
 
     // Focus guard: run immediately when screen comes into focus
     useFocusEffect(
@@ -64,20 +68,10 @@ export function useBillFlowSync(
     );
 
     useEffect(() => {
-        if (!billId || billId === 'new') return;
-
-        // Subscribe to real-time status updates
-        const channel = subscribeToBillStatus(billId, (newStatus) => {
-            setStatus(newStatus);
-            handleNavigation(newStatus);
-        });
-
-        return () => {
-            if (channel) {
-                supabase.removeChannel(channel);
-            }
-        };
-    }, [billId, handleNavigation]);
+        if (!status || status === seenStatus.current) return;
+        seenStatus.current = status;
+        handleNavigation(status);
+    }, [status, handleNavigation]);
 
     return status;
 }
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { joinBillPresence, PresenceHandle } from '../services/billSession';
+import { useBillSession } from './useBillSession';
+import { BillPresence, PresenceStatus } from '../types';
+
+// No touches for this long counts as idle, same as putting the app in the background
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+// An edit marker outlives the last keystroke by this much, in case the field never blurs
+const EDITING_CLEARS_AFTER_MS = 5000;
+
+type Me = {
+    participantId: string;
+    name: string;
+};
+
+// Live presence on a bill: who has it open (lobby or editor), who has gone idle, and which
+// item someone is changing. `me` is null until the screen knows the user's participant row.
+export function useBillPresence(billId: string | undefined, me: Me | null, screen: BillPresence['screen']) {
+    const { presence: peers } = useBillSession(billId);
+    const [idle, setIdle] = useState(false);
+    const [editingItemId, setEditingItemId] = useState<string | null>(null);
+    const handleRef = useRef<PresenceHandle | null>(null);
+    const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const editingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const participantId = me?.participantId;
+    const name = me?.name ?? '';
+
+    const markActive = useCallback(() => {
+        setIdle(false);
+        if (idleTimer.current) clearTimeout(idleTimer.current);
+        idleTimer.current = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
+    }, []);
+
+    // Pass null when the field blurs; otherwise the marker clears itself shortly after the last change
+    const setEditingItem = useCallback((itemId: string | null) => {
+        if (editingTimer.current) clearTimeout(editingTimer.current);
+        setEditingItemId(itemId);
+        if (itemId) {
+            markActive();
+            editingTimer.current = setTimeout(() => setEditingItemId(null), EDITING_CLEARS_AFTER_MS);
+        }
+    }, [markActive]);
+
+    useEffect(() => {
+        if (!billId || billId === 'new' || !participantId) return;
+
+        const handle = joinBillPresence(billId, { participantId, name, screen, idle: false, editingItemId: null });
+        handleRef.current = handle;
+        markActive();
+
+        const sub = AppState.addEventListener('change', (next: AppStateStatus) => {
+            if (next === 'active') markActive();
+            else setIdle(true);
+        });
+
+        return () => {
+            sub.remove();
+            handle.leave();
+            handleRef.current = null;
+            if (idleTimer.current) clearTimeout(idleTimer.current);
+            if (editingTimer.current) clearTimeout(editingTimer.current);
+        };
+    }, [billId, participantId]);
+
+    useEffect(() => {
+        if (!participantId) return;
+        handleRef.current?.update({ participantId, name, screen, idle, editingItemId });
+    }, [participantId, name, screen, idle, editingItemId]);
+
+    const statusOf = useCallback((id: string): PresenceStatus => {
+        const peer = peers.find(p => p.participantId === id);
+        if (!peer) return 'offline';
+        return peer.idle ? 'idle' : 'online';
+    }, [peers]);
+
+    // Someone else changing this item right now, if anyone
+    const editorOf = useCallback((itemId: string): BillPresence | undefined => (
+        peers.find(p => p.editingItemId === itemId && p.participantId !== participantId)
+    ), [peers, participantId]);
+
+    return { peers, statusOf, editorOf, setEditingItem, markActive };
+}
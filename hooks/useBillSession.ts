@@ -0,0 +1,56 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+    BillSessionState,
+    getBillSession,
+    patchSessionBill,
+    refreshBillSession,
+    sendBillBroadcast,
+    SessionUpdate,
+    setSessionItems,
+    setSessionParticipants,
+    setSessionPaymentRequests,
+    subscribeToBillSession,
+} from '../services/billSession';
+import { BillItem, Participant, PaymentRequest } from '../types';
+
+const noop = () => () => {};
+
+// The shared live copy of a bill: its row, items, participants, payment requests, presence and
+// connection state, plus setters for optimistic changes. Pass undefined (or 'new') for screens
+// that aren't working on a saved bill; they get an empty, never-loading state.
+export function useBillSession(billId: string | undefined) {
+    const isLive = !!billId && billId !== 'new';
+
+    const subscribe = useCallback(
+        (listener: () => void) => (isLive ? subscribeToBillSession(billId!, listener) : noop()),
+        [billId, isLive]
+    );
+    const getSnapshot = useCallback(() => getBillSession(isLive ? billId! : ''), [billId, isLive]);
+    const state: BillSessionState = useSyncExternalStore(subscribe, getSnapshot);
+
+    const setItems = useCallback((next: SessionUpdate<BillItem[]>) => {
+        if (isLive) setSessionItems(billId!, next);
+    }, [billId, isLive]);
+
+    const setParticipants = useCallback((next: SessionUpdate<Participant[]>) => {
+        if (isLive) setSessionParticipants(billId!, next);
+    }, [billId, isLive]);
+
+    const setPaymentRequests = useCallback((next: SessionUpdate<PaymentRequest[]>) => {
+        if (isLive) setSessionPaymentRequests(billId!, next);
+    }, [billId, isLive]);
+
+    const patchBill = useCallback((changes: Record<string, any>) => {
+        if (isLive) patchSessionBill(billId!, changes);
+    }, [billId, isLive]);
+
+    const refresh = useCallback(async () => {
+        if (isLive) await refreshBillSession(billId!);
+    }, [billId, isLive]);
+
+    const broadcast = useCallback((event: string, payload?: Record<string, any>) => {
+        if (isLive) sendBillBroadcast(billId!, event, payload);
+    }, [billId, isLive]);
+
+    return { ...state, setItems, setParticipants, setPaymentRequests, patchBill, refresh, broadcast };
+}
@@ -1,6 +1,22 @@
 import { useState, useEffect, useCallback } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Network from 'expo-network';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
+import {
+    getQueuedScans,
+    nextScanAttemptAt,
+    processScanQueue,
+    QueuedScan,
+    QueuedScanStatus,
+    removeQueuedScan,
+    retryPendingScans,
+    retryQueuedScan,
+    ScanRetryStatus,
+    subscribeToScanQueue,
+} from '../services/scanQueue';
+import { readReceiptDetails } from '../utils/receiptDetails';
+import { convertAmount, currencyForCountry, readBillCurrency } from '../utils/currency';
 
 type Bill = {
     id: string;
@@ -13,6 +29,18 @@ type Bill = {
         closedAt?: string;
     };
     created_at: string;
+    merchant?: string | null;
+    transaction_date?: string | null;
+    receipt_image_urls?: string[] | null;
+    currency?: string | null;
+    settlement_currency?: string | null;
+    exchange_rate?: number | null;
+};
+
+// Bills in different currencies can't be added up, so the home total is one sum per currency
+export type CurrencyTotal = {
+    currency: string;
+    amount: number;
 };
 
 type DraftBill = {
@@ -20,16 +48,24 @@ type DraftBill = {
     itemCount: number;
     createdAt: string;
     formattedDate: string;
+    // Set for receipts still waiting in the offline scan queue (no bill row yet)
+    pendingScan?: {
+        status: QueuedScanStatus;
+        attempts: number;
+        lastError: string | null;
+        pageCount: number;
+    };
 };
 
 type RecentActivity = {
     id: string;
     title: string;
     subtitle: string;
+    thumbnailUrl: string | null; // first page of the original receipt, when one was stored
 };
 
 export type HomeStats = {
-    totalSplit: number;
+    totalSplit: CurrencyTotal[]; // the user's own currency first; never empty
     minutesSaved: number;
     recentActivity: RecentActivity[];
     drafts: DraftBill[];
@@ -37,6 +73,7 @@ export type HomeStats = {
     error: string | null;
     refetch: () => Promise<void>;
     deleteDraft: (draftId: string) => Promise<boolean>;
+    retryPendingScan: (scanId: string) => Promise<ScanRetryStatus>;
 };
 
 const getTimeAgo = (dateString: string): string => {
@@ -82,6 +119,9 @@ const formatDraftDate = (dateString: string): string => {
 };
 
 const formatBillTitle = (bill: Bill): string => {
+    const { merchant } = readReceiptDetails(bill);
+    if (merchant) return merchant;
+
     const users = bill.details?.users || [];
     if (users.length === 0) return 'Bill Split';
 
@@ -93,12 +133,13 @@ const formatBillTitle = (bill: Bill): string => {
 };
 
 export function useHomeStats(): HomeStats {
-    const { user, session, isLoading: isAuthLoading } = useAuth();
+    const { user, session, profile, isLoading: isAuthLoading } = useAuth();
     const [isFetching, setIsFetching] = useState(false);
     const [hasFetched, setHasFetched] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [completedBills, setCompletedBills] = useState<Bill[]>([]);
     const [draftBills, setDraftBills] = useState<Bill[]>([]);
+    const [queuedScans, setQueuedScans] = useState<QueuedScan[]>([]);
 
     const fetchBills = useCallback(async () => {
         // CRITICAL: Don't fetch while auth is still loading
@@ -173,6 +214,12 @@ export function useHomeStats(): HomeStats {
             return false;
         }
 
+        // Queued scans only exist on this device
+        if (queuedScans.some(scan => scan.id === draftId)) {
+            await removeQueuedScan(draftId);
+            return true;
+        }
+
         console.log('deleteDraft: Starting hard delete for', draftId);
 
         // 1. Optimistic Update - Immediate UI removal
@@ -200,7 +247,66 @@ export function useHomeStats(): HomeStats {
             await fetchBills();
             return false;
         }
-    }, [user, session, fetchBills]);
+    }, [user, session, fetchBills, queuedScans]);
+
+    const retryPendingScan = useCallback((scanId: string) => retryQueuedScan(scanId), []);
+
+    // Offline scan queue: mirror it into drafts and refetch once a queued scan turns into a bill
+    useEffect(() => {
+        if (!user) {
+            setQueuedScans([]);
+            return;
+        }
+        getQueuedScans(user.id).then(setQueuedScans);
+        return subscribeToScanQueue((scans, event) => {
+            setQueuedScans(scans.filter(scan => scan.hostId === user.id));
+            if (event.type === 'completed') fetchBills();
+        });
+    }, [user, fetchBills]);
+
+    // Retry when the device gets its connection back, when the app comes back to the
+    // foreground and whenever the next backoff delay runs out
+    useEffect(() => {
+        if (!user) return;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let cancelled = false;
+
+        const run = async () => {
+            if (timer) clearTimeout(timer);
+            timer = null;
+            await processScanQueue(user.id).catch(err => console.warn('useHomeStats: Scan queue run failed:', err));
+            const nextAt = await nextScanAttemptAt(user.id);
+            if (nextAt != null && !cancelled) {
+                timer = setTimeout(run, Math.max(1000, nextAt - Date.now()));
+            }
+        };
+
+        // Reconnecting skips what's left of the backoff: the failures were most likely the outage
+        let wasConnected: boolean | null = null;
+        const reconnect = async () => {
+            await retryPendingScans(user.id).catch(err => console.warn('useHomeStats: Scan queue retry failed:', err));
+            if (!cancelled) run();
+        };
+
+        run();
+        const sub = AppState.addEventListener('change', (next: AppStateStatus) => {
+            if (next === 'active') run();
+        });
+        const networkSub = Network.addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+            const connected = Boolean(isConnected) && isInternetReachable !== false;
+            if (connected && wasConnected === false) {
+                console.log('useHomeStats: Back online, retrying queued scans');
+                reconnect();
+            }
+            wasConnected = connected;
+        });
+        return () => {
+            cancelled = true;
+            if (timer) clearTimeout(timer);
+            sub.remove();
+            networkSub.remove();
+        };
+    }, [user, queuedScans.length]);
 
     useEffect(() => {
         // Only fetch when auth is done loading and we haven't fetched yet
@@ -209,8 +315,19 @@ export function useHomeStats(): HomeStats {
         }
     }, [isAuthLoading, hasFetched, isFetching, fetchBills]);
 
-    // Calculate stats from completed bills only
-    const totalSplit = completedBills.reduce((sum, bill) => sum + (bill.total_amount || 0), 0);
+    // Calculate stats from completed bills only. A foreign receipt counts in the currency it was
+    // settled in, at the rate stored on that bill; anything without a rate stays in its own currency
+    const homeCurrency = currencyForCountry(profile?.country);
+    const sums = new Map<string, number>([[homeCurrency, 0]]);
+    completedBills.forEach(bill => {
+        const billCurrency = readBillCurrency(bill);
+        const currency = billCurrency.exchangeRate ? billCurrency.settlementCurrency : billCurrency.currency;
+        sums.set(currency, (sums.get(currency) || 0) + convertAmount(bill.total_amount || 0, billCurrency));
+    });
+    const totalSplit: CurrencyTotal[] = [...sums]
+        .map(([currency, amount]) => ({ currency, amount }))
+        .filter(total => total.currency === homeCurrency || total.amount !== 0)
+        .sort((a, b) => Number(b.currency === homeCurrency) - Number(a.currency === homeCurrency) || b.amount - a.amount);
     const minutesSaved = completedBills.length * 5;
 
     // Get 2 most recent completed bills for activity
@@ -218,15 +335,30 @@ export function useHomeStats(): HomeStats {
         id: bill.id,
         title: formatBillTitle(bill),
         subtitle: getTimeAgo(bill.created_at),
+        thumbnailUrl: readReceiptDetails(bill).receiptImages[0] || null,
     }));
 
-    // Format drafts for display
-    const drafts: DraftBill[] = draftBills.map(bill => ({
-        id: bill.id,
-        itemCount: bill.details?.items?.length || 0,
-        createdAt: bill.created_at,
-        formattedDate: formatDraftDate(bill.created_at),
-    }));
+    // Format drafts for display; queued scans go first, newest on top
+    const drafts: DraftBill[] = [
+        ...[...queuedScans].reverse().map(scan => ({
+            id: scan.id,
+            itemCount: 0,
+            createdAt: scan.createdAt,
+            formattedDate: formatDraftDate(scan.createdAt),
+            pendingScan: {
+                status: scan.status,
+                attempts: scan.attempts,
+                lastError: scan.lastError,
+                pageCount: scan.pages.length,
+            },
+        })),
+        ...draftBills.map(bill => ({
+            id: bill.id,
+            itemCount: bill.details?.items?.length || 0,
+            createdAt: bill.created_at,
+            formattedDate: formatDraftDate(bill.created_at),
+        })),
+    ];
 
     // CRITICAL: isLoading is true while auth is loading OR while we're fetching
     // This prevents flash of empty data
@@ -241,5 +373,6 @@ export function useHomeStats(): HomeStats {
         error,
         refetch: fetchBills,
         deleteDraft,
+        retryPendingScan,
     };
 }
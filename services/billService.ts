@@ -1,5 +1,9 @@
 import { supabase } from '../lib/supabase';
-import { BillItem, BillStatus, Participant, PaymentRequest } from '../types';
+import { BillActivity, BillCurrency, BillItem, BillLineKind, BillPayer, BillStatus, FeeAllocation, FeeType, getInitials, getNextColor, ItemConfidence, ItemSplit, Participant, ParticipantTreat, PaymentRequest, TaxCategory, TipBase, TipSettings } from '../types';
+import { computeSplit, fromCents, linesFromBillItems, minorUnitCents, settleTransfers, SplitResult, toCents } from '../utils/splitEngine';
+import { convertAmount, currencyDecimals, readBillCurrency } from '../utils/currency';
+import { ScannedLine } from '../utils/receiptItems';
+import { parseMerchant, parseTransactionDate } from '../utils/receiptDetails';
 
 const ensureBillIsActive = async (billId: string): Promise<void> => {
     const { data, error } = await supabase
@@ -25,6 +29,174 @@ const ensureItemBillIsActive = async (itemId: string): Promise<void> => {
 
 // ─── BILL OPERATIONS ────────────────────────────────────────────────────────
 
+export type ScannedBillInput = {
+    hostId: string;
+    hostName: string;
+    currency: string;
+    result: any; // raw scan response (merchant, date, subtotal, scannedTip, printed totals)
+    items: ScannedLine[];
+    tax: number;
+    billId?: string; // fixed up front by the scan queue, so a retry resumes the same draft
+};
+
+// An open party someone already started for the same receipt (find_duplicate_bills, migration 030)
+export type DuplicateBill = {
+    bill_id: string;
+    host_id: string;
+    host_name: string | null;
+    merchant: string;
+    transaction_date: string;
+    total_amount: number;
+    status: BillStatus;
+    participant_count: number;
+    created_at: string;
+};
+
+// Use the scanner's subtotal if it read one, otherwise sum the lines
+const scannedSubtotal = (result: any, items: ScannedLine[]): number =>
+    result.subtotal ?? items.reduce((sum, item) => sum + item.price, 0);
+
+// Draft bill from a parsed receipt, with the host as first participant and the lines in bill_items.
+// Status stays 'draft' so the party lobby works; the host presses "Start Splitting" to make it active.
+// Called again with the same billId, it only adds whatever the earlier attempt didn't get to save.
+export const createScannedBill = async ({ hostId, hostName, currency, result, items, tax, billId }: ScannedBillInput): Promise<string> => {
+    const subtotal = scannedSubtotal(result, items);
+
+    if (billId) {
+        const { data: existing, error: existingError } = await supabase
+            .from('bills')
+            .select('id')
+            .eq('id', billId)
+            .maybeSingle();
+        if (existingError) throw existingError;
+        if (existing) {
+            await resumeScannedBill(billId, hostId, hostName, items);
+            return billId;
+        }
+    }
+
+    const { data: bill, error } = await supabase
+        .from('bills')
+        .insert({
+            ...(billId ? { id: billId } : {}),
+            host_id: hostId,
+            total_amount: subtotal,
+            status: 'draft',
+            // Receipts start in the host's home currency; the editor can change it
+            currency,
+            settlement_currency: currency,
+            merchant: parseMerchant(result.merchant),
+            transaction_date: parseTransactionDate(result.date),
+            details: {
+                items,
+                scannedTip: result.scannedTip || 0,
+                tax,
+                subtotal,
+                is_manual: false,
+                // How sure the scanner was of the printed totals; the editor flags a shaky tax
+                confidence: result.confidence ?? null,
+            },
+        })
+        .select('id')
+        .single();
+    if (error || !bill) throw error || new Error('Failed to create bill');
+
+    const { error: participantError } = await supabase
+        .from('bill_participants')
+        .insert({
+            bill_id: bill.id,
+            user_id: hostId,
+            name: hostName,
+            is_guest: false,
+            color: getNextColor(0),
+            initials: getInitials(hostName),
+        });
+    if (participantError) console.warn('createScannedBill: Failed to add host participant', participantError);
+
+    if (items.length > 0) {
+        const { error: itemsError } = await supabase
+            .from('bill_items')
+            .insert(items.map(item => ({ ...item, bill_id: bill.id })));
+        if (itemsError) console.warn('createScannedBill: Failed to save bill_items, will retry on split start');
+    }
+
+    return bill.id as string;
+};
+
+// The bill row made it in on an earlier attempt; add the host and the lines if they didn't
+const resumeScannedBill = async (billId: string, hostId: string, hostName: string, items: ScannedLine[]) => {
+    const { data: host } = await supabase
+        .from('bill_participants')
+        .select('id')
+        .eq('bill_id', billId)
+        .eq('user_id', hostId)
+        .maybeSingle();
+    if (!host) {
+        const { error: participantError } = await supabase
+            .from('bill_participants')
+            .insert({
+                bill_id: billId,
+                user_id: hostId,
+                name: hostName,
+                is_guest: false,
+                color: getNextColor(0),
+                initials: getInitials(hostName),
+            });
+        if (participantError) console.warn('createScannedBill: Failed to add host participant', participantError);
+    }
+
+    const { count } = await supabase
+        .from('bill_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('bill_id', billId);
+    if (!count && items.length > 0) {
+        const { error: itemsError } = await supabase
+            .from('bill_items')
+            .insert(items.map(item => ({ ...item, bill_id: billId })));
+        if (itemsError) console.warn('createScannedBill: Failed to save bill_items, will retry on split start');
+    }
+};
+
+// Open bills for the same merchant, date and total, hosted by the user or someone they've split with
+// lately. A scan without a merchant or date has nothing to match on and is never flagged.
+export const findDuplicateBills = async (result: any, items: ScannedLine[]): Promise<DuplicateBill[]> => {
+    const merchant = parseMerchant(result.merchant);
+    const transactionDate = parseTransactionDate(result.date);
+    if (!merchant || !transactionDate) return [];
+
+    const { data, error } = await supabase.rpc('find_duplicate_bills', {
+        p_merchant: merchant,
+        p_transaction_date: transactionDate,
+        p_total: scannedSubtotal(result, items),
+    });
+    if (error) throw error;
+    return (data ?? []) as DuplicateBill[];
+};
+
+// Adds the user to another host's bill the way a divvit://bill link does; already being in it is fine
+export const joinBill = async (billId: string, userId: string, name: string, participantCount: number) => {
+    const { data: existing, error: checkError } = await supabase
+        .from('bill_participants')
+        .select('id')
+        .eq('bill_id', billId)
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (checkError) throw checkError;
+    if (existing) return;
+
+    const { error } = await supabase
+        .from('bill_participants')
+        .insert({
+            bill_id: billId,
+            user_id: userId,
+            name,
+            is_guest: false,
+            color: getNextColor(participantCount),
+            initials: getInitials(name),
+        });
+    if (error) throw error;
+};
+
 export const getBill = async (billId: string) => {
     const { data, error } = await supabase
         .from('bills')
@@ -46,8 +218,9 @@ export const updateBillStatus = async (billId: string, status: BillStatus) => {
     return data;
 };
 
-export const updateBillTip = async (billId: string, tip: number) => {
-    // tip is stored inside the details JSONB column, not a top-level column
+export const updateBillTip = async (billId: string, tip: number, tipSettings?: TipSettings) => {
+    // tip is stored inside the details JSONB column, not a top-level column;
+    // tipSettings (percentage, base, mode) lets every screen show how it was worked out
     const { data: existing } = await supabase
         .from('bills')
         .select('details')
@@ -56,7 +229,22 @@ export const updateBillTip = async (billId: string, tip: number) => {
     const details = (existing?.details as Record<string, any>) || {};
     const { data, error } = await supabase
         .from('bills')
-        .update({ details: { ...details, tip } })
+        .update({ details: { ...details, tip, ...(tipSettings ? { tipSettings } : {}) } })
+        .eq('id', billId)
+        .select()
+        .single();
+    if (error) throw error;
+    return data;
+};
+
+export const updateBillCurrency = async (billId: string, billCurrency: BillCurrency) => {
+    const { data, error } = await supabase
+        .from('bills')
+        .update({
+            currency: billCurrency.currency,
+            settlement_currency: billCurrency.settlementCurrency,
+            exchange_rate: billCurrency.currency === billCurrency.settlementCurrency ? null : billCurrency.exchangeRate,
+        })
         .eq('id', billId)
         .select()
         .single();
@@ -64,6 +252,21 @@ export const updateBillTip = async (billId: string, tip: number) => {
     return data;
 };
 
+// Latest reference rate from the exchange_rates table (settlement units per 1 unit of base); null if unknown
+export const getExchangeRate = async (baseCurrency: string, quoteCurrency: string): Promise<number | null> => {
+    if (baseCurrency === quoteCurrency) return 1;
+    const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('base_currency, quote_currency, rate')
+        .or(`and(base_currency.eq.${baseCurrency},quote_currency.eq.${quoteCurrency}),and(base_currency.eq.${quoteCurrency},quote_currency.eq.${baseCurrency})`);
+    if (error) throw error;
+    const direct = (data || []).find(r => r.base_currency === baseCurrency);
+    if (direct) return Number(direct.rate);
+    // Only the reverse pair is stored: invert it
+    const inverse = (data || []).find(r => r.base_currency === quoteCurrency);
+    return inverse && Number(inverse.rate) > 0 ? 1 / Number(inverse.rate) : null;
+};
+
 // ─── BILL ITEMS OPERATIONS ──────────────────────────────────────────────────
 
 export const getBillItems = async (billId: string): Promise<BillItem[]> => {
@@ -78,14 +281,35 @@ export const getBillItems = async (billId: string): Promise<BillItem[]> => {
 
 export const createBillItems = async (
     billId: string,
-    items: Array<{ name: string; price: number; quantity?: number }>
+    items: Array<{
+        id?: string;
+        name: string;
+        price: number;
+        quantity?: number;
+        kind?: BillLineKind;
+        applies_to?: string | null;
+        fee_type?: FeeType | null;
+        fee_allocation?: FeeAllocation;
+        tax_category?: TaxCategory;
+        tax_rate?: number | null;
+        confidence?: ItemConfidence | null;
+    }>
 ): Promise<BillItem[]> => {
     await ensureBillIsActive(billId);
     const payload = items.map(item => ({
+        ...(item.id ? { id: item.id } : {}),
         bill_id: billId,
         name: item.name || '',
-        price: Number(item.price) || 0,
-        quantity: item.quantity || 1,
+        // Discount lines are always stored negative, regular lines never are
+        price: item.kind === 'discount' ? -Math.abs(Number(item.price) || 0) : Number(item.price) || 0,
+        quantity: Math.max(1, Math.floor(Number(item.quantity) || 1)),
+        kind: item.kind || 'item',
+        applies_to: item.kind === 'discount' ? item.applies_to ?? null : null,
+        fee_type: item.kind === 'fee' ? item.fee_type || 'other' : null,
+        fee_allocation: item.fee_allocation || 'proportional',
+        tax_category: item.tax_category || 'standard',
+        tax_rate: item.tax_category === 'custom' ? item.tax_rate ?? null : null,
+        confidence: item.confidence ?? null,
     }));
 
     const { data, error } = await supabase
@@ -98,7 +322,17 @@ export const createBillItems = async (
 
 export const updateBillItem = async (
     itemId: string,
-    updates: { name?: string; price?: number }
+    updates: {
+        name?: string;
+        price?: number;
+        kind?: BillLineKind;
+        applies_to?: string | null;
+        fee_type?: FeeType | null;
+        fee_allocation?: FeeAllocation;
+        tax_category?: TaxCategory;
+        tax_rate?: number | null;
+        confidence?: ItemConfidence | null;
+    }
 ): Promise<BillItem> => {
     await ensureItemBillIsActive(itemId);
     const { data, error } = await supabase
@@ -111,6 +345,54 @@ export const updateBillItem = async (
     return data as BillItem;
 };
 
+export const getBillItem = async (itemId: string): Promise<BillItem> => {
+    const { data, error } = await supabase
+        .from('bill_items')
+        .select('*')
+        .eq('id', itemId)
+        .single();
+    if (error) throw error;
+    return data as BillItem;
+};
+
+export type BillItemUpdate = Partial<Pick<BillItem,
+    'name' | 'price' | 'kind' | 'applies_to' | 'confidence' | 'assigned_ids' | 'assigned_to' | 'split_mode' | 'split_weights'>>;
+
+// Somebody keeps writing the item faster than we can; rare enough to just ask for another try
+const MAX_ITEM_WRITE_ATTEMPTS = 3;
+
+/**
+ * Version-checked item write. `change` builds the update from the latest row, and the write only
+ * lands if nobody else wrote the item since that row was read (bill_items.updated_at); otherwise
+ * `change` runs again on the fresh row. Returning null from `change` skips the write, and the
+ * latest row comes back with applied: false so the caller can tell the user.
+ */
+export const updateBillItemChecked = async (
+    item: BillItem,
+    change: (latest: BillItem) => BillItemUpdate | null
+): Promise<{ item: BillItem; applied: boolean }> => {
+    await ensureItemBillIsActive(item.id);
+    let latest = item.updated_at ? item : await getBillItem(item.id);
+
+    for (let attempt = 0; attempt < MAX_ITEM_WRITE_ATTEMPTS; attempt++) {
+        const updates = change(latest);
+        if (!updates) return { item: latest, applied: false };
+
+        const { data, error } = await supabase
+            .from('bill_items')
+            .update(updates)
+            .eq('id', item.id)
+            .eq('updated_at', latest.updated_at)
+            .select();
+        if (error) throw error;
+        if (data && data.length > 0) return { item: data[0] as BillItem, applied: true };
+
+        console.log('updateBillItemChecked: Item changed since it was read, retrying', item.id);
+        latest = await getBillItem(item.id);
+    }
+    throw new Error('This item is being changed by someone else right now. Try again.');
+};
+
 export const deleteBillItem = async (itemId: string) => {
     await ensureItemBillIsActive(itemId);
     const { error } = await supabase
@@ -135,6 +417,29 @@ export const assignItem = async (
     return data as BillItem;
 };
 
+// Plain (re)assignments drop any uneven split so new assignees never inherit stale weights.
+// Bulk actions only touch regular items; discounts and fees keep their own targets.
+const EQUAL_SPLIT = { split_mode: 'equal', split_weights: null } as const;
+
+const splitColumns = (participantIds: string[], split: ItemSplit | null) => ({
+    assigned_ids: participantIds.length > 0 ? participantIds.join(',') : null,
+    assigned_to: participantIds.length > 0 ? participantIds[0] : null,
+    split_mode: split ? split.mode : 'equal',
+    split_weights: split ? split.weights : null,
+});
+
+// Every item on the bill at once (set_all_item_assignments, migration 036). The function marks
+// its transaction as a bulk change, so the activity log offers it for undo even on a one-item bill.
+const setAllItemAssignments = async (billId: string, columns: ReturnType<typeof splitColumns>) => {
+    const { error } = await supabase.rpc('set_all_item_assignments', {
+        p_bill_id: billId,
+        p_assigned_ids: columns.assigned_ids,
+        p_split_mode: columns.split_mode,
+        p_split_weights: columns.split_weights,
+    });
+    if (error) throw error;
+};
+
 export const assignItemMulti = async (
     itemId: string,
     participantIds: string[]
@@ -147,7 +452,8 @@ export const assignItemMulti = async (
         .from('bill_items')
         .update({ 
             assigned_ids: assignedIds,
-            assigned_to: assignedTo 
+            assigned_to: assignedTo,
+            ...EQUAL_SPLIT,
         })
         .eq('id', itemId)
         .select()
@@ -156,57 +462,93 @@ export const assignItemMulti = async (
     return data as BillItem;
 };
 
+// Adds and removes assignees in one server-side step (update_item_assignees, migration 031), so
+// two people claiming the same item at once both end up on it. Resets any uneven split, like assignItemMulti.
+export const updateItemAssignees = async (
+    itemId: string,
+    changes: { add?: string[]; remove?: string[] }
+): Promise<BillItem> => {
+    const { data, error } = await supabase.rpc('update_item_assignees', {
+        p_item_id: itemId,
+        p_add: changes.add ?? [],
+        p_remove: changes.remove ?? [],
+    });
+    if (error) throw error;
+    return data as BillItem;
+};
+
 export const assignAllItemsMulti = async (
     billId: string,
     participantIds: string[]
 ): Promise<void> => {
-    await ensureBillIsActive(billId);
-    const assignedIds = participantIds.length > 0 ? participantIds.join(',') : null;
-    const assignedTo = participantIds.length > 0 ? participantIds[0] : null;
+    await setAllItemAssignments(billId, splitColumns(participantIds, null));
+};
 
-    const { error } = await supabase
+export const setItemSplit = async (
+    itemId: string,
+    participantIds: string[],
+    split: ItemSplit | null
+): Promise<BillItem> => {
+    await ensureItemBillIsActive(itemId);
+    const { data, error } = await supabase
         .from('bill_items')
-        .update({ 
-            assigned_ids: assignedIds,
-            assigned_to: assignedTo 
+        .update(splitColumns(participantIds, split))
+        .eq('id', itemId)
+        .select()
+        .single();
+    if (error) throw error;
+    return data as BillItem;
+};
+
+// Fee lines keep their own allocation rule; 'assigned' fees are paid by participantIds only
+export const updateFeeLine = async (
+    itemId: string,
+    feeType: FeeType,
+    allocation: FeeAllocation,
+    participantIds: string[]
+): Promise<BillItem> => {
+    await ensureItemBillIsActive(itemId);
+    const assigneeIds = allocation === 'assigned' ? participantIds : [];
+    const { data, error } = await supabase
+        .from('bill_items')
+        .update({
+            fee_type: feeType,
+            fee_allocation: allocation,
+            ...splitColumns(assigneeIds, null),
         })
-        .eq('bill_id', billId);
+        .eq('id', itemId)
+        .select()
+        .single();
     if (error) throw error;
+    return data as BillItem;
+};
+
+export const setAllItemsSplit = async (
+    billId: string,
+    participantIds: string[],
+    split: ItemSplit | null
+): Promise<void> => {
+    await setAllItemAssignments(billId, splitColumns(participantIds, split));
 };
 
 export const clearAllAssignmentsMulti = async (
     billId: string
 ): Promise<void> => {
-    await ensureBillIsActive(billId);
-    const { error } = await supabase
-        .from('bill_items')
-        .update({ 
-            assigned_ids: null,
-            assigned_to: null 
-        })
-        .eq('bill_id', billId);
-    if (error) throw error;
+    await setAllItemAssignments(billId, splitColumns([], null));
 };
 
+// One transaction for the whole shuffle (set_item_assignments, migrations 033 and 036), so it
+// lands and shows up in the activity log as a single bulk change the host can undo
 export const randomizeAssignmentsMulti = async (
+    billId: string,
     updates: Array<{ id: string; assigned_ids: string; assigned_to: string }>
 ): Promise<void> => {
-    if (updates.length > 0) {
-        await ensureItemBillIsActive(updates[0].id);
-    }
-    const promises = updates.map(update => 
-        supabase
-            .from('bill_items')
-            .update({ 
-                assigned_ids: update.assigned_ids,
-                assigned_to: update.assigned_to 
-            })
-            .eq('id', update.id)
-    );
-    const results = await Promise.all(promises);
-    for (const res of results) {
-        if (res.error) throw res.error;
-    }
+    if (updates.length === 0) return;
+    const { error } = await supabase.rpc('set_item_assignments', {
+        p_bill_id: billId,
+        p_assignments: updates.map(update => ({ id: update.id, assigned_ids: update.assigned_ids })),
+    });
+    if (error) throw error;
 };
 
 // ─── PARTICIPANTS ───────────────────────────────────────────────────────────
@@ -221,32 +563,109 @@ export const getParticipants = async (billId: string): Promise<Participant[]> =>
     return (data || []) as Participant[];
 };
 
+// Individual tips: each participant saves their own percentage; null = use the host's default
+export const setParticipantTipPercentage = async (
+    participantId: string,
+    tipPercentage: number | null
+): Promise<Participant> => {
+    const { data, error } = await supabase.rpc('set_participant_tip_percentage', {
+        p_participant_id: participantId,
+        p_tip_percentage: tipPercentage,
+    });
+    if (error) throw error;
+    return data as Participant;
+};
+
 // ─── PAYMENT OPERATIONS ────────────────────────────────────────────────────
 
+// A request someone already marked sent or confirmed that the new split would change.
+// new_amount / new_currency are null when the new split has no request for the pair.
+export type PaymentRequestConflict = {
+    from_participant_id: string;
+    to_participant_id: string | null;
+    status: 'sent' | 'confirmed';
+    amount: number;
+    currency: string;
+    new_amount: number | null;
+    new_currency: string | null;
+};
+
+// replace_payment_requests() refuses to change paid requests (migration 038)
+const PAYMENT_CONFLICT_CODE = 'DV409';
+
+// The conflicting requests when createPaymentRequests() was refused for them, otherwise null
+export function readPaymentConflicts(error: any): PaymentRequestConflict[] | null {
+    if (error?.code !== PAYMENT_CONFLICT_CODE) return null;
+    try {
+        const conflicts = JSON.parse(error.details);
+        return Array.isArray(conflicts) ? conflicts : null;
+    } catch {
+        return null;
+    }
+}
+
 export const createPaymentRequests = async (
     billId: string,
     hostUserId: string,
-    participants: Array<{ participantId: string; userId: string | null; amount: number }>
+    participants: Array<{ participantId: string; userId: string | null }>,
+    split: SplitResult,
+    payers: BillPayer[] = [],
+    billCurrency: BillCurrency | null = null,
+    keepPaidRequests = false // the host has seen the conflicts and finalizes anyway
 ) => {
-    const requests = participants
-        .filter(p => p.userId !== hostUserId && p.amount > 0)
-        .map(p => ({
+    // Amounts come straight from the split engine so requests add up to the bill to the cent.
+    // Nobody recorded as paying means the host put down the whole check.
+    const currency = billCurrency ?? readBillCurrency(null);
+    const hostParticipant = participants.find(p => p.userId === hostUserId);
+    const paidWeights = payers.length > 0
+        ? payers.map(p => ({ id: p.participantId, weight: toCents(p.amount) }))
+        : hostParticipant ? [{ id: hostParticipant.participantId, weight: 1 }] : [];
+    const userIdOf = (participantId: string) =>
+        participants.find(p => p.participantId === participantId)?.userId ?? null;
+
+    const requests = paidWeights.length > 0
+        ? settleTransfers(split.shareCents, paidWeights, minorUnitCents(currencyDecimals(currency.currency))).map(t => ({
             bill_id: billId,
-            from_participant_id: p.participantId,
-            from_user_id: p.userId,
-            to_user_id: hostUserId,
-            amount: p.amount,
+            from_participant_id: t.from,
+            from_user_id: userIdOf(t.from),
+            to_participant_id: t.to,
+            to_user_id: userIdOf(t.to),
+            amount: fromCents(t.cents),
             status: 'pending',
-        }));
+        }))
+        : participants
+            .filter(p => p.userId !== hostUserId && (split.shareCents[p.participantId] || 0) > 0)
+            .map(p => ({
+                bill_id: billId,
+                from_participant_id: p.participantId,
+                from_user_id: p.userId,
+                to_participant_id: null,
+                to_user_id: hostUserId,
+                amount: fromCents(split.shareCents[p.participantId]),
+                status: 'pending',
+            }));
 
     if (requests.length === 0) return [];
 
-    const { data, error } = await supabase
-        .from('payment_requests')
-        .insert(requests)
-        .select();
+    // Requests are paid in the settlement currency; keep the receipt-currency amount next to it
+    const isConverted = currency.currency !== currency.settlementCurrency && !!currency.exchangeRate;
+    const converted = requests.map(r => ({
+        ...r,
+        amount: convertAmount(r.amount, currency),
+        currency: currency.settlementCurrency,
+        original_amount: isConverted ? r.amount : null,
+        original_currency: isConverted ? currency.currency : null,
+    }));
+
+    // Replaces the bill's pending requests, so finalizing again never leaves duplicates behind.
+    // Throws (see readPaymentConflicts) if a sent or confirmed request would change.
+    const { data, error } = await supabase.rpc('replace_payment_requests', {
+        p_bill_id: billId,
+        p_requests: converted,
+        p_keep_paid: keepPaidRequests,
+    });
     if (error) throw error;
-    return data || [];
+    return (data || []) as PaymentRequest[];
 };
 
 export const markPaymentSent = async (requestId: string) => {
@@ -271,121 +690,75 @@ export const confirmPayment = async (requestId: string) => {
     return data;
 };
 
-export const getPaymentRequests = async (billId: string): Promise<any[]> => {
+export const getPaymentRequests = async (billId: string): Promise<PaymentRequest[]> => {
     const { data, error } = await supabase
         .from('payment_requests')
         .select('*')
         .eq('bill_id', billId);
     if (error) throw error;
-    return data || [];
+    return (data || []) as PaymentRequest[];
 };
 
-// ─── REALTIME SUBSCRIPTIONS ─────────────────────────────────────────────────
+// ─── RESYNC ─────────────────────────────────────────────────────────────────
 
-export const subscribeToBillStatus = (
-    billId: string,
-    onStatusChange: (status: BillStatus) => void
-) => {
-    const channel = supabase
-        .channel(`bill-status-${billId}`)
-        .on(
-            'postgres_changes',
-            {
-                event: 'UPDATE',
-                schema: 'public',
-                table: 'bills',
-                filter: `id=eq.${billId}`,
-            },
-            (payload) => {
-                const newStatus = (payload.new as any).status as BillStatus;
-                console.log('[Realtime] Bill status changed:', newStatus);
-                onStatusChange(newStatus);
-            }
-        )
-        .subscribe();
-    return channel;
+export type BillRowChanges<T> = {
+    changed: T[]; // rows updated at or after the cursor (every row when there's no cursor)
+    ids: string[]; // every row still on the bill, so rows deleted meanwhile can be dropped
 };
 
-export const subscribeToBillItems = (
+const getRowChanges = async <T>(
+    table: 'bill_items' | 'bill_participants' | 'payment_requests',
     billId: string,
-    onItemChange: (item: BillItem, eventType: 'INSERT' | 'UPDATE' | 'DELETE') => void,
-    onStatus?: (status: string) => void
-) => {
-    const channel = supabase
-        .channel(`bill-items-${billId}`)
-        .on(
-            'postgres_changes',
-            {
-                event: '*',
-                schema: 'public',
-                table: 'bill_items',
-                filter: `bill_id=eq.${billId}`,
-            },
-            (payload) => {
-                console.log('[Realtime] Bill item event:', payload.eventType, payload);
-                if (payload.eventType === 'DELETE') {
-                    onItemChange(payload.old as BillItem, 'DELETE');
-                } else {
-                    onItemChange(payload.new as BillItem, payload.eventType as any);
-                }
-            }
-        )
-        .subscribe((status) => {
-            if (onStatus) onStatus(status);
-        });
-    return channel;
+    since: string | null
+): Promise<BillRowChanges<T>> => {
+    let changedQuery = supabase
+        .from(table)
+        .select('*')
+        .eq('bill_id', billId)
+        .order('created_at', { ascending: true });
+    if (since) changedQuery = changedQuery.gte('updated_at', since);
+
+    const [changed, ids] = await Promise.all([
+        changedQuery,
+        supabase.from(table).select('id').eq('bill_id', billId),
+    ]);
+    if (changed.error) throw changed.error;
+    if (ids.error) throw ids.error;
+    return {
+        changed: (changed.data || []) as T[],
+        ids: (ids.data || []).map((row: { id: string }) => row.id),
+    };
 };
 
-export const subscribeToParticipants = (
-    billId: string,
-    onParticipantChange: (participant: Participant) => void
-) => {
-    const channel = supabase
-        .channel(`bill-participants-${billId}`)
-        .on(
-            'postgres_changes',
-            {
-                event: 'INSERT',
-                schema: 'public',
-                table: 'bill_participants',
-                filter: `bill_id=eq.${billId}`,
-            },
-            (payload) => {
-                console.log('[Realtime] Participant joined:', payload.new);
-                onParticipantChange(payload.new as Participant);
-            }
-        )
-        .subscribe();
-    return channel;
+export const getBillItemChanges = (billId: string, since: string | null) =>
+    getRowChanges<BillItem>('bill_items', billId, since);
+
+export const getParticipantChanges = (billId: string, since: string | null) =>
+    getRowChanges<Participant>('bill_participants', billId, since);
+
+export const getPaymentRequestChanges = (billId: string, since: string | null) =>
+    getRowChanges<PaymentRequest>('payment_requests', billId, since);
+
+// ─── ACTIVITY LOG ───────────────────────────────────────────────────────────
+
+// Newest first. Rows are written by database triggers (migration 033), never by the app.
+export const getBillActivity = async (billId: string, limit = 200): Promise<BillActivity[]> => {
+    const { data, error } = await supabase
+        .from('bill_activity')
+        .select('*')
+        .eq('bill_id', billId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return (data || []) as BillActivity[];
 };
 
-export const subscribeToPaymentRequests = (
-    billId: string,
-    onUpdate: (request: PaymentRequest) => void
-) => {
-    const channel = supabase
-        .channel(`payment-requests-${billId}`)
-        .on(
-            'postgres_changes',
-            {
-                event: '*',
-                schema: 'public',
-                table: 'payment_requests',
-                filter: `bill_id=eq.${billId}`,
-            },
-            (payload) => {
-                console.log('[Realtime] Payment request update:', payload.new);
-                onUpdate(payload.new as PaymentRequest);
-            }
-        )
-        .subscribe();
-    return channel;
-};
-
-export const unsubscribeAll = (channels: any[]) => {
-    channels.forEach(ch => {
-        if (ch) supabase.removeChannel(ch);
-    });
+// Host only: puts back the assignments from before the latest bulk change that hasn't been
+// undone, skipping items changed since. Returns how many items were put back.
+export const undoBulkAssignment = async (billId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('undo_bulk_assignment', { p_bill_id: billId });
+    if (error) throw error;
+    return Number(data) || 0;
 };
 
 // ─── SHARE CALCULATION ──────────────────────────────────────────────────────
@@ -394,41 +767,22 @@ export const calculateShares = (
     billItems: BillItem[],
     tax: number,
     tip: number,
-    participants: Participant[]
+    participants: Participant[],
+    taxRate: number | null = null,
+    treats: Record<string, ParticipantTreat> | null = null,
+    tipPercentages: Record<string, number> | null = null, // individual tips; replaces tip when set
+    tipBase: TipBase = 'pre-tax',
+    decimals: number = 2 // currencyDecimals of the bill's currency
 ): Record<string, number> => {
-    const subtotal = billItems.reduce(
-        (sum, item) => sum + item.price * item.quantity, 0
-    );
-
-    const shares: Record<string, number> = {};
-
-    // Initialize all participants with 0
-    participants.forEach(p => { shares[p.id] = 0; });
-
-    // Add item costs based on assignment (supports multi-person splits)
-    billItems.forEach(item => {
-        const assignedIds = item.assigned_ids
-            ? item.assigned_ids.split(',').filter(Boolean)
-            : (item.assigned_to ? [item.assigned_to] : []);
-
-        if (assignedIds.length > 0) {
-            const costPerAssignee = (item.price * item.quantity) / assignedIds.length;
-            assignedIds.forEach(id => {
-                if (shares[id] !== undefined) {
-                    shares[id] += costPerAssignee;
-                }
-            });
-        }
-    });
-
-    // Add proportional tax and tip
-    participants.forEach(p => {
-        const itemShare = shares[p.id];
-        const proportion = subtotal > 0
-            ? itemShare / subtotal
-            : 1 / participants.length;
-        shares[p.id] += (tax + tip) * proportion;
-    });
-
-    return shares;
+    return computeSplit({
+        participantIds: participants.map(p => p.id),
+        lines: linesFromBillItems(billItems),
+        tax,
+        tip,
+        taxRate,
+        tipPercentages,
+        tipBase,
+        treats,
+        decimals,
+    }).shares;
 };
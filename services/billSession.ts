@@ -0,0 +1,493 @@
+/**
+ * Live bill sessions. Every bill screen (lobby, editor, tip, payment, success) reads the bill
+ * through one shared session per bill: a single Supabase channel carrying row changes for the
+ * bill, its items, participants and payment requests, the lobby's broadcast events and presence,
+ * plus one normalized copy of all of it. Screens hold the session while they're mounted; the
+ * last one to let go closes the channel after a short grace period, so the screen that
+ * replaces it with router.replace picks up the same channel and data instead of reopening it.
+ * A channel that errors or times out is replaced with backoff, and whatever changed while it
+ * was down is read back by updated_at once the new one is up.
+ */
+
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import {
+    BillRowChanges,
+    getBill,
+    getBillItemChanges,
+    getBillItems,
+    getParticipantChanges,
+    getParticipants,
+    getPaymentRequestChanges,
+    getPaymentRequests,
+} from './billService';
+import { BillItem, BillPresence, BillStatus, Participant, PaymentRequest } from '../types';
+
+// How long a session with no screens left stays connected before its channel is removed
+const RELEASE_AFTER_MS = 10000;
+// 1s, 2s, 4s… between attempts to replace a failed channel, capped at 30 seconds
+const BASE_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+// A row's updated_at is when its transaction started, so the resync also re-reads rows from a
+// little before the newest one already seen, in case an older transaction committed later
+const RESYNC_OVERLAP_MS = 10000;
+
+// 'reconnecting' covers the whole gap: from the channel failing until the missed changes are in
+export type BillSessionConnection = 'connecting' | 'connected' | 'reconnecting';
+
+export type BillSessionState = {
+    billId: string;
+    bill: Record<string, any> | null; // the bills row, details JSONB included
+    status: BillStatus | null;
+    hostId: string | null;
+    items: BillItem[]; // ordered by created_at; new rows go on the end
+    participants: Participant[];
+    paymentRequests: PaymentRequest[];
+    presence: BillPresence[]; // one entry per participant with the bill open
+    isLoaded: boolean; // the first fetch has finished, successfully or not
+    connection: BillSessionConnection;
+};
+
+// A new value, or a function of the current one like a React state setter
+export type SessionUpdate<T> = T | ((prev: T) => T);
+
+export type PresenceHandle = {
+    update: (presence: BillPresence) => void;
+    leave: () => void;
+};
+
+type BroadcastHandler = (payload: Record<string, any>) => void;
+
+type Session = {
+    state: BillSessionState;
+    channel: RealtimeChannel | null;
+    isSubscribed: boolean;
+    holders: number;
+    releaseTimer: ReturnType<typeof setTimeout> | null;
+    reconnectTimer: ReturnType<typeof setTimeout> | null;
+    reconnectAttempts: number;
+    // One set per fetch in flight (load, resync): row ids (and the bill id) realtime delivered
+    // meanwhile. The fetch's older reads don't overwrite them.
+    liveWatchers: Set<Set<string>>;
+    isResyncing: boolean;
+    resyncAgain: boolean; // another SUBSCRIBED came in while a resync was running
+    listeners: Set<() => void>;
+    broadcastHandlers: Map<string, Set<BroadcastHandler>>;
+    // What each screen wants to show on presence; the one updated most recently is tracked
+    presenceHolders: Map<object, BillPresence>;
+};
+
+const sessions = new Map<string, Session>();
+// Channels still being removed. The realtime client hands out channels by topic and drops every
+// channel with a closing channel's topic, so a new one for the same bill waits for the old to go.
+const closingChannels = new Map<string, Promise<unknown>>();
+
+const IDLE_STATE: BillSessionState = {
+    billId: '',
+    bill: null,
+    status: null,
+    hostId: null,
+    items: [],
+    participants: [],
+    paymentRequests: [],
+    presence: [],
+    isLoaded: false,
+    connection: 'connecting',
+};
+
+// ─── STATE ──────────────────────────────────────────────────────────────────
+
+const setState = (session: Session, changes: Partial<BillSessionState>) => {
+    session.state = { ...session.state, ...changes };
+    session.listeners.forEach(listener => listener());
+};
+
+const billChanges = (bill: Record<string, any> | null): Partial<BillSessionState> => ({
+    bill,
+    status: (bill?.status as BillStatus) ?? null,
+    hostId: bill?.host_id ?? null,
+});
+
+// Starts recording what realtime delivers while a fetch is in flight; delete the set when it's done
+const watchLive = (session: Session): Set<string> => {
+    const live = new Set<string>();
+    session.liveWatchers.add(live);
+    return live;
+};
+
+const markLive = (session: Session, id: string) => {
+    session.liveWatchers.forEach(live => live.add(id));
+};
+
+// Applies one postgres_changes event to a list of rows keyed by id
+const applyRowChange = <T extends { id: string }>(rows: T[], eventType: string, row: T): T[] => {
+    if (eventType === 'DELETE') return rows.filter(r => r.id !== row.id);
+    if (rows.some(r => r.id === row.id)) return rows.map(r => (r.id === row.id ? { ...r, ...row } : r));
+    return [...rows, row];
+};
+
+// Each device tracks under its own key; a participant on two devices shows up once, latest first
+const readPresence = (channel: RealtimeChannel): BillPresence[] => {
+    const byParticipant = new Map<string, BillPresence>();
+    Object.values(channel.presenceState<BillPresence>()).forEach(entries => {
+        entries.forEach(entry => byParticipant.set(entry.participantId, entry));
+    });
+    return Array.from(byParticipant.values());
+};
+
+const trackPresence = (session: Session) => {
+    if (!session.channel || !session.isSubscribed) return;
+    const tracked = Array.from(session.presenceHolders.values()).pop();
+    if (tracked) session.channel.track(tracked);
+    else session.channel.untrack();
+};
+
+// ─── LOADING & CHANNEL ──────────────────────────────────────────────────────
+
+// Full read of the bill. Rows realtime changed while it was in flight keep their live version.
+const load = async (session: Session) => {
+    const billId = session.state.billId;
+    const live = watchLive(session);
+    try {
+        const [bill, items, participants, paymentRequests] = await Promise.all([
+            getBill(billId),
+            getBillItems(billId),
+            getParticipants(billId),
+            getPaymentRequests(billId),
+        ]);
+        const current = session.state;
+        setState(session, {
+            ...(live.has(billId) ? {} : billChanges(bill)),
+            items: mergeRowChanges(current.items, snapshotChanges(items), live),
+            participants: mergeRowChanges(current.participants, snapshotChanges(participants), live),
+            paymentRequests: mergeRowChanges(current.paymentRequests, snapshotChanges(paymentRequests), live),
+        });
+    } catch (error) {
+        console.error('billSession: Failed to load bill', billId, error);
+    } finally {
+        session.liveWatchers.delete(live);
+        setState(session, { isLoaded: true });
+    }
+};
+
+const connect = async (session: Session) => {
+    const billId = session.state.billId;
+    await closingChannels.get(billId);
+    // Released again while the old channel was closing
+    if (sessions.get(billId) !== session) return;
+
+    const filter = `bill_id=eq.${billId}`;
+    const channel = supabase
+        .channel(`bill-${billId}`)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'bills', filter: `id=eq.${billId}` }, (payload) => {
+            markLive(session, billId);
+            const bill = { ...(session.state.bill || {}), ...(payload.new as Record<string, any>) };
+            if (bill.status !== session.state.status) console.log('[Realtime] Bill status changed:', bill.status);
+            setState(session, billChanges(bill));
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'bill_items', filter }, (payload) => {
+            const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as BillItem;
+            markLive(session, row.id);
+            setState(session, { items: applyRowChange(session.state.items, payload.eventType, row) });
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'bill_participants', filter }, (payload) => {
+            const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Participant;
+            markLive(session, row.id);
+            console.log('[Realtime] Participant event:', payload.eventType, row.id);
+            setState(session, { participants: applyRowChange(session.state.participants, payload.eventType, row) });
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'payment_requests', filter }, (payload) => {
+            const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as PaymentRequest;
+            markLive(session, row.id);
+            setState(session, { paymentRequests: applyRowChange(session.state.paymentRequests, payload.eventType, row) });
+        })
+        .on('broadcast', { event: '*' }, ({ event, payload }) => {
+            session.broadcastHandlers.get(event)?.forEach(handler => handler(payload || {}));
+        })
+        .on('presence', { event: 'sync' }, () => {
+            setState(session, { presence: readPresence(channel) });
+        });
+
+    session.channel = channel;
+    channel.subscribe((status) => {
+        // Late callbacks from a channel that has already been replaced
+        if (session.channel !== channel) return;
+        console.log(`[Realtime] Bill session ${billId} status: ${status}`);
+        session.isSubscribed = status === 'SUBSCRIBED';
+        if (status === 'SUBSCRIBED') {
+            session.reconnectAttempts = 0;
+            // Tracked again after every (re)connect, since the server forgets us on disconnect
+            trackPresence(session);
+            // Anything that changed between the load and now never came over the channel
+            if (session.state.isLoaded) resync(session);
+            else setState(session, { connection: 'connected' });
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+            if (status !== 'CLOSED') console.error(`[Realtime] Bill session ${billId} channel ${status}`);
+            scheduleReconnect(session);
+        }
+    });
+};
+
+const removeChannel = (session: Session) => {
+    const billId = session.state.billId;
+    const channel = session.channel;
+    session.channel = null;
+    session.isSubscribed = false;
+    if (!channel) return;
+    const closing = supabase.removeChannel(channel)
+        .catch(error => console.warn('billSession: Failed to remove channel for', billId, error))
+        .finally(() => {
+            if (closingChannels.get(billId) === closing) closingChannels.delete(billId);
+        });
+    closingChannels.set(billId, closing);
+};
+
+// Drops the failed channel and opens a new one after the backoff; a new SUBSCRIBED resyncs
+const scheduleReconnect = (session: Session) => {
+    const billId = session.state.billId;
+    if (session.reconnectTimer || sessions.get(billId) !== session) return;
+    const delay = Math.min(BASE_RECONNECT_MS * 2 ** session.reconnectAttempts, MAX_RECONNECT_MS);
+    session.reconnectAttempts += 1;
+    console.log(`[Realtime] Bill session ${billId} reconnecting in ${delay}ms (attempt ${session.reconnectAttempts})`);
+    setState(session, { connection: 'reconnecting' });
+    removeChannel(session);
+    session.reconnectTimer = setTimeout(() => {
+        session.reconnectTimer = null;
+        connect(session);
+    }, delay);
+};
+
+const close = (session: Session) => {
+    sessions.delete(session.state.billId);
+    if (session.reconnectTimer) {
+        clearTimeout(session.reconnectTimer);
+        session.reconnectTimer = null;
+    }
+    removeChannel(session);
+};
+
+// ─── RESYNC ─────────────────────────────────────────────────────────────────
+
+// Cursor for a table's delta: the newest updated_at the session holds, minus the overlap
+const resyncCursor = (rows: { updated_at?: string }[]): string | null => {
+    const newest = rows.reduce((max, row) => Math.max(max, row.updated_at ? Date.parse(row.updated_at) : 0), 0);
+    return newest > 0 ? new Date(newest - RESYNC_OVERLAP_MS).toISOString() : null;
+};
+
+// A full read, as a delta that changed every row
+const snapshotChanges = <T extends { id: string }>(rows: T[]): BillRowChanges<T> => ({
+    changed: rows,
+    ids: rows.map(row => row.id),
+});
+
+const mergeRowChanges = <T extends { id: string }>(
+    rows: T[],
+    { changed, ids }: BillRowChanges<T>,
+    live: Set<string>
+): T[] => {
+    const remaining = new Set(ids);
+    const byId = new Map(changed.map(row => [row.id, row]));
+    const merged = rows
+        .filter(row => remaining.has(row.id) || live.has(row.id))
+        .map(row => (live.has(row.id) ? row : byId.get(row.id) ?? row));
+    // A row realtime deleted meanwhile can still be in the (older) read; it stays gone
+    const added = changed.filter(row => !live.has(row.id) && !rows.some(r => r.id === row.id));
+    return [...merged, ...added];
+};
+
+// Reads back what changed while the channel was down: the bill row, and the items, participants
+// and payment requests updated since the newest ones the session has (or gone from the table)
+const resync = async (session: Session) => {
+    const billId = session.state.billId;
+    if (session.isResyncing) {
+        session.resyncAgain = true;
+        return;
+    }
+    session.isResyncing = true;
+    const live = watchLive(session);
+    try {
+        const { items, participants, paymentRequests } = session.state;
+        const [bill, itemChanges, participantChanges, requestChanges] = await Promise.all([
+            getBill(billId),
+            getBillItemChanges(billId, resyncCursor(items)),
+            getParticipantChanges(billId, resyncCursor(participants)),
+            getPaymentRequestChanges(billId, resyncCursor(paymentRequests)),
+        ]);
+        if (sessions.get(billId) !== session) return;
+
+        const current = session.state;
+        setState(session, {
+            ...(live.has(billId) ? {} : billChanges(bill)),
+            items: mergeRowChanges(current.items, itemChanges, live),
+            participants: mergeRowChanges(current.participants, participantChanges, live),
+            paymentRequests: mergeRowChanges(current.paymentRequests, requestChanges, live),
+            connection: session.isSubscribed ? 'connected' : 'reconnecting',
+        });
+        console.log(`[Realtime] Bill session ${billId} resynced:`,
+            itemChanges.changed.length, 'items,',
+            participantChanges.changed.length, 'participants,',
+            requestChanges.changed.length, 'payment requests');
+    } catch (error) {
+        console.error('billSession: Failed to resync bill', billId, error);
+        // Most likely still offline; the next channel's SUBSCRIBED tries again
+        scheduleReconnect(session);
+    } finally {
+        session.liveWatchers.delete(live);
+        session.isResyncing = false;
+        if (session.resyncAgain) {
+            session.resyncAgain = false;
+            if (session.isSubscribed) resync(session);
+        }
+    }
+};
+
+// ─── HOLDING A SESSION ──────────────────────────────────────────────────────
+
+/**
+ * Opens (or reuses) the session for a bill and returns the function that lets go of it.
+ * Everything below that needs the channel holds the session itself, so callers only use
+ * this directly for work that should keep the bill live without reading it.
+ */
+export const acquireBillSession = (billId: string): (() => void) => {
+    let session = sessions.get(billId);
+    if (!session) {
+        const created: Session = {
+            state: { ...IDLE_STATE, billId },
+            channel: null,
+            isSubscribed: false,
+            holders: 0,
+            releaseTimer: null,
+            reconnectTimer: null,
+            reconnectAttempts: 0,
+            liveWatchers: new Set(),
+            isResyncing: false,
+            resyncAgain: false,
+            listeners: new Set(),
+            broadcastHandlers: new Map(),
+            presenceHolders: new Map(),
+        };
+        sessions.set(billId, created);
+        load(created);
+        connect(created);
+        session = created;
+    }
+
+    const held = session;
+    held.holders += 1;
+    if (held.releaseTimer) {
+        clearTimeout(held.releaseTimer);
+        held.releaseTimer = null;
+    }
+
+    let isReleased = false;
+    return () => {
+        if (isReleased) return;
+        isReleased = true;
+        held.holders -= 1;
+        if (held.holders > 0) return;
+        held.releaseTimer = setTimeout(() => close(held), RELEASE_AFTER_MS);
+    };
+};
+
+// Current state; a stable object until something changes, as useSyncExternalStore expects
+export const getBillSession = (billId: string): BillSessionState =>
+    sessions.get(billId)?.state ?? IDLE_STATE;
+
+export const subscribeToBillSession = (billId: string, listener: () => void): (() => void) => {
+    const release = acquireBillSession(billId);
+    const session = sessions.get(billId)!;
+    session.listeners.add(listener);
+    return () => {
+        session.listeners.delete(listener);
+        release();
+    };
+};
+
+// Fetches everything again, e.g. after writes that skip realtime
+export const refreshBillSession = async (billId: string): Promise<void> => {
+    const session = sessions.get(billId);
+    if (session) await load(session);
+};
+
+// ─── LOCAL CHANGES ──────────────────────────────────────────────────────────
+// Optimistic updates and rows a screen just wrote. Realtime echoes of the same rows merge by id.
+
+const updateList = <K extends 'items' | 'participants' | 'paymentRequests'>(
+    billId: string,
+    key: K,
+    next: SessionUpdate<BillSessionState[K]>
+) => {
+    const session = sessions.get(billId);
+    if (!session) return;
+    const value = typeof next === 'function' ? next(session.state[key]) : next;
+    setState(session, { [key]: value } as Partial<BillSessionState>);
+};
+
+export const setSessionItems = (billId: string, next: SessionUpdate<BillItem[]>) =>
+    updateList(billId, 'items', next);
+
+export const setSessionParticipants = (billId: string, next: SessionUpdate<Participant[]>) =>
+    updateList(billId, 'participants', next);
+
+export const setSessionPaymentRequests = (billId: string, next: SessionUpdate<PaymentRequest[]>) =>
+    updateList(billId, 'paymentRequests', next);
+
+export const patchSessionBill = (billId: string, changes: Record<string, any>) => {
+    const session = sessions.get(billId);
+    if (!session) return;
+    setState(session, billChanges({ ...(session.state.bill || {}), ...changes }));
+};
+
+// ─── BROADCAST ──────────────────────────────────────────────────────────────
+
+// Ephemeral events for everyone else on the bill (the sender doesn't get its own)
+export const sendBillBroadcast = (billId: string, event: string, payload: Record<string, any> = {}) => {
+    const channel = sessions.get(billId)?.channel;
+    if (!channel) {
+        console.warn('billSession: No channel to broadcast', event, 'on bill', billId);
+        return;
+    }
+    channel.send({ type: 'broadcast', event, payload });
+};
+
+export const onBillBroadcast = (billId: string, event: string, handler: BroadcastHandler): (() => void) => {
+    const release = acquireBillSession(billId);
+    const session = sessions.get(billId)!;
+    const handlers = session.broadcastHandlers.get(event) ?? new Set<BroadcastHandler>();
+    handlers.add(handler);
+    session.broadcastHandlers.set(event, handlers);
+    return () => {
+        handlers.delete(handler);
+        release();
+    };
+};
+
+// ─── PRESENCE ───────────────────────────────────────────────────────────────
+
+// Shows this device on the bill's presence until leave(). The lobby hands over to the editor with
+// router.replace, so both can hold it for a moment; whichever updated last is what others see.
+export const joinBillPresence = (billId: string, presence: BillPresence): PresenceHandle => {
+    const release = acquireBillSession(billId);
+    const session = sessions.get(billId)!;
+    const token = {};
+    let hasLeft = false;
+
+    const update = (next: BillPresence) => {
+        if (hasLeft) return;
+        session.presenceHolders.delete(token);
+        session.presenceHolders.set(token, next);
+        trackPresence(session);
+    };
+    update(presence);
+
+    return {
+        update,
+        leave: () => {
+            if (hasLeft) return;
+            hasLeft = true;
+            session.presenceHolders.delete(token);
+            trackPresence(session);
+            release();
+        },
+    };
+};
@@ -0,0 +1,62 @@
+/**
+ * The receipt-scanner interface and the fixture provider, which answers every scan with a
+ * recorded receipt from data/receiptFixtures.ts. No React Native or Supabase imports, so
+ * Node scripts (test_frontend.ts) can scan from fixtures; the backend providers and the
+ * provider selection live in services/receiptScanner.ts.
+ */
+
+import { readScanResponse, SCAN_CANCELED_MESSAGE, ScanOptions, ScanResponse, ScanStage } from '../utils/scanResponse';
+import { receiptFixtures } from '../data/receiptFixtures';
+
+export type ScannerId = 'cloud' | 'local' | 'fixture';
+
+export type ReceiptScanner = {
+    id: ScannerId;
+    label: string;
+    scan: (pages: string[], options?: ScanOptions) => Promise<ScanResponse>; // pages top of the receipt first
+};
+
+export type ReceiptFixture = {
+    name: string;
+    description: string;
+    response?: any; // recorded /api/v1/scan body
+    error?: string; // thrown instead of a response, to exercise the failure paths
+};
+
+// Simulated round trip so loading states show up when scanning from fixtures
+const FIXTURE_DELAY_MS = 1200;
+const FIXTURE_STAGES: ScanStage[] = ['uploading', 'analyzing', 'structuring'];
+
+/**
+ * Answers every scan with a recorded receipt. `fixture` picks one by name
+ * (EXPO_PUBLIC_SCANNER_FIXTURE by default); without one the first fixture is used.
+ */
+export function createFixtureScanner(
+    fixtures: ReceiptFixture[] = receiptFixtures,
+    options: { fixture?: string; delayMs?: number } = {}
+): ReceiptScanner {
+    const { fixture = process.env.EXPO_PUBLIC_SCANNER_FIXTURE, delayMs = FIXTURE_DELAY_MS } = options;
+
+    return {
+        id: 'fixture',
+        label: 'Recorded receipts',
+        scan: async (pages, { signal, onStage } = {}) => {
+            const chosen = fixtures.find(f => f.name === fixture) || fixtures[0];
+            if (!chosen) throw new Error('No receipt fixtures to scan with.');
+            if (fixture && chosen.name !== fixture) {
+                console.warn(`[Scanner] Unknown fixture "${fixture}", using "${chosen.name}"`);
+            }
+            console.log(`[Scanner] Fixture "${chosen.name}" for ${pages.length} page(s)`);
+
+            // The round trip is spread over the same stages the backend reports
+            for (const stage of FIXTURE_STAGES) {
+                if (signal?.aborted) throw new Error(SCAN_CANCELED_MESSAGE);
+                onStage?.(stage);
+                await new Promise(resolve => setTimeout(resolve, delayMs / FIXTURE_STAGES.length));
+            }
+            if (signal?.aborted) throw new Error(SCAN_CANCELED_MESSAGE);
+            if (chosen.error) throw new Error(chosen.error);
+            return readScanResponse(chosen.response);
+        },
+    };
+}
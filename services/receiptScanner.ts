@@ -0,0 +1,82 @@
+/**
+ * Receipt scanner providers. Everything that reads a receipt calls scanReceipt(), which
+ * hands the pages to the active provider:
+ *   cloud   — the Cloud Run backend (default; EXPO_PUBLIC_API_URL points it elsewhere)
+ *   local   — a backend running on this machine (uvicorn on :8000)
+ *   fixture — recorded receipts from data/receiptFixtures.ts; no network or Gemini key
+ *             (services/fixtureScanner.ts, which Node scripts can load without React Native)
+ * Pick one with EXPO_PUBLIC_SCANNER, or swap it at runtime with setReceiptScanner().
+ * startScan() gives the caller the progress stages and a cancel handle.
+ */
+
+import { Platform } from 'react-native';
+import { CLOUD_RUN_URL, scanWithBackend } from '../utils/gemini';
+import { ScanOptions, ScanResponse, ScanStage } from '../utils/scanResponse';
+import { createFixtureScanner, ReceiptScanner, ScannerId } from './fixtureScanner';
+
+export type ScanHandle = {
+    result: Promise<ScanResponse>; // rejects with SCAN_CANCELED_MESSAGE once canceled
+    cancel: () => void;
+};
+
+// ─── PROVIDERS ──────────────────────────────────────────────────────────────
+
+// The Android emulator reaches the host machine through 10.0.2.2
+const getLocalBaseUrl = () => {
+    if (process.env.EXPO_PUBLIC_LOCAL_API_URL) {
+        return process.env.EXPO_PUBLIC_LOCAL_API_URL;
+    }
+    return Platform.OS === 'android' ? 'http://10.0.2.2:8000' : 'http://localhost:8000';
+};
+
+// A provider for any backend serving the scan job API; the URL is read on every scan
+export function createBackendScanner(id: ScannerId, label: string, getBaseUrl: () => string): ReceiptScanner {
+    return {
+        id,
+        label,
+        scan: (pages, options) => scanWithBackend(getBaseUrl(), pages, options),
+    };
+}
+
+export const cloudScanner = createBackendScanner('cloud', 'Cloud Run', () => process.env.EXPO_PUBLIC_API_URL || CLOUD_RUN_URL);
+
+export const localScanner = createBackendScanner('local', 'Local backend', getLocalBaseUrl);
+
+const SCANNERS: Record<ScannerId, ReceiptScanner> = {
+    cloud: cloudScanner,
+    local: localScanner,
+    fixture: createFixtureScanner(),
+};
+
+// ─── SELECTION ──────────────────────────────────────────────────────────────
+
+let activeScanner: ReceiptScanner | null = null;
+
+export function getReceiptScanner(): ReceiptScanner {
+    if (activeScanner) return activeScanner;
+
+    const id = process.env.EXPO_PUBLIC_SCANNER;
+    if (id && id in SCANNERS) return SCANNERS[id as ScannerId];
+    if (id) console.warn(`[Scanner] Unknown EXPO_PUBLIC_SCANNER "${id}", using Cloud Run`);
+    return cloudScanner;
+}
+
+// Tests and dev tools swap the provider here; null goes back to EXPO_PUBLIC_SCANNER
+export function setReceiptScanner(scanner: ReceiptScanner | ScannerId | null): void {
+    activeScanner = typeof scanner === 'string' ? SCANNERS[scanner] : scanner;
+}
+
+export const scanReceipt = async (pages: string[], options?: ScanOptions): Promise<ScanResponse> => {
+    const scanner = getReceiptScanner();
+    console.log(`[Scanner] Scanning ${pages.length} page(s) with ${scanner.label}`);
+    return scanner.scan(pages, options);
+};
+
+// A scan the caller can watch and cancel (the capture screen's progress UI)
+export function startScan(pages: string[], onStage?: (stage: ScanStage) => void): ScanHandle {
+    const controller = new AbortController();
+    return {
+        result: scanReceipt(pages, { signal: controller.signal, onStage }),
+        cancel: () => controller.abort(),
+    };
+}
@@ -0,0 +1,263 @@
+/**
+ * Offline scan queue. A scan that fails for lack of a connection is kept on the device
+ * (page images copied out of the cache, metadata in AsyncStorage) and retried with
+ * exponential backoff until it parses, at which point it becomes a regular draft bill.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Crypto from 'expo-crypto';
+import { scanReceipt } from './receiptScanner';
+import { isScanJobLost } from '../utils/gemini';
+import { prepareScannedItems } from '../utils/receiptItems';
+import { uploadReceiptImages } from '../utils/photoUpload';
+import { isPdfPage } from '../utils/receiptImport';
+import { createScannedBill } from './billService';
+
+const STORAGE_KEY = '@divvit_scan_queue';
+const QUEUE_DIR = `${FileSystem.documentDirectory}scan-queue/`;
+
+// 30s, 1m, 2m, 4m… capped at 30 minutes
+const BASE_DELAY_MS = 30000;
+const MAX_DELAY_MS = 30 * 60000;
+
+export type QueuedScanStatus = 'pending' | 'processing' | 'failed';
+
+export type QueuedScan = {
+    id: string;
+    hostId: string;
+    hostName: string;
+    currency: string;
+    pages: string[]; // file uris under the queue directory (.jpg photos, .pdf documents), top of the receipt first
+    createdAt: string;
+    attempts: number;
+    nextAttemptAt: string;
+    lastError: string | null;
+    status: QueuedScanStatus; // 'failed' = the backend rejected it; only a manual retry runs it again
+    billId?: string; // the draft it becomes, fixed before the first save so a retry resumes it
+};
+
+// 'retrying' = running now or right after the run in progress; 'in_progress' = already being tried
+export type ScanRetryStatus = 'retrying' | 'in_progress' | 'not_found';
+
+export type ScanQueueEvent = { type: 'changed' } | { type: 'completed'; scanId: string; billId: string };
+
+type Listener = (scans: QueuedScan[], event: ScanQueueEvent) => void;
+
+const listeners = new Set<Listener>();
+let isProcessing = false;
+// A host whose queue should run again as soon as the current run ends (a retry tapped mid-run)
+let rerunHostId: string | null = null;
+
+// ─── STORAGE ────────────────────────────────────────────────────────────────
+
+const readQueue = async (): Promise<QueuedScan[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.error('scanQueue: Failed to read queue:', error);
+        return [];
+    }
+};
+
+const writeQueue = async (scans: QueuedScan[], event: ScanQueueEvent = { type: 'changed' }) => {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(scans));
+    listeners.forEach(listener => listener(scans, event));
+};
+
+const updateScan = async (scanId: string, changes: Partial<QueuedScan>) => {
+    const scans = await readQueue();
+    await writeQueue(scans.map(s => (s.id === scanId ? { ...s, ...changes } : s)));
+};
+
+const deletePages = async (scan: QueuedScan) => {
+    await FileSystem.deleteAsync(`${QUEUE_DIR}${scan.id}/`, { idempotent: true }).catch(error =>
+        console.warn('scanQueue: Failed to delete pages for', scan.id, error)
+    );
+};
+
+// ─── ERRORS & BACKOFF ───────────────────────────────────────────────────────
+
+// Dropped connections and timeouts are worth retrying; a 4xx means the receipt itself was rejected
+export function isRetryableScanError(error: any): boolean {
+    if (isScanJobLost(error)) return true;
+    const message = String(error?.message || error || '');
+    const status = message.match(/^Backend error (\d{3})/);
+    if (status) return Number(status[1]) >= 500 || Number(status[1]) === 408 || Number(status[1]) === 429;
+    if (/logged in/i.test(message)) return false;
+    return /network request failed|timed out|network|fetch|abort/i.test(message) || error?.name === 'TypeError';
+}
+
+export function scanRetryDelay(attempts: number): number {
+    return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+}
+
+// ─── QUEUE OPERATIONS ───────────────────────────────────────────────────────
+
+export const getQueuedScans = async (hostId?: string): Promise<QueuedScan[]> => {
+    const scans = await readQueue();
+    return hostId ? scans.filter(s => s.hostId === hostId) : scans;
+};
+
+// Copies the pages out of the image cache so they survive leaving the capture screen
+export const enqueueScan = async (
+    pages: string[],
+    host: { hostId: string; hostName: string; currency: string },
+    lastError: string | null = null
+): Promise<QueuedScan> => {
+    const id = Crypto.randomUUID();
+    const dir = `${QUEUE_DIR}${id}/`;
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+    const storedPages: string[] = [];
+    for (const [index, uri] of pages.entries()) {
+        const to = `${dir}page-${index + 1}.${isPdfPage(uri) ? 'pdf' : 'jpg'}`;
+        await FileSystem.copyAsync({ from: uri, to });
+        storedPages.push(to);
+    }
+
+    const now = Date.now();
+    const scan: QueuedScan = {
+        id,
+        ...host,
+        pages: storedPages,
+        createdAt: new Date(now).toISOString(),
+        attempts: 1, // the attempt that failed on the capture screen
+        nextAttemptAt: new Date(now + scanRetryDelay(1)).toISOString(),
+        lastError,
+        status: 'pending',
+    };
+    await writeQueue([...(await readQueue()), scan]);
+    console.log('scanQueue: Queued scan', id, `(${pages.length} page(s))`);
+    return scan;
+};
+
+export const removeQueuedScan = async (scanId: string): Promise<void> => {
+    const scans = await readQueue();
+    const scan = scans.find(s => s.id === scanId);
+    if (!scan) return;
+    await writeQueue(scans.filter(s => s.id !== scanId));
+    await deletePages(scan);
+};
+
+// Manual retry: make it due now, including scans the backend rejected. While another run is
+// going it is picked up as soon as that run ends.
+export const retryQueuedScan = async (scanId: string): Promise<ScanRetryStatus> => {
+    const scan = (await readQueue()).find(s => s.id === scanId);
+    if (!scan) return 'not_found';
+    if (scan.status === 'processing') return 'in_progress';
+    await updateScan(scanId, { status: 'pending', nextAttemptAt: new Date().toISOString() });
+    if (isProcessing) {
+        rerunHostId = scan.hostId;
+        return 'retrying';
+    }
+    await processScanQueue(scan.hostId);
+    return 'retrying';
+};
+
+// Back online: every waiting scan is due now instead of at the end of its backoff delay.
+// Rejected scans stay put; only the host can send those again.
+export const retryPendingScans = async (hostId: string): Promise<string[]> => {
+    const pending = (await getQueuedScans(hostId)).filter(s => s.status === 'pending');
+    if (pending.length === 0) return [];
+    const now = new Date().toISOString();
+    for (const scan of pending) await updateScan(scan.id, { nextAttemptAt: now });
+    if (isProcessing) {
+        rerunHostId = hostId;
+        return [];
+    }
+    return processScanQueue(hostId);
+};
+
+export const subscribeToScanQueue = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Earliest time a pending scan is due, so callers can schedule the next run; null if nothing is waiting
+export const nextScanAttemptAt = async (hostId?: string): Promise<number | null> => {
+    const pending = (await getQueuedScans(hostId)).filter(s => s.status === 'pending');
+    if (pending.length === 0) return null;
+    return Math.min(...pending.map(s => new Date(s.nextAttemptAt).getTime()));
+};
+
+// ─── PROCESSING ─────────────────────────────────────────────────────────────
+
+/**
+ * Runs every due scan for the signed-in host in order. Stops at the first connection
+ * failure, since the rest would fail the same way. Returns the ids of the bills created.
+ */
+export const processScanQueue = async (hostId: string): Promise<string[]> => {
+    if (isProcessing) return [];
+    isProcessing = true;
+    const created: string[] = [];
+
+    try {
+        // A scan left 'processing' by a killed app is due again
+        const stale = (await getQueuedScans(hostId)).filter(s => s.status === 'processing');
+        for (const scan of stale) await updateScan(scan.id, { status: 'pending' });
+
+        const due = (await getQueuedScans(hostId)).filter(s =>
+            s.status === 'pending' && new Date(s.nextAttemptAt).getTime() <= Date.now()
+        );
+
+        for (const scan of due) {
+            await updateScan(scan.id, { status: 'processing' });
+            try {
+                const result = await scanReceipt(scan.pages);
+                if (!result || !result.items || result.items.length === 0) {
+                    throw new Error('Could not parse receipt');
+                }
+
+                // Stored before saving anything, so a save cut off halfway is resumed instead of repeated
+                const draftId = scan.billId ?? Crypto.randomUUID();
+                if (!scan.billId) await updateScan(scan.id, { billId: draftId });
+
+                const billId = await createScannedBill({
+                    billId: draftId,
+                    hostId: scan.hostId,
+                    hostName: scan.hostName,
+                    currency: scan.currency,
+                    result,
+                    items: prepareScannedItems(result.items),
+                    tax: result.tax || 0,
+                });
+                console.log('scanQueue: Scan', scan.id, 'became bill', billId);
+
+                // The pages are deleted below, so the originals have to be stored first
+                await uploadReceiptImages(billId, scan.pages).catch(error =>
+                    console.warn('scanQueue: Failed to upload receipt images for', billId, error)
+                );
+
+                const remaining = (await readQueue()).filter(s => s.id !== scan.id);
+                await writeQueue(remaining, { type: 'completed', scanId: scan.id, billId });
+                await deletePages(scan);
+                created.push(billId);
+            } catch (error: any) {
+                const retryable = isRetryableScanError(error);
+                const attempts = scan.attempts + 1;
+                console.warn('scanQueue: Scan', scan.id, 'failed', retryable ? '(will retry)' : '(rejected)', error?.message);
+                await updateScan(scan.id, {
+                    status: retryable ? 'pending' : 'failed',
+                    attempts,
+                    nextAttemptAt: new Date(Date.now() + scanRetryDelay(attempts)).toISOString(),
+                    lastError: error?.message || 'Scan failed',
+                });
+                if (retryable) break;
+            }
+        }
+    } finally {
+        isProcessing = false;
+    }
+
+    if (rerunHostId) {
+        const nextHostId = rerunHostId;
+        rerunHostId = null;
+        created.push(...await processScanQueue(nextHostId));
+    }
+
+    return created;
+};
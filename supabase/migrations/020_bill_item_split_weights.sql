@@ -0,0 +1,8 @@
+-- Migration 020: Per-item uneven splits (weights or percentages) on bill_items
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS split_mode TEXT NOT NULL DEFAULT 'equal'
+    CHECK (split_mode IN ('equal', 'shares', 'percent'));
+
+-- participant id → weight; NULL means every assignee pays an equal part
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS split_weights JSONB;
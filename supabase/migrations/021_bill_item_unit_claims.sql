@@ -0,0 +1,8 @@
+-- Migration 021: Unit-level claiming for multi-quantity bill_items
+-- split_mode 'units' stores participant id → number of units claimed in split_weights
+ALTER TABLE public.bill_items
+  DROP CONSTRAINT IF EXISTS bill_items_split_mode_check;
+
+ALTER TABLE public.bill_items
+  ADD CONSTRAINT bill_items_split_mode_check
+    CHECK (split_mode IN ('equal', 'shares', 'percent', 'units'));
@@ -0,0 +1,11 @@
+-- Migration 022: Discount lines (coupons, happy hour, comps) on bill_items
+-- Discount rows carry a negative price. applies_to points at the discounted item;
+-- NULL means the discount is shared out across the whole bill.
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'item'
+    CHECK (kind IN ('item', 'discount'));
+
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS applies_to UUID REFERENCES public.bill_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_bill_items_applies_to ON public.bill_items(applies_to);
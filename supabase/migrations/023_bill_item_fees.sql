@@ -0,0 +1,19 @@
+-- Migration 023: Fee lines (service charges, auto-gratuity, delivery, card surcharges)
+-- Fees sit outside the subtotal and each carries its own allocation rule:
+--   proportional = by each person's share of the subtotal
+--   equal        = same amount for everyone
+--   assigned     = only the people in assigned_ids
+ALTER TABLE public.bill_items
+  DROP CONSTRAINT IF EXISTS bill_items_kind_check;
+
+ALTER TABLE public.bill_items
+  ADD CONSTRAINT bill_items_kind_check
+    CHECK (kind IN ('item', 'discount', 'fee'));
+
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS fee_type TEXT
+    CHECK (fee_type IN ('service_charge', 'auto_gratuity', 'delivery', 'card_surcharge', 'other'));
+
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS fee_allocation TEXT NOT NULL DEFAULT 'proportional'
+    CHECK (fee_allocation IN ('proportional', 'equal', 'assigned'));
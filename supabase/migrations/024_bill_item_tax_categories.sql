@@ -0,0 +1,11 @@
+-- Migration 024: Per-item tax categories
+-- standard = taxed at the bill's standard rate (inferred from the receipt tax unless the host sets one)
+-- exempt   = not taxed (groceries, etc.)
+-- custom   = taxed at tax_rate percent (e.g. alcohol surcharged above the standard rate)
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS tax_category TEXT NOT NULL DEFAULT 'standard'
+    CHECK (tax_category IN ('standard', 'exempt', 'custom'));
+
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(6, 3)
+    CHECK (tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100));
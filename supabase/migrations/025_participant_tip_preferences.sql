@@ -0,0 +1,15 @@
+-- Migration 025: Per-person tip preferences
+-- When a bill uses individual tips (details.tipSettings.mode = 'individual'),
+-- each participant picks their own tip percentage on their own device.
+ALTER TABLE public.bill_participants
+  ADD COLUMN IF NOT EXISTS tip_percentage NUMERIC(5, 2)
+    CHECK (tip_percentage IS NULL OR (tip_percentage >= 0 AND tip_percentage <= 100));
+
+-- Participants can update their own row (tip pick); hosts can update any row on their bill
+DROP POLICY IF EXISTS "Participants can update their own row" ON public.bill_participants;
+CREATE POLICY "Participants can update their own row"
+  ON public.bill_participants FOR UPDATE
+  USING (
+    user_id = auth.uid()
+    OR bill_id IN (SELECT id FROM public.bills WHERE host_id = auth.uid())
+  );
@@ -0,0 +1,40 @@
+-- Migration 026: Multiple payers on one bill
+-- When several people paid the check (details.payers), requests are routed to
+-- whichever participant is owed, not always the host.
+ALTER TABLE public.payment_requests
+  ADD COLUMN IF NOT EXISTS to_participant_id UUID REFERENCES public.bill_participants(id) ON DELETE CASCADE;
+
+-- A debtor can now owe more than one creditor on the same bill
+ALTER TABLE public.payment_requests
+  DROP CONSTRAINT IF EXISTS payment_requests_bill_from_participant_unique;
+
+ALTER TABLE public.payment_requests
+  DROP CONSTRAINT IF EXISTS payment_requests_bill_from_to_participant_unique;
+
+ALTER TABLE public.payment_requests
+  ADD CONSTRAINT payment_requests_bill_from_to_participant_unique
+  UNIQUE (bill_id, from_participant_id, to_participant_id);
+
+-- The host tracks every request on their bill, including ones between guests
+DROP POLICY IF EXISTS "payment_requests_host_select" ON public.payment_requests;
+CREATE POLICY "payment_requests_host_select" ON public.payment_requests FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bills
+    WHERE id = payment_requests.bill_id
+    AND host_id = auth.uid()
+  )
+);
+
+-- Creditors without an account can't confirm, so the host confirms on their behalf
+DROP POLICY IF EXISTS "payment_requests_host_update" ON public.payment_requests;
+CREATE POLICY "payment_requests_host_update" ON public.payment_requests
+FOR UPDATE USING (
+  to_user_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.bills
+    WHERE id = payment_requests.bill_id
+    AND host_id = auth.uid()
+  )
+)
+WITH CHECK (status IN ('sent', 'confirmed'));
@@ -0,0 +1,29 @@
+-- Migration 027: Multi-currency bills
+-- bills.currency is what the receipt is in; settlement_currency is what people
+-- pay each other in. exchange_rate = settlement units per 1 unit of currency.
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS settlement_currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8)
+    CHECK (exchange_rate IS NULL OR exchange_rate > 0);
+
+-- payment_requests.amount stays in the settlement currency; the original is kept alongside
+ALTER TABLE public.payment_requests
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS original_amount DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS original_currency TEXT;
+
+-- Reference rates the app can pull instead of the host typing one in
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  base_currency  TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate           NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  updated_at     TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (base_currency, quote_currency)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "exchange_rates_select" ON public.exchange_rates;
+CREATE POLICY "exchange_rates_select" ON public.exchange_rates FOR SELECT
+USING (auth.role() = 'authenticated');
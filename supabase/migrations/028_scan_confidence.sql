@@ -0,0 +1,5 @@
+-- Migration 028: Scan confidence per line
+-- {"name": 0-1, "price": 0-1} from the receipt scanner; a field goes to null once
+-- the host edits or confirms it. NULL for lines typed in by hand.
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS confidence JSONB;
@@ -0,0 +1,20 @@
+-- Migration 029: Receipt details kept with the bill
+-- merchant and transaction_date come from the scan; receipt_image_urls are the
+-- original photos (one per page, top of the receipt first) in the receipt-images bucket.
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS merchant TEXT,
+  ADD COLUMN IF NOT EXISTS transaction_date DATE,
+  ADD COLUMN IF NOT EXISTS receipt_image_urls TEXT[];
+
+-- Create receipt-images storage bucket (public, like bill-photos)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipt-images', 'receipt-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload receipt images" ON storage.objects;
+CREATE POLICY "Users can upload receipt images" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'receipt-images' AND auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Anyone can view receipt images" ON storage.objects;
+CREATE POLICY "Anyone can view receipt images" ON storage.objects
+  FOR SELECT USING (bucket_id = 'receipt-images');
@@ -0,0 +1,81 @@
+-- Migration 030: Duplicate receipt detection
+-- Two people at the same table scanning the same receipt end up with competing parties.
+-- Before a scanned bill is created the app asks find_duplicate_bills() for open bills with
+-- the same merchant, transaction date and total, hosted by the user or by someone they've
+-- split with in the last 90 days, and offers to join that party instead.
+--
+-- SECURITY DEFINER because a partner's new bill isn't visible through RLS until the user
+-- joins it; only the fields the prompt needs are returned.
+CREATE OR REPLACE FUNCTION public.find_duplicate_bills(
+  p_merchant TEXT,
+  p_transaction_date DATE,
+  p_total NUMERIC
+)
+RETURNS TABLE (
+  bill_id UUID,
+  host_id UUID,
+  host_name TEXT,
+  merchant TEXT,
+  transaction_date DATE,
+  total_amount NUMERIC,
+  status TEXT,
+  participant_count INTEGER,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH partners AS (
+    SELECT auth.uid() AS user_id
+    UNION
+    SELECT other.user_id
+      FROM public.bill_participants mine
+      JOIN public.bill_participants other ON other.bill_id = mine.bill_id
+      JOIN public.bills b ON b.id = mine.bill_id
+     WHERE mine.user_id = auth.uid()
+       AND other.user_id IS NOT NULL
+       AND b.created_at > NOW() - INTERVAL '90 days'
+  )
+  SELECT b.id,
+         b.host_id,
+         host.name,
+         b.merchant,
+         b.transaction_date,
+         b.total_amount,
+         b.status,
+         (SELECT COUNT(*)::INTEGER FROM public.bill_participants p WHERE p.bill_id = b.id),
+         b.created_at
+    FROM public.bills b
+    LEFT JOIN public.bill_participants host
+      ON host.bill_id = b.id AND host.user_id = b.host_id
+   WHERE b.host_id IN (SELECT user_id FROM partners)
+     AND b.status IN ('draft', 'active', 'tip_selection')
+     AND b.created_at > NOW() - INTERVAL '7 days'
+     AND LOWER(TRIM(b.merchant)) = LOWER(TRIM(p_merchant))
+     AND b.transaction_date = p_transaction_date
+     AND ABS(b.total_amount - p_total) < 0.01
+   ORDER BY b.created_at DESC
+   LIMIT 5;
+$$;
+
+-- Challenge receipts already claimed. The backend records a fingerprint of the receipt
+-- (merchant, date and total, the same key as above) before awarding points, so the same
+-- receipt can't be submitted to a challenge twice, by the same user or a friend.
+CREATE TABLE IF NOT EXISTS public.challenge_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  receipt_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (challenge_id, receipt_hash)
+);
+
+-- Written by the backend with the service role; users can see their own claims
+ALTER TABLE public.challenge_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their challenge receipts" ON public.challenge_receipts;
+CREATE POLICY "Users can view their challenge receipts"
+  ON public.challenge_receipts FOR SELECT
+  USING (user_id = auth.uid());
@@ -0,0 +1,60 @@
+-- Migration 031: Conflict-safe claims
+-- Claims used to be read-merge-write from the client: two people tapping the same item at the
+-- same moment each wrote their own merged list and one claim was lost. update_item_assignees()
+-- adds and removes participants under a row lock, against whatever the item holds right then.
+-- Like the client's plain (re)assignments it resets any uneven split.
+--
+-- SECURITY INVOKER: the bill_items UPDATE policy still decides who may claim.
+CREATE OR REPLACE FUNCTION public.update_item_assignees(
+  p_item_id UUID,
+  p_add TEXT[] DEFAULT '{}',
+  p_remove TEXT[] DEFAULT '{}'
+)
+RETURNS public.bill_items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.bill_items;
+  v_status TEXT;
+  v_ids TEXT[];
+BEGIN
+  SELECT * INTO v_item FROM public.bill_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  SELECT status INTO v_status FROM public.bills WHERE id = v_item.bill_id;
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_status;
+  END IF;
+
+  v_ids := CASE
+    WHEN v_item.assigned_ids IS NOT NULL THEN string_to_array(v_item.assigned_ids, ',')
+    WHEN v_item.assigned_to IS NOT NULL THEN ARRAY[v_item.assigned_to::TEXT]
+    ELSE ARRAY[]::TEXT[]
+  END;
+
+  -- Existing assignees keep their order; newcomers go on the end
+  v_ids := ARRAY(
+    SELECT id FROM unnest(v_ids) WITH ORDINALITY AS t(id, n)
+     WHERE id <> '' AND id <> ALL(p_remove)
+     ORDER BY n
+  );
+  v_ids := v_ids || ARRAY(
+    SELECT id FROM unnest(p_add) WITH ORDINALITY AS t(id, n)
+     WHERE id <> '' AND id <> ALL(v_ids) AND id <> ALL(p_remove)
+     ORDER BY n
+  );
+
+  UPDATE public.bill_items
+     SET assigned_ids = NULLIF(array_to_string(v_ids, ','), ''),
+         assigned_to = v_ids[1]::UUID,
+         split_mode = 'equal',
+         split_weights = NULL
+   WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$;
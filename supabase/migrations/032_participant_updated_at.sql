@@ -0,0 +1,11 @@
+-- Migration 032: bill_participants.updated_at
+-- After a dropped realtime connection the app re-reads only the rows of a bill that changed
+-- while it was away, by updated_at. Items and payment requests already carry it; participants
+-- (renames, tip picks) get the same column and the shared set_updated_at() trigger.
+ALTER TABLE public.bill_participants
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS bill_participants_updated_at ON public.bill_participants;
+CREATE TRIGGER bill_participants_updated_at
+  BEFORE UPDATE ON public.bill_participants
+  FOR EACH ROW EXECUTE PROCEDURE public.set_updated_at();
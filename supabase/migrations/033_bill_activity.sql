@@ -0,0 +1,269 @@
+-- Migration 033: Bill activity log
+-- A mistaken "Split Evenly", "Randomize" or "Clear" used to wipe every assignment on the bill
+-- with no way back. bill_activity is an append-only history per bill: who added, removed,
+-- renamed, repriced or (re)assigned an item, changed the tip or moved the bill on, and when.
+--
+-- Rows are only ever written by the triggers and undo_bulk_assignment() below (SECURITY
+-- DEFINER); clients can read them but have no INSERT, UPDATE or DELETE policy. Item changes
+-- are only logged while the bill is 'active', so creating a bill from a scan doesn't flood it.
+--
+-- Every row carries the id of the transaction that wrote it. One statement changing the
+-- assignments of several items (Split Evenly, Clear, a bill-wide custom split, Randomize)
+-- therefore shows up as one group of 'assignment' rows, which is what the host can undo.
+CREATE TABLE IF NOT EXISTS public.bill_activity (
+  id             UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bill_id        UUID REFERENCES public.bills(id) ON DELETE CASCADE NOT NULL,
+  actor_id       UUID DEFAULT auth.uid(),  -- null when the backend made the change
+  action         TEXT NOT NULL
+                 CHECK (action IN ('item_added', 'item_removed', 'item_renamed', 'item_repriced',
+                                   'assignment', 'tip', 'tip_choice', 'status', 'undo')),
+  item_id        UUID,  -- no FK: the item may be deleted later and its history should stay
+  participant_id UUID,  -- whose own tip pick changed ('tip_choice')
+  before         JSONB,
+  after          JSONB,
+  txid           BIGINT NOT NULL DEFAULT txid_current(),
+  created_at     TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.bill_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "bill_activity_select" ON public.bill_activity FOR SELECT
+USING (
+  bill_id IN (SELECT id FROM public.bills WHERE host_id = auth.uid())
+  OR is_bill_participant(bill_id, auth.uid())
+);
+
+CREATE INDEX idx_bill_activity_bill_id ON public.bill_activity(bill_id, created_at DESC);
+
+-- The assignment columns an undo puts back
+CREATE OR REPLACE FUNCTION public.bill_item_assignment(p_item public.bill_items)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'assigned_ids', p_item.assigned_ids,
+    'assigned_to', p_item.assigned_to,
+    'split_mode', p_item.split_mode,
+    'split_weights', p_item.split_weights
+  );
+$$;
+
+-- ─── Item changes ────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_bill_item_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.bill_items;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  -- Also skips the cascade when a whole bill is deleted: the bill row is already gone
+  IF NOT EXISTS (SELECT 1 FROM public.bills WHERE id = v_row.bill_id AND status = 'active') THEN
+    RETURN v_row;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, after)
+    VALUES (NEW.bill_id, 'item_added', NEW.id, jsonb_build_object('name', NEW.name, 'price', NEW.price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before)
+    VALUES (OLD.bill_id, 'item_removed', OLD.id, jsonb_build_object('name', OLD.name, 'price', OLD.price));
+    RETURN OLD;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after)
+    VALUES (NEW.bill_id, 'item_renamed', NEW.id,
+            jsonb_build_object('name', OLD.name), jsonb_build_object('name', NEW.name));
+  END IF;
+
+  IF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after)
+    VALUES (NEW.bill_id, 'item_repriced', NEW.id,
+            jsonb_build_object('name', OLD.name, 'price', OLD.price),
+            jsonb_build_object('name', NEW.name, 'price', NEW.price));
+  END IF;
+
+  IF public.bill_item_assignment(NEW) IS DISTINCT FROM public.bill_item_assignment(OLD) THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after)
+    VALUES (NEW.bill_id, 'assignment', NEW.id,
+            public.bill_item_assignment(OLD),
+            public.bill_item_assignment(NEW) || jsonb_build_object('name', NEW.name));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bill_items_activity ON public.bill_items;
+CREATE TRIGGER bill_items_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.bill_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_bill_item_activity();
+
+-- ─── Tip and status ──────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_bill_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.bill_activity (bill_id, action, before, after)
+    VALUES (NEW.id, 'status',
+            jsonb_build_object('status', OLD.status), jsonb_build_object('status', NEW.status));
+  END IF;
+
+  -- The tip lives in details (see updateBillTip); tipSettings says how it was worked out
+  IF NEW.details->'tip' IS DISTINCT FROM OLD.details->'tip'
+     OR NEW.details->'tipSettings' IS DISTINCT FROM OLD.details->'tipSettings' THEN
+    INSERT INTO public.bill_activity (bill_id, action, before, after)
+    VALUES (NEW.id, 'tip',
+            jsonb_build_object('tip', OLD.details->'tip', 'tipSettings', OLD.details->'tipSettings'),
+            jsonb_build_object('tip', NEW.details->'tip', 'tipSettings', NEW.details->'tipSettings'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bills_activity ON public.bills;
+CREATE TRIGGER bills_activity
+  AFTER UPDATE ON public.bills
+  FOR EACH ROW EXECUTE FUNCTION public.log_bill_activity();
+
+-- Individual tip mode: each participant's own percentage (migration 025)
+CREATE OR REPLACE FUNCTION public.log_participant_tip_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tip_percentage IS DISTINCT FROM OLD.tip_percentage THEN
+    INSERT INTO public.bill_activity (bill_id, action, participant_id, before, after)
+    VALUES (NEW.bill_id, 'tip_choice', NEW.id,
+            jsonb_build_object('tip_percentage', OLD.tip_percentage),
+            jsonb_build_object('tip_percentage', NEW.tip_percentage, 'name', NEW.name));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bill_participants_activity ON public.bill_participants;
+CREATE TRIGGER bill_participants_activity
+  AFTER UPDATE ON public.bill_participants
+  FOR EACH ROW EXECUTE FUNCTION public.log_participant_tip_activity();
+
+-- ─── Bulk assignments ────────────────────────────────────────────────────────
+
+-- Several items (re)assigned in one transaction. Randomize gives every item its own
+-- assignee, which the client used to send as one request per item; doing it here keeps the
+-- whole shuffle in one transaction, so it lands (and is undone) all together.
+-- p_assignments: [{ "id": item id, "assigned_ids": "participant,ids" }]
+--
+-- SECURITY INVOKER: the bill_items UPDATE policy still decides who may assign.
+CREATE OR REPLACE FUNCTION public.set_item_assignments(
+  p_bill_id UUID,
+  p_assignments JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM public.bills WHERE id = p_bill_id;
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_status;
+  END IF;
+
+  UPDATE public.bill_items i
+     SET assigned_ids = NULLIF(a.assigned_ids, ''),
+         assigned_to = NULLIF(split_part(a.assigned_ids, ',', 1), '')::UUID,
+         split_mode = 'equal',
+         split_weights = NULL
+    FROM jsonb_to_recordset(p_assignments) AS a(id UUID, assigned_ids TEXT)
+   WHERE i.id = a.id
+     AND i.bill_id = p_bill_id;
+END;
+$$;
+
+-- Host-only undo of the most recent bulk assignment that hasn't been undone yet. Each item
+-- goes back to what it held before, unless it has been changed again since; those are left
+-- alone so nobody's later claim is thrown away. The undo is itself appended to the log
+-- (action 'undo', after.txid = the transaction it reverses) and is never offered for undo.
+-- Returns how many items were put back.
+CREATE OR REPLACE FUNCTION public.undo_bulk_assignment(p_bill_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill public.bills;
+  v_txid BIGINT;
+  v_entry public.bill_activity;
+  v_restored INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND OR v_bill.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can undo changes on this bill';
+  END IF;
+  IF v_bill.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_bill.status;
+  END IF;
+
+  SELECT a.txid INTO v_txid
+    FROM public.bill_activity a
+   WHERE a.bill_id = p_bill_id
+     AND a.action = 'assignment'
+     AND NOT EXISTS (
+       SELECT 1 FROM public.bill_activity u
+        WHERE u.bill_id = p_bill_id
+          AND u.action = 'undo'
+          AND (u.txid = a.txid OR (u.after->>'txid')::BIGINT = a.txid)
+     )
+   GROUP BY a.txid
+  HAVING COUNT(*) > 1
+   ORDER BY MAX(a.created_at) DESC, a.txid DESC
+   LIMIT 1;
+  IF v_txid IS NULL THEN
+    RAISE EXCEPTION 'There is no bulk change to undo';
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM public.bill_activity
+     WHERE bill_id = p_bill_id AND txid = v_txid AND action = 'assignment'
+  LOOP
+    UPDATE public.bill_items i
+       SET assigned_ids = v_entry.before->>'assigned_ids',
+           assigned_to = (v_entry.before->>'assigned_to')::UUID,
+           split_mode = COALESCE(v_entry.before->>'split_mode', 'equal'),
+           split_weights = NULLIF(v_entry.before->'split_weights', 'null'::JSONB)
+     WHERE i.id = v_entry.item_id
+       AND public.bill_item_assignment(i) = v_entry.after - 'name';
+    IF FOUND THEN
+      v_restored := v_restored + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.bill_activity (bill_id, action, after)
+  VALUES (p_bill_id, 'undo', jsonb_build_object('txid', v_txid, 'restored', v_restored, 'skipped', v_skipped));
+
+  RETURN v_restored;
+END;
+$$;
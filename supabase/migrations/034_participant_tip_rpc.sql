@@ -0,0 +1,40 @@
+-- Migration 034: Tip picks through an RPC
+-- Migration 025 let participants UPDATE their own bill_participants row so they could save
+-- their tip pick, but the policy covered every column: a guest could move their row to
+-- another bill, take over someone's user_id or rename themselves on the receipt.
+-- The policy is gone; set_participant_tip_percentage() is now the only way a participant
+-- writes to their row, and it only ever touches tip_percentage.
+DROP POLICY IF EXISTS "Participants can update their own row" ON public.bill_participants;
+
+-- SECURITY DEFINER: with the policy dropped, participants have no UPDATE rights of their own.
+-- The caller must be the participant themselves or the bill's host.
+CREATE OR REPLACE FUNCTION public.set_participant_tip_percentage(
+  p_participant_id UUID,
+  p_tip_percentage NUMERIC
+)
+RETURNS public.bill_participants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant public.bill_participants;
+BEGIN
+  SELECT * INTO v_participant FROM public.bill_participants WHERE id = p_participant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant not found';
+  END IF;
+
+  IF v_participant.user_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM public.bills WHERE id = v_participant.bill_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only change your own tip';
+  END IF;
+
+  UPDATE public.bill_participants
+     SET tip_percentage = p_tip_percentage
+   WHERE id = p_participant_id
+  RETURNING * INTO v_participant;
+
+  RETURN v_participant;
+END;
+$$;
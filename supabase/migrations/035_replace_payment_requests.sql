@@ -0,0 +1,64 @@
+-- Migration 035: One set of payment requests per finalize
+-- Requests to the host have no to_participant_id, and a plain UNIQUE constraint treats NULLs
+-- as distinct, so finalizing a bill a second time (after "Return to splitting") inserted a
+-- second request for every debtor. The constraint now counts NULLs as equal, and
+-- replace_payment_requests() swaps the bill's pending requests for the new ones in one
+-- transaction. Requests someone has already marked sent or confirmed are kept as they are.
+
+-- Keep one row per debtor/creditor pair before tightening the constraint: the one furthest
+-- along, then the oldest
+DELETE FROM public.payment_requests
+ WHERE id IN (
+   SELECT id FROM (
+     SELECT id, ROW_NUMBER() OVER (
+              PARTITION BY bill_id, from_participant_id, to_participant_id
+              ORDER BY CASE status WHEN 'confirmed' THEN 0 WHEN 'sent' THEN 1 ELSE 2 END, created_at
+            ) AS n
+       FROM public.payment_requests
+   ) ranked
+    WHERE n > 1
+ );
+
+ALTER TABLE public.payment_requests
+  DROP CONSTRAINT IF EXISTS payment_requests_bill_from_to_participant_unique;
+
+ALTER TABLE public.payment_requests
+  ADD CONSTRAINT payment_requests_bill_from_to_participant_unique
+  UNIQUE NULLS NOT DISTINCT (bill_id, from_participant_id, to_participant_id);
+
+-- p_requests: payment_requests rows as JSON (from/to ids, amount, currency columns).
+-- bill_id and status are always set here.
+--
+-- SECURITY DEFINER: there is no DELETE policy on payment_requests, so only the bill's host
+-- can clear pending requests, and only through this function.
+CREATE OR REPLACE FUNCTION public.replace_payment_requests(
+  p_bill_id UUID,
+  p_requests JSONB
+)
+RETURNS SETOF public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.bills WHERE id = p_bill_id AND host_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the host can create payment requests for this bill';
+  END IF;
+
+  DELETE FROM public.payment_requests
+   WHERE bill_id = p_bill_id
+     AND status = 'pending';
+
+  RETURN QUERY
+  INSERT INTO public.payment_requests (
+    bill_id, from_participant_id, from_user_id, to_participant_id, to_user_id,
+    amount, currency, original_amount, original_currency, status
+  )
+  SELECT p_bill_id, r.from_participant_id, r.from_user_id, r.to_participant_id, r.to_user_id,
+         r.amount, COALESCE(r.currency, 'USD'), r.original_amount, r.original_currency, 'pending'
+    FROM jsonb_populate_recordset(NULL::public.payment_requests, p_requests) AS r
+  ON CONFLICT ON CONSTRAINT payment_requests_bill_from_to_participant_unique DO NOTHING
+  RETURNING *;
+END;
+$$;
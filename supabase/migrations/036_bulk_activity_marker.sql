@@ -0,0 +1,204 @@
+-- Migration 036: Mark bulk changes explicitly
+-- Migration 033 treated any transaction that reassigned more than one item as a bulk change.
+-- A "Split Evenly" or "Clear" on a bill with a single item (or a Randomize that only moved
+-- one item) wrote one row and could not be undone, while nothing stopped a future multi-item
+-- edit from being offered as one.
+--
+-- The bulk operations now run as functions that flag their transaction (the transaction-local
+-- setting divvit.bulk_change), and the trigger copies that flag onto every 'assignment' row it
+-- writes. Undo and the editor's timeline group by txid among the flagged rows only.
+ALTER TABLE public.bill_activity
+  ADD COLUMN IF NOT EXISTS bulk BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Rows logged before this migration: the old rule is the best there is
+UPDATE public.bill_activity a
+   SET bulk = TRUE
+ WHERE a.action = 'assignment'
+   AND (SELECT COUNT(*) FROM public.bill_activity b
+         WHERE b.bill_id = a.bill_id AND b.txid = a.txid AND b.action = 'assignment') > 1;
+
+-- ─── Item changes ────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_bill_item_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.bill_items;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  -- Also skips the cascade when a whole bill is deleted: the bill row is already gone
+  IF NOT EXISTS (SELECT 1 FROM public.bills WHERE id = v_row.bill_id AND status = 'active') THEN
+    RETURN v_row;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, after)
+    VALUES (NEW.bill_id, 'item_added', NEW.id, jsonb_build_object('name', NEW.name, 'price', NEW.price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before)
+    VALUES (OLD.bill_id, 'item_removed', OLD.id, jsonb_build_object('name', OLD.name, 'price', OLD.price));
+    RETURN OLD;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after)
+    VALUES (NEW.bill_id, 'item_renamed', NEW.id,
+            jsonb_build_object('name', OLD.name), jsonb_build_object('name', NEW.name));
+  END IF;
+
+  IF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after)
+    VALUES (NEW.bill_id, 'item_repriced', NEW.id,
+            jsonb_build_object('name', OLD.name, 'price', OLD.price),
+            jsonb_build_object('name', NEW.name, 'price', NEW.price));
+  END IF;
+
+  IF public.bill_item_assignment(NEW) IS DISTINCT FROM public.bill_item_assignment(OLD) THEN
+    INSERT INTO public.bill_activity (bill_id, action, item_id, before, after, bulk)
+    VALUES (NEW.bill_id, 'assignment', NEW.id,
+            public.bill_item_assignment(OLD),
+            public.bill_item_assignment(NEW) || jsonb_build_object('name', NEW.name),
+            COALESCE(current_setting('divvit.bulk_change', TRUE), '') = 'on');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ─── Bulk assignments ────────────────────────────────────────────────────────
+
+-- Randomize: every item its own assignees. Unchanged from migration 033 apart from the flag.
+-- SECURITY INVOKER: the bill_items UPDATE policy still decides who may assign.
+CREATE OR REPLACE FUNCTION public.set_item_assignments(
+  p_bill_id UUID,
+  p_assignments JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM public.bills WHERE id = p_bill_id;
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_status;
+  END IF;
+
+  PERFORM set_config('divvit.bulk_change', 'on', TRUE);
+
+  UPDATE public.bill_items i
+     SET assigned_ids = NULLIF(a.assigned_ids, ''),
+         assigned_to = NULLIF(split_part(a.assigned_ids, ',', 1), '')::UUID,
+         split_mode = 'equal',
+         split_weights = NULL
+    FROM jsonb_to_recordset(p_assignments) AS a(id UUID, assigned_ids TEXT)
+   WHERE i.id = a.id
+     AND i.bill_id = p_bill_id;
+END;
+$$;
+
+-- Split Evenly, Clear and a bill-wide custom split: every item (not discounts or fees) gets
+-- the same assignees and split. p_assigned_ids: comma-separated participant ids; null clears.
+-- SECURITY INVOKER: the bill_items UPDATE policy still decides who may assign.
+CREATE OR REPLACE FUNCTION public.set_all_item_assignments(
+  p_bill_id UUID,
+  p_assigned_ids TEXT,
+  p_split_mode TEXT DEFAULT 'equal',
+  p_split_weights JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM public.bills WHERE id = p_bill_id;
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_status;
+  END IF;
+
+  PERFORM set_config('divvit.bulk_change', 'on', TRUE);
+
+  UPDATE public.bill_items
+     SET assigned_ids = NULLIF(p_assigned_ids, ''),
+         assigned_to = NULLIF(split_part(p_assigned_ids, ',', 1), '')::UUID,
+         split_mode = COALESCE(p_split_mode, 'equal'),
+         split_weights = p_split_weights
+   WHERE bill_id = p_bill_id
+     AND kind = 'item';
+END;
+$$;
+
+-- Same as migration 033, but picks the latest flagged transaction however many items it moved
+CREATE OR REPLACE FUNCTION public.undo_bulk_assignment(p_bill_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill public.bills;
+  v_txid BIGINT;
+  v_entry public.bill_activity;
+  v_restored INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND OR v_bill.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can undo changes on this bill';
+  END IF;
+  IF v_bill.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Cannot modify items for a bill with status "%"', v_bill.status;
+  END IF;
+
+  SELECT a.txid INTO v_txid
+    FROM public.bill_activity a
+   WHERE a.bill_id = p_bill_id
+     AND a.action = 'assignment'
+     AND a.bulk
+     AND NOT EXISTS (
+       SELECT 1 FROM public.bill_activity u
+        WHERE u.bill_id = p_bill_id
+          AND u.action = 'undo'
+          AND (u.txid = a.txid OR (u.after->>'txid')::BIGINT = a.txid)
+     )
+   GROUP BY a.txid
+   ORDER BY MAX(a.created_at) DESC, a.txid DESC
+   LIMIT 1;
+  IF v_txid IS NULL THEN
+    RAISE EXCEPTION 'There is no bulk change to undo';
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM public.bill_activity
+     WHERE bill_id = p_bill_id AND txid = v_txid AND action = 'assignment' AND bulk
+  LOOP
+    UPDATE public.bill_items i
+       SET assigned_ids = v_entry.before->>'assigned_ids',
+           assigned_to = (v_entry.before->>'assigned_to')::UUID,
+           split_mode = COALESCE(v_entry.before->>'split_mode', 'equal'),
+           split_weights = NULLIF(v_entry.before->'split_weights', 'null'::JSONB)
+     WHERE i.id = v_entry.item_id
+       AND public.bill_item_assignment(i) = v_entry.after - 'name';
+    IF FOUND THEN
+      v_restored := v_restored + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.bill_activity (bill_id, action, after)
+  VALUES (p_bill_id, 'undo', jsonb_build_object('txid', v_txid, 'restored', v_restored, 'skipped', v_skipped));
+
+  RETURN v_restored;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Migration 037: Scan jobs in the database
+-- Background scans (POST /api/v1/scan/jobs) used to live in the memory of the Cloud Run
+-- instance that started them. A poll routed to another instance, or an instance scaled
+-- down mid-scan, answered 404 and the scan failed for good. The backend now keeps each
+-- job's stage and result here, so any instance can answer a poll or a cancel.
+--
+-- Only the backend (service role) reads and writes these rows; the app goes through the API,
+-- so RLS is on with no policies. Finished jobs are deleted after ten minutes by the backend.
+CREATE TABLE IF NOT EXISTS public.scan_jobs (
+  id           UUID PRIMARY KEY,
+  user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage        TEXT NOT NULL DEFAULT 'analyzing'
+               CHECK (stage IN ('uploading', 'analyzing', 'structuring')),
+  status       TEXT NOT NULL DEFAULT 'running'
+               CHECK (status IN ('running', 'done', 'failed', 'canceled')),
+  result       JSONB,
+  error        TEXT,
+  error_status INTEGER,  -- HTTP status the synchronous endpoint would have returned
+  created_at   TIMESTAMPTZ DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.scan_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_scan_jobs_created_at ON public.scan_jobs(created_at);
+
+DROP TRIGGER IF EXISTS scan_jobs_updated_at ON public.scan_jobs;
+CREATE TRIGGER scan_jobs_updated_at
+  BEFORE UPDATE ON public.scan_jobs
+  FOR EACH ROW EXECUTE PROCEDURE public.set_updated_at();
@@ -0,0 +1,80 @@
+-- Migration 038: Refuse a re-finalize that would change paid requests
+-- Migration 035 kept requests marked sent or confirmed and skipped the new rows for those
+-- pairs (ON CONFLICT DO NOTHING). When the split changed after "Return to splitting", those
+-- people kept their old amounts and nobody was told.
+--
+-- replace_payment_requests() now compares the new requests with the ones already sent or
+-- confirmed. If an amount or currency differs, or a paid request has no counterpart in the
+-- new split, it raises SQLSTATE DV409 with the conflicting pairs as JSON in DETAIL and
+-- changes nothing. Nobody can move a request back to pending, so once the host has seen the
+-- conflicts they can finalize anyway with p_keep_paid: paid requests stay as they were, as
+-- migration 035 did silently.
+
+-- p_requests: payment_requests rows as JSON (from/to ids, amount, currency columns).
+-- bill_id and status are always set here.
+--
+-- SECURITY DEFINER: there is no DELETE policy on payment_requests, so only the bill's host
+-- can clear pending requests, and only through this function.
+DROP FUNCTION IF EXISTS public.replace_payment_requests(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.replace_payment_requests(
+  p_bill_id UUID,
+  p_requests JSONB,
+  p_keep_paid BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts JSONB;
+BEGIN
+  PERFORM 1 FROM public.bills WHERE id = p_bill_id AND host_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the host can create payment requests for this bill';
+  END IF;
+
+  -- new_amount / new_currency are null when the new split has no request for the pair
+  SELECT jsonb_agg(jsonb_build_object(
+           'from_participant_id', p.from_participant_id,
+           'to_participant_id', p.to_participant_id,
+           'status', p.status,
+           'amount', p.amount,
+           'currency', p.currency,
+           'new_amount', r.amount,
+           'new_currency', CASE WHEN r.from_participant_id IS NULL THEN NULL ELSE COALESCE(r.currency, 'USD') END
+         ))
+    INTO v_conflicts
+    FROM public.payment_requests p
+    LEFT JOIN jsonb_populate_recordset(NULL::public.payment_requests, p_requests) AS r
+      ON r.from_participant_id = p.from_participant_id
+     AND r.to_participant_id IS NOT DISTINCT FROM p.to_participant_id
+   WHERE p.bill_id = p_bill_id
+     AND p.status IN ('sent', 'confirmed')
+     AND (r.from_participant_id IS NULL
+          OR r.amount IS DISTINCT FROM p.amount
+          OR COALESCE(r.currency, 'USD') IS DISTINCT FROM p.currency);
+
+  IF v_conflicts IS NOT NULL AND NOT COALESCE(p_keep_paid, FALSE) THEN
+    RAISE EXCEPTION 'Payments already sent or confirmed do not match the new split'
+      USING ERRCODE = 'DV409', DETAIL = v_conflicts::TEXT;
+  END IF;
+
+  DELETE FROM public.payment_requests
+   WHERE bill_id = p_bill_id
+     AND status = 'pending';
+
+  -- Whatever still conflicts is a paid request: the same amount, or one the host chose to keep
+  RETURN QUERY
+  INSERT INTO public.payment_requests (
+    bill_id, from_participant_id, from_user_id, to_participant_id, to_user_id,
+    amount, currency, original_amount, original_currency, status
+  )
+  SELECT p_bill_id, r.from_participant_id, r.from_user_id, r.to_participant_id, r.to_user_id,
+         r.amount, COALESCE(r.currency, 'USD'), r.original_amount, r.original_currency, 'pending'
+    FROM jsonb_populate_recordset(NULL::public.payment_requests, p_requests) AS r
+  ON CONFLICT ON CONSTRAINT payment_requests_bill_from_to_participant_unique DO NOTHING
+  RETURNING *;
+END;
+$$;
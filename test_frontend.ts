@@ -1,30 +1,63 @@
 /**
  * test_frontend.ts
- * A standalone Node.js script to test the frontend utility logic.
- * Run with: npx ts-node test_frontend.ts
+ * A standalone Node.js script that runs every recorded receipt through the fixture scanner
+ * and checks the responses are usable for bill creation. Needs no network or Gemini key.
+ * Run with: npx sucrase-node test_frontend.ts
+ *
+ * This covers the scan step only. The cloud and local providers sign requests with the
+ * app's Supabase session, and bills and parties are written to Supabase, so those are
+ * exercised from the app (EXPO_PUBLIC_SCANNER=local, against a `supabase start` stack).
  */
 
-import { parseReceiptWithGemini } from './utils/gemini';
+import { createFixtureScanner, ReceiptScanner } from './services/fixtureScanner';
+import { receiptFixtures } from './data/receiptFixtures';
+import { ScanResponse } from './utils/scanResponse';
 
 // Mock image URI (using a local file path as if it were a URI)
 const MOCK_IMAGE_URI = 'assets/images/icon.png';
 
-async function runTest() {
-    console.log('Testing parseReceiptWithGemini...');
+// Shape problems that would break bill creation; an empty list means the response is usable
+function checkResponse(result: ScanResponse): string[] {
+    const problems: string[] = [];
+    if (!result.items || result.items.length === 0) problems.push('no items');
+    result.items.forEach((item, index) => {
+        if (!item.name) problems.push(`item ${index + 1} has no name`);
+        if (typeof item.price !== 'number' || Number.isNaN(item.price)) problems.push(`item ${index + 1} has no price`);
+    });
+    if (!result.confidence) problems.push('no totals confidence');
+    return problems;
+}
 
+async function scanOnce(label: string, scanner: ReceiptScanner): Promise<boolean> {
     try {
-        const result = await parseReceiptWithGemini(MOCK_IMAGE_URI);
-        console.log('Test PASSED!');
-        console.log('Result:', JSON.stringify(result, null, 2));
-    } catch (error) {
+        const result = await scanner.scan([MOCK_IMAGE_URI]);
+        const problems = checkResponse(result);
+        const lineTotal = result.items.filter(i => i.kind !== 'fee').reduce((sum, i) => sum + i.price, 0);
+        console.log(`${label}: ${result.items.length} items from ${result.merchant || 'unknown merchant'}`
+            + ` — lines ${lineTotal.toFixed(2)} vs printed subtotal ${result.subtotal ?? 'n/a'}`);
+        problems.forEach(problem => console.error(`  ✗ ${problem}`));
+        return problems.length === 0;
+    } catch (error: any) {
+        console.log(`${label}: threw "${error?.message || error}"`);
+        return false;
+    }
+}
+
+async function runTest() {
+    let passed = true;
+
+    // Error fixtures are expected to throw; every other fixture should scan cleanly
+    for (const fixture of receiptFixtures) {
+        const scanner = createFixtureScanner(receiptFixtures, { fixture: fixture.name, delayMs: 0 });
+        const ok = await scanOnce(fixture.name, scanner);
+        if (ok === Boolean(fixture.error)) passed = false;
+    }
+
+    if (!passed) {
         console.error('Test FAILED!');
-        console.error(error);
         process.exit(1);
     }
+    console.log('Test PASSED!');
 }
 
-// Note: This script will fail if 'fetch' or 'FormData' are not available in the environment.
-// It also depends on how 'fetch' handles local file URIs in Node.
-// In a real React Native environment, this works differently.
-
 runTest();
@@ -9,6 +9,9 @@ export type Participant = {
     avatar_url?: string;
     color: string;
     initials: string;
+    tip_percentage?: number | null; // own tip pick when the bill uses individual tips
+    created_at?: string;
+    updated_at?: string;
 };
 
 export type Profile = {
@@ -31,15 +34,104 @@ export type Profile = {
 // Bill status types
 export type BillStatus = 'draft' | 'active' | 'tip_selection' | 'completed' | 'settled';
 
+// How one item is divided among its assignees ('units' = each person claims whole units of a multi-quantity line)
+export type ItemSplitMode = 'equal' | 'shares' | 'percent' | 'units';
+
+// Uneven split for one item: participant id → weight (share count, percentage or units claimed)
+export type ItemSplit = {
+    mode: Exclude<ItemSplitMode, 'equal'>;
+    weights: Record<string, number>;
+};
+
+// 'discount' lines carry a negative price and reduce either one item (applies_to) or the whole bill;
+// 'fee' lines (service charge, auto-gratuity, delivery...) sit outside the subtotal
+export type BillLineKind = 'item' | 'discount' | 'fee';
+
+export type FeeType = 'service_charge' | 'auto_gratuity' | 'delivery' | 'card_surcharge' | 'other';
+
+// How a fee is shared: by subtotal share, evenly, or only by the people in assigned_ids
+export type FeeAllocation = 'proportional' | 'equal' | 'assigned';
+
+export const FEE_TYPE_LABELS: Record<FeeType, string> = {
+    service_charge: 'Service charge',
+    auto_gratuity: 'Auto-gratuity',
+    delivery: 'Delivery fee',
+    card_surcharge: 'Card surcharge',
+    other: 'Fee',
+};
+
+// How an item is taxed: at the bill's standard rate, not at all, or at its own rate (tax_rate, in percent)
+export type TaxCategory = 'standard' | 'exempt' | 'custom';
+
+// How the tip was worked out, saved as bills.details.tipSettings next to the dollar amount
+export type TipBase = 'pre-tax' | 'post-tax';
+
+// 'individual' = each participant picks their own percentage (bill_participants.tip_percentage)
+export type TipMode = 'percentage' | 'custom' | 'none' | 'individual';
+
+export type TipSettings = {
+    mode: TipMode;
+    percentage: number | null; // fraction, e.g. 0.18; in individual mode, the default for anyone who hasn't picked
+    base: TipBase;
+    amount: number; // dollars; combined tip in individual mode
+};
+
+// How a treated participant's share is spread over the people covering it:
+// 'equal' = evenly, 'proportional' = by each payer's own share
+export type TreatMode = 'equal' | 'proportional';
+
+// Read from bills.currency / settlement_currency / exchange_rate (see utils/currency.ts)
+export type BillCurrency = {
+    currency: string; // what the receipt is in
+    settlementCurrency: string; // what people pay each other in
+    exchangeRate: number | null; // settlement units per 1 unit of currency; null when they match
+};
+
+// Someone who paid the check at the table; stored as a list in bills.details.payers.
+// No payers recorded means the host paid the whole bill.
+export type BillPayer = {
+    participantId: string;
+    amount: number; // dollars put down; scaled to the final total when requests are created
+};
+
+// Stored in bills.details.treats, keyed by the treated participant's id
+export type ParticipantTreat = {
+    coveredBy: string[]; // bill_participants.id of the payers
+    mode: TreatMode;
+};
+
+// How sure the scanner was of each value, 0-1; null = unknown or already checked by the host
+export type ItemConfidence = {
+    name: number | null;
+    price: number | null;
+};
+
+// Same for the printed totals; saved as bills.details.confidence
+export type TotalsConfidence = {
+    subtotal: number | null;
+    tax: number | null;
+    total: number | null;
+    scannedTip: number | null;
+};
+
 // Individual bill item (from bill_items table)
 export type BillItem = {
     id: string;
     bill_id: string;
     name: string;
-    price: number;
+    price: number; // line total, not unit price
     quantity: number;
     assigned_to: string | null; // bill_participants.id
     assigned_ids?: string | null; // comma-separated bill_participants.id list
+    split_mode?: ItemSplitMode | null;
+    split_weights?: Record<string, number> | null; // only set when split_mode is not 'equal'
+    kind?: BillLineKind;
+    applies_to?: string | null; // bill_items.id of the discounted item; null = bill-level discount
+    fee_type?: FeeType | null; // fee lines only
+    fee_allocation?: FeeAllocation;
+    tax_category?: TaxCategory;
+    tax_rate?: number | null; // percent; only used when tax_category is 'custom'
+    confidence?: ItemConfidence | null; // scanned lines only
     created_at?: string;
     updated_at?: string;
 };
@@ -50,13 +142,48 @@ export type PaymentRequest = {
     bill_id: string;
     from_participant_id?: string | null;
     from_user_id: string | null;
-    to_user_id: string;
-    amount: number;
+    to_participant_id?: string | null; // creditor; whoever paid the check at the table
+    to_user_id: string | null; // null when the creditor is a guest without an account
+    amount: number; // settlement currency
+    currency?: string;
+    original_amount?: number | null; // in the bill's currency when it differs
+    original_currency?: string | null;
     status: 'pending' | 'sent' | 'confirmed';
     created_at?: string;
     updated_at?: string;
 };
 
+export type BillActivityAction =
+    | 'item_added' | 'item_removed' | 'item_renamed' | 'item_repriced'
+    | 'assignment' | 'tip' | 'tip_choice' | 'status' | 'undo';
+
+// One append-only bill_activity row, written by database triggers (migration 033)
+export type BillActivity = {
+    id: string;
+    bill_id: string;
+    actor_id: string | null; // auth user; null when the backend made the change
+    action: BillActivityAction;
+    item_id: string | null;
+    participant_id: string | null; // whose own tip pick changed ('tip_choice')
+    before: Record<string, any> | null;
+    after: Record<string, any> | null;
+    txid: number; // rows written by the same transaction share it
+    bulk: boolean; // 'assignment' rows written by a bulk operation (migration 036)
+    created_at: string;
+};
+
+// What each open copy of a bill shares on its presence channel; never stored
+export type BillPresence = {
+    participantId: string; // bill_participants.id
+    name: string;
+    screen: 'lobby' | 'editor';
+    idle: boolean; // app in the background, or no touches for a while
+    editingItemId: string | null; // bill_items.id whose name or price is being changed
+};
+
+// Guests added by the host have no device, so they never have a presence
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
 // Participant colors - cycle through these for new participants
 export const PARTICIPANT_COLORS = [
     '#B54CFF', // Purple (primary)
@@ -0,0 +1,51 @@
+import { buildActivityTimeline, latestUndoableTxid } from '../billActivity';
+
+const participants = [
+  { id: 'p1', bill_id: 'bill', user_id: 'u1', name: 'Alex', is_guest: false, color: '#B54CFF', initials: 'AL' },
+  { id: 'p2', bill_id: 'bill', user_id: 'u2', name: 'Sam', is_guest: false, color: '#FF4C4C', initials: 'SA' },
+];
+
+let nextId = 0;
+const activity = (row) => ({
+  id: `row-${++nextId}`,
+  bill_id: 'bill',
+  actor_id: 'u1',
+  item_id: null,
+  participant_id: null,
+  before: null,
+  after: null,
+  txid: nextId,
+  bulk: false,
+  created_at: '2026-01-01T12:00:00Z',
+  ...row,
+});
+
+it(`shows a participant's own tip pick in whole percent`, () => {
+  const rows = [
+    activity({ action: 'tip_choice', actor_id: 'u1', participant_id: 'p1', after: { tip_percentage: 18, name: 'Alex' } }),
+    activity({ action: 'tip_choice', actor_id: 'u1', participant_id: 'p2', after: { tip_percentage: 22.5, name: 'Sam' } }),
+  ];
+
+  const texts = buildActivityTimeline(rows, participants, 'USD').map(entry => entry.text);
+
+  expect(texts).toEqual(['set their tip to 18%', "set Sam's tip to 22.5%"]);
+});
+
+it(`shows a flagged bulk change as one line, even for a single item, and offers it for undo`, () => {
+  const rows = [
+    activity({
+      action: 'assignment',
+      item_id: 'fries',
+      txid: 42,
+      bulk: true,
+      before: { assigned_ids: null },
+      after: { assigned_ids: 'p1,p2', name: 'Fries' },
+    }),
+  ];
+
+  const entries = buildActivityTimeline(rows, participants, 'USD');
+
+  expect(entries.map(entry => entry.text)).toEqual(['split 1 item between everyone']);
+  expect(entries[0].isBulk).toBe(true);
+  expect(latestUndoableTxid(rows)).toBe(42);
+});
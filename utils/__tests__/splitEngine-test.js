@@ -0,0 +1,154 @@
+import { allocateCents, computeSplit, roundToCents, settleTransfers } from '../splitEngine';
+
+const sum = (shares) => Object.values(shares).reduce((total, amount) => total + amount, 0);
+
+it(`splits a JPY bill into whole yen that add up to the total`, () => {
+  const split = computeSplit({
+    participantIds: ['a', 'b', 'c'],
+    lines: [
+      { id: 'ramen', amount: 1000, assigneeIds: ['a', 'b', 'c'] },
+      { id: 'gyoza', amount: 550, assigneeIds: ['a', 'b'] },
+    ],
+    tax: 155,
+    tip: 100,
+    decimals: 0,
+  });
+
+  Object.values(split.shares).forEach((amount) => {
+    expect(Number.isInteger(amount)).toBe(true);
+  });
+  expect(sum(split.shares)).toBe(1000 + 550 + 155 + 100);
+  expect(split.totalCents).toBe((1000 + 550 + 155 + 100) * 100);
+});
+
+it(`keeps individual tips and treats in whole yen`, () => {
+  const split = computeSplit({
+    participantIds: ['a', 'b', 'c'],
+    lines: [{ id: 'set', amount: 3333, assigneeIds: ['a', 'b', 'c'] }],
+    tax: 0,
+    tip: 0,
+    tipPercentages: { a: 10, b: 15, c: 0 },
+    treats: { c: { coveredBy: ['a', 'b'], mode: 'equal' } },
+    decimals: 0,
+  });
+
+  Object.values(split.shares).forEach((amount) => {
+    expect(Number.isInteger(amount)).toBe(true);
+  });
+  expect(sum(split.shares)).toBe(3333 + split.tipCents / 100);
+  expect(split.shares.c).toBe(0);
+});
+
+it(`rounds to the currency's minor unit`, () => {
+  expect(roundToCents(1234.56, 0)).toBe(1235);
+  expect(roundToCents(12.345)).toBe(12.35);
+});
+
+describe(`allocateCents`, () => {
+  it(`hands leftover cents to the largest remainders, ties to the first id`, () => {
+    expect(allocateCents(100, [{ id: 'a', weight: 1 }, { id: 'b', weight: 1 }, { id: 'c', weight: 1 }]))
+      .toEqual({ a: 34, b: 33, c: 33 });
+    expect(allocateCents(1000, [{ id: 'a', weight: 1 }, { id: 'b', weight: 2 }]))
+      .toEqual({ a: 333, b: 667 });
+  });
+
+  it(`splits equally when every weight is zero, and keeps the sign of a negative total`, () => {
+    expect(allocateCents(10, [{ id: 'a', weight: 0 }, { id: 'b', weight: 0 }, { id: 'c', weight: 0 }]))
+      .toEqual({ a: 4, b: 3, c: 3 });
+    expect(allocateCents(-100, [{ id: 'a', weight: 1 }, { id: 'b', weight: 1 }, { id: 'c', weight: 1 }]))
+      .toEqual({ a: -34, b: -33, c: -33 });
+  });
+});
+
+describe(`computeSplit`, () => {
+  const pizzaAndSalad = [
+    { id: 'pizza', amount: 30, assigneeIds: ['a', 'b'] },
+    { id: 'salad', amount: 10, assigneeIds: ['c'] },
+  ];
+
+  it(`shares a bill-level discount by each person's subtotal`, () => {
+    const split = computeSplit({
+      participantIds: ['a', 'b', 'c'],
+      lines: [...pizzaAndSalad, { id: 'promo', amount: -4, assigneeIds: [], kind: 'discount' }],
+      tax: 0,
+      tip: 0,
+    });
+
+    expect(split.shareCents).toEqual({ a: 1350, b: 1350, c: 900 });
+    expect(split.subtotalCents).toBe(3600);
+  });
+
+  it(`takes an item discount off whoever had the item`, () => {
+    const split = computeSplit({
+      participantIds: ['a', 'b', 'c'],
+      lines: [...pizzaAndSalad, { id: 'half-off', amount: -6, assigneeIds: [], kind: 'discount', appliesTo: 'pizza' }],
+      tax: 0,
+      tip: 0,
+    });
+
+    expect(split.shareCents).toEqual({ a: 1200, b: 1200, c: 1000 });
+  });
+
+  it(`allocates fees proportionally, equally or to their assignees`, () => {
+    const split = computeSplit({
+      participantIds: ['a', 'b', 'c'],
+      lines: [
+        ...pizzaAndSalad,
+        { id: 'service', amount: 8, assigneeIds: [], kind: 'fee', feeAllocation: 'proportional' },
+        { id: 'delivery', amount: 3, assigneeIds: [], kind: 'fee', feeAllocation: 'equal' },
+        { id: 'corkage', amount: 5, assigneeIds: ['c'], kind: 'fee', feeAllocation: 'assigned' },
+      ],
+      tax: 0,
+      tip: 0,
+    });
+
+    expect(split.breakdownCents.a.fees).toBe(400);
+    expect(split.breakdownCents.b.fees).toBe(400);
+    expect(split.breakdownCents.c.fees).toBe(800);
+    expect(split.feeCents).toBe(1600);
+    expect(split.subtotalCents).toBe(4000);
+    expect(split.totalCents).toBe(5600);
+  });
+
+  it(`moves a treated person's share onto the people covering it`, () => {
+    const lines = [
+      { id: 'steak', amount: 20, assigneeIds: ['a'] },
+      { id: 'pasta', amount: 10, assigneeIds: ['b'] },
+      { id: 'soup', amount: 9, assigneeIds: ['c'] },
+    ];
+
+    const equal = computeSplit({
+      participantIds: ['a', 'b', 'c'],
+      lines,
+      tax: 0,
+      tip: 0,
+      treats: { c: { coveredBy: ['a', 'b'], mode: 'equal' } },
+    });
+    expect(equal.shareCents).toEqual({ a: 2450, b: 1450, c: 0 });
+
+    const proportional = computeSplit({
+      participantIds: ['a', 'b', 'c'],
+      lines,
+      tax: 0,
+      tip: 0,
+      treats: { c: { coveredBy: ['a', 'b'], mode: 'proportional' } },
+    });
+    expect(proportional.shareCents).toEqual({ a: 2600, b: 1300, c: 0 });
+    expect(proportional.coveredCents.c).toEqual({ a: 600, b: 300 });
+    expect(proportional.breakdownCents.c.covered).toBe(-900);
+  });
+});
+
+describe(`settleTransfers`, () => {
+  it(`settles a bill two people paid 60/40 with as few transfers as possible`, () => {
+    const transfers = settleTransfers(
+      { a: 4000, b: 3000, c: 3000 },
+      [{ id: 'a', weight: 6000 }, { id: 'b', weight: 4000 }],
+    );
+
+    expect(transfers).toEqual([
+      { from: 'c', to: 'a', cents: 2000 },
+      { from: 'c', to: 'b', cents: 1000 },
+    ]);
+  });
+});
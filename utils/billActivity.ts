@@ -0,0 +1,177 @@
+/**
+ * Turns bill_activity rows (migrations 033 and 036) into the editor's timeline. Assignment rows
+ * flagged bulk and written by one transaction are one bulk change (Split Evenly, Randomize,
+ * Clear, a bill-wide custom split), however many items it touched; the newest bulk change
+ * nobody has undone is the one the host can undo, and undo_bulk_assignment() picks it the same way.
+ */
+
+import { BillActivity, BillStatus, Participant } from '../types';
+import { formatMoney } from './currency';
+import { parseAssigneeIds } from './splitEngine';
+import { describeTipSettings, readTipSettings } from './tipSettings';
+
+export type BillActivityEntry = {
+    id: string;
+    actorId: string | null;
+    text: string; // what happened, after the actor's name: "reassigned 6 items"
+    createdAt: string;
+    txid: number;
+    isBulk: boolean;
+};
+
+const STATUS_TEXT: Record<BillStatus, string> = {
+    draft: 'reopened the lobby',
+    active: 'started splitting',
+    tip_selection: 'moved on to the tip',
+    completed: 'finalized the bill',
+    settled: 'marked the bill settled',
+};
+
+const itemName = (row: BillActivity) => row.after?.name || row.before?.name || 'an item';
+
+// "Alex", "Alex and Sam", "Alex, Sam and 2 others"
+const listNames = (ids: string[], participants: Participant[]): string => {
+    const names = ids.map(id => participants.find(p => p.id === id)?.name || 'someone');
+    if (names.length <= 1) return names[0] ?? 'nobody';
+    if (names.length === 2) return `${names[0]} and ${names[1]}`;
+    if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]}`;
+    return `${names[0]}, ${names[1]} and ${names.length - 2} others`;
+};
+
+const sameIds = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(id => b.includes(id));
+
+const describeAssignment = (row: BillActivity, actor: Participant | undefined, participants: Participant[]): string => {
+    const before = parseAssigneeIds(row.before ?? {});
+    const after = parseAssigneeIds(row.after ?? {});
+    const name = itemName(row);
+
+    if (actor && !before.includes(actor.id) && sameIds(after, [...before, actor.id])) return `claimed ${name}`;
+    if (actor && before.includes(actor.id) && sameIds(after, before.filter(id => id !== actor.id))) return `unclaimed ${name}`;
+    if (after.length === 0) return `cleared ${name}`;
+    if (row.after?.split_mode && row.after.split_mode !== 'equal') return `set a custom split on ${name}`;
+    return `assigned ${name} to ${listNames(after, participants)}`;
+};
+
+const describeBulk = (rows: BillActivity[], participants: Participant[]): string => {
+    const count = `${rows.length} ${rows.length === 1 ? 'item' : 'items'}`;
+    const afters = rows.map(row => parseAssigneeIds(row.after ?? {}));
+    if (afters.every(ids => ids.length === 0)) return `cleared the assignments on ${count}`;
+    if (afters.every(ids => sameIds(ids, afters[0]))) {
+        const everyone = participants.length > 1 && sameIds(afters[0], participants.map(p => p.id));
+        return `split ${count} between ${everyone ? 'everyone' : listNames(afters[0], participants)}`;
+    }
+    return `reassigned ${count}`;
+};
+
+const describeTip = (row: BillActivity, currency: string): string => {
+    const settings = readTipSettings(row.after);
+    if (!settings || settings.mode === 'none' || (settings.mode !== 'individual' && settings.amount <= 0)) return 'removed the tip';
+    if (settings.mode === 'custom' || settings.percentage == null) return `set the tip to ${formatMoney(settings.amount, currency)}`;
+    return `set the tip to ${describeTipSettings(settings)}`;
+};
+
+const describeTipChoice = (row: BillActivity, actor: Participant | undefined): string => {
+    const isOwn = actor?.id === row.participant_id;
+    const whose = isOwn ? 'their' : `${row.after?.name || 'someone'}'s`;
+    const percentage = row.after?.tip_percentage;
+    if (percentage == null) return `put ${whose} tip back to the default`;
+    return `set ${whose} tip to ${Math.round(Number(percentage) * 10) / 10}%`;
+};
+
+const describeUndo = (row: BillActivity): string => {
+    const restored = Number(row.after?.restored) || 0;
+    const skipped = Number(row.after?.skipped) || 0;
+    const base = `undid a bulk change (${restored} ${restored === 1 ? 'item' : 'items'} put back`;
+    return skipped > 0 ? `${base}, ${skipped} changed since)` : `${base})`;
+};
+
+// Transactions that undid something, or were undone; neither can be undone (again)
+const undoneTxids = (rows: BillActivity[]): Set<number> => {
+    const txids = new Set<number>();
+    rows.filter(row => row.action === 'undo').forEach(row => {
+        txids.add(Number(row.txid));
+        if (row.after?.txid != null) txids.add(Number(row.after.txid));
+    });
+    return txids;
+};
+
+const isBulkRow = (row: BillActivity) => row.action === 'assignment' && !!row.bulk;
+
+const bulkRowsByTxid = (rows: BillActivity[]): Map<number, BillActivity[]> => {
+    const groups = new Map<number, BillActivity[]>();
+    rows.filter(isBulkRow).forEach(row => {
+        const txid = Number(row.txid);
+        groups.set(txid, [...(groups.get(txid) ?? []), row]);
+    });
+    return groups;
+};
+
+// rows newest first, as getBillActivity returns them
+export function latestUndoableTxid(rows: BillActivity[]): number | null {
+    const undone = undoneTxids(rows);
+    const row = rows.find(r => isBulkRow(r) && !undone.has(Number(r.txid)));
+    return row ? Number(row.txid) : null;
+}
+
+// Timeline lines, newest first. A bulk change is one line; a run of tip saves by the same
+// person (the tip screen saves as they drag) shows only the last one.
+export function buildActivityTimeline(rows: BillActivity[], participants: Participant[], currency: string): BillActivityEntry[] {
+    const groups = bulkRowsByTxid(rows);
+    const undoTxids = new Set(rows.filter(row => row.action === 'undo').map(row => Number(row.txid)));
+    const entries: BillActivityEntry[] = [];
+    const shownBulk = new Set<number>();
+
+    rows.forEach((row, index) => {
+        const txid = Number(row.txid);
+        const actor = row.actor_id ? participants.find(p => p.user_id === row.actor_id) : undefined;
+        const isBulk = isBulkRow(row);
+        const bulkRows = isBulk ? groups.get(txid) ?? [] : [];
+
+        // Items put back by an undo are covered by the undo's own line
+        if (row.action === 'assignment' && undoTxids.has(txid)) return;
+        if (isBulk && shownBulk.has(txid)) return;
+        if (row.action === 'tip' && index > 0) {
+            const newer = rows[index - 1];
+            if (newer.action === 'tip' && newer.actor_id === row.actor_id) return;
+        }
+
+        let text: string;
+        switch (row.action) {
+            case 'item_added':
+                text = `added ${itemName(row)}`;
+                break;
+            case 'item_removed':
+                text = `removed ${itemName(row)}`;
+                break;
+            case 'item_renamed':
+                text = row.before?.name ? `renamed ${row.before.name} to ${row.after?.name || 'nothing'}` : `named an item ${row.after?.name}`;
+                break;
+            case 'item_repriced':
+                text = `changed ${itemName(row)} from ${formatMoney(Number(row.before?.price), currency)} to ${formatMoney(Number(row.after?.price), currency)}`;
+                break;
+            case 'assignment':
+                if (isBulk) shownBulk.add(txid);
+                text = isBulk ? describeBulk(bulkRows, participants) : describeAssignment(row, actor, participants);
+                break;
+            case 'tip':
+                text = describeTip(row, currency);
+                break;
+            case 'tip_choice':
+                text = describeTipChoice(row, actor);
+                break;
+            case 'status':
+                text = STATUS_TEXT[row.after?.status as BillStatus] ?? 'changed the bill status';
+                break;
+            case 'undo':
+                text = describeUndo(row);
+                break;
+            default:
+                return;
+        }
+
+        entries.push({ id: row.id, actorId: row.actor_id, text, createdAt: row.created_at, txid, isBulk });
+    });
+
+    return entries;
+}
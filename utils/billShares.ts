@@ -0,0 +1,69 @@
+/**
+ * What each participant owes on a finalized bill. finalizeTip saves the split it made the
+ * payment requests from to details.shares; bills finalized before that are worked out again
+ * from the same inputs the tip screen used (tip settings, everyone's own tip pick, the tax
+ * rate and treats), so the payment and history screens agree with the requests.
+ */
+
+import { BillItem, ItemSplit } from '../types';
+import { computeSplit, linesFromAssignments, linesFromBillItems, SplitLine } from './splitEngine';
+import { readTipSettings } from './tipSettings';
+import { readTreats } from './treats';
+
+type ShareParticipant = {
+    id: string; // bill_participants.id
+    tip_percentage?: number | null;
+};
+
+// Participant id → amount in the bill's currency, as saved at finalize
+export function readSavedShares(details: Record<string, any> | null | undefined): Record<string, number> | null {
+    const saved = details?.shares;
+    if (!saved || typeof saved !== 'object') return null;
+    const shares: Record<string, number> = {};
+    Object.entries(saved).forEach(([id, amount]) => { shares[id] = Number(amount) || 0; });
+    return shares;
+}
+
+// details.items + details.assignments when the editor saved them, else the bill_items rows
+function billLines(details: Record<string, any> | null | undefined, billItems: BillItem[]): SplitLine[] {
+    const detailItems: any[] = details?.items || [];
+    const detailAssignments: Record<string, string[]> = details?.assignments || {};
+    if (Object.keys(detailAssignments).length > 0 && detailItems.length > 0) {
+        const detailItemSplits: Record<string, ItemSplit> = details?.itemSplits || {};
+        return linesFromAssignments(detailItems, detailAssignments, detailItemSplits);
+    }
+    return linesFromBillItems(billItems);
+}
+
+export function finalizedBillShares(
+    details: Record<string, any> | null | undefined,
+    participants: ShareParticipant[],
+    billItems: BillItem[] = [],
+    decimals: number = 2 // currencyDecimals of the bill's currency
+): Record<string, number> {
+    const saved = readSavedShares(details);
+    if (saved) return saved;
+
+    const lines = billLines(details, billItems);
+    if (participants.length === 0 || lines.length === 0) return {};
+
+    // Individual tips: everyone's own percentage, the host's pick for anyone who didn't choose
+    const tipSettings = readTipSettings(details);
+    const isIndividual = tipSettings?.mode === 'individual';
+    const defaultTipPercent = (tipSettings?.percentage ?? 0) * 100;
+    const tipPercentages = isIndividual
+        ? Object.fromEntries(participants.map(p => [p.id, p.tip_percentage ?? defaultTipPercent]))
+        : null;
+
+    return computeSplit({
+        participantIds: participants.map(p => p.id),
+        lines,
+        tax: Number(details?.tax) || 0,
+        tip: isIndividual ? 0 : Number(details?.tip) || 0,
+        taxRate: details?.taxRate ?? null,
+        tipPercentages,
+        tipBase: tipSettings?.base,
+        treats: readTreats(details),
+        decimals,
+    }).shares;
+}
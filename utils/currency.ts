@@ -0,0 +1,102 @@
+/**
+ * Currencies a bill can be in, locale-aware money formatting, and conversion
+ * from the receipt's currency into the one people settle up in (Venmo etc.).
+ */
+
+import { BillCurrency } from '../types';
+import { roundToCents } from './splitEngine';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCIES: Record<string, { label: string; symbol: string; decimals: number }> = {
+    USD: { label: 'US Dollar', symbol: '$', decimals: 2 },
+    EUR: { label: 'Euro', symbol: '€', decimals: 2 },
+    GBP: { label: 'British Pound', symbol: '£', decimals: 2 },
+    JPY: { label: 'Japanese Yen', symbol: '¥', decimals: 0 },
+    CAD: { label: 'Canadian Dollar', symbol: 'CA$', decimals: 2 },
+    AUD: { label: 'Australian Dollar', symbol: 'A$', decimals: 2 },
+    INR: { label: 'Indian Rupee', symbol: '₹', decimals: 2 },
+    BRL: { label: 'Brazilian Real', symbol: 'R$', decimals: 2 },
+    MXN: { label: 'Mexican Peso', symbol: 'MX$', decimals: 2 },
+    SEK: { label: 'Swedish Krona', symbol: 'kr', decimals: 2 },
+    SGD: { label: 'Singapore Dollar', symbol: 'S$', decimals: 2 },
+};
+
+// Matches the country list collected during onboarding (Profile.country)
+const COUNTRY_CURRENCIES: Record<string, string> = {
+    'United States': 'USD',
+    'Canada': 'CAD',
+    'United Kingdom': 'GBP',
+    'Australia': 'AUD',
+    'Germany': 'EUR',
+    'France': 'EUR',
+    'Japan': 'JPY',
+    'India': 'INR',
+    'Brazil': 'BRL',
+    'Mexico': 'MXN',
+    'Spain': 'EUR',
+    'Italy': 'EUR',
+    'Netherlands': 'EUR',
+    'Sweden': 'SEK',
+    'Singapore': 'SGD',
+};
+
+export function currencyForCountry(country: string | null | undefined): string {
+    return (country && COUNTRY_CURRENCIES[country]) || DEFAULT_CURRENCY;
+}
+
+export function currencyDecimals(currency: string): number {
+    return CURRENCIES[currency]?.decimals ?? 2;
+}
+
+// For inputs and animated values that sit next to a bare number ("$", "€", "¥")
+export function currencySymbol(currency: string): string {
+    return CURRENCIES[currency]?.symbol ?? `${currency} `;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// "$12.50", "12,50 €", "¥1,200" — follows the device locale; falls back to symbol + fixed decimals
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    const value = Number(amount) || 0;
+    const decimals = currencyDecimals(currency);
+    try {
+        let formatter = formatters.get(currency);
+        if (!formatter) {
+            formatter = new Intl.NumberFormat(undefined, {
+                style: 'currency',
+                currency,
+                minimumFractionDigits: decimals,
+                maximumFractionDigits: decimals,
+            });
+            formatters.set(currency, formatter);
+        }
+        return formatter.format(value);
+    } catch {
+        return `${value < 0 ? '-' : ''}${currencySymbol(currency)}${Math.abs(value).toFixed(decimals)}`;
+    }
+}
+
+// Reads the currency columns off a bills row; older bills are all USD
+export function readBillCurrency(bill: Record<string, any> | null | undefined): BillCurrency {
+    const currency = bill?.currency || DEFAULT_CURRENCY;
+    const settlementCurrency = bill?.settlement_currency || currency;
+    const rate = Number(bill?.exchange_rate);
+    return {
+        currency,
+        settlementCurrency,
+        exchangeRate: currency !== settlementCurrency && rate > 0 ? rate : null,
+    };
+}
+
+// Bill-currency amount → settlement currency; unchanged when there's nothing to convert
+export function convertAmount(amount: number, billCurrency: BillCurrency): number {
+    if (billCurrency.currency === billCurrency.settlementCurrency || !billCurrency.exchangeRate) return amount;
+    return roundToCents(amount * billCurrency.exchangeRate, currencyDecimals(billCurrency.settlementCurrency));
+}
+
+// "1 EUR = 1.0842 USD"
+export function describeExchangeRate(billCurrency: BillCurrency): string | null {
+    if (!billCurrency.exchangeRate || billCurrency.currency === billCurrency.settlementCurrency) return null;
+    return `1 ${billCurrency.currency} = ${Number(billCurrency.exchangeRate.toFixed(4))} ${billCurrency.settlementCurrency}`;
+}
@@ -1,14 +1,65 @@
 /**
- * Receipt parsing via Python backend on Cloud Run.
- * Uploads the receipt image to the backend which uses Gemini for AI processing.
- * Authenticated via Supabase JWT.
+ * Receipt parsing via the Python backend (Cloud Run in production, uvicorn locally).
+ * Uploads the receipt image(s) to the backend which uses Gemini for AI processing.
+ * Long receipts go up as several pages in one request, top of the receipt first.
+ * Authenticated via Supabase JWT. Callers go through services/receiptScanner.ts,
+ * which decides which backend (or the offline fixtures) to use.
  */
 
 import { supabase } from '../lib/supabase';
+import { isPdfPage, scanPageMimeType } from './receiptImport';
+import { readScanResponse, SCAN_CANCELED_MESSAGE, ScanOptions, ScanResponse, ScanStage } from './scanResponse';
 
-export const parseReceiptWithGemini = async (imageUri: string) => {
-    console.log('[Gemini] Starting Cloud Scan via Python Backend...');
-    console.log('[Gemini] Image URI:', imageUri?.substring(0, 80));
+// The backend no longer has the job being polled (cleaned up, or lost with its instance).
+// Nothing was wrong with the receipt, so it's worth sending again.
+export const SCAN_JOB_LOST_MESSAGE = 'The scan was interrupted on the server. Please try again.';
+
+export function isScanJobLost(error: any): boolean {
+    return error?.message === SCAN_JOB_LOST_MESSAGE;
+}
+
+export const CLOUD_RUN_URL = 'https://divvit-backend-899345323923.us-central1.run.app';
+
+const POLL_INTERVAL_MS = 1000;
+
+const abortError = () => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+// Resolves after `ms`, or rejects as soon as the scan is aborted. The abort listener goes
+// away with the timer, so a long scan doesn't pile one up per poll.
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    signal.addEventListener('abort', handleAbort, { once: true });
+});
+
+const readJob = async (response: Response) => {
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[Gemini] Backend error:', response.status, errorText);
+        throw new Error(`Backend error ${response.status}: ${errorText}`);
+    }
+    return response.json();
+};
+
+/**
+ * Scans through the backend's job API: upload the pages (POST /scan/jobs), then poll the job
+ * for its stage until the parsed receipt comes back. Aborting `signal` cancels the job too.
+ */
+export const scanWithBackend = async (
+    baseUrl: string,
+    imageUris: string | string[],
+    { signal, onStage }: ScanOptions = {}
+): Promise<ScanResponse> => {
+    const uris = Array.isArray(imageUris) ? imageUris : [imageUris];
+    console.log('[Gemini] Starting scan via Python backend at', baseUrl);
+    console.log(`[Gemini] ${uris.length} page(s), first URI:`, uris[0]?.substring(0, 80));
 
     // Get the current user's JWT for authentication
     const { data: { session } } = await supabase.auth.getSession();
@@ -16,70 +67,95 @@ export const parseReceiptWithGemini = async (imageUri: string) => {
         console.error('[Gemini] No authenticated session — cannot scan');
         throw new Error('You must be logged in to scan receipts.');
     }
+    const headers = { 'Authorization': `Bearer ${session.access_token}` };
 
     const formData = new FormData();
-    // React Native expects this specific object format for file uploads
-    formData.append('file', {
-        uri: imageUri,
-        type: 'image/jpeg',
-        name: 'receipt.jpg',
-    } as any);
-
-    // Use EXPO_PUBLIC_API_URL for local dev/staging; fall back to Cloud Run in production
-    const BACKEND_URL = process.env.EXPO_PUBLIC_API_URL
-        ? `${process.env.EXPO_PUBLIC_API_URL}/api/v1/scan`
-        : "https://divvit-backend-899345323923.us-central1.run.app/api/v1/scan";
-
-    // 90-second timeout — Gemini receipt parsing can take 15-60s
+    // React Native expects this specific object format for file uploads; the backend keeps the order
+    uris.forEach((uri, index) => {
+        const extension = isPdfPage(uri) ? 'pdf' : 'jpg';
+        formData.append('files', {
+            uri,
+            type: scanPageMimeType(uri),
+            name: uris.length > 1 ? `receipt-${index + 1}.${extension}` : `receipt.${extension}`,
+        } as any);
+    });
+
+    const JOBS_URL = `${baseUrl.replace(/\/+$/, '')}/api/v1/scan/jobs`;
+
+    // 90-second timeout — Gemini receipt parsing can take 15-60s; each extra page adds 30s.
+    // The timeout and the caller's cancel both abort the same controller
+    const timeoutMs = 90000 + (uris.length - 1) * 30000;
     const controller = new AbortController();
+    let timedOut = false;
     const timeoutId = setTimeout(() => {
-        console.error('[Gemini] Request timed out after 90s');
+        console.error(`[Gemini] Request timed out after ${timeoutMs / 1000}s`);
+        timedOut = true;
         controller.abort();
-    }, 90000);
+    }, timeoutMs);
+    const handleCancel = () => controller.abort();
+    signal?.addEventListener('abort', handleCancel);
+    if (signal?.aborted) controller.abort();
 
-    // Log every 10s so we know the request is still in flight
-    const progressInterval = setInterval(() => {
-        console.log('[Gemini] Still waiting for backend response...');
-    }, 10000);
+    let jobId: string | null = null;
+    let stage: ScanStage | null = null;
+    const reportStage = (next: ScanStage) => {
+        if (next === stage) return;
+        stage = next;
+        console.log('[Gemini] Stage:', next);
+        onStage?.(next);
+    };
 
     try {
-        console.log('[Gemini] Sending POST to:', BACKEND_URL);
+        console.log('[Gemini] Sending POST to:', JOBS_URL);
         const startTime = Date.now();
+        reportStage('uploading');
 
-        const response = await fetch(BACKEND_URL, {
+        let job = await readJob(await fetch(JOBS_URL, {
             method: 'POST',
             body: formData,
             signal: controller.signal,
-            headers: {
-                'Authorization': `Bearer ${session.access_token}`,
-            },
-        });
-
-        const elapsed = Date.now() - startTime;
-        console.log(`[Gemini] Response received in ${elapsed}ms, status: ${response.status}`);
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('[Gemini] Backend error:', response.status, errorText);
-            throw new Error(`Backend error ${response.status}: ${errorText}`);
+            headers,
+        }));
+        jobId = job.job_id;
+        console.log(`[Gemini] Job ${jobId} started after ${Date.now() - startTime}ms`);
+
+        while (job.status === 'running') {
+            reportStage(job.stage);
+            await wait(POLL_INTERVAL_MS, controller.signal);
+            const poll = await fetch(`${JOBS_URL}/${jobId}`, { headers, signal: controller.signal });
+            if (poll.status === 404) {
+                console.warn(`[Gemini] Job ${jobId} is gone from the backend`);
+                throw new Error(SCAN_JOB_LOST_MESSAGE);
+            }
+            job = await readJob(poll);
         }
 
-        const data = await response.json();
-        console.log('[Gemini] Cloud Scan Success:', JSON.stringify(data).substring(0, 200));
-        return data;
+        console.log(`[Gemini] Job ${jobId} ${job.status} after ${Date.now() - startTime}ms`);
+        if (job.status === 'canceled') throw new Error(SCAN_CANCELED_MESSAGE);
+        if (job.status === 'failed') throw new Error(`Backend error ${job.error_status || 500}: ${job.error}`);
+
+        console.log('[Gemini] Cloud Scan Success:', JSON.stringify(job.result).substring(0, 200));
+        return readScanResponse(job.result);
     } catch (error: any) {
         if (error.name === 'AbortError') {
-            console.error('[Gemini] Request was aborted (timeout)');
-            throw new Error('Receipt scan timed out. Please try again.');
+            // Stop the server job too; nobody is waiting for its result any more
+            if (jobId) {
+                fetch(`${JOBS_URL}/${jobId}`, { method: 'DELETE', headers }).catch(cancelError =>
+                    console.warn('[Gemini] Failed to cancel job', jobId, cancelError)
+                );
+            }
+            if (timedOut) {
+                console.error('[Gemini] Request was aborted (timeout)');
+                throw new Error('Receipt scan timed out. Please try again.');
+            }
+            console.log('[Gemini] Scan canceled');
+            throw new Error(SCAN_CANCELED_MESSAGE);
         }
         console.error('[Gemini] Backend Connection Error:', error.message || error);
         console.error('[Gemini] Error type:', error.name, '| Full:', JSON.stringify(error));
         throw error;
     } finally {
         clearTimeout(timeoutId);
-        clearInterval(progressInterval);
+        signal?.removeEventListener('abort', handleCancel);
     }
 };
-
-// Alias for backward compatibility
-export const scanReceipt = parseReceiptWithGemini;
@@ -0,0 +1,14 @@
+/**
+ * Reads who paid the check from bills.details.payers. An empty list means
+ * the host put down the whole bill, which is how every older bill reads.
+ */
+
+import { BillPayer } from '../types';
+
+export function readPayers(details: Record<string, any> | null | undefined): BillPayer[] {
+    const saved = details?.payers;
+    if (!Array.isArray(saved)) return [];
+    return saved
+        .map((p: any) => ({ participantId: String(p?.participantId || ''), amount: Number(p?.amount) || 0 }))
+        .filter((p) => p.participantId && p.amount > 0);
+}
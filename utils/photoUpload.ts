@@ -1,15 +1,15 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { supabase } from '../lib/supabase';
 import { decode } from 'base64-arraybuffer';
+import { isPdfPage } from './receiptImport';
 
-export async function uploadBillPhoto(billId: string, uri: string): Promise<string> {
+const uploadJpeg = async (bucket: string, filePath: string, uri: string): Promise<string> => {
     const base64 = await FileSystem.readAsStringAsync(uri, {
         encoding: 'base64' as any,
     });
 
-    const filePath = `${billId}.jpg`;
     const { error: uploadError } = await supabase.storage
-        .from('bill-photos')
+        .from(bucket)
         .upload(filePath, decode(base64), {
             contentType: 'image/jpeg',
             upsert: true,
@@ -18,10 +18,14 @@ export async function uploadBillPhoto(billId: string, uri: string): Promise<stri
     if (uploadError) throw uploadError;
 
     const { data } = supabase.storage
-        .from('bill-photos')
+        .from(bucket)
         .getPublicUrl(filePath);
 
-    const publicUrl = data.publicUrl;
+    return data.publicUrl;
+};
+
+export async function uploadBillPhoto(billId: string, uri: string): Promise<string> {
+    const publicUrl = await uploadJpeg('bill-photos', `${billId}.jpg`, uri);
 
     const { error: updateError } = await supabase
         .from('bills')
@@ -32,3 +36,24 @@ export async function uploadBillPhoto(billId: string, uri: string): Promise<stri
 
     return publicUrl;
 }
+
+// Original receipt photos, one per page, kept in order on the bill. Imported PDF pages are
+// skipped: the receipt viewer only shows images
+export async function uploadReceiptImages(billId: string, uris: string[]): Promise<string[]> {
+    const photos = uris.filter(uri => !isPdfPage(uri));
+    if (photos.length === 0) return [];
+
+    const publicUrls: string[] = [];
+    for (const [index, uri] of photos.entries()) {
+        publicUrls.push(await uploadJpeg('receipt-images', `${billId}/page-${index + 1}.jpg`, uri));
+    }
+
+    const { error: updateError } = await supabase
+        .from('bills')
+        .update({ receipt_image_urls: publicUrls })
+        .eq('id', billId);
+
+    if (updateError) throw updateError;
+
+    return publicUrls;
+}
@@ -0,0 +1,45 @@
+/**
+ * Merchant, transaction date and original photos kept with a scanned bill
+ * (bills.merchant / transaction_date / receipt_image_urls).
+ */
+
+export type ReceiptDetails = {
+    merchant: string | null;
+    transactionDate: string | null; // YYYY-MM-DD as printed; no time zone
+    receiptImages: string[]; // public urls, top of the receipt first
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The scanner's "date" when it is a real calendar day, otherwise null
+export function parseTransactionDate(raw: unknown): string | null {
+    const match = typeof raw === 'string' ? raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})/) : null;
+    if (!match) return null;
+    const [, y, m, d] = match.map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+    return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+export function parseMerchant(raw: unknown): string | null {
+    const name = typeof raw === 'string' ? raw.trim() : '';
+    return name ? name.slice(0, 120) : null;
+}
+
+export function readReceiptDetails(bill: {
+    merchant?: string | null;
+    transaction_date?: string | null;
+    receipt_image_urls?: string[] | null;
+} | null | undefined): ReceiptDetails {
+    return {
+        merchant: parseMerchant(bill?.merchant),
+        transactionDate: parseTransactionDate(bill?.transaction_date),
+        receiptImages: (bill?.receipt_image_urls || []).filter(Boolean),
+    };
+}
+
+// "Mar 4, 2026"; read from the parts so the day never shifts with the time zone
+export function formatTransactionDate(transactionDate: string): string {
+    const [y, m, d] = transactionDate.split('-').map(Number);
+    return `${MONTHS[m - 1]} ${d}, ${y}`;
+}
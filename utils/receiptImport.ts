@@ -0,0 +1,75 @@
+/**
+ * Receipts that arrive as files instead of photos: PDFs and images opened in Divvit from
+ * another app (Mail, Files, DoorDash…). Each file becomes a scan page in the app cache;
+ * photos are resized like camera shots, PDFs go up as-is and the backend splits their pages.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as Crypto from 'expo-crypto';
+
+export type ImportedPage = {
+    uri: string;
+    kind: 'image' | 'pdf';
+};
+
+const IMPORT_DIR = `${FileSystem.cacheDirectory}receipt-imports/`;
+
+// "%PDF-" base64-encoded; content:// uris often have no extension to go by
+const PDF_MAGIC_BASE64 = 'JVBERi0';
+
+export function isPdfPage(uri: string): boolean {
+    return /\.pdf$/i.test(uri);
+}
+
+export function scanPageMimeType(uri: string): string {
+    return isPdfPage(uri) ? 'application/pdf' : 'image/jpeg';
+}
+
+// A file handed to the app by the OS, as opposed to a divvit:// link
+export function isSharedFileUrl(url: string): boolean {
+    return /^(file|content):\/\//i.test(url);
+}
+
+export const resizeForScan = async (uri: string) => {
+    const resized = await ImageManipulator.manipulateAsync(
+        uri,
+        [{ resize: { width: 1500 } }],
+        { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    return resized.uri;
+};
+
+/**
+ * Copies a shared file into the cache and turns it into a scan page.
+ * Throws when the file is neither a PDF nor an image the device can decode.
+ */
+export const importReceiptFile = async (sourceUri: string): Promise<ImportedPage> => {
+    await FileSystem.makeDirectoryAsync(IMPORT_DIR, { intermediates: true });
+    const copy = `${IMPORT_DIR}${Crypto.randomUUID()}`;
+    await FileSystem.copyAsync({ from: sourceUri, to: copy });
+
+    const head = await FileSystem.readAsStringAsync(copy, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: 8,
+    });
+
+    if (head.startsWith(PDF_MAGIC_BASE64)) {
+        const pdf = `${copy}.pdf`;
+        await FileSystem.moveAsync({ from: copy, to: pdf });
+        console.log('receiptImport: Imported PDF', pdf);
+        return { uri: pdf, kind: 'pdf' };
+    }
+
+    try {
+        const image = await resizeForScan(copy);
+        console.log('receiptImport: Imported image', image);
+        return { uri: image, kind: 'image' };
+    } catch (error) {
+        console.warn('receiptImport: Not a PDF or readable image:', error);
+        throw new Error('Divvit can read receipts from photos, screenshots and PDFs.');
+    } finally {
+        await FileSystem.deleteAsync(copy, { idempotent: true });
+    }
+};
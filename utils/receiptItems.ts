@@ -0,0 +1,110 @@
+/**
+ * Turns raw scan output into bill lines: stable ids, whole-unit quantities,
+ * discount lines linked to the item they reduce, typed fee lines, tax categories
+ * and how sure the scanner was of each name and price.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { BillLineKind, FeeAllocation, FeeType, FEE_TYPE_LABELS, ItemConfidence, TaxCategory } from '../types';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+import { normalizeItemConfidence } from './scanResponse';
+
+const FEE_TYPES = Object.keys(FEE_TYPE_LABELS) as FeeType[];
+
+export type ScannedLine = {
+    id: string;
+    name: string;
+    price: number; // line total; negative for discounts
+    quantity: number;
+    kind: BillLineKind;
+    applies_to: string | null; // id of the discounted line; null = whole bill
+    fee_type: FeeType | null;
+    fee_allocation: FeeAllocation;
+    tax_category: TaxCategory;
+    tax_rate: number | null;
+    confidence: ItemConfidence | null;
+};
+
+export type ConfidenceField = keyof ItemConfidence;
+
+// Below this the editor asks the host to check the value against the receipt
+export const LOW_CONFIDENCE = 0.8;
+
+export function isLowConfidence(value: number | null | undefined): boolean {
+    return value != null && value < LOW_CONFIDENCE;
+}
+
+// Fields of a line the host still has to check; empty for typed-in or confirmed lines
+export function uncertainFields(item: { confidence?: ItemConfidence | null }): ConfidenceField[] {
+    if (!item.confidence) return [];
+    return (['name', 'price'] as ConfidenceField[]).filter(field => isLowConfidence(item.confidence![field]));
+}
+
+// Editing or confirming a value means the host has checked it
+export function clearConfidence(confidence: ItemConfidence | null | undefined, fields: ConfidenceField[]): ItemConfidence | null {
+    if (!confidence) return null;
+    const next = { ...confidence };
+    fields.forEach(field => { next[field] = null; });
+    return next.name == null && next.price == null ? null : next;
+}
+
+// Delivery-style fees are per order, so they default to an even split; the rest follow the subtotal
+export function defaultFeeAllocation(feeType: FeeType | null | undefined): FeeAllocation {
+    return feeType === 'delivery' ? 'equal' : 'proportional';
+}
+
+export function prepareScannedItems(rawItems: any[]): ScannedLine[] {
+    const lines: ScannedLine[] = (rawItems || []).map((item: any) => {
+        const price = Number(item.price) || 0;
+        const kind: BillLineKind = item.kind === 'discount' || price < 0
+            ? 'discount'
+            : item.kind === 'fee' ? 'fee' : 'item';
+        const feeType: FeeType | null = kind === 'fee'
+            ? (FEE_TYPES.includes(item.fee_type) ? item.fee_type : 'other')
+            : null;
+        return {
+            id: item.id || Crypto.randomUUID(),
+            name: item.name || '',
+            price: kind === 'discount' ? -Math.abs(price) : price,
+            quantity: Math.max(1, Math.floor(Number(item.quantity) || 1)),
+            kind,
+            applies_to: null,
+            fee_type: feeType,
+            fee_allocation: item.fee_allocation || defaultFeeAllocation(feeType),
+            // Receipts flag non-taxable lines (e.g. groceries); everything else starts at the standard rate
+            tax_category: item.tax_category === 'exempt' || item.tax_category === 'custom' ? item.tax_category : 'standard',
+            tax_rate: item.tax_category === 'custom' ? Number(item.tax_rate) || 0 : null,
+            confidence: normalizeItemConfidence(item.confidence),
+        };
+    });
+
+    // The scanner names the discounted item; link to the closest matching line above the discount
+    (rawItems || []).forEach((item: any, index: number) => {
+        const line = lines[index];
+        const target = typeof item.applies_to === 'string' ? item.applies_to.trim().toLowerCase() : '';
+        if (line.kind !== 'discount' || !target) return;
+        if (lines.some((l) => l.id === item.applies_to && l.kind === 'item')) {
+            line.applies_to = item.applies_to;
+            return;
+        }
+        const candidates = lines
+            .map((l, i) => ({ l, i }))
+            .filter(({ l }) => l.kind === 'item' && l.name.trim().toLowerCase() === target);
+        const match = candidates.filter(({ i }) => i < index).pop() ?? candidates[0];
+        if (match) line.applies_to = match.l.id;
+    });
+
+    return lines;
+}
+
+// "Tax exempt", "Tax 10%"; null for standard-rate items
+export function describeTaxCategory(item: { tax_category?: TaxCategory | null; tax_rate?: number | null }): string | null {
+    if (item.tax_category === 'exempt') return 'Tax exempt';
+    if (item.tax_category === 'custom') return `Tax ${Number(item.tax_rate) || 0}%`;
+    return null;
+}
+
+// "$12.50" for items, "-$5.00" for discounts, in the bill's currency
+export function formatLineAmount(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    return formatMoney(amount, currency);
+}
@@ -0,0 +1,176 @@
+/**
+ * Checks scanned lines against the subtotal, tax and total printed on the receipt,
+ * and suggests one-tap fixes (add the missing amount, drop a doubled line, use the printed tax).
+ */
+
+import * as Crypto from 'expo-crypto';
+import { ScannedLine } from './receiptItems';
+import { fromCents, toCents } from './splitEngine';
+
+export type PrintedTotals = {
+    subtotal?: number | null;
+    tax?: number | null;
+    total?: number | null;
+    scannedTip?: number | null;
+};
+
+export type ReconcileFix =
+    | { type: 'add_line'; amount: number }
+    | { type: 'remove_line'; lineId: string }
+    | { type: 'set_tax'; amount: number };
+
+export type ReconcileIssue = {
+    id: 'subtotal' | 'total';
+    label: string;
+    printed: number;
+    scanned: number;
+    difference: number; // printed - scanned; positive = something is missing
+    fixes: Array<{ label: string; fix: ReconcileFix }>;
+};
+
+export type ReceiptReconciliation = {
+    itemSum: number; // items and discounts
+    feeSum: number;
+    tax: number;
+    tip: number;
+    printedSubtotal: number | null;
+    printedTotal: number | null;
+    issues: ReconcileIssue[];
+};
+
+// Receipts round each line, so a cent either way is not worth flagging
+const TOLERANCE_CENTS = 1;
+
+const printedCents = (value: number | null | undefined): number | null =>
+    value == null || !Number.isFinite(Number(value)) || Number(value) <= 0 ? null : toCents(Number(value));
+
+const sumCents = (lines: ScannedLine[]) => lines.reduce((sum, l) => sum + toCents(l.price), 0);
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Lines whose removal would close a gap of `extraCents`; a line printed twice is the likelier culprit
+function removalFixes(lines: ScannedLine[], extraCents: number): ReconcileIssue['fixes'] {
+    const matches = lines.filter(l => l.kind !== 'discount' && toCents(l.price) === extraCents);
+    const doubled = matches.filter(l =>
+        lines.some(other => other.id !== l.id && toCents(other.price) === extraCents && normalizeName(other.name) === normalizeName(l.name))
+    );
+    if (doubled.length > 0) {
+        const copy = doubled[doubled.length - 1];
+        return [{ label: `Remove the doubled "${copy.name || 'Untitled item'}"`, fix: { type: 'remove_line', lineId: copy.id } }];
+    }
+    return matches.slice(0, 3).map(l => ({
+        label: `Remove "${l.name || 'Untitled item'}"`,
+        fix: { type: 'remove_line', lineId: l.id } as ReconcileFix,
+    }));
+}
+
+export function reconcileReceipt(lines: ScannedLine[], tax: number, printed: PrintedTotals): ReceiptReconciliation {
+    const itemCents = sumCents(lines.filter(l => l.kind !== 'fee'));
+    const feeCents = sumCents(lines.filter(l => l.kind === 'fee'));
+    const taxCents = toCents(tax || 0);
+    const tipCents = toCents(Number(printed.scannedTip) || 0);
+    const subtotalCents = printedCents(printed.subtotal);
+    const totalCents = printedCents(printed.total);
+    const issues: ReconcileIssue[] = [];
+
+    // Some receipts print the subtotal with service charges already in it
+    const subtotalGap = subtotalCents == null
+        ? 0
+        : [subtotalCents - itemCents, subtotalCents - itemCents - feeCents]
+            .reduce((best, gap) => (Math.abs(gap) < Math.abs(best) ? gap : best));
+
+    if (Math.abs(subtotalGap) > TOLERANCE_CENTS) {
+        issues.push({
+            id: 'subtotal',
+            label: subtotalGap > 0 ? 'Items add up to less than the subtotal' : 'Items add up to more than the subtotal',
+            printed: fromCents(subtotalCents!),
+            scanned: fromCents(subtotalCents! - subtotalGap),
+            difference: fromCents(subtotalGap),
+            fixes: subtotalGap > 0
+                ? [{ label: 'Add the missing amount as an item', fix: { type: 'add_line', amount: fromCents(subtotalGap) } }]
+                : removalFixes(lines, -subtotalGap),
+        });
+    }
+
+    // Only check the total once the items are right, otherwise the same gap shows up twice.
+    // A tip written on the receipt may or may not be in the printed total.
+    if (totalCents != null && issues.length === 0) {
+        const withoutTip = itemCents + feeCents + taxCents;
+        const totalGap = [totalCents - withoutTip, totalCents - withoutTip - tipCents]
+            .reduce((best, gap) => (Math.abs(gap) < Math.abs(best) ? gap : best));
+
+        if (Math.abs(totalGap) > TOLERANCE_CENTS) {
+            const fixes: ReconcileIssue['fixes'] = [];
+            const impliedTaxCents = taxCents + totalGap;
+            if (impliedTaxCents >= 0) {
+                fixes.push({
+                    label: 'Set tax to match the total',
+                    fix: { type: 'set_tax', amount: fromCents(impliedTaxCents) },
+                });
+            }
+            // With a printed subtotal the items are already confirmed, so only the tax can be off
+            if (subtotalCents == null) {
+                fixes.push(...(totalGap > 0
+                    ? [{ label: 'Add the missing amount as an item', fix: { type: 'add_line', amount: fromCents(totalGap) } as ReconcileFix }]
+                    : removalFixes(lines, -totalGap)));
+            }
+            issues.push({
+                id: 'total',
+                label: totalGap > 0 ? 'Bill adds up to less than the printed total' : 'Bill adds up to more than the printed total',
+                printed: fromCents(totalCents),
+                scanned: fromCents(totalCents - totalGap),
+                difference: fromCents(totalGap),
+                fixes,
+            });
+        }
+    }
+
+    return {
+        itemSum: fromCents(itemCents),
+        feeSum: fromCents(feeCents),
+        tax: fromCents(taxCents),
+        tip: fromCents(tipCents),
+        printedSubtotal: subtotalCents == null ? null : fromCents(subtotalCents),
+        printedTotal: totalCents == null ? null : fromCents(totalCents),
+        issues,
+    };
+}
+
+export function applyReconcileFix(
+    lines: ScannedLine[],
+    tax: number,
+    fix: ReconcileFix
+): { lines: ScannedLine[]; tax: number } {
+    switch (fix.type) {
+        case 'add_line':
+            return {
+                lines: [
+                    ...lines,
+                    {
+                        id: Crypto.randomUUID(),
+                        name: 'Missing item',
+                        price: fix.amount,
+                        quantity: 1,
+                        kind: 'item',
+                        applies_to: null,
+                        fee_type: null,
+                        fee_allocation: 'proportional',
+                        tax_category: 'standard',
+                        tax_rate: null,
+                        confidence: null,
+                    },
+                ],
+                tax,
+            };
+        case 'remove_line':
+            // Discounts pointing at the removed line would otherwise dangle
+            return {
+                lines: lines
+                    .filter(l => l.id !== fix.lineId)
+                    .map(l => (l.applies_to === fix.lineId ? { ...l, applies_to: null } : l)),
+                tax,
+            };
+        case 'set_tax':
+            return { lines, tax: fix.amount };
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * What a receipt scan returns, whichever scanner produced it (the backend or the
+ * recorded fixtures), and how a raw /api/v1/scan body is read into it.
+ * No React Native or Supabase imports, so Node scripts like test_frontend.ts can load it.
+ */
+
+import { ItemConfidence, TotalsConfidence } from '../types';
+
+export type ScannedItem = {
+    name: string;
+    price: number;
+    quantity?: number;
+    kind?: string;
+    applies_to?: string | null;
+    fee_type?: string | null;
+    tax_category?: string;
+    confidence: ItemConfidence | null;
+};
+
+export type ScanResponse = {
+    merchant?: string | null;
+    date?: string | null;
+    items: ScannedItem[];
+    subtotal?: number | null;
+    tax?: number | null;
+    total?: number | null;
+    scannedTip?: number | null;
+    confidence: TotalsConfidence; // all null when the backend predates confidence scores
+};
+
+export type ScanStage = 'uploading' | 'analyzing' | 'structuring';
+
+export type ScanOptions = {
+    signal?: AbortSignal; // aborting stops the request and cancels the backend job
+    onStage?: (stage: ScanStage) => void;
+};
+
+export const SCAN_CANCELED_MESSAGE = 'Scan canceled';
+
+export function isScanCanceled(error: any): boolean {
+    return error?.message === SCAN_CANCELED_MESSAGE;
+}
+
+const readConfidence = (value: unknown): number | null => {
+    const n = Number(value);
+    return value == null || !Number.isFinite(n) ? null : Math.min(1, Math.max(0, n));
+};
+
+export function normalizeItemConfidence(raw: any): ItemConfidence | null {
+    if (!raw || typeof raw !== 'object') return null;
+    return { name: readConfidence(raw.name), price: readConfidence(raw.price) };
+}
+
+export function normalizeTotalsConfidence(raw: any): TotalsConfidence {
+    return {
+        subtotal: readConfidence(raw?.subtotal),
+        tax: readConfidence(raw?.tax),
+        total: readConfidence(raw?.total),
+        scannedTip: readConfidence(raw?.scannedTip ?? raw?.scanned_tip),
+    };
+}
+
+// Normalizes a /api/v1/scan body; also used for recorded fixture responses
+export const readScanResponse = (data: any): ScanResponse => ({
+    ...data,
+    items: (data?.items || []).map((item: any) => ({ ...item, confidence: normalizeItemConfidence(item.confidence) })),
+    confidence: normalizeTotalsConfidence(data?.confidence),
+});
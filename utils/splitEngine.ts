@@ -0,0 +1,546 @@
+/**
+ * Cent-exact split engine shared by every bill screen.
+ * All math runs in integer cents; leftover cents are handed out with the
+ * largest-remainder method so per-person shares always add up to the bill.
+ * Currencies without cents (JPY) are allocated in whole minor units, so every
+ * share is a whole amount of that currency.
+ */
+
+import { BillItem, BillLineKind, FeeAllocation, ItemSplit, ItemSplitMode, ParticipantTreat, TaxCategory, TipBase } from '../types';
+
+export type SplitLine = {
+    id: string;
+    amount: number; // line total in dollars
+    assigneeIds: string[]; // bill_participants.id — a repeated id counts as an extra share
+    weights?: Record<string, number> | null; // uneven split; overrides the repeated-id count
+    quantity?: number; // units on the line (defaults to 1)
+    unitClaims?: Record<string, number> | null; // units claimed per person; unclaimed units stay open
+    kind?: BillLineKind; // 'discount' lines come off their target; 'fee' lines sit outside the subtotal
+    appliesTo?: string | null; // discount target line id; null/undefined = whole bill
+    feeAllocation?: FeeAllocation; // fee lines only; 'assigned' uses assigneeIds
+    taxRate?: number | null; // percent; null/undefined = the bill's standard rate
+};
+
+export type SplitInput = {
+    participantIds: string[];
+    lines: SplitLine[];
+    tax: number; // tax printed on the receipt
+    tip: number;
+    // Standard rate in percent; when unset it is inferred so the itemized tax matches the receipt
+    taxRate?: number | null;
+    // Per-person tip in percent of each person's own base; replaces the shared tip when set
+    tipPercentages?: Record<string, number> | null;
+    tipBase?: TipBase; // base for tipPercentages; defaults to 'pre-tax'
+    // Treated participant id → who covers their whole share; a treated person can't cover anyone else
+    treats?: Record<string, ParticipantTreat> | null;
+    // 'split-equally' spreads unclaimed lines over everyone; 'leave' reports them as unassignedCents
+    unassigned?: 'split-equally' | 'leave';
+    decimals?: number; // the bill currency's minor-unit digits (currencyDecimals); defaults to 2
+};
+
+export type ShareBreakdown = {
+    items: number;
+    fees: number;
+    tax: number;
+    tip: number;
+    covered: number; // cents paid for treated people (positive) or covered by others (negative)
+    total: number;
+};
+
+export type SplitResult = {
+    shares: Record<string, number>; // dollars, already rounded to the cent
+    shareCents: Record<string, number>;
+    breakdownCents: Record<string, ShareBreakdown>;
+    unassignedCents: number;
+    subtotalCents: number;
+    feeCents: number;
+    taxCents: number; // itemized tax when any line has its own rate, otherwise the receipt tax
+    scannedTaxCents: number;
+    standardTaxRate: number | null; // percent, explicit or inferred; null when nothing is taxed at it
+    tipCents: number;
+    totalCents: number;
+    coveredCents: Record<string, Record<string, number>>; // treated id → payer id → cents
+};
+
+export type AllocationWeight = {
+    id: string;
+    weight: number;
+};
+
+const UNASSIGNED_KEY = '__unassigned__';
+
+export function toCents(amount: number): number {
+    const value = Number(amount);
+    if (!Number.isFinite(value)) return 0;
+    return Math.round(value * 100);
+}
+
+export function fromCents(cents: number): number {
+    return cents / 100;
+}
+
+// Cents in one minor unit of a currency with this many decimals: 1 for USD, 100 for JPY
+export function minorUnitCents(decimals: number = 2): number {
+    return 10 ** Math.max(0, 2 - Math.floor(Number(decimals)));
+}
+
+// Rounds to the currency's minor unit: cents by default, whole yen with decimals = 0
+export function roundToCents(amount: number, decimals: number = 2): number {
+    const step = minorUnitCents(decimals);
+    return fromCents(Math.round(toCents(amount) / step) * step);
+}
+
+// Reads the assignee list off a bill_items row (assigned_ids wins over the legacy assigned_to)
+export function parseAssigneeIds(item: {
+    assigned_ids?: string | null;
+    assigned_to?: string | null;
+}): string[] {
+    if (item.assigned_ids) return item.assigned_ids.split(',').filter(Boolean);
+    return item.assigned_to ? [item.assigned_to] : [];
+}
+
+/**
+ * Splits totalCents across the given weights with the largest-remainder method.
+ * Duplicate ids are merged, ties go to whichever id appears first, and if every
+ * weight is zero the amount is split equally. With step > 1 (see minorUnitCents)
+ * every part is a multiple of step.
+ */
+export function allocateCents(
+    totalCents: number,
+    weights: AllocationWeight[],
+    step: number = 1,
+): Record<string, number> {
+    if (step > 1) {
+        const units = allocateCents(Math.round(totalCents / step), weights);
+        Object.keys(units).forEach((id) => { units[id] *= step; });
+        return units;
+    }
+
+    const merged: AllocationWeight[] = [];
+    weights.forEach((w) => {
+        const existing = merged.find((m) => m.id === w.id);
+        const weight = Math.max(0, Number(w.weight) || 0);
+        if (existing) existing.weight += weight;
+        else merged.push({ id: w.id, weight });
+    });
+
+    const result: Record<string, number> = {};
+    merged.forEach((w) => { result[w.id] = 0; });
+    if (merged.length === 0 || totalCents === 0) return result;
+
+    let weightSum = merged.reduce((sum, w) => sum + w.weight, 0);
+    const effective = weightSum > 0
+        ? merged
+        : merged.map((w) => ({ id: w.id, weight: 1 }));
+    if (weightSum <= 0) weightSum = effective.length;
+
+    const sign = totalCents < 0 ? -1 : 1;
+    const absTotal = Math.abs(Math.round(totalCents));
+
+    const quotas = effective.map((w, index) => {
+        const exact = (absTotal * w.weight) / weightSum;
+        const base = Math.floor(exact + 1e-9);
+        return { id: w.id, base, remainder: exact - base, index };
+    });
+
+    let leftover = absTotal - quotas.reduce((sum, q) => sum + q.base, 0);
+    const byRemainder = [...quotas].sort(
+        (a, b) => b.remainder - a.remainder || a.index - b.index,
+    );
+    for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length) {
+        byRemainder[i].base += 1;
+        leftover -= 1;
+    }
+    for (let i = byRemainder.length - 1; leftover < 0; i = (i - 1 + byRemainder.length) % byRemainder.length) {
+        if (byRemainder[i].base > 0) {
+            byRemainder[i].base -= 1;
+            leftover += 1;
+        }
+    }
+
+    quotas.forEach((q) => { result[q.id] = sign * q.base; });
+    return result;
+}
+
+export function unitsClaimed(claims: Record<string, number> | null | undefined): number {
+    if (!claims) return 0;
+    return Object.values(claims).reduce((sum, units) => sum + Math.max(0, Math.floor(Number(units) || 0)), 0);
+}
+
+export function unitsRemaining(quantity: number, claims: Record<string, number> | null | undefined): number {
+    return Math.max(0, (Math.floor(Number(quantity)) || 1) - unitsClaimed(claims));
+}
+
+function lineWeights(line: SplitLine, assignees: string[]): AllocationWeight[] {
+    const weights = line.weights;
+    const hasWeights = !!weights && assignees.some((id) => (Number(weights[id]) || 0) > 0);
+    if (!hasWeights) return assignees.map((id) => ({ id, weight: 1 }));
+    return Array.from(new Set(assignees)).map((id) => ({
+        id,
+        weight: Number(weights![id]) || 0,
+    }));
+}
+
+// Splits one regular line; cents nobody has claimed are returned under UNASSIGNED_KEY
+function allocateLine(
+    line: SplitLine,
+    lineCents: number,
+    participantIds: string[],
+    known: Set<string>,
+    unassignedMode: 'split-equally' | 'leave',
+    step: number,
+): Record<string, number> {
+    const result: Record<string, number> = {};
+    let openCents = lineCents;
+    let openLine = line;
+
+    // Claimed units are priced at line price / quantity; whatever is left is handled like an unclaimed line
+    if (line.unitClaims) {
+        const quantity = Math.max(1, Math.floor(Number(line.quantity) || 1));
+        const claimWeights: AllocationWeight[] = Object.entries(line.unitClaims)
+            .filter(([id]) => known.has(id))
+            .map(([id, units]) => ({ id, weight: Math.max(0, Math.floor(Number(units) || 0)) }));
+        const claimed = claimWeights.reduce((sum, w) => sum + w.weight, 0);
+        if (claimed > 0) {
+            const allocation = allocateCents(lineCents, [
+                ...claimWeights,
+                { id: UNASSIGNED_KEY, weight: Math.max(0, quantity - claimed) },
+            ], step);
+            claimWeights.forEach((w) => { result[w.id] = allocation[w.id] || 0; });
+            openCents = allocation[UNASSIGNED_KEY] || 0;
+            if (openCents === 0) return result;
+            openLine = { ...line, assigneeIds: [], weights: null };
+        }
+    }
+
+    let assignees = openLine.assigneeIds.filter((id) => known.has(id));
+    if (assignees.length === 0) {
+        if (unassignedMode === 'leave' || participantIds.length === 0) {
+            result[UNASSIGNED_KEY] = openCents;
+            return result;
+        }
+        assignees = participantIds;
+    }
+
+    const allocation = allocateCents(openCents, lineWeights(openLine, assignees), step);
+    Object.entries(allocation).forEach(([id, cents]) => {
+        result[id] = (result[id] || 0) + cents;
+    });
+    return result;
+}
+
+export function computeSplit(input: SplitInput): SplitResult {
+    const { participantIds, lines } = input;
+    const unassignedMode = input.unassigned ?? 'split-equally';
+    const known = new Set(participantIds);
+    const step = minorUnitCents(input.decimals);
+    const toUnits = (amount: number) => Math.round(toCents(amount) / step) * step;
+
+    const itemCents: Record<string, number> = {};
+    participantIds.forEach((id) => { itemCents[id] = 0; });
+    let unassignedItemCents = 0;
+    let subtotalCents = 0;
+
+    // What each person owes tax on: cents taxed at the standard rate, plus exact tax from custom-rate lines
+    const standardCents: Record<string, number> = {};
+    const customTaxCents: Record<string, number> = {};
+    const addAllocation = (allocation: Record<string, number>, taxRate: number | null | undefined) => {
+        Object.entries(allocation).forEach(([id, cents]) => {
+            if (id === UNASSIGNED_KEY) unassignedItemCents += cents;
+            else itemCents[id] += cents;
+            if (taxRate == null) standardCents[id] = (standardCents[id] || 0) + cents;
+            else customTaxCents[id] = (customTaxCents[id] || 0) + (cents * taxRate) / 100;
+        });
+    };
+
+    // Who ends up paying for each regular line; item-level discounts follow the same split
+    const lineAllocations: Record<string, Record<string, number>> = {};
+    lines.filter((line) => (line.kind ?? 'item') === 'item').forEach((line) => {
+        const lineCents = toUnits(line.amount);
+        subtotalCents += lineCents;
+        const allocation = allocateLine(line, lineCents, participantIds, known, unassignedMode, step);
+        lineAllocations[line.id] = allocation;
+        addAllocation(allocation, line.taxRate);
+    });
+
+    // Bill-level discounts are shared out by each person's share of the subtotal
+    const billBase: Record<string, number> = { ...itemCents, [UNASSIGNED_KEY]: unassignedItemCents };
+    lines.filter((line) => line.kind === 'discount').forEach((line) => {
+        const discountCents = -Math.abs(toUnits(line.amount));
+        subtotalCents += discountCents;
+
+        const target = line.appliesTo && lineAllocations[line.appliesTo]
+            ? lines.find((l) => l.id === line.appliesTo)
+            : undefined;
+        const base = (target && lineAllocations[target.id]) || billBase;
+        let weights: AllocationWeight[] = Object.entries(base)
+            .map(([id, cents]) => ({ id, weight: Math.max(0, cents) }))
+            .filter((w) => w.weight > 0);
+        if (weights.length === 0) {
+            weights = unassignedMode === 'leave' || participantIds.length === 0
+                ? [{ id: UNASSIGNED_KEY, weight: 1 }]
+                : participantIds.map((id) => ({ id, weight: 1 }));
+        }
+        // An item discount is taxed like its item; a bill-level one comes off the standard-rate base
+        addAllocation(allocateCents(discountCents, weights, step), target?.taxRate);
+    });
+
+    // Tax, tip and proportional fees follow each person's share of the subtotal; unclaimed lines keep their own slice
+    const proportionalWeights: AllocationWeight[] = participantIds.map((id) => ({
+        id,
+        weight: Math.max(0, itemCents[id]),
+    }));
+    if (unassignedItemCents > 0) {
+        proportionalWeights.push({ id: UNASSIGNED_KEY, weight: unassignedItemCents });
+    }
+    const hasProportionalBase = proportionalWeights.some((w) => w.weight > 0);
+    const extraWeights = hasProportionalBase
+        ? proportionalWeights
+        : participantIds.map((id) => ({ id, weight: 1 }));
+
+    const feeShares: Record<string, number> = {};
+    let feeCents = 0;
+    lines.filter((line) => line.kind === 'fee').forEach((line) => {
+        const lineCents = toUnits(line.amount);
+        feeCents += lineCents;
+
+        let weights = extraWeights;
+        if (line.feeAllocation === 'equal' && participantIds.length > 0) {
+            weights = participantIds.map((id) => ({ id, weight: 1 }));
+        } else if (line.feeAllocation === 'assigned') {
+            const assignees = line.assigneeIds.filter((id) => known.has(id));
+            if (assignees.length > 0) weights = lineWeights(line, assignees);
+        }
+        Object.entries(allocateCents(lineCents, weights, step)).forEach(([id, cents]) => {
+            feeShares[id] = (feeShares[id] || 0) + cents;
+        });
+    });
+
+    // Itemized tax: each person pays tax on what they claimed, at each line's rate
+    const scannedTaxCents = toUnits(input.tax);
+    const taxIds = [...participantIds, UNASSIGNED_KEY];
+    const standardBase = taxIds.reduce((sum, id) => sum + (standardCents[id] || 0), 0);
+    const customTaxTotal = taxIds.reduce((sum, id) => sum + (customTaxCents[id] || 0), 0);
+    const explicitRate = input.taxRate != null && Number.isFinite(Number(input.taxRate))
+        ? Math.max(0, Number(input.taxRate))
+        : null;
+    let standardRate: number | null = explicitRate;
+    if (standardRate == null && standardBase > 0) {
+        standardRate = (Math.max(0, scannedTaxCents - customTaxTotal) / standardBase) * 100;
+    }
+
+    const itemized = explicitRate != null
+        || lines.some((line) => (line.kind ?? 'item') === 'item' && line.taxRate != null);
+    let taxCents = scannedTaxCents;
+    let taxWeights = extraWeights;
+    if (itemized) {
+        const rate = (standardRate ?? 0) / 100;
+        taxCents = Math.max(0, Math.round((customTaxTotal + standardBase * rate) / step) * step);
+        const weights = taxIds.map((id) => ({
+            id,
+            weight: Math.max(0, (standardCents[id] || 0) * rate + (customTaxCents[id] || 0)),
+        }));
+        if (weights.some((w) => w.weight > 0)) taxWeights = weights;
+    }
+
+    const taxAllocation = allocateCents(taxCents, taxWeights, step);
+
+    // Either one tip shared by subtotal, or everyone tipping their own percentage on their own share
+    let tipCents = toUnits(input.tip);
+    let tipAllocation = allocateCents(tipCents, extraWeights, step);
+    if (input.tipPercentages) {
+        const rates = input.tipPercentages;
+        tipAllocation = {};
+        participantIds.forEach((id) => {
+            const base = Math.max(0, itemCents[id] || 0)
+                + (input.tipBase === 'post-tax' ? taxAllocation[id] || 0 : 0);
+            tipAllocation[id] = Math.round((base * Math.max(0, Number(rates[id]) || 0)) / 100 / step) * step;
+        });
+        tipCents = participantIds.reduce((sum, id) => sum + tipAllocation[id], 0);
+    }
+
+    const ownCents: Record<string, number> = {};
+    participantIds.forEach((id) => {
+        ownCents[id] = (itemCents[id] || 0) + (feeShares[id] || 0) + (taxAllocation[id] || 0) + (tipAllocation[id] || 0);
+    });
+
+    // Treats: a covered person's whole share moves onto the people paying for them
+    const treats = input.treats || {};
+    const coveredCents: Record<string, Record<string, number>> = {};
+    const coveredDelta: Record<string, number> = {};
+    Object.entries(treats).forEach(([treatedId, treat]) => {
+        const amount = ownCents[treatedId] || 0;
+        const payers = Array.from(new Set(treat.coveredBy))
+            .filter((id) => known.has(id) && id !== treatedId && !treats[id]);
+        if (!known.has(treatedId) || payers.length === 0 || amount <= 0) return;
+        const allocation = allocateCents(amount, payers.map((id) => ({
+            id,
+            weight: treat.mode === 'proportional' ? Math.max(0, ownCents[id]) : 1,
+        })), step);
+        coveredCents[treatedId] = allocation;
+        coveredDelta[treatedId] = (coveredDelta[treatedId] || 0) - amount;
+        payers.forEach((id) => { coveredDelta[id] = (coveredDelta[id] || 0) + (allocation[id] || 0); });
+    });
+
+    const shares: Record<string, number> = {};
+    const shareCents: Record<string, number> = {};
+    const breakdownCents: Record<string, ShareBreakdown> = {};
+    participantIds.forEach((id) => {
+        const items = itemCents[id] || 0;
+        const fees = feeShares[id] || 0;
+        const tax = taxAllocation[id] || 0;
+        const tip = tipAllocation[id] || 0;
+        const covered = coveredDelta[id] || 0;
+        const total = ownCents[id] + covered;
+        breakdownCents[id] = { items, fees, tax, tip, covered, total };
+        shareCents[id] = total;
+        shares[id] = fromCents(total);
+    });
+
+    const unassignedCents = unassignedItemCents
+        + (feeShares[UNASSIGNED_KEY] || 0)
+        + (taxAllocation[UNASSIGNED_KEY] || 0)
+        + (tipAllocation[UNASSIGNED_KEY] || 0);
+
+    return {
+        shares,
+        shareCents,
+        breakdownCents,
+        unassignedCents,
+        subtotalCents,
+        feeCents,
+        taxCents,
+        scannedTaxCents,
+        standardTaxRate: standardRate,
+        tipCents,
+        totalCents: subtotalCents + feeCents + taxCents + tipCents,
+        coveredCents,
+    };
+}
+
+export type Transfer = {
+    from: string; // debtor bill_participants.id
+    to: string; // creditor bill_participants.id
+    cents: number;
+};
+
+/**
+ * Settles a bill paid by several people with as few transfers as possible.
+ * What each payer put down is scaled so payments cover the shares exactly,
+ * then the biggest debtor repays the biggest creditor until everyone is even.
+ */
+export function settleTransfers(
+    shareCents: Record<string, number>,
+    paidWeights: AllocationWeight[],
+    step: number = 1, // minorUnitCents of the bill's currency
+): Transfer[] {
+    const totalCents = Object.values(shareCents).reduce((sum, cents) => sum + cents, 0);
+    const paidCents = allocateCents(totalCents, paidWeights, step);
+    const ids = Array.from(new Set([...Object.keys(shareCents), ...Object.keys(paidCents)]));
+    const balances = ids
+        .map((id) => ({ id, cents: (paidCents[id] || 0) - (shareCents[id] || 0) }))
+        .filter((b) => b.cents !== 0);
+
+    const creditors = balances.filter((b) => b.cents > 0);
+    const debtors = balances.filter((b) => b.cents < 0).map((b) => ({ id: b.id, cents: -b.cents }));
+    const transfers: Transfer[] = [];
+    while (creditors.length > 0 && debtors.length > 0) {
+        creditors.sort((a, b) => b.cents - a.cents);
+        debtors.sort((a, b) => b.cents - a.cents);
+        const creditor = creditors[0];
+        const debtor = debtors[0];
+        const cents = Math.min(creditor.cents, debtor.cents);
+        transfers.push({ from: debtor.id, to: creditor.id, cents });
+        creditor.cents -= cents;
+        debtor.cents -= cents;
+        if (creditor.cents === 0) creditors.shift();
+        if (debtor.cents === 0) debtors.shift();
+    }
+    return transfers;
+}
+
+// Adapter for the { items, assignments } shape stored in bills.details
+export function linesFromAssignments(
+    items: Array<{
+        id: string;
+        price: number;
+        quantity?: number;
+        kind?: BillLineKind;
+        applies_to?: string | null;
+        fee_allocation?: FeeAllocation;
+        tax_category?: TaxCategory | null;
+        tax_rate?: number | null;
+    }>,
+    assignments: Record<string, string[]>,
+    itemSplits: Record<string, ItemSplit> = {},
+): SplitLine[] {
+    return items.map((item) => {
+        const split = itemSplits[item.id];
+        const isUnits = split?.mode === 'units';
+        return {
+            id: item.id,
+            amount: Number(item.price) || 0,
+            assigneeIds: assignments[item.id] || [],
+            weights: split && !isUnits ? split.weights : null,
+            quantity: Number(item.quantity) || 1,
+            unitClaims: isUnits ? split.weights : null,
+            kind: item.kind ?? 'item',
+            appliesTo: item.applies_to ?? null,
+            feeAllocation: item.fee_allocation,
+            taxRate: lineTaxRate(item),
+        };
+    });
+}
+
+// Tax rate (percent) for a bill_items row; null means the bill's standard rate
+export function lineTaxRate(item: {
+    tax_category?: TaxCategory | null;
+    tax_rate?: number | null;
+}): number | null {
+    if (item.tax_category === 'exempt') return 0;
+    if (item.tax_category === 'custom') return Math.max(0, Number(item.tax_rate) || 0);
+    return null;
+}
+
+// Adapter for bill_items rows (assignees, uneven splits and unit claims live on the row itself)
+export function linesFromBillItems(billItems: BillItem[]): SplitLine[] {
+    return billItems.map((item) => {
+        // bill_items.price is the line total; unit claims price each unit at price / quantity
+        const split = parseItemSplit(item);
+        const isUnits = split?.mode === 'units';
+        return {
+            id: item.id,
+            amount: item.price,
+            assigneeIds: parseAssigneeIds(item),
+            weights: split && !isUnits ? split.weights : null,
+            quantity: item.quantity,
+            unitClaims: isUnits ? split.weights : null,
+            kind: item.kind ?? 'item',
+            appliesTo: item.applies_to ?? null,
+            feeAllocation: item.fee_allocation,
+            taxRate: lineTaxRate(item),
+        };
+    });
+}
+
+// Reads the uneven split off a bill_items row, if it has one
+export function parseItemSplit(item: {
+    split_mode?: ItemSplitMode | null;
+    split_weights?: Record<string, number> | null;
+}): ItemSplit | null {
+    if (!item.split_mode || item.split_mode === 'equal' || !item.split_weights) return null;
+    return { mode: item.split_mode, weights: item.split_weights };
+}
+
+// Short label for an item card, e.g. "2 : 1 shares", "60% / 40%" or "3 units claimed"
+export function describeItemSplit(split: ItemSplit, assigneeIds: string[]): string {
+    if (split.mode === 'units') {
+        const claimed = unitsClaimed(split.weights);
+        return `${claimed} unit${claimed === 1 ? '' : 's'} claimed`;
+    }
+    const values = Array.from(new Set(assigneeIds))
+        .map((id) => Number(split.weights[id]) || 0)
+        .filter((w) => w > 0);
+    if (split.mode === 'percent') return values.map((w) => `${w}%`).join(' / ');
+    return `${values.join(' : ')} shares`;
+}
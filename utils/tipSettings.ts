@@ -0,0 +1,44 @@
+/**
+ * Reads and describes the tip choice saved in bills.details.tipSettings,
+ * so the payment and history screens can show how the tip was worked out.
+ */
+
+import { TipBase, TipSettings } from '../types';
+
+const TIP_BASE_LABELS: Record<TipBase, string> = {
+    'pre-tax': 'pre-tax subtotal',
+    'post-tax': 'subtotal + tax',
+};
+
+// Older bills only stored details.tip (and sometimes details.tip_base); treat those as a custom amount
+export function readTipSettings(details: Record<string, any> | null | undefined): TipSettings | null {
+    if (!details) return null;
+    const saved = details.tipSettings;
+    if (saved && typeof saved === 'object' && saved.mode) {
+        return {
+            mode: saved.mode,
+            percentage: saved.percentage ?? null,
+            base: saved.base === 'post-tax' ? 'post-tax' : 'pre-tax',
+            amount: Number(saved.amount ?? details.tip) || 0,
+        };
+    }
+    const amount = Number(details.tip) || 0;
+    if (amount <= 0) return null;
+    return {
+        mode: 'custom',
+        percentage: null,
+        base: details.tip_base === 'post-tax' ? 'post-tax' : 'pre-tax',
+        amount,
+    };
+}
+
+// "18% on pre-tax subtotal", "Custom amount", "Individual tips on subtotal + tax" or "No tip"
+export function describeTipSettings(settings: TipSettings | null | undefined): string | null {
+    if (!settings) return null;
+    if (settings.mode === 'individual') return `Individual tips on ${TIP_BASE_LABELS[settings.base]}`;
+    if (settings.mode === 'none' || settings.amount <= 0) return 'No tip';
+    if (settings.mode === 'percentage' && settings.percentage != null) {
+        return `${Math.round(settings.percentage * 1000) / 10}% on ${TIP_BASE_LABELS[settings.base]}`;
+    }
+    return 'Custom amount';
+}
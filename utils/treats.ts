@@ -0,0 +1,36 @@
+/**
+ * Reads the treats saved in bills.details.treats (who is covering whose share)
+ * and turns them into the "Covered by Alex" labels on the payment and receipt screens.
+ */
+
+import { ParticipantTreat } from '../types';
+
+export function readTreats(details: Record<string, any> | null | undefined): Record<string, ParticipantTreat> {
+    const saved = details?.treats;
+    if (!saved || typeof saved !== 'object') return {};
+    const treats: Record<string, ParticipantTreat> = {};
+    Object.entries(saved).forEach(([treatedId, treat]: [string, any]) => {
+        const coveredBy = Array.isArray(treat?.coveredBy) ? treat.coveredBy.filter(Boolean) : [];
+        if (coveredBy.length === 0) return;
+        treats[treatedId] = { coveredBy, mode: treat.mode === 'proportional' ? 'proportional' : 'equal' };
+    });
+    return treats;
+}
+
+// "Alex", "Alex & Sam", "Alex, Sam & Jo"
+export function joinNames(names: string[]): string {
+    if (names.length <= 1) return names[0] || '';
+    return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+// "Covered by Alex & Sam"; null when nobody known is covering
+export function describeTreat(
+    treat: ParticipantTreat | null | undefined,
+    participants: Array<{ id: string; name: string }>,
+): string | null {
+    if (!treat) return null;
+    const names = treat.coveredBy
+        .map((id) => participants.find((p) => p.id === id)?.name)
+        .filter((name): name is string => !!name);
+    return names.length > 0 ? `Covered by ${joinNames(names)}` : null;
+}